@@ -0,0 +1,105 @@
+import { CouponType, MessPreference } from '../conversation/types.js';
+import { getMealSessions } from '../state/mealSessions.js';
+import { findMess, getActiveMessNames } from '../state/messRegistry.js';
+import { addDays, getLocalDate } from '../utils/time.js';
+import { CommandUsageError } from './commandBus.js';
+
+// Argument parsers shared by the commands; each throws CommandUsageError with a message meant for the user
+
+function findMeal(word: string | undefined): CouponType | null {
+  const lower = word?.toLowerCase();
+  return getMealSessions().find(s => s.name.toLowerCase() === lower || s.label.toLowerCase() === lower)?.name ?? null;
+}
+
+// "dinner" / "Dinner" -> the session name (matches the configured name or label)
+export function parseMeal(word: string | undefined): CouponType {
+  const meal = findMeal(word);
+  if (!meal) {
+    const names = getMealSessions().map(s => s.name).join(', ');
+    throw new CommandUsageError(word ? `Unknown meal "${word}". Meals: ${names}.` : `Which meal? (${names})`);
+  }
+  return meal;
+}
+
+// For optional meal arguments: a word that isn't a meal is left for the next argument
+export function isMealWord(word: string | undefined): boolean {
+  return findMeal(word) !== null;
+}
+
+export function parsePrice(word: string | undefined): number {
+  const price = /^₹?(\d+)$/.exec(word ?? '');
+  if (!price || parseInt(price[1], 10) <= 0) {
+    throw new CommandUsageError(word ? `"${word}" isn't a price. Use a whole number of rupees, e.g. 80.` : 'Missing the price.');
+  }
+  return parseInt(price[1], 10);
+}
+
+// "30m", "30", "2h", "1h30m" -> milliseconds (a bare number is minutes)
+export function parseDuration(word: string): number {
+  const match = /^(?:(\d+)h(?:rs?)?)?(?:(\d+)(?:m|mins?)?)?$/i.exec(word);
+  const minutes = match ? parseInt(match[1] ?? '0', 10) * 60 + parseInt(match[2] ?? '0', 10) : 0;
+  if (!match || minutes <= 0) {
+    throw new CommandUsageError(`"${word}" isn't a duration. Try 30m, 2h or 1h30m.`);
+  }
+  return minutes * 60 * 1000;
+}
+
+export function isDurationWord(word: string | undefined): boolean {
+  return !!word && /^\d/.test(word);
+}
+
+// YYYY-MM-DD that names a real day (Date would roll 2026-02-31 over into March)
+function isCalendarDate(word: string): boolean {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(word);
+  if (!match) return false;
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+// "today", "tomorrow" or YYYY-MM-DD -> a calendar date that isn't in the past
+export function parseDate(word: string): string {
+  const today = getLocalDate();
+  const lower = word.toLowerCase();
+  const date = lower === 'today' ? today
+    : lower === 'tomorrow' ? addDays(today, 1)
+    : isCalendarDate(word) ? word
+    : null;
+  if (!date) {
+    throw new CommandUsageError(`"${word}" isn't a date. Use today, tomorrow or YYYY-MM-DD.`);
+  }
+  if (date < today) {
+    throw new CommandUsageError(`${date} is already over.`);
+  }
+  return date;
+}
+
+export function isDateWord(word: string | undefined): boolean {
+  return !!word && /^(today|tomorrow|\d{4}-\d{2}-\d{2})$/i.test(word);
+}
+
+/**
+ * "firstman:80, sgr" -> ranked preference ("any" = no preference)
+ * Messes are separated by commas or ">" and may have a max price after a colon; names and aliases both work
+ */
+export function parseMessPreference(text: string): MessPreference {
+  if (/^(any|0)$/i.test(text.trim())) {
+    return null;
+  }
+
+  const preference: NonNullable<MessPreference> = [];
+  for (const part of text.split(/[,>]/).map(p => p.trim()).filter(Boolean)) {
+    const [name, price] = part.split(':').map(p => p.trim());
+    const mess = findMess(name);
+    if (!mess) {
+      throw new CommandUsageError(`Unknown mess "${name}". Messes: ${getActiveMessNames().join(', ')}.`);
+    }
+    if (preference.some(c => c.mess === mess.name)) continue;
+    preference.push(price !== undefined ? { mess: mess.name, maxPrice: parsePrice(price) } : { mess: mess.name });
+  }
+
+  if (preference.length === 0) {
+    throw new CommandUsageError('Name at least one mess, or "any".');
+  }
+  return preference;
+}
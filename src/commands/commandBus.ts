@@ -0,0 +1,180 @@
+import { logger } from '../utils/logger.js';
+
+// Where a command was typed
+export type CommandChannel = 'whatsapp' | 'terminal' | 'dashboard';
+
+const CHANNEL_LABELS: Record<CommandChannel, string> = {
+  whatsapp: 'WhatsApp self-chat',
+  terminal: 'terminal',
+  dashboard: 'dashboard'
+};
+
+/**
+ * What a command is allowed to touch. A caller holds a set of these (see CHANNEL_PERMISSIONS)
+ * - view: read-only (status, help)
+ * - control: sessions and preferences
+ * - payments: approve / decline purchases, mark payments
+ * - admin: the process itself (quit)
+ */
+export type CommandPermission = 'view' | 'control' | 'payments' | 'admin';
+
+// The owner is behind every channel, so each one gets everything it can use; the dashboard narrows this
+// per caller (an API token only holds the permissions it was created with)
+export const CHANNEL_PERMISSIONS: Record<CommandChannel, CommandPermission[]> = {
+  whatsapp: ['view', 'control', 'payments', 'admin'],
+  terminal: ['view', 'control', 'payments', 'admin'],
+  dashboard: ['view', 'control', 'payments', 'admin']
+};
+
+export interface CommandContext {
+  channel: CommandChannel;
+  permissions: CommandPermission[];
+}
+
+export interface CommandResult<TData = unknown> {
+  ok: boolean;
+  message: string; // Shown as-is: sent to the self-chat, printed in the terminal, returned to the dashboard
+  data?: TData;    // For the dashboard API
+}
+
+// Thrown by a command's parse() for bad arguments; the message is shown with the command's usage
+export class CommandUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommandUsageError';
+  }
+}
+
+export interface CommandDefinition<TArgs = void, TData = unknown> {
+  name: string;
+  aliases?: string[];
+  args?: string;          // Argument syntax for help, e.g. "<meal> [minutes]"
+  description: string;
+  permission: CommandPermission;
+  channels?: CommandChannel[]; // Only these front-ends may run it (default: all)
+  parse?: (args: string[]) => TArgs; // Turn the words after the name into typed arguments (throw CommandUsageError)
+  run: (args: TArgs, context: CommandContext) => CommandResult<TData> | Promise<CommandResult<TData>>;
+}
+
+// Registered definitions are stored type-erased; defineCommand() keeps each one checked against its own TArgs
+export type AnyCommand = CommandDefinition<any, unknown>;
+
+export function defineCommand<TArgs = void, TData = unknown>(command: CommandDefinition<TArgs, TData>): AnyCommand {
+  return command as AnyCommand;
+}
+
+// Split typed input into a lowercase command name and its arguments
+export function tokenizeCommand(input: string): { name: string; args: string[] } {
+  const [name = '', ...args] = input.trim().split(/\s+/);
+  return { name: name.toLowerCase(), args };
+}
+
+/**
+ * Registry behind the WhatsApp self-chat, the terminal and the dashboard
+ * Every front-end hands typed text (or a command name and arguments) to dispatch() and shows the
+ * result however it shows things, so a command registered once works in all three
+ */
+export class CommandBus {
+  private commands: AnyCommand[] = [];
+  private byName: Map<string, AnyCommand> = new Map();
+
+  register(...commands: AnyCommand[]): void {
+    for (const command of commands) {
+      for (const name of [command.name, ...(command.aliases ?? [])]) {
+        if (this.byName.has(name)) {
+          throw new Error(`Command name "${name}" is already registered`);
+        }
+        this.byName.set(name, command);
+      }
+      this.commands.push(command);
+    }
+  }
+
+  find(name: string): AnyCommand | undefined {
+    return this.byName.get(name.toLowerCase());
+  }
+
+  // Whether the text is a command (see dispatch)
+  isCommand(input: string): boolean {
+    return this.match(input) !== null;
+  }
+
+  // Run typed text; null when it isn't a command at all (so the caller can treat it as something else)
+  async dispatch(input: string, channel: CommandChannel): Promise<CommandResult | null> {
+    const matched = this.match(input);
+    if (!matched) {
+      return null;
+    }
+    return this.execute(matched.command.name, matched.args, channel);
+  }
+
+  // A command without arguments only matches on its own - "sent 70, check..." is a message, not "sent"
+  private match(input: string): { command: AnyCommand; args: string[] } | null {
+    const { name, args } = tokenizeCommand(input);
+    const command = this.byName.get(name);
+    if (!command || (!command.parse && args.length > 0)) {
+      return null;
+    }
+    return { command, args };
+  }
+
+  async execute(name: string, args: string[], channel: CommandChannel, permissions: CommandPermission[] = CHANNEL_PERMISSIONS[channel]): Promise<CommandResult> {
+    const command = this.find(name);
+    if (!command) {
+      return { ok: false, message: `Unknown command "${name}". Send "help" for the list.` };
+    }
+
+    if (command.channels && !command.channels.includes(channel)) {
+      return { ok: false, message: `"${command.name}" only works from the ${command.channels.map(c => CHANNEL_LABELS[c]).join(' / ')}.` };
+    }
+
+    const context: CommandContext = { channel, permissions: permissions.filter(p => CHANNEL_PERMISSIONS[channel].includes(p)) };
+    if (!context.permissions.includes(command.permission)) {
+      return { ok: false, message: `Not allowed to run "${command.name}" from the ${CHANNEL_LABELS[channel]} (needs "${command.permission}").` };
+    }
+
+    try {
+      const parsed = command.parse ? command.parse(args) : undefined;
+      const result = await command.run(parsed, context);
+      logger.info('Command run', { command: command.name, channel, ok: result.ok });
+      return result;
+    } catch (error) {
+      if (error instanceof CommandUsageError) {
+        return { ok: false, message: `${error.message}\nUsage: ${this.usage(command)}` };
+      }
+      logger.error('Command failed', { command: command.name, channel, error });
+      return { ok: false, message: `"${command.name}" failed - check the logs.` };
+    }
+  }
+
+  usage(command: AnyCommand): string {
+    return command.args ? `${command.name} ${command.args}` : command.name;
+  }
+
+  // Commands this channel can run, one per line
+  help(channel: CommandChannel, permissions?: CommandPermission[]): string {
+    const rows = this.available(channel, permissions).map(c => ({
+      names: [this.usage(c), ...(c.aliases ?? [])].join(' / '),
+      description: c.description
+    }));
+    const width = Math.max(...rows.map(r => r.names.length));
+    return rows.map(r => `  ${r.names.padEnd(width)}  - ${r.description}`).join('\n');
+  }
+
+  // For the dashboard: name, syntax and description of everything it can run
+  list(channel: CommandChannel, permissions?: CommandPermission[]): Array<{ name: string; aliases: string[]; usage: string; description: string; permission: CommandPermission }> {
+    return this.available(channel, permissions).map(c => ({
+      name: c.name,
+      aliases: c.aliases ?? [],
+      usage: this.usage(c),
+      description: c.description,
+      permission: c.permission
+    }));
+  }
+
+  private available(channel: CommandChannel, permissions: CommandPermission[] = CHANNEL_PERMISSIONS[channel]): AnyCommand[] {
+    return this.commands.filter(c =>
+      (!c.channels || c.channels.includes(channel)) && permissions.includes(c.permission) && CHANNEL_PERMISSIONS[channel].includes(c.permission)
+    );
+  }
+}
@@ -0,0 +1,536 @@
+import { Conversation, CouponType, MessPreference, USER_CANCELLED_REASON } from '../conversation/types.js';
+import { DailyTracker } from '../state/dailyTracker.js';
+import { getActiveMessNames } from '../state/messRegistry.js';
+import { getMealLabel } from '../state/mealSessions.js';
+import { addSkipDates } from '../state/weeklyPlan.js';
+import { getHistory, getStats } from '../state/history.js';
+import { addSellerToList, normalizeSellerId } from '../state/sellerLists.js';
+import { onTimer, scheduleTimer, cancelTimer } from '../state/timers.js';
+import { describeMessPreference } from '../utils/messPreference.js';
+import { getLocalDate, formatLocalTime } from '../utils/time.js';
+import { now } from '../utils/clock.js';
+import { AnyCommand, CommandBus, CommandChannel, CommandUsageError, defineCommand } from './commandBus.js';
+import {
+  parseMeal,
+  isMealWord,
+  parsePrice,
+  parseDuration,
+  isDurationWord,
+  parseDate,
+  isDateWord,
+  parseMessPreference
+} from './commandArgs.js';
+
+// Timer kind for "pause <meal> 30m" - keyed by session name, resumes it when it fires
+const SESSION_RESUME_TIMER = 'session_resume';
+
+// Longest history the "history" command shows (deals older than this are cleaned up anyway)
+const MAX_HISTORY_DAYS = 90;
+const HISTORY_LIST_LIMIT = 10;
+
+// One of the accounts running in this process, for the "account" command
+export interface AccountSummary {
+  id: string;
+  label: string;
+  loggedIn: boolean;  // WhatsApp is connected
+  terminal: boolean;  // The terminal is talking to this one
+}
+
+/**
+ * What the commands need from the running bot (MessCouponBot implements it in index.ts)
+ */
+export interface CommandHost {
+  readonly dailyTracker: DailyTracker; // Replaced on login, so always read through the host
+  getStatusReport: () => string;
+  answerPurchase: (approved: boolean, channel: CommandChannel) => Promise<boolean>; // false = nothing was waiting
+  answerPayment: (paid: boolean, channel: CommandChannel) => boolean;
+  awaitPreferenceReply: (type: CouponType) => void; // The next numeric self-chat message sets this session's preference
+  preferenceChanged: (type: CouponType) => void;  // Re-check posts skipped under the old preference
+  sessionResumed: (type: CouponType) => void;     // Catch up on posts missed while it was paused
+  isBotActive: () => boolean;
+  setBotActive: (active: boolean) => void;
+  getConversations: () => Conversation[];
+  cancelConversation: (conversationId: string, reason: string) => Promise<{ success: boolean; error?: string }>;
+  notify: (message: string) => void; // Tell the user something that didn't come from a command (self-chat)
+  saveState: () => void;
+  listAccounts: () => AccountSummary[];
+  selectAccount: (accountId: string) => boolean; // Point the terminal at another account; false = no such account
+  shutdown: () => void;
+}
+
+function isOpen(conversation: Conversation): boolean {
+  return conversation.state !== 'COMPLETED' && conversation.state !== 'FAILED';
+}
+
+/**
+ * Sellers matching a name (or part of one) or a phone number, one per seller
+ * An exact name match wins over partial ones, so "Ravi" still finds Ravi when "Ravi Kumar" also sold to us
+ */
+function findSellers(query: string, candidates: Array<{ sellerId: string; sellerName: string }>): Array<{ sellerId: string; sellerName: string }> {
+  const bySeller = new Map<string, { sellerId: string; sellerName: string }>();
+  const digits = query.replace(/[\s+-]/g, '');
+  if (/^\d{10,}$/.test(digits)) {
+    const sellerId = normalizeSellerId(digits);
+    const known = candidates.find(c => c.sellerId === sellerId);
+    return [known ?? { sellerId, sellerName: digits }];
+  }
+
+  const lower = query.toLowerCase();
+  for (const candidate of candidates) {
+    if (candidate.sellerName.toLowerCase().includes(lower) && !bySeller.has(candidate.sellerId)) {
+      bySeller.set(candidate.sellerId, candidate);
+    }
+  }
+
+  const matches = [...bySeller.values()];
+  const exact = matches.filter(m => m.sellerName.toLowerCase() === lower);
+  return exact.length > 0 ? exact : matches;
+}
+
+function pickSeller(query: string, candidates: Array<{ sellerId: string; sellerName: string }>, what: string): { sellerId: string; sellerName: string } {
+  const matches = findSellers(query, candidates);
+  if (matches.length === 0) {
+    throw new CommandUsageError(`No ${what} matching "${query}".`);
+  }
+  if (matches.length > 1) {
+    throw new CommandUsageError(`"${query}" matches ${matches.map(m => m.sellerName).join(', ')} - be more specific.`);
+  }
+  return matches[0];
+}
+
+// The built-in commands ("help" lists whatever is registered on bus)
+export function createCoreCommands(host: CommandHost, bus: CommandBus): AnyCommand[] {
+  onTimer(SESSION_RESUME_TIMER, (type) => {
+    if (!host.dailyTracker.isSessionPaused(type) || host.dailyTracker.isSessionBought(type)) return;
+
+    host.dailyTracker.resumeSession(type);
+    host.sessionResumed(type);
+    host.notify(`▶️ ${getMealLabel(type).toUpperCase()} pause is over - looking for ${type} coupons again.\n\n${host.dailyTracker.getStatus()}`);
+  });
+
+  return [
+    defineCommand({
+      name: 'ok',
+      aliases: ['okay', 'yes', 'y'],
+      description: 'Confirm a pending purchase',
+      permission: 'payments',
+      run: async (_args, { channel }) => (await host.answerPurchase(true, channel))
+        ? { ok: true, message: '✅ Confirmed - paying the seller.' }
+        : { ok: false, message: 'No purchase waiting for confirmation.' }
+    }),
+
+    defineCommand({
+      name: 'no',
+      aliases: ['n'],
+      description: 'Decline a pending purchase',
+      permission: 'payments',
+      run: async (_args, { channel }) => (await host.answerPurchase(false, channel))
+        ? { ok: true, message: '❌ Declined - looking for other sellers.' }
+        : { ok: false, message: 'No purchase waiting for confirmation.' }
+    }),
+
+    defineCommand({
+      name: 'paid',
+      aliases: ['p', 'done', 'sent'],
+      description: 'Confirm payment was made',
+      permission: 'payments',
+      run: (_args, { channel }) => host.answerPayment(true, channel)
+        ? { ok: true, message: '💰 Payment confirmed - waiting for the coupon.' }
+        : { ok: false, message: 'No pending payment to confirm.' }
+    }),
+
+    defineCommand<string | null>({
+      name: 'cancel',
+      aliases: ['c'],
+      args: '[seller]',
+      description: 'Decline the pending purchase / payment, or drop the deal with a seller',
+      permission: 'payments',
+      parse: (args) => args.join(' ') || null,
+      run: async (seller, { channel }) => {
+        if (seller) {
+          const open = host.getConversations().filter(isOpen);
+          const { sellerId, sellerName } = pickSeller(seller, open, 'open deal with a seller');
+          const conversation = open.find(c => c.sellerId === sellerId)!;
+          const result = await host.cancelConversation(conversation.id, USER_CANCELLED_REASON);
+          return result.success
+            ? { ok: true, message: `❌ Cancelled the ${conversation.couponType} deal with ${sellerName}.` }
+            : { ok: false, message: `Couldn't cancel the deal with ${sellerName}: ${result.error}` };
+        }
+
+        const declined = await host.answerPurchase(false, channel);
+        const cancelled = host.answerPayment(false, channel);
+        if (!declined && !cancelled) {
+          return { ok: false, message: 'Nothing to cancel.' };
+        }
+        return { ok: true, message: cancelled ? '❌ Payment cancelled.' : '❌ Declined - looking for other sellers.' };
+      }
+    }),
+
+    defineCommand<void, { stoppedSession: CouponType | null; nextSession: CouponType | null }>({
+      name: 'stop',
+      description: 'Stop the current meal session',
+      permission: 'control',
+      run: () => {
+        const result = host.dailyTracker.stopCurrentSession();
+        if (!result.stoppedSession) {
+          return { ok: false, message: 'No active session to stop.', data: result };
+        }
+
+        host.saveState();
+        let message = `⏹️ ${result.stoppedSession.toUpperCase()} session STOPPED.`;
+        message += result.nextSession
+          ? `\n\nNow looking for ${result.nextSession.toUpperCase()} coupons.`
+          : `\n\nNo more sessions for today.`;
+        return { ok: true, message: `${message}\n\n${host.dailyTracker.getStatus()}`, data: result };
+      }
+    }),
+
+    defineCommand<void, { startedSession: CouponType | null }>({
+      name: 'start',
+      description: 'Resume a paused session',
+      permission: 'control',
+      run: () => {
+        const result = host.dailyTracker.startSession();
+        if (!result.startedSession) {
+          return { ok: false, message: 'No session to start. All sessions are either completed or past their cutoff time.', data: result };
+        }
+
+        host.saveState();
+        return {
+          ok: true,
+          message: `▶️ ${result.startedSession.toUpperCase()} session STARTED.\n\nNow looking for ${result.startedSession} coupons.\n\n${host.dailyTracker.getStatus()}`,
+          data: result
+        };
+      }
+    }),
+
+    defineCommand({
+      name: 'status',
+      aliases: ['s'],
+      description: 'Show current status',
+      permission: 'view',
+      run: () => ({ ok: true, message: host.getStatusReport() })
+    }),
+
+    defineCommand({
+      name: 'reset',
+      description: 'Reset every session to "needed"',
+      permission: 'control',
+      run: () => {
+        host.dailyTracker.forceResetAllSessions();
+        host.saveState();
+        return { ok: true, message: `🔄 SESSIONS RESET\n\nAll meal sessions have been reset.\nNow searching for coupons again.\n\n${host.dailyTracker.getStatus()}` };
+      }
+    }),
+
+    defineCommand({
+      name: 'on',
+      description: 'Turn the bot on (start searching)',
+      permission: 'control',
+      run: () => {
+        if (host.isBotActive()) {
+          return { ok: false, message: 'Bot is already on.' };
+        }
+        host.setBotActive(true);
+        return { ok: true, message: `🟢 Bot ON - searching for coupons.\n\n${host.dailyTracker.getStatus()}` };
+      }
+    }),
+
+    defineCommand({
+      name: 'off',
+      description: 'Turn the bot off (stop searching)',
+      permission: 'control',
+      run: () => {
+        if (!host.isBotActive()) {
+          return { ok: false, message: 'Bot is already off.' };
+        }
+        host.setBotActive(false);
+        return { ok: true, message: '⚪ Bot OFF - not searching until you send "on".' };
+      }
+    }),
+
+    defineCommand<{ type: CouponType; preference: MessPreference }>({
+      name: 'pref',
+      args: '<meal> <mess[:price], ...|any>',
+      description: 'Set a meal\'s mess preference for today, best first (e.g. pref lunch firstman:80, sgr)',
+      permission: 'control',
+      parse: ([meal, ...rest]) => {
+        const type = parseMeal(meal);
+        if (rest.length === 0) {
+          throw new CommandUsageError(`Which messes for ${type}? (${getActiveMessNames().join(', ')}, or any)`);
+        }
+        return { type, preference: parseMessPreference(rest.join(' ')) };
+      },
+      run: ({ type, preference }) => {
+        host.dailyTracker.setPreference(type, preference);
+        host.saveState();
+        host.preferenceChanged(type);
+        return { ok: true, message: `✅ ${getMealLabel(type).toUpperCase()} preference updated to: ${describeMessPreference(preference)}\n\n${host.dailyTracker.getStatus()}` };
+      }
+    }),
+
+    defineCommand<{ type: CouponType; maxPrice: number | null }>({
+      name: 'max',
+      args: '<meal> <price|off>',
+      description: 'Cap what we pay for a meal today (a mess\'s own max price still applies)',
+      permission: 'control',
+      parse: ([meal, price, ...rest]) => {
+        const type = parseMeal(meal);
+        if (rest.length > 0) {
+          throw new CommandUsageError('Too many arguments.');
+        }
+        return { type, maxPrice: price?.toLowerCase() === 'off' ? null : parsePrice(price) };
+      },
+      run: ({ type, maxPrice }) => {
+        host.dailyTracker.setMaxPrice(type, maxPrice);
+        host.saveState();
+        const label = getMealLabel(type).toUpperCase();
+        return {
+          ok: true,
+          message: maxPrice === null
+            ? `✅ ${label} price cap removed - the usual limits apply.`
+            : `✅ ${label} capped at ₹${maxPrice} for today.`
+        };
+      }
+    }),
+
+    defineCommand<{ date: string; type: CouponType | null }>({
+      name: 'skip',
+      args: '[today|tomorrow|YYYY-MM-DD] [meal]',
+      description: 'Skip a meal (or the whole day) on a date',
+      permission: 'control',
+      parse: (args) => {
+        if (args.length === 0) {
+          throw new CommandUsageError('Say which day and/or meal to skip.');
+        }
+        let date: string | null = null;
+        let type: CouponType | null = null;
+        for (const word of args) {
+          if (!date && isDateWord(word)) {
+            date = parseDate(word);
+          } else if (!type && isMealWord(word)) {
+            type = parseMeal(word);
+          } else {
+            throw new CommandUsageError(`Don't know what "${word}" means here.`);
+          }
+        }
+        return { date: date ?? getLocalDate(), type };
+      },
+      run: ({ date, type }) => {
+        const range = addSkipDates(date, date, 'skipped', type ?? undefined);
+        if (!range) {
+          return { ok: false, message: 'Not logged in.' };
+        }
+
+        const isToday = date === getLocalDate();
+        if (isToday) {
+          host.dailyTracker.applyPlan(type ?? undefined);
+        }
+        const what = type ? getMealLabel(type) : 'Every meal';
+        return { ok: true, message: `⏭️ ${what} skipped ${isToday ? 'today' : `on ${date}`}.${isToday ? `\n\n${host.dailyTracker.getStatus()}` : ''}` };
+      }
+    }),
+
+    defineCommand<{ type: CouponType | null; durationMs: number | null }>({
+      name: 'pause',
+      args: '[meal] [30m|2h]',
+      description: 'Pause a meal (default: the current one), optionally for a while',
+      permission: 'control',
+      parse: (args) => {
+        let type: CouponType | null = null;
+        let durationMs: number | null = null;
+        for (const word of args) {
+          if (!type && isMealWord(word)) {
+            type = parseMeal(word);
+          } else if (durationMs === null && isDurationWord(word)) {
+            durationMs = parseDuration(word);
+          } else {
+            throw new CommandUsageError(`Don't know what "${word}" means here.`);
+          }
+        }
+        return { type, durationMs };
+      },
+      run: ({ type, durationMs }) => {
+        const target = type ?? host.dailyTracker.getCurrentSession();
+        if (!target) {
+          return { ok: false, message: 'No active session to pause. Name the meal, e.g. "pause dinner".' };
+        }
+        if (host.dailyTracker.isSessionBought(target)) {
+          return { ok: false, message: `${getMealLabel(target)} is already bought.` };
+        }
+
+        host.dailyTracker.pauseSession(target);
+        host.saveState();
+        const label = getMealLabel(target).toUpperCase();
+        if (durationMs === null) {
+          cancelTimer(SESSION_RESUME_TIMER, target);
+          return { ok: true, message: `⏸️ ${label} paused. Send "resume ${target}" to pick it up again.` };
+        }
+
+        scheduleTimer(SESSION_RESUME_TIMER, target, durationMs);
+        const until = formatLocalTime(new Date(now().getTime() + durationMs));
+        return { ok: true, message: `⏸️ ${label} paused until ${until}.` };
+      }
+    }),
+
+    defineCommand<CouponType | null>({
+      name: 'resume',
+      args: '[meal]',
+      description: 'Resume a paused meal (default: the first paused one)',
+      permission: 'control',
+      parse: ([meal, ...rest]) => {
+        if (rest.length > 0) {
+          throw new CommandUsageError('Too many arguments.');
+        }
+        return meal ? parseMeal(meal) : null;
+      },
+      run: (type) => {
+        if (type) {
+          if (!host.dailyTracker.isSessionPaused(type)) {
+            return { ok: false, message: `${getMealLabel(type)} isn't paused.` };
+          }
+          host.dailyTracker.resumeSession(type);
+        } else {
+          type = host.dailyTracker.startSession().startedSession;
+          if (!type) {
+            return { ok: false, message: 'Nothing to resume.' };
+          }
+        }
+
+        cancelTimer(SESSION_RESUME_TIMER, type);
+        host.saveState();
+        host.sessionResumed(type);
+        return { ok: true, message: `▶️ ${getMealLabel(type).toUpperCase()} resumed.\n\n${host.dailyTracker.getStatus()}` };
+      }
+    }),
+
+    defineCommand<number>({
+      name: 'history',
+      args: '[days]',
+      description: 'Deals from the last few days (default 7)',
+      permission: 'view',
+      parse: ([days, ...rest]) => {
+        if (rest.length > 0 || (days !== undefined && !/^\d+$/.test(days))) {
+          throw new CommandUsageError('Give the number of days, e.g. "history 7".');
+        }
+        const count = days === undefined ? 7 : parseInt(days, 10);
+        if (count < 1 || count > MAX_HISTORY_DAYS) {
+          throw new CommandUsageError(`Days must be between 1 and ${MAX_HISTORY_DAYS}.`);
+        }
+        return count;
+      },
+      run: (days) => {
+        const stats = getStats(days);
+        const deals = getHistory(days);
+        if (deals.length === 0) {
+          return { ok: true, message: `📊 No deals in the last ${days} day${days === 1 ? '' : 's'}.` };
+        }
+
+        const lines = [
+          `📊 LAST ${days} DAY${days === 1 ? '' : 'S'}`,
+          `Bought ${stats.successfulDeals} for ₹${stats.totalSpent}, ${stats.failedDeals} failed`
+        ];
+        const counts = Object.entries(stats.countsByType).map(([type, count]) => `${getMealLabel(type)}: ${count}`);
+        if (counts.length > 0) {
+          lines.push(counts.join(', '));
+        }
+        lines.push('');
+        for (const deal of deals.slice(0, HISTORY_LIST_LIMIT)) {
+          const result = deal.status === 'success' ? '✅' : `❌ ${deal.failureReason ?? ''}`.trim();
+          lines.push(`${deal.date} ${deal.couponType}${deal.messName ? ` (${deal.messName})` : ''} - ${deal.sellerName} ₹${deal.price} ${result}`);
+        }
+        if (deals.length > HISTORY_LIST_LIMIT) {
+          lines.push(`...and ${deals.length - HISTORY_LIST_LIMIT} more on the dashboard`);
+        }
+        return { ok: true, message: lines.join('\n') };
+      }
+    }),
+
+    defineCommand<string>({
+      name: 'block',
+      args: '<seller name|phone>',
+      description: 'Never buy from this seller again',
+      permission: 'control',
+      parse: (args) => {
+        if (args.length === 0) {
+          throw new CommandUsageError('Which seller?');
+        }
+        return args.join(' ');
+      },
+      run: (query) => {
+        const known = [...host.getConversations(), ...getHistory(MAX_HISTORY_DAYS)];
+        const { sellerId, sellerName } = pickSeller(query, known, 'seller we\'ve dealt with');
+        const blocked = addSellerToList(sellerId, 'block', sellerName, 'blocked by command');
+        return blocked
+          ? { ok: true, message: `🚫 ${sellerName} blocked - their posts will be ignored.` }
+          : { ok: false, message: 'Not logged in.' };
+      }
+    }),
+
+    // The menu is answered with a numeric reply, which only the self-chat handles
+    defineCommand({
+      name: 'hi',
+      aliases: ['hello'],
+      description: 'Change the mess preference for the current session',
+      permission: 'control',
+      channels: ['whatsapp'],
+      run: () => {
+        const currentSession = host.dailyTracker.getCurrentSession();
+        if (!currentSession) {
+          return { ok: false, message: 'No active session right now. Every meal is either bought, paused or outside its time window.' };
+        }
+
+        let message = `🍽️ ${currentSession.toUpperCase()} PREFERENCE UPDATE\n\n`;
+        message += `Current preference: ${describeMessPreference(host.dailyTracker.getPreference(currentSession))}\n\n`;
+        message += `Select new preference:\n\n`;
+        message += `0. Any (no preference)\n`;
+        getActiveMessNames().forEach((mess, index) => {
+          message += `${index + 1}. ${mess}\n`;
+        });
+        message += `\nReply with the number to update, or several in order of preference (e.g. ${DailyTracker.preferenceExample()}).`;
+
+        host.awaitPreferenceReply(currentSession);
+        return { ok: true, message };
+      }
+    }),
+
+    defineCommand({
+      name: 'help',
+      aliases: ['h'],
+      description: 'Show this help',
+      permission: 'view',
+      run: (_args, { channel, permissions }) => ({ ok: true, message: `COMMANDS\n${bus.help(channel, permissions)}` })
+    }),
+
+    defineCommand<string | null>({
+      name: 'account',
+      aliases: ['acc'],
+      args: '[id]',
+      description: 'List the accounts, or switch the terminal to another one',
+      permission: 'view',
+      channels: ['terminal'],
+      parse: (args) => args[0]?.toLowerCase() ?? null,
+      run: (accountId) => {
+        if (accountId && !host.selectAccount(accountId)) {
+          throw new CommandUsageError(`No account "${accountId}". Accounts: ${host.listAccounts().map(a => a.id).join(', ')}.`);
+        }
+        const lines = host.listAccounts().map(a =>
+          `${a.terminal ? '▶' : ' '} ${a.id}${a.label !== a.id ? ` (${a.label})` : ''} - ${a.loggedIn ? 'connected' : 'not logged in'}`
+        );
+        return { ok: true, message: `${accountId ? `Terminal now on ${accountId}\n\n` : ''}ACCOUNTS\n${lines.join('\n')}` };
+      }
+    }),
+
+    defineCommand({
+      name: 'quit',
+      aliases: ['q'],
+      description: 'Save and exit',
+      permission: 'admin',
+      channels: ['terminal'],
+      run: () => {
+        host.shutdown();
+        return { ok: true, message: 'Shutting down...' };
+      }
+    })
+  ];
+}
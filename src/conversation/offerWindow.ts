@@ -0,0 +1,74 @@
+import { SellMessage, CouponType } from './types.js';
+import { logger } from '../utils/logger.js';
+import { getClock, TimerHandle } from '../utils/clock.js';
+
+interface HeldOffer {
+  sellMessage: SellMessage;
+  rank: number; // Position of the post's mess in the ranked preference (0 = first choice)
+}
+
+/**
+ * Holds sell posts that aren't for the first-choice mess for a short window, so that when several sellers
+ * post at once the best-ranked mess is contacted first. A first-choice post never waits.
+ */
+export class OfferWindow {
+  private held: Map<CouponType, HeldOffer[]> = new Map();
+  private timers: Map<CouponType, TimerHandle> = new Map();
+
+  constructor(
+    private windowMs: () => number,
+    // Called with the held posts, best-ranked first (earliest first within a rank)
+    private onWindowClosed: (offers: SellMessage[]) => Promise<void>
+  ) {}
+
+  // Hold a post; the window for its coupon type opens with the first post held
+  hold(sellMessage: SellMessage, rank: number): void {
+    const type = sellMessage.couponType;
+    const offers = this.held.get(type) ?? [];
+    if (offers.some(o => o.sellMessage.messageId === sellMessage.messageId)) {
+      return;
+    }
+
+    offers.push({ sellMessage, rank });
+    this.held.set(type, offers);
+
+    if (!this.timers.has(type)) {
+      this.timers.set(type, getClock().setTimeout(() => this.close(type), this.windowMs()));
+    }
+  }
+
+  getHeldCount(type: CouponType): number {
+    return this.held.get(type)?.length ?? 0;
+  }
+
+  // Drop everything held (logout / account switch)
+  clear(): void {
+    for (const timer of this.timers.values()) {
+      getClock().clearTimer(timer);
+    }
+    this.timers.clear();
+    this.held.clear();
+  }
+
+  private async close(type: CouponType): Promise<void> {
+    this.timers.delete(type);
+    const offers = (this.held.get(type) ?? [])
+      .sort((a, b) => (a.rank - b.rank) || (a.sellMessage.timestamp.getTime() - b.sellMessage.timestamp.getTime()));
+    this.held.delete(type);
+
+    if (offers.length === 0) {
+      return;
+    }
+
+    logger.info(`Offer window closed with ${offers.length} ${type} post(s)`, {
+      best: offers[0].sellMessage.senderName,
+      bestRank: offers[0].rank + 1
+    });
+
+    try {
+      await this.onWindowClosed(offers.map(o => o.sellMessage));
+    } catch (error) {
+      logger.error('Failed to act on held sell posts', error);
+    }
+  }
+}
@@ -1,11 +1,22 @@
-import { Conversation, ConversationState, CouponType, SellMessage, ChatMessage } from './types.js';
-import { randomUUID } from 'crypto';
-import { analyzeSellerResponse, detectSellerCancellation, detectRefundConfirmation } from '../llm/messageParser.js';
-import { generateInitialMessage, generateAskUpiMessage, generateDeclineMessage, generatePaymentConfirmation, generatePaymentDoneWithThanks, generatePayingNowMessage, generateThankYouMessage, generateNotAvailableResponse, generateCouponRequestMessage, generateCancelMessageToSeller, setSellerContext, clearSellerContext, generateWaitingAcknowledgment, generateConversationalResponse, generateWrongImageQuestion, generateSellerCancelFollowUp, generateConvinceSeller, generateRefundRequest, generateAcceptCancellation, generateAskRefundScreenshot, generateRefundThanks, generateRefundConversation, generateRefundFollowUp, detectMessNameInMessage, generateAskMessNameMessage, generateMessMismatchDecline } from '../llm/conversationAI.js';
+import { Conversation, ConversationState, CouponType, SellMessage, ChatMessage, MessPreference, EndedBy } from './types.js';
+import { randomUUID, createHash } from 'crypto';
+import { analyzeSellerResponse, detectSellerCancellation, detectRefundConfirmation, ResponseAnalysis } from '../llm/messageParser.js';
+import { generateInitialMessage, generateAskUpiMessage, generateDeclineMessage, generatePaymentConfirmation, generatePaymentDoneWithThanks, generatePayingNowMessage, generateThankYouMessage, generateNotAvailableResponse, generateCouponRequestMessage, generateCancelMessageToSeller, generateWaitingAcknowledgment, generateConversationalResponse, generateWrongImageQuestion, generateSellerCancelFollowUp, generateConvinceSeller, generateRefundRequest, generateAcceptCancellation, generateAskRefundScreenshot, generateRefundThanks, generateRefundConversation, generateRefundFollowUp, detectMessNameInMessage, generateAskMessNameMessage, generateMessMismatchDecline, generateCounterOffer, generatePriceAgreedMessage, generateReleaseSellerMessage } from '../llm/conversationAI.js';
 import { saveCouponImage, recordSuccessfulDeal, recordFailedDeal } from '../state/history.js';
+import { fingerprintCouponImage, findMatchingCoupon, describeCouponMatch, recordCouponFingerprint, CouponImageFingerprint, CouponMatch } from '../state/couponFingerprints.js';
 import { sendPaymentNotification, sendSuccessNotification } from '../payment/notifier.js';
-import { isLikelyCouponImage } from '../utils/qrDetector.js';
+import { getMaxPrice, getTargetPrice, getNegotiationSettings, getCounterOffer } from '../payment/pricePolicy.js';
+import { detectQRCode, isPaymentQRPayload } from '../utils/qrDetector.js';
 import { logger } from '../utils/logger.js';
+import { getConfig } from '../utils/config.js';
+import { getMessRank, getMessChoice, getPreferredMessNames, describeMessPreference } from '../utils/messPreference.js';
+import { getLocalDayStart, formatLocalDate, formatLocalTime } from '../utils/time.js';
+import { getClock, now } from '../utils/clock.js';
+import { onTimer, scheduleTimer } from '../state/timers.js';
+import { getOpenConfirmation } from '../state/confirmations.js';
+import { getSellerReputation, describeReputation } from '../state/sellerReputation.js';
+import { isSellerBlocklisted, isSellerAllowlisted } from '../state/sellerLists.js';
+import { collectAliasCandidates } from '../state/aliasSuggestions.js';
 
 // Patterns where seller is asking us to wait - we should respond friendly
 const WAIT_PATTERNS = [
@@ -20,10 +31,22 @@ const ACKNOWLEDGMENT_PATTERNS = [
   'ok', 'okay', 'k', 'done', 'sure', 'alright', 'fine', 'haan', 'ha', 'theek'
 ];
 
+// States before we commit to paying - conversations here can be released in parallel mode
+const PRE_PAYMENT_STATES: ConversationState[] = [
+  ConversationState.INITIATING_CONTACT,
+  ConversationState.AWAITING_MESS_INFO,
+  ConversationState.NEGOTIATING,
+  ConversationState.AWAITING_PAYMENT_INFO
+];
+
 // Track seller cancellation follow-up state per conversation
 // 0 = no cancellation detected, 1 = asked what happened, 2 = tried to convince, 3 = accepted cancellation
 const sellerCancelFollowUpState: Map<string, number> = new Map();
 
+// Track price negotiation per conversation (only used when negotiation is enabled)
+// round = counter-offers made so far, lastSellerOffer = last price the seller asked for
+const negotiationState: Map<string, { round: number; lastSellerOffer: number }> = new Map();
+
 // Store early coupon images (received before AWAITING_COUPON state)
 // This handles cases where seller sends coupon before payment is confirmed
 const earlyCouponImages: Map<string, Buffer> = new Map();
@@ -32,20 +55,35 @@ const earlyCouponImages: Map<string, Buffer> = new Map();
 // This is a backup in case real-time handlers or chat scanning miss images
 const receivedImagesPerConversation: Map<string, Buffer[]> = new Map();
 
+// Hashes of images that failed coupon verification, so scans don't pick them up again
+const rejectedCouponImages: Map<string, Set<string>> = new Map();
+
+// Why a received image was not accepted as the coupon
+type CouponRejection = 'no_qr' | 'payment_qr' | 'duplicate';
+
+interface CouponVerification {
+  fingerprint: CouponImageFingerprint;
+  rejection: CouponRejection | null;
+  match: CouponMatch | null; // Earlier coupon this one matches (QR match = rejected, image match = flagged)
+}
+
 type SendMessageFn = (chatId: string, message: string) => Promise<void>;
 type SendMediaFn = (chatId: string, mediaBuffer: Buffer, caption: string) => Promise<void>;
 type WaitForConfirmationFn = (conversationId: string) => Promise<boolean>;
 type GetMyIdFn = () => string;
 type IsTestAccountFn = (sellerId: string) => boolean;
-type GetMessPreferenceFn = (couponType: CouponType) => string[] | null;
+type GetMessPreferenceFn = (couponType: CouponType) => MessPreference;
+type GetSessionMaxPriceFn = (couponType: CouponType) => number | undefined;
 type FetchChatMediaFn = (chatId: string, limit?: number, afterTimestamp?: Date) => Promise<Buffer[]>;
 
-// Fixed price - no negotiation
-const FIXED_PRICE = 70;
-
 // Time window to check for recent conversations (10 minutes)
 const RECENT_CONVERSATION_WINDOW_MS = 10 * 60 * 1000;
 
+// Coupon follow-ups after payment: every 30 seconds, 8 times (4 minutes) before asking the user to step in
+const COUPON_FOLLOW_UP_TIMER = 'coupon_follow_up';
+const FOLLOW_UP_INTERVAL_MS = 30 * 1000;
+const MAX_FOLLOW_UPS = 8;
+
 // Extract phone number from WhatsApp ID (e.g., "919876543210@c.us" -> "9876543210")
 function extractPhoneFromWhatsAppId(whatsappId: string): string | null {
   const cleaned = whatsappId.replace(/@c\.us$/, '').replace(/@s\.whatsapp\.net$/, '');
@@ -74,8 +112,10 @@ export class ConversationManager {
   private getMessPreference: GetMessPreferenceFn;
   private onConversationFailed: (conversationId: string, reason: string) => void;
   private fetchChatMedia: FetchChatMediaFn;
+  private getSessionMaxPrice: GetSessionMaxPriceFn;
 
   // Track current active conversation (only ONE at a time)
+  // In parallel mode this is the payment lock - set when a seller reaches PAYMENT_PENDING
   private currentConversationId: string | null = null;
 
   constructor(
@@ -90,7 +130,8 @@ export class ConversationManager {
     onCouponPurchased: (type: CouponType, conversationId: string) => void,
     getMessPreference: GetMessPreferenceFn,
     onConversationFailed: (conversationId: string, reason: string) => void = () => {},
-    fetchChatMedia: FetchChatMediaFn = async () => []
+    fetchChatMedia: FetchChatMediaFn = async () => [],
+    getSessionMaxPrice: GetSessionMaxPriceFn = () => undefined
   ) {
     this.conversations = conversations;
     this.sendMessage = sendMessage;
@@ -104,11 +145,30 @@ export class ConversationManager {
     this.getMessPreference = getMessPreference;
     this.onConversationFailed = onConversationFailed;
     this.fetchChatMedia = fetchChatMedia;
+    this.getSessionMaxPrice = getSessionMaxPrice;
+
+    onTimer(COUPON_FOLLOW_UP_TIMER, conversationId => this.checkCouponFollowUp(conversationId));
   }
 
   // Check if we have an active conversation (only ONE seller at a time)
-  hasActiveConversationInProgress(): boolean {
-    return this.currentConversationId !== null;
+  // In parallel mode: true while a seller holds the payment lock or all of this meal's negotiation slots are taken
+  hasActiveConversationInProgress(couponType: CouponType): boolean {
+    if (this.currentConversationId !== null) {
+      return true;
+    }
+    const limit = this.getParallelLimit();
+    return limit > 1 && this.getOpenNegotiations(couponType).length >= limit;
+  }
+
+  // Max sellers we negotiate with at once (1 = one seller at a time)
+  private getParallelLimit(): number {
+    return Math.max(1, Math.floor(getConfig().parallelSellers ?? 1));
+  }
+
+  // Conversations for this meal that haven't reached payment yet
+  private getOpenNegotiations(couponType: CouponType): Conversation[] {
+    return Array.from(this.conversations.values())
+      .filter(c => c.couponType === couponType && PRE_PAYMENT_STATES.includes(c.state));
   }
 
   // Scan for any existing images from the seller
@@ -119,8 +179,9 @@ export class ConversationManager {
     try {
       // FIRST: Check images we've already received and stored in memory
       // This is the most reliable source since we captured these in real-time
-      const storedImages = receivedImagesPerConversation.get(conversation.id);
-      if (storedImages && storedImages.length > 0) {
+      const storedImages = (receivedImagesPerConversation.get(conversation.id) || [])
+        .filter(image => !this.isRejectedImage(conversation, image));
+      if (storedImages.length > 0) {
         logger.info('Found stored image(s) from seller in memory!', {
           conversationId: conversation.id,
           imageCount: storedImages.length
@@ -140,7 +201,8 @@ export class ConversationManager {
 
       // Fetch recent media messages from the chat (last 50 messages to be thorough)
       // Pass conversation start time to filter out old images from previous deals
-      const mediaBuffers = await this.fetchChatMedia(conversation.sellerId, 50, conversationStartTime);
+      const mediaBuffers = (await this.fetchChatMedia(conversation.sellerId, 50, conversationStartTime))
+        .filter(image => !this.isRejectedImage(conversation, image));
 
       if (mediaBuffers.length === 0) {
         logger.debug('No media found in chat after conversation start', { conversationId: conversation.id });
@@ -160,6 +222,76 @@ export class ConversationManager {
     }
   }
 
+  private isRejectedImage(conversation: Conversation, image: Buffer): boolean {
+    const hash = createHash('sha1').update(image).digest('hex');
+    return rejectedCouponImages.get(conversation.id)?.has(hash) ?? false;
+  }
+
+  /**
+   * Check that an image really is a coupon before we complete the deal
+   * It must carry a readable QR that isn't a UPI payment QR and hasn't been sold to us before;
+   * a picture that only looks like an earlier coupon is let through but flagged
+   */
+  private async verifyCouponImage(conversation: Conversation, image: Buffer): Promise<CouponVerification> {
+    const qr = await detectQRCode(image);
+    const qrPayload = qr.hasQR ? qr.data : null;
+    if (!qrPayload) {
+      return { fingerprint: { qrPayload: null, perceptualHash: null }, rejection: 'no_qr', match: null };
+    }
+
+    const fingerprint = await fingerprintCouponImage(image, qrPayload);
+    if (isPaymentQRPayload(qrPayload)) {
+      return { fingerprint, rejection: 'payment_qr', match: null };
+    }
+
+    const match = findMatchingCoupon(fingerprint);
+    if (match) {
+      logger.warn('Coupon matches an earlier coupon', {
+        conversationId: conversation.id,
+        kind: match.kind,
+        distance: match.distance,
+        previousDeal: match.previous.dealId,
+        previousSeller: match.previous.sellerName
+      });
+    }
+
+    return { fingerprint, rejection: match?.kind === 'qr' ? 'duplicate' : null, match };
+  }
+
+  // Alert the user about a coupon that looks like one we've seen before; returns the flag for the deal
+  private async flagMatchedCoupon(conversation: Conversation, match: CouponMatch): Promise<string> {
+    const flag = describeCouponMatch(match);
+    await this.sendToSelf(`🚩 POSSIBLE RESOLD COUPON\n\nSeller: ${conversation.sellerName}\nType: ${conversation.couponType}\nAmount: Rs.${conversation.price}\n\n${flag}. Check it before you use it.`);
+    return flag;
+  }
+
+  // Remember the bad image and ask the seller about it instead of completing the deal
+  private async rejectCouponImage(conversation: Conversation, image: Buffer, rejection: CouponRejection, match: CouponMatch | null = null): Promise<void> {
+    const hash = createHash('sha1').update(image).digest('hex');
+    const rejected = rejectedCouponImages.get(conversation.id) || new Set<string>();
+    rejected.add(hash);
+    rejectedCouponImages.set(conversation.id, rejected);
+    if (earlyCouponImages.get(conversation.id) === image) {
+      earlyCouponImages.delete(conversation.id);
+    }
+
+    logger.warn('Image from seller failed coupon verification', { conversationId: conversation.id, rejection });
+
+    const question = await generateWrongImageQuestion(conversation.sellerName);
+    await this.sendToSeller(conversation, question);
+
+    if (rejection === 'duplicate' && match) {
+      await this.sendToSelf(`🚩 DUPLICATE COUPON REJECTED\n\nSeller: ${conversation.sellerName}\nType: ${conversation.couponType}\n\n${describeCouponMatch(match)}. Asked the seller about it - you have already paid Rs.${conversation.price}.`);
+    }
+
+    // A real coupon photo can still fail to decode - let the user decide
+    if (rejection === 'no_qr') {
+      await this.sendToSelf(`⚠️ ${conversation.sellerName} sent an image with no readable QR code.
+
+Asked them about it. If it is the coupon, complete the deal manually from the dashboard.`);
+    }
+  }
+
   // Send message to self with error handling (WhatsApp self-messaging can be tricky)
   private async sendToSelf(message: string): Promise<void> {
     try {
@@ -201,7 +333,7 @@ export class ConversationManager {
       id: randomUUID(),
       sender,
       text,
-      timestamp: new Date(),
+      timestamp: now(),
       hasMedia
     });
     // Keep only last 50 messages to avoid memory issues
@@ -230,19 +362,19 @@ export class ConversationManager {
       return false;
     }
 
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    const today = getLocalDayStart();
 
     return Array.from(this.conversations.values()).some(c =>
       c.sellerId === sellerId &&
       c.state === ConversationState.FAILED &&
+      !c.released &&
       new Date(c.createdAt).getTime() >= today.getTime()
     );
   }
 
   // Find recent conversation with this seller (within 1 hour)
   findRecentConversation(sellerId: string, couponType: CouponType): Conversation | null {
-    const cutoffTime = Date.now() - RECENT_CONVERSATION_WINDOW_MS;
+    const cutoffTime = getClock().now() - RECENT_CONVERSATION_WINDOW_MS;
 
     const recentConversations = Array.from(this.conversations.values())
       .filter(c =>
@@ -257,6 +389,12 @@ export class ConversationManager {
 
   // Check if we should contact this seller or resume existing conversation
   async startOrResumeConversation(sellMessage: SellMessage): Promise<Conversation | null> {
+    // Permanent blocklist (known scammers) - never contact
+    if (isSellerBlocklisted(sellMessage.senderId)) {
+      logger.info('Seller is blocklisted, skipping', { seller: sellMessage.senderName });
+      return null;
+    }
+
     // Check if this seller is blocked for today (had a failed/cancelled deal)
     if (this.isSellerBlockedToday(sellMessage.senderId)) {
       logger.info('Seller blocked for today (previous deal failed/cancelled), skipping', {
@@ -265,12 +403,24 @@ export class ConversationManager {
       return null;
     }
 
+    // Check seller reputation from past deals - skip known bad sellers (test accounts and allowlisted friends are exempt)
+    const isTest = this.isTestAccount(sellMessage.senderId);
+    const allowlisted = isSellerAllowlisted(sellMessage.senderId);
+    const reputation = getSellerReputation(sellMessage.senderId);
+    if (!isTest && !allowlisted && reputation.level === 'bad' && !this.hasActiveConversation(sellMessage.senderId)) {
+      logger.info('Seller has a bad track record, skipping', {
+        seller: sellMessage.senderName,
+        reputation: describeReputation(reputation)
+      });
+      return null;
+    }
+
     // Only ONE seller at a time - check if we already have an active conversation
     if (this.currentConversationId) {
       const currentConv = this.conversations.get(this.currentConversationId);
       if (currentConv && currentConv.state !== ConversationState.COMPLETED && currentConv.state !== ConversationState.FAILED) {
-        // Already talking to someone else - don't start new chat
-        if (currentConv.sellerId !== sellMessage.senderId) {
+        // Already talking to someone else - don't start new chat (unless a preferred seller can take their place)
+        if (currentConv.sellerId !== sellMessage.senderId && !(await this.makeRoomForPreferredSeller([currentConv], sellMessage))) {
           logger.info('Already in conversation with another seller, skipping new seller', {
             currentSeller: currentConv.sellerName,
             newSeller: sellMessage.senderName
@@ -280,6 +430,21 @@ export class ConversationManager {
       }
     }
 
+    // Parallel mode - only open a new chat if there's a free slot
+    const limit = this.getParallelLimit();
+    if (limit > 1) {
+      const open = this.getOpenNegotiations(sellMessage.couponType);
+      if (open.length >= limit && !open.some(c => c.sellerId === sellMessage.senderId) &&
+          !(await this.makeRoomForPreferredSeller(open, sellMessage))) {
+        logger.info('All parallel negotiation slots busy, skipping new seller', {
+          open: open.length,
+          limit,
+          newSeller: sellMessage.senderName
+        });
+        return null;
+      }
+    }
+
     // Check for recent conversation with this seller
     const recentConv = this.findRecentConversation(sellMessage.senderId, sellMessage.couponType);
 
@@ -287,7 +452,7 @@ export class ConversationManager {
       logger.info('Found recent conversation with this seller', {
         conversationId: recentConv.id,
         state: recentConv.state,
-        age: Math.round((Date.now() - new Date(recentConv.createdAt).getTime()) / 60000) + ' mins'
+        age: Math.round((getClock().now() - new Date(recentConv.createdAt).getTime()) / 60000) + ' mins'
       });
 
       if (recentConv.state === ConversationState.COMPLETED) {
@@ -306,12 +471,66 @@ export class ConversationManager {
       // Failed conversation handled by isSellerBlockedToday check above
     }
 
+    // Contacting a seller with a shaky history - give the user a heads up
+    if (!isTest && !allowlisted && reputation.level === 'risky') {
+      await this.sendToSelf(`⚠️ Contacting ${sellMessage.senderName} for ${sellMessage.couponType} - careful, ${describeReputation(reputation)}`);
+    }
+
     return await this.startConversation(sellMessage);
   }
 
+  // How strongly we prefer a seller: 2 = allowlisted friend, 1 = trusted by reputation, 0 = anyone else
+  private getSellerPriority(sellerId: string): { priority: number; score: number } {
+    const reputation = getSellerReputation(sellerId);
+    if (isSellerAllowlisted(sellerId)) return { priority: 2, score: reputation.score };
+    return { priority: reputation.level === 'trusted' ? 1 : 0, score: reputation.score };
+  }
+
+  // Allowlisted and trusted sellers can take the place of a less preferred seller we haven't committed to yet
+  // Returns true if a conversation was released to make room
+  private async makeRoomForPreferredSeller(candidates: Conversation[], sellMessage: SellMessage): Promise<boolean> {
+    const newSeller = this.getSellerPriority(sellMessage.senderId);
+    if (newSeller.priority === 0) {
+      return false;
+    }
+
+    const ranked = candidates
+      .filter(c => PRE_PAYMENT_STATES.includes(c.state) && !this.isTestAccount(c.sellerId))
+      .map(c => ({ conversation: c, ...this.getSellerPriority(c.sellerId) }))
+      .filter(r => r.priority < newSeller.priority)
+      .sort((a, b) => (a.priority - b.priority) || (a.score - b.score));
+
+    if (ranked.length === 0) {
+      return false;
+    }
+
+    const bumped = ranked[0].conversation;
+    logger.info('Making room for preferred seller', {
+      preferredSeller: sellMessage.senderName,
+      allowlisted: newSeller.priority === 2,
+      releasing: bumped.sellerName,
+      releasedScore: ranked[0].score
+    });
+
+    await this.releaseConversation(bumped, `Made room for preferred seller (${sellMessage.senderName})`);
+    return true;
+  }
+
+  // Max price the ranked preference sets for this conversation's mess, else today's cap for the session (undefined = the usual limits apply)
+  private getMessMaxPrice(conversation: Conversation): number | undefined {
+    return this.getChoiceMaxPrice(conversation.couponType, conversation.messName);
+  }
+
+  private getChoiceMaxPrice(couponType: CouponType, messName: string | null | undefined): number | undefined {
+    return getMessChoice(this.getMessPreference(couponType), messName)?.maxPrice ?? this.getSessionMaxPrice(couponType);
+  }
+
   // Resume an incomplete conversation
   async resumeConversation(conversation: Conversation): Promise<Conversation> {
-    this.currentConversationId = conversation.id;
+    // In parallel mode only a conversation past negotiation holds the lock
+    if (this.getParallelLimit() === 1 || !PRE_PAYMENT_STATES.includes(conversation.state)) {
+      this.currentConversationId = conversation.id;
+    }
 
     logger.info('Resuming conversation', {
       id: conversation.id,
@@ -319,23 +538,30 @@ export class ConversationManager {
       seller: conversation.sellerName
     });
 
-    // Set seller context for gender-aware messaging
-    await setSellerContext(conversation.sellerName);
-
     switch (conversation.state) {
       case ConversationState.INITIATING_CONTACT:
       case ConversationState.AWAITING_PAYMENT_INFO:
-        const askUpi = await generateAskUpiMessage();
+        const askUpi = await generateAskUpiMessage(conversation.sellerName);
         await this.sendToSeller(conversation, askUpi);
         conversation.state = ConversationState.AWAITING_PAYMENT_INFO;
         break;
 
+      case ConversationState.NEGOTIATING:
+        // Repeat our last counter-offer (conversation.price holds it while negotiating)
+        const negotiation = negotiationState.get(conversation.id);
+        const counter = await generateCounterOffer(conversation.sellerName, negotiation?.lastSellerOffer ?? conversation.price, conversation.price);
+        await this.sendToSeller(conversation, counter);
+        break;
+
       case ConversationState.PAYMENT_PENDING:
         if (conversation.upiId) {
           logger.info('Resuming payment pending state');
+          if (!(await this.acquirePaymentLock(conversation))) {
+            break;
+          }
           await this.requestUserConfirmationAndPay(conversation);
         } else {
-          const msg = await generateAskUpiMessage();
+          const msg = await generateAskUpiMessage(conversation.sellerName);
           await this.sendToSeller(conversation, msg);
           conversation.state = ConversationState.AWAITING_PAYMENT_INFO;
         }
@@ -346,16 +572,17 @@ export class ConversationManager {
         break;
     }
 
-    conversation.updatedAt = new Date();
+    conversation.updatedAt = now();
     this.onConversationUpdate();
     return conversation;
   }
 
   async startConversation(sellMessage: SellMessage): Promise<Conversation> {
-    const id = `conv_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+    const id = `conv_${getClock().now()}_${Math.random().toString(36).substring(7)}`;
 
     // Check if mess name is mentioned in the sell message
     const messNameInMessage = detectMessNameInMessage(sellMessage.rawMessage);
+    const messMaxPrice = this.getChoiceMaxPrice(sellMessage.couponType, messNameInMessage);
 
     const conversation: Conversation = {
       id,
@@ -363,18 +590,20 @@ export class ConversationManager {
       sellerName: sellMessage.senderName,
       couponType: sellMessage.couponType,
       state: ConversationState.INITIATING_CONTACT,
-      price: FIXED_PRICE,
+      price: getTargetPrice(sellMessage.couponType, now(), messMaxPrice),
       upiId: null,
       groupId: sellMessage.groupId,
       groupName: sellMessage.groupName,
       originalMessageId: sellMessage.messageId,
-      createdAt: new Date(),
-      updatedAt: new Date(),
+      createdAt: now(),
+      updatedAt: now(),
       messName: messNameInMessage || undefined
     };
 
     this.conversations.set(id, conversation);
-    this.currentConversationId = id;
+    if (this.getParallelLimit() === 1) {
+      this.currentConversationId = id;
+    }
     logger.info('Starting new conversation', {
       id,
       seller: sellMessage.senderName,
@@ -382,42 +611,37 @@ export class ConversationManager {
       messNameDetected: messNameInMessage || 'none'
     });
 
-    // Set seller context for gender-aware messaging
-    await setSellerContext(sellMessage.senderName);
-
-    // Check if user has a mess preference (can be multiple)
+    // Check if user has a mess preference (ranked, can be multiple)
     const userPreferences = this.getMessPreference(sellMessage.couponType);
-    const hasSpecificPreference = userPreferences !== null && userPreferences.length > 0;
+    const hasSpecificPreference = userPreferences !== null;
 
     // If mess name is in the message, check against preferences (if any)
     if (messNameInMessage) {
       if (hasSpecificPreference) {
-        const matches = userPreferences.some(pref =>
-          messNameInMessage.toLowerCase() === pref.toLowerCase()
-        );
-        if (!matches) {
+        const rank = getMessRank(userPreferences, messNameInMessage);
+        if (rank === -1) {
           logger.info('Mess name mismatch with preferences, declining', {
             messInMessage: messNameInMessage,
-            userPreferences
+            preference: describeMessPreference(userPreferences)
           });
-          const preferenceDisplay = userPreferences.join(' or ');
-          const declineMsg = await generateMessMismatchDecline(preferenceDisplay, messNameInMessage);
+          const preferenceDisplay = getPreferredMessNames(userPreferences).join(' or ');
+          const declineMsg = await generateMessMismatchDecline(conversation.sellerName, preferenceDisplay, messNameInMessage);
           await this.sendMessage(sellMessage.senderId, declineMsg);
-          await this.failConversation(conversation, `Mess mismatch: wanted ${preferenceDisplay}, got ${messNameInMessage}`);
+          await this.failConversation(conversation, `Mess mismatch: wanted ${preferenceDisplay}, got ${messNameInMessage}`, 'us');
           return conversation;
         }
-        logger.info('Mess name matches one of the preferences!', { mess: messNameInMessage, userPreferences });
+        logger.info('Mess name is in the preference', { mess: messNameInMessage, rank: rank + 1, price: conversation.price });
       } else {
         // No preference but mess name is known - store it
         logger.info('Mess name detected in sell message', { mess: messNameInMessage });
       }
 
       // Mess name is known - include it in the initial message so buyer knows which mess
-      const initialMessage = await generateInitialMessage(sellMessage.couponType, sellMessage.groupName, messNameInMessage);
+      const initialMessage = await generateInitialMessage(conversation.sellerName, sellMessage.couponType, sellMessage.groupName, messNameInMessage);
       await this.sendMessage(sellMessage.senderId, initialMessage);
 
       conversation.state = ConversationState.AWAITING_PAYMENT_INFO;
-      conversation.updatedAt = new Date();
+      conversation.updatedAt = now();
       this.onConversationUpdate();
 
       return conversation;
@@ -425,20 +649,21 @@ export class ConversationManager {
 
     // Mess name NOT mentioned - ALWAYS ask for it regardless of preference
     // This ensures we always know which mess the coupon is for
+    collectAliasCandidates(sellMessage.rawMessage, 'sell_post');
     logger.info('Mess name not mentioned in sell message, will ask seller', {
       hasPreference: hasSpecificPreference,
-      preferences: userPreferences
+      preference: describeMessPreference(userPreferences)
     });
 
-    const initialMessage = await generateInitialMessage(sellMessage.couponType, sellMessage.groupName);
+    const initialMessage = await generateInitialMessage(conversation.sellerName, sellMessage.couponType, sellMessage.groupName);
     await this.sendMessage(sellMessage.senderId, initialMessage);
 
     // Ask for mess name
-    const askMessMsg = await generateAskMessNameMessage();
+    const askMessMsg = await generateAskMessNameMessage(conversation.sellerName);
     await this.sendMessage(sellMessage.senderId, askMessMsg);
 
     conversation.state = ConversationState.AWAITING_MESS_INFO;
-    conversation.updatedAt = new Date();
+    conversation.updatedAt = now();
     this.onConversationUpdate();
     return conversation;
   }
@@ -478,8 +703,9 @@ export class ConversationManager {
       existingImages.push(mediaBuffer);
       receivedImagesPerConversation.set(conversation.id, existingImages);
 
-      // If not in AWAITING_COUPON state yet, also store as early coupon
-      if (conversation.state !== ConversationState.AWAITING_COUPON) {
+      // Before payment, also store as early coupon (PAYMENT_PENDING stores and acknowledges its own;
+      // after payment an image is either the coupon or a refund screenshot)
+      if (PRE_PAYMENT_STATES.includes(conversation.state)) {
         logger.info('Early image received (before AWAITING_COUPON state), storing for later', {
           conversationId: conversation.id,
           currentState: conversation.state
@@ -495,6 +721,10 @@ export class ConversationManager {
         await this.handleAwaitingMessInfo(conversation, message);
         break;
 
+      case ConversationState.NEGOTIATING:
+        await this.handleNegotiating(conversation, message);
+        break;
+
       case ConversationState.AWAITING_PAYMENT_INFO:
         await this.handleAwaitingPaymentInfo(conversation, message);
         break;
@@ -531,7 +761,7 @@ export class ConversationManager {
     const isWaitMessage = WAIT_PATTERNS.some(p => lowerMessage.includes(p));
     if (isWaitMessage) {
       logger.info('Seller asking to wait, responding friendly', { message: lowerMessage });
-      const ackResponse = await generateWaitingAcknowledgment();
+      const ackResponse = await generateWaitingAcknowledgment(conversation.sellerName);
       await this.sendToSeller(conversation, ackResponse);
       return;
     }
@@ -543,34 +773,35 @@ export class ConversationManager {
       logger.info('Mess name detected in seller response', { messName });
       conversation.messName = messName;
 
-      // Check against user's preferences (can be multiple)
+      // Check against user's ranked preference
       const userPreferences = this.getMessPreference(conversation.couponType);
 
-      if (userPreferences !== null && userPreferences.length > 0) {
-        const matches = userPreferences.some(pref =>
-          messName.toLowerCase() === pref.toLowerCase()
-        );
-        if (!matches) {
+      if (userPreferences !== null) {
+        const rank = getMessRank(userPreferences, messName);
+        if (rank === -1) {
           logger.info('Mess name mismatch with preferences, declining', {
             messFromSeller: messName,
-            userPreferences
+            preference: describeMessPreference(userPreferences)
           });
-          const preferenceDisplay = userPreferences.join(' or ');
-          const declineMsg = await generateMessMismatchDecline(preferenceDisplay, messName);
+          const preferenceDisplay = getPreferredMessNames(userPreferences).join(' or ');
+          const declineMsg = await generateMessMismatchDecline(conversation.sellerName, preferenceDisplay, messName);
           await this.sendToSeller(conversation, declineMsg);
-          await this.failConversation(conversation, `Mess mismatch: wanted ${preferenceDisplay}, got ${messName}`);
+          await this.failConversation(conversation, `Mess mismatch: wanted ${preferenceDisplay}, got ${messName}`, 'us');
           return;
         }
-        logger.info('Mess name matches one of the preferences!', { mess: messName, userPreferences });
+
+        // Now that the mess is known, open with the price we'd pay for it
+        conversation.price = getTargetPrice(conversation.couponType, now(), this.getMessMaxPrice(conversation));
+        logger.info('Mess name is in the preference', { mess: messName, rank: rank + 1, price: conversation.price });
       }
 
       // Mess matches or no preference - continue to normal flow
       conversation.state = ConversationState.AWAITING_PAYMENT_INFO;
-      conversation.updatedAt = new Date();
+      conversation.updatedAt = now();
       this.onConversationUpdate();
 
       // Ask for UPI
-      const askUpi = await generateAskUpiMessage();
+      const askUpi = await generateAskUpiMessage(conversation.sellerName);
       await this.sendToSeller(conversation, askUpi);
       return;
     }
@@ -578,21 +809,22 @@ export class ConversationManager {
     // Check for not available
     const analysis = await analyzeSellerResponse(message);
     if (analysis.available === false) {
-      const response = await generateNotAvailableResponse();
+      const response = await generateNotAvailableResponse(conversation.sellerName);
       await this.sendToSeller(conversation, response);
-      await this.failConversation(conversation, 'Coupon not available');
+      await this.failConversation(conversation, 'Coupon not available', 'seller');
       return;
     }
 
     // Mess name NOT detected - respond conversationally and ask again
     // This ensures we ALWAYS get the mess name before proceeding
     logger.info('Mess name not detected in response, asking again', { message: message.substring(0, 50) });
+    collectAliasCandidates(message, 'seller_reply');
 
-    const response = await generateConversationalResponse(message, 'asking which mess the coupon is for');
+    const response = await generateConversationalResponse(conversation.sellerName, message, 'asking which mess the coupon is for');
     await this.sendToSeller(conversation, response);
 
     // Ask again for mess name
-    const askMessMsg = await generateAskMessNameMessage();
+    const askMessMsg = await generateAskMessNameMessage(conversation.sellerName);
     await this.sendToSeller(conversation, askMessMsg);
   }
 
@@ -603,7 +835,7 @@ export class ConversationManager {
     const isWaitMessage = WAIT_PATTERNS.some(p => lowerMessage.includes(p));
     if (isWaitMessage) {
       logger.info('Seller asking to wait, responding friendly', { message: lowerMessage });
-      const ackResponse = await generateWaitingAcknowledgment();
+      const ackResponse = await generateWaitingAcknowledgment(conversation.sellerName);
       await this.sendToSeller(conversation, ackResponse);
       return;
     }
@@ -617,22 +849,22 @@ export class ConversationManager {
 
       if (cancelState === 0) {
         // First time - ask what happened
-        const followUp = await generateSellerCancelFollowUp(message);
+        const followUp = await generateSellerCancelFollowUp(conversation.sellerName, message);
         await this.sendToSeller(conversation, followUp);
         sellerCancelFollowUpState.set(conversation.id, 1);
         return;
       } else if (cancelState === 1) {
         // Second time - try to convince
-        const convince = await generateConvinceSeller();
+        const convince = await generateConvinceSeller(conversation.sellerName);
         await this.sendToSeller(conversation, convince);
         sellerCancelFollowUpState.set(conversation.id, 2);
         return;
       } else {
         // Third time - accept cancellation
-        const accept = await generateAcceptCancellation(false);
+        const accept = await generateAcceptCancellation(conversation.sellerName, false);
         await this.sendToSeller(conversation, accept);
         sellerCancelFollowUpState.delete(conversation.id);
-        await this.failConversation(conversation, 'Seller cancelled the deal');
+        await this.failConversation(conversation, 'Seller cancelled the deal', 'seller');
         return;
       }
     }
@@ -658,41 +890,41 @@ export class ConversationManager {
 
     // Only fail if EXPLICITLY not available (not just unclear)
     if (analysis.available === false) {
-      const response = await generateNotAvailableResponse();
+      const response = await generateNotAvailableResponse(conversation.sellerName);
       await this.sendToSeller(conversation, response);
-      await this.failConversation(conversation, 'Coupon not available');
+      await this.failConversation(conversation, 'Coupon not available', 'seller');
       return;
     }
 
-    if (analysis.price !== null && analysis.price > FIXED_PRICE) {
-      const declineMsg = await generateDeclineMessage();
-      await this.sendToSeller(conversation, declineMsg);
-      await this.failConversation(conversation, `Price ${analysis.price} > ${FIXED_PRICE}`);
-      return;
+    if (analysis.price !== null) {
+      const maxPrice = getMaxPrice(conversation.couponType, now(), this.getMessMaxPrice(conversation));
+      if (analysis.price > maxPrice && getNegotiationSettings().enabled) {
+        await this.startNegotiation(conversation, analysis.price);
+        return;
+      }
+      if (analysis.price > maxPrice) {
+        const declineMsg = await generateDeclineMessage(conversation.sellerName);
+        await this.sendToSeller(conversation, declineMsg);
+        await this.failConversation(conversation, `Price ${analysis.price} > ${maxPrice}`, 'us');
+        return;
+      }
+
+      // Seller quoted a price within our ceiling - that's the agreed price
+      conversation.price = analysis.price;
     }
 
     // Determine UPI ID
-    let upiId: string | null = null;
-
-    if (analysis.useSameNumber) {
-      const sellerPhone = extractPhoneFromWhatsAppId(conversation.sellerId);
-      if (sellerPhone) {
-        upiId = `${sellerPhone}@upi`;
-        logger.info('Using seller WhatsApp number for payment', { phone: sellerPhone });
-      }
-    } else if (analysis.upiId) {
-      upiId = analysis.upiId;
-    } else if (analysis.phoneNumber) {
-      upiId = `${analysis.phoneNumber}@upi`;
-    }
+    const upiId = this.resolveUpiId(conversation, analysis);
 
     if (upiId) {
-      // Seller gave payment details - set as current active conversation
-      this.currentConversationId = conversation.id;
+      // Seller gave payment details - commit to this seller (releases the others in parallel mode)
+      if (!(await this.acquirePaymentLock(conversation))) {
+        return;
+      }
 
       conversation.upiId = upiId;
       conversation.state = ConversationState.PAYMENT_PENDING;
-      conversation.updatedAt = new Date();
+      conversation.updatedAt = now();
 
       logger.info('Payment details received, requesting user confirmation', {
         seller: conversation.sellerName,
@@ -706,7 +938,7 @@ export class ConversationManager {
     // If seller said something conversational (agreeing, etc.) but no UPI, respond and ask for UPI
     if (analysis.agreesToSale === true || analysis.available === true) {
       logger.info('Seller agrees but no UPI provided, asking for UPI');
-      const askUpi = await generateAskUpiMessage();
+      const askUpi = await generateAskUpiMessage(conversation.sellerName);
       await this.sendToSeller(conversation, askUpi);
       this.onConversationUpdate();
       return;
@@ -714,17 +946,208 @@ export class ConversationManager {
 
     // If message is conversational, respond naturally then ask for UPI
     if (message.length > 5 && !analysis.needsMoreInfo) {
-      const response = await generateConversationalResponse(message, 'negotiating coupon purchase, need UPI details');
+      const response = await generateConversationalResponse(conversation.sellerName, message, 'negotiating coupon purchase, need UPI details');
       await this.sendToSeller(conversation, response);
       return;
     }
 
     // No UPI yet - ask again
-    const askUpi = await generateAskUpiMessage();
+    const askUpi = await generateAskUpiMessage(conversation.sellerName);
     await this.sendToSeller(conversation, askUpi);
     this.onConversationUpdate();
   }
 
+  // Commit to this seller for payment. Returns false if another seller already holds the lock
+  // (this one is then released). In parallel mode the winner releases every other open negotiation
+  private async acquirePaymentLock(conversation: Conversation): Promise<boolean> {
+    if (this.currentConversationId && this.currentConversationId !== conversation.id) {
+      const holder = this.conversations.get(this.currentConversationId);
+      if (holder && holder.state !== ConversationState.COMPLETED && holder.state !== ConversationState.FAILED) {
+        await this.releaseConversation(conversation, `Committed to another seller (${holder.sellerName})`);
+        return false;
+      }
+    }
+
+    this.currentConversationId = conversation.id;
+
+    const others = this.getOpenNegotiations(conversation.couponType).filter(c => c.id !== conversation.id);
+    if (others.length > 0) {
+      logger.info('Payment lock taken, releasing other sellers', {
+        conversationId: conversation.id,
+        seller: conversation.sellerName,
+        releasing: others.map(c => c.sellerName)
+      });
+      for (const other of others) {
+        await this.releaseConversation(other, `Committed to another seller (${conversation.sellerName})`);
+      }
+    }
+
+    return true;
+  }
+
+  // Politely let a seller go because we're buying from someone else
+  // Not the seller's fault, so they aren't blocked for the day
+  private async releaseConversation(conversation: Conversation, reason: string): Promise<void> {
+    // Mark as done first so replies arriving mid-release are ignored
+    conversation.state = ConversationState.FAILED;
+    conversation.failureReason = reason;
+    conversation.released = true;
+    conversation.updatedAt = now();
+    conversation.completedAt = now();
+
+    earlyCouponImages.delete(conversation.id);
+    receivedImagesPerConversation.delete(conversation.id);
+    rejectedCouponImages.delete(conversation.id);
+    negotiationState.delete(conversation.id);
+
+    if (this.currentConversationId === conversation.id) {
+      this.currentConversationId = null;
+    }
+
+    const releaseMsg = await generateReleaseSellerMessage(conversation.sellerName);
+    await this.sendToSeller(conversation, releaseMsg);
+
+    recordFailedDeal(
+      conversation.id,
+      conversation.couponType,
+      conversation.sellerName,
+      conversation.sellerId,
+      conversation.price,
+      reason,
+      conversation.messName
+    );
+
+    this.onConversationUpdate();
+    this.onConversationFailed(conversation.id, reason);
+
+    logger.info('Released seller', { conversationId: conversation.id, seller: conversation.sellerName, reason });
+  }
+
+  // Work out where to send payment from the seller's reply (UPI ID, phone number or "same number")
+  private resolveUpiId(conversation: Conversation, analysis: ResponseAnalysis): string | null {
+    if (analysis.useSameNumber) {
+      const sellerPhone = extractPhoneFromWhatsAppId(conversation.sellerId);
+      if (sellerPhone) {
+        logger.info('Using seller WhatsApp number for payment', { phone: sellerPhone });
+        return `${sellerPhone}@upi`;
+      }
+    } else if (analysis.upiId) {
+      return analysis.upiId;
+    } else if (analysis.phoneNumber) {
+      return `${analysis.phoneNumber}@upi`;
+    }
+    return null;
+  }
+
+  // Seller quoted above our ceiling - make the first counter-offer
+  private async startNegotiation(conversation: Conversation, sellerPrice: number): Promise<void> {
+    const offer = getCounterOffer(conversation.couponType, 1, now(), this.getMessMaxPrice(conversation));
+    negotiationState.set(conversation.id, { round: 1, lastSellerOffer: sellerPrice });
+
+    conversation.price = offer;
+    conversation.state = ConversationState.NEGOTIATING;
+    conversation.updatedAt = now();
+
+    logger.info('Seller price above ceiling, starting negotiation', {
+      conversationId: conversation.id,
+      sellerPrice,
+      offer
+    });
+
+    const counter = await generateCounterOffer(conversation.sellerName, sellerPrice, offer);
+    await this.sendToSeller(conversation, counter);
+    this.onConversationUpdate();
+  }
+
+  // Handle seller replies to our counter-offer
+  private async handleNegotiating(conversation: Conversation, message: string): Promise<void> {
+    const lowerMessage = message.toLowerCase().trim();
+    const negotiation = negotiationState.get(conversation.id) || { round: 1, lastSellerOffer: conversation.price };
+    const maxPrice = getMaxPrice(conversation.couponType, now(), this.getMessMaxPrice(conversation));
+
+    const isWaitMessage = WAIT_PATTERNS.some(p => lowerMessage.includes(p));
+    if (isWaitMessage) {
+      const ackResponse = await generateWaitingAcknowledgment(conversation.sellerName);
+      await this.sendToSeller(conversation, ackResponse);
+      return;
+    }
+
+    const analysis = await analyzeSellerResponse(message);
+
+    if (analysis.available === false) {
+      negotiationState.delete(conversation.id);
+      const response = await generateNotAvailableResponse(conversation.sellerName);
+      await this.sendToSeller(conversation, response);
+      await this.failConversation(conversation, 'Coupon not available', 'seller');
+      return;
+    }
+
+    // Seller countered within our ceiling, or accepted our offer without naming a price
+    const sellerCounterAccepted = analysis.price !== null && analysis.price <= maxPrice;
+    const sellerAgreedToOffer = analysis.price === null && (analysis.agreesToSale === true || this.resolveUpiId(conversation, analysis) !== null);
+
+    if (sellerCounterAccepted || sellerAgreedToOffer) {
+      if (sellerCounterAccepted) {
+        conversation.price = analysis.price!;
+      }
+      negotiationState.delete(conversation.id);
+
+      logger.info('Price agreed after negotiation', {
+        conversationId: conversation.id,
+        price: conversation.price,
+        rounds: negotiation.round
+      });
+
+      const upiId = this.resolveUpiId(conversation, analysis);
+      if (upiId) {
+        if (!(await this.acquirePaymentLock(conversation))) {
+          return;
+        }
+        conversation.upiId = upiId;
+        conversation.state = ConversationState.PAYMENT_PENDING;
+        conversation.updatedAt = now();
+        await this.requestUserConfirmationAndPay(conversation);
+        return;
+      }
+
+      conversation.state = ConversationState.AWAITING_PAYMENT_INFO;
+      conversation.updatedAt = now();
+      const agreedMsg = await generatePriceAgreedMessage(conversation.sellerName, conversation.price);
+      await this.sendToSeller(conversation, agreedMsg);
+      this.onConversationUpdate();
+      return;
+    }
+
+    // Seller didn't move enough (or refused) - counter again or give up
+    const sellerOffer = analysis.price ?? negotiation.lastSellerOffer;
+    const { maxRounds } = getNegotiationSettings();
+
+    if (negotiation.round >= maxRounds) {
+      negotiationState.delete(conversation.id);
+      const declineMsg = await generateDeclineMessage(conversation.sellerName);
+      await this.sendToSeller(conversation, declineMsg);
+      await this.failConversation(
+        conversation,
+        `Negotiation failed after ${negotiation.round} round(s): seller Rs.${sellerOffer}, our offer Rs.${conversation.price}`,
+        'us'
+      );
+      return;
+    }
+
+    const round = negotiation.round + 1;
+    const offer = getCounterOffer(conversation.couponType, round, now(), this.getMessMaxPrice(conversation));
+    negotiationState.set(conversation.id, { round, lastSellerOffer: sellerOffer });
+
+    conversation.price = offer;
+    conversation.updatedAt = now();
+
+    logger.info('Sending next counter-offer', { conversationId: conversation.id, round, sellerOffer, offer });
+
+    const counter = await generateCounterOffer(conversation.sellerName, sellerOffer, offer);
+    await this.sendToSeller(conversation, counter);
+    this.onConversationUpdate();
+  }
+
   // Handle messages while waiting for user to confirm payment
   private async handlePaymentPending(conversation: Conversation, message: string, mediaBuffer?: Buffer): Promise<void> {
     const lowerMessage = message.toLowerCase().trim();
@@ -760,38 +1183,47 @@ export class ConversationManager {
     if (isPaymentQuery || message.length > 3) {
       // Seller is likely asking about payment - tell them we're paying now
       logger.info('Seller asking about payment status, responding with "paying now"', { message: lowerMessage });
-      const payingMsg = await generatePayingNowMessage();
+      const payingMsg = await generatePayingNowMessage(conversation.sellerName);
       await this.sendToSeller(conversation, payingMsg);
       return;
     }
   }
 
   private async requestUserConfirmationAndPay(conversation: Conversation): Promise<void> {
-    // Send confirmation request to user
-    const confirmationMsg = `🔔 COUPON PURCHASE CONFIRMATION
+    // A prompt left open by a restart is waited on again rather than sent twice
+    const openPrompt = getOpenConfirmation(conversation.id);
+
+    // An open "paid" prompt means the user already approved this purchase
+    let confirmed = openPrompt?.kind === 'payment';
+    if (!confirmed) {
+      if (!openPrompt) {
+        // Send confirmation request to user
+        const confirmationMsg = `🔔 COUPON PURCHASE CONFIRMATION
 
 Seller: ${conversation.sellerName}
 Type: ${conversation.couponType.toUpperCase()}
-Amount: Rs.${FIXED_PRICE}
+Amount: Rs.${conversation.price}
 UPI: ${conversation.upiId}
 
 Reply "Ok" to proceed with payment.`;
 
-    await this.sendToSelf(confirmationMsg);
+        await this.sendToSelf(confirmationMsg);
 
-    // Also show desktop notification
-    sendPaymentNotification({
-      sellerName: conversation.sellerName,
-      upiId: conversation.upiId!,
-      amount: FIXED_PRICE,
-      couponType: conversation.couponType,
-      conversationId: conversation.id
-    });
+        // Also show desktop notification
+        sendPaymentNotification({
+          sellerName: conversation.sellerName,
+          upiId: conversation.upiId!,
+          amount: conversation.price,
+          couponType: conversation.couponType,
+          conversationId: conversation.id
+        });
+      }
 
-    logger.info('Waiting for user confirmation via WhatsApp...');
+      logger.info('Waiting for user confirmation via WhatsApp...');
 
-    // Wait for user to confirm via WhatsApp or terminal
-    const confirmed = await this.waitForUserConfirmation(conversation.id);
+      // Wait for user to confirm via WhatsApp or terminal
+      confirmed = await this.waitForUserConfirmation(conversation.id);
+    }
 
     if (confirmed) {
       // Now wait for payment confirmation
@@ -818,38 +1250,48 @@ Reply "Ok" to proceed with payment.`;
           }
         }
 
+        // An early image only counts if it passes coupon verification
+        const verification = couponImage ? await this.verifyCouponImage(conversation, couponImage) : null;
+
         // Send appropriate message based on whether coupon already exists
-        if (couponImage) {
+        if (couponImage && verification && !verification.rejection) {
           // Coupon already received - send payment done + thanks message
-          const thankWithPaymentMsg = await generatePaymentDoneWithThanks();
+          const thankWithPaymentMsg = await generatePaymentDoneWithThanks(conversation.sellerName);
           await this.sendToSeller(conversation, thankWithPaymentMsg);
 
+          const flag = verification.match ? await this.flagMatchedCoupon(conversation, verification.match) : undefined;
+
           // Complete the conversation immediately
           conversation.state = ConversationState.COMPLETED;
-          conversation.updatedAt = new Date();
-          conversation.completedAt = new Date();
+          conversation.updatedAt = now();
+          conversation.completedAt = now();
 
           sellerCancelFollowUpState.delete(conversation.id);
+          receivedImagesPerConversation.delete(conversation.id);
+          rejectedCouponImages.delete(conversation.id);
           this.currentConversationId = null;
-          clearSellerContext();
 
           // Record successful deal
-          saveCouponImage(conversation.couponType, couponImage, conversation.sellerName);
+          const payload = verification.fingerprint.qrPayload || undefined;
+          const imageFilename = saveCouponImage(conversation.couponType, couponImage, conversation.sellerName, undefined, payload);
           recordSuccessfulDeal(
             conversation.id,
             conversation.couponType,
             conversation.sellerName,
             conversation.sellerId,
-            FIXED_PRICE,
+            conversation.price,
             conversation.messName,
-            undefined
+            imageFilename || undefined,
+            payload,
+            flag
           );
+          recordCouponFingerprint(conversation.id, conversation.sellerId, conversation.sellerName, verification.fingerprint, imageFilename || undefined);
 
           // Notify user
-          const now = new Date();
-          const dateStr = now.toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
-          const timeStr = now.toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit', hour12: true });
-          const caption = `✅ COUPON PURCHASED!\n\n📋 Type: ${conversation.couponType.toUpperCase()}\n👤 Seller: ${conversation.sellerName}\n💰 Amount: Rs.${FIXED_PRICE}\n📅 Date: ${dateStr}\n🕐 Time: ${timeStr}`;
+          const timestamp = now();
+          const dateStr = formatLocalDate(timestamp);
+          const timeStr = formatLocalTime(timestamp);
+          const caption = `✅ COUPON PURCHASED!\n\n📋 Type: ${conversation.couponType.toUpperCase()}\n👤 Seller: ${conversation.sellerName}\n💰 Amount: Rs.${conversation.price}\n📅 Date: ${dateStr}\n🕐 Time: ${timeStr}`;
           await this.sendMediaToSelf(couponImage, caption);
 
           sendSuccessNotification(conversation.couponType);
@@ -861,17 +1303,22 @@ Reply "Ok" to proceed with payment.`;
         }
 
         // No coupon yet - send regular payment confirmation asking for coupon
-        const confirmMsg = await generatePaymentConfirmation(conversation.upiId, FIXED_PRICE);
+        const confirmMsg = await generatePaymentConfirmation(conversation.sellerName, conversation.upiId, conversation.price);
         await this.sendToSeller(conversation, confirmMsg);
 
         conversation.state = ConversationState.AWAITING_COUPON;
         conversation.couponFollowUpCount = 0;
-        conversation.lastCouponRequestTime = new Date();
-        conversation.updatedAt = new Date();
+        conversation.lastCouponRequestTime = now();
+        conversation.updatedAt = now();
 
         this.onConversationUpdate();
         logger.info('Payment confirmed, waiting for coupon image', { conversationId: conversation.id });
 
+        // The image they sent earlier wasn't a valid coupon - ask about it
+        if (couponImage && verification?.rejection) {
+          await this.rejectCouponImage(conversation, couponImage, verification.rejection, verification.match);
+        }
+
         // Start the coupon follow-up timer
         this.startCouponFollowUpTimer(conversation);
       } else {
@@ -884,7 +1331,7 @@ Reply "Ok" to proceed with payment.`;
 
   private async handlePaymentFailure(conversation: Conversation, reason: string): Promise<void> {
     // Send cancellation message to seller
-    const cancelMsg = await generateCancelMessageToSeller();
+    const cancelMsg = await generateCancelMessageToSeller(conversation.sellerName);
     await this.sendToSeller(conversation, cancelMsg);
     logger.info('Sent cancellation message to seller', { seller: conversation.sellerName });
 
@@ -902,7 +1349,7 @@ Looking for other sellers...`;
     // Clear current conversation to allow talking to new sellers
     this.currentConversationId = null;
 
-    await this.failConversation(conversation, reason);
+    await this.failConversation(conversation, reason, 'us');
   }
 
   private async handleAwaitingCoupon(conversation: Conversation, message: string, mediaBuffer?: Buffer): Promise<void> {
@@ -926,10 +1373,9 @@ Looking for other sellers...`;
       return;
     }
 
-    // When we receive ANY image in AWAITING_COUPON state, accept it as the coupon
-    // Sellers only send images when sharing the coupon - no need for strict QR detection
+    // Any image in AWAITING_COUPON state is a candidate - completeConversation verifies its QR first
     if (mediaBuffer) {
-      logger.info('Image received from seller in AWAITING_COUPON state - accepting as coupon', { conversationId: conversation.id });
+      logger.info('Image received from seller in AWAITING_COUPON state - verifying as coupon', { conversationId: conversation.id });
       sellerCancelFollowUpState.delete(conversation.id); // Clean up
       await this.completeConversation(conversation, mediaBuffer);
       return;
@@ -946,30 +1392,30 @@ Looking for other sellers...`;
 
       if (cancelState === 0) {
         // First time - ask what happened
-        const followUp = await generateSellerCancelFollowUp(message);
+        const followUp = await generateSellerCancelFollowUp(conversation.sellerName, message);
         await this.sendToSeller(conversation, followUp);
         sellerCancelFollowUpState.set(conversation.id, 1);
         return;
       } else if (cancelState === 1) {
         // Second time - try to convince, mention payment was made
-        const convince = await generateConvinceSeller();
+        const convince = await generateConvinceSeller(conversation.sellerName);
         await this.sendToSeller(conversation, convince);
         sellerCancelFollowUpState.set(conversation.id, 2);
         return;
       } else {
         // Third time - accept but ask for refund and track it
-        const refundRequest = await generateRefundRequest(FIXED_PRICE);
+        const refundRequest = await generateRefundRequest(conversation.sellerName, conversation.price);
         await this.sendToSeller(conversation, refundRequest);
         sellerCancelFollowUpState.delete(conversation.id);
 
         // Transition to refund tracking state
         conversation.state = ConversationState.AWAITING_REFUND;
         conversation.refundRequested = true;
-        conversation.updatedAt = new Date();
+        conversation.updatedAt = now();
         this.onConversationUpdate();
 
         // Notify user about this situation
-        await this.sendToSelf(`⚠️ SELLER CANCELLED AFTER PAYMENT!\n\nSeller: ${conversation.sellerName}\nAmount: Rs.${FIXED_PRICE}\n\nAsked seller for refund. Tracking refund status...`);
+        await this.sendToSelf(`⚠️ SELLER CANCELLED AFTER PAYMENT!\n\nSeller: ${conversation.sellerName}\nAmount: Rs.${conversation.price}\n\nAsked seller for refund. Tracking refund status...`);
 
         logger.info('Transitioned to AWAITING_REFUND state', { conversationId: conversation.id });
         return;
@@ -989,7 +1435,7 @@ Looking for other sellers...`;
     const isWaitMessage = WAIT_PATTERNS.some(p => lowerMessage.includes(p));
     if (isWaitMessage) {
       logger.info('Seller asking to wait, responding friendly', { message: lowerMessage });
-      const ackResponse = await generateWaitingAcknowledgment();
+      const ackResponse = await generateWaitingAcknowledgment(conversation.sellerName);
       await this.sendToSeller(conversation, ackResponse);
       return;
     }
@@ -1011,7 +1457,7 @@ Looking for other sellers...`;
     // If seller says something else, respond conversationally
     if (message.length > 3 && !analysis.hasCoupon) {
       logger.info('Generating conversational response to seller', { message: message.substring(0, 30) });
-      const response = await generateConversationalResponse(message, 'waiting for coupon after payment');
+      const response = await generateConversationalResponse(conversation.sellerName, message, 'waiting for coupon after payment');
       await this.sendToSeller(conversation, response);
     }
 
@@ -1028,12 +1474,12 @@ Looking for other sellers...`;
       logger.info('Seller confirms refund, asking for screenshot', { conversationId: conversation.id });
 
       // Ask for screenshot
-      const askScreenshot = await generateAskRefundScreenshot();
+      const askScreenshot = await generateAskRefundScreenshot(conversation.sellerName);
       await this.sendToSeller(conversation, askScreenshot);
 
       // Transition to waiting for screenshot
       conversation.state = ConversationState.AWAITING_REFUND_SCREENSHOT;
-      conversation.updatedAt = new Date();
+      conversation.updatedAt = now();
       this.onConversationUpdate();
       return;
     }
@@ -1042,7 +1488,7 @@ Looking for other sellers...`;
     const isWaitMessage = WAIT_PATTERNS.some(p => lowerMessage.includes(p));
     if (isWaitMessage) {
       logger.info('Seller asking to wait (refund context), responding friendly');
-      const ackResponse = await generateWaitingAcknowledgment();
+      const ackResponse = await generateWaitingAcknowledgment(conversation.sellerName);
       await this.sendToSeller(conversation, ackResponse);
       return;
     }
@@ -1050,7 +1496,7 @@ Looking for other sellers...`;
     // For other messages, respond conversationally while waiting for refund
     if (message.length > 2) {
       logger.info('Responding to seller during refund wait', { message: message.substring(0, 30) });
-      const response = await generateRefundConversation(message);
+      const response = await generateRefundConversation(conversation.sellerName, message, conversation.price);
       await this.sendToSeller(conversation, response);
     }
   }
@@ -1061,7 +1507,7 @@ Looking for other sellers...`;
       logger.info('Received refund screenshot', { conversationId: conversation.id });
 
       // Thank the seller
-      const thanks = await generateRefundThanks();
+      const thanks = await generateRefundThanks(conversation.sellerName);
       await this.sendToSeller(conversation, thanks);
 
       // Mark refund as received
@@ -1069,14 +1515,13 @@ Looking for other sellers...`;
       conversation.refundScreenshotReceived = true;
 
       // Notify user
-      await this.sendToSelf(`✅ REFUND RECEIVED!\n\nSeller: ${conversation.sellerName}\nAmount: Rs.${FIXED_PRICE}\n\nRefund screenshot received. Deal closed.`);
+      await this.sendToSelf(`✅ REFUND RECEIVED!\n\nSeller: ${conversation.sellerName}\nAmount: Rs.${conversation.price}\n\nRefund screenshot received. Deal closed.`);
 
       // Clear current conversation
       this.currentConversationId = null;
-      clearSellerContext();
 
       // Fail the conversation with refund confirmed
-      await this.failConversation(conversation, 'Seller cancelled after payment - REFUND RECEIVED');
+      await this.failConversation(conversation, 'Seller cancelled after payment - REFUND RECEIVED', 'seller');
       return;
     }
 
@@ -1086,86 +1531,83 @@ Looking for other sellers...`;
     const refundConfirm = detectRefundConfirmation(message);
     if (refundConfirm.isRefundConfirmed) {
       // They say sent but no image, ask again
-      const askAgain = await generateAskRefundScreenshot();
+      const askAgain = await generateAskRefundScreenshot(conversation.sellerName);
       await this.sendToSeller(conversation, askAgain);
       return;
     }
 
     // For other messages, respond and remind about screenshot
     if (message.length > 2) {
-      const response = await generateRefundConversation(message);
+      const response = await generateRefundConversation(conversation.sellerName, message, conversation.price);
       await this.sendToSeller(conversation, response);
     }
   }
 
+  // Ask for the coupon again in FOLLOW_UP_INTERVAL_MS (a saved timer, so it survives a restart)
   private startCouponFollowUpTimer(conversation: Conversation): void {
-    const FOLLOW_UP_INTERVAL_MS = 30 * 1000; // 30 seconds - check frequently for coupon
-    const MAX_FOLLOW_UPS = 8; // Max 8 follow-ups (4 minutes total) before giving up
+    scheduleTimer(COUPON_FOLLOW_UP_TIMER, conversation.id, FOLLOW_UP_INTERVAL_MS);
+  }
 
-    const checkAndFollowUp = async () => {
-      // Re-fetch conversation state (might have changed)
-      const currentConv = this.conversations.get(conversation.id);
-      if (!currentConv) return;
+  private async checkCouponFollowUp(conversationId: string): Promise<void> {
+    // Re-fetch conversation state (might have changed)
+    const currentConv = this.conversations.get(conversationId);
+    if (!currentConv) return;
 
-      // If completed or failed, stop following up
-      if (currentConv.state === ConversationState.COMPLETED || currentConv.state === ConversationState.FAILED) {
-        logger.debug('Conversation ended, stopping follow-up timer', { conversationId: conversation.id });
-        return;
-      }
-
-      // If not in AWAITING_COUPON state anymore, stop
-      if (currentConv.state !== ConversationState.AWAITING_COUPON) {
-        return;
-      }
+    // If completed or failed, stop following up
+    if (currentConv.state === ConversationState.COMPLETED || currentConv.state === ConversationState.FAILED) {
+      logger.debug('Conversation ended, stopping follow-up timer', { conversationId });
+      return;
+    }
 
-      // Check if we received an early coupon image that hasn't been processed yet (in memory)
-      const earlyCoupon = earlyCouponImages.get(conversation.id);
-      if (earlyCoupon) {
-        logger.info('Found early coupon image in memory during follow-up check, processing now', { conversationId: conversation.id });
-        earlyCouponImages.delete(conversation.id); // Clean up
-        sellerCancelFollowUpState.delete(conversation.id); // Clean up
-        await this.completeConversation(currentConv, earlyCoupon);
-        return;
-      }
+    // If not in AWAITING_COUPON state anymore, stop
+    if (currentConv.state !== ConversationState.AWAITING_COUPON) {
+      return;
+    }
 
-      // Scan the chat history for any coupon images before sending follow-up
-      const existingCoupon = await this.scanChatForCouponImage(currentConv);
-      if (existingCoupon) {
-        logger.info('Found existing coupon image in chat during follow-up check, processing now', { conversationId: conversation.id });
-        sellerCancelFollowUpState.delete(conversation.id); // Clean up
-        await this.completeConversation(currentConv, existingCoupon);
-        return;
-      }
+    // Check if we received an early coupon image that hasn't been processed yet (in memory)
+    const earlyCoupon = earlyCouponImages.get(conversationId);
+    if (earlyCoupon) {
+      logger.info('Found early coupon image in memory during follow-up check, processing now', { conversationId });
+      earlyCouponImages.delete(conversationId); // Clean up
+      sellerCancelFollowUpState.delete(conversationId); // Clean up
+      await this.completeConversation(currentConv, earlyCoupon);
+      return;
+    }
 
-      const followUpCount = currentConv.couponFollowUpCount || 0;
+    // Scan the chat history for any coupon images before sending follow-up
+    const existingCoupon = await this.scanChatForCouponImage(currentConv);
+    if (existingCoupon) {
+      logger.info('Found existing coupon image in chat during follow-up check, processing now', { conversationId });
+      sellerCancelFollowUpState.delete(conversationId); // Clean up
+      await this.completeConversation(currentConv, existingCoupon);
+      return;
+    }
 
-      // Check if max follow-ups reached
-      if (followUpCount >= MAX_FOLLOW_UPS) {
-        logger.warn('Max follow-ups reached, seller not sending coupon', { conversationId: conversation.id });
-        await this.handleCouponNotReceived(currentConv);
-        return;
-      }
+    const followUpCount = currentConv.couponFollowUpCount || 0;
 
-      // Send follow-up message
-      const followUpMsg = await generateCouponRequestMessage(followUpCount);
-      await this.sendToSeller(currentConv, followUpMsg);
+    // Check if max follow-ups reached
+    if (followUpCount >= MAX_FOLLOW_UPS) {
+      logger.warn('Max follow-ups reached, seller not sending coupon', { conversationId });
+      await this.handleCouponNotReceived(currentConv);
+      return;
+    }
 
-      currentConv.couponFollowUpCount = followUpCount + 1;
-      currentConv.lastCouponRequestTime = new Date();
-      currentConv.updatedAt = new Date();
-      this.onConversationUpdate();
+    // Send follow-up message
+    const followUpMsg = await generateCouponRequestMessage(currentConv.sellerName, followUpCount);
+    await this.sendToSeller(currentConv, followUpMsg);
 
-      logger.info('Sent coupon follow-up', {
-        conversationId: conversation.id,
-        followUpCount: currentConv.couponFollowUpCount
-      });
+    currentConv.couponFollowUpCount = followUpCount + 1;
+    currentConv.lastCouponRequestTime = now();
+    currentConv.updatedAt = now();
+    this.onConversationUpdate();
 
-      // Schedule next follow-up
-      setTimeout(checkAndFollowUp, FOLLOW_UP_INTERVAL_MS);
-    };
+    logger.info('Sent coupon follow-up', {
+      conversationId,
+      followUpCount: currentConv.couponFollowUpCount
+    });
 
-    // Schedule first follow-up after 1 minute
-    setTimeout(checkAndFollowUp, FOLLOW_UP_INTERVAL_MS);
+    // Schedule next follow-up
+    this.startCouponFollowUpTimer(currentConv);
   }
 
   private async handleCouponNotReceived(conversation: Conversation): Promise<void> {
@@ -1174,7 +1616,7 @@ Looking for other sellers...`;
 
 Seller: ${conversation.sellerName}
 Type: ${conversation.couponType.toUpperCase()}
-Amount: Rs.${FIXED_PRICE} (already paid)
+Amount: Rs.${conversation.price} (already paid)
 
 Seller hasn't sent the coupon after multiple requests.
 Please check the chat and handle manually.`;
@@ -1192,26 +1634,37 @@ Please check the chat and handle manually.`;
   }
 
   private async completeConversation(conversation: Conversation, couponImage: Buffer): Promise<void> {
+    const verification = await this.verifyCouponImage(conversation, couponImage);
+    if (verification.rejection) {
+      await this.rejectCouponImage(conversation, couponImage, verification.rejection, verification.match);
+      return;
+    }
+
+    // Looks like a coupon we already bought - flag it, but the seller has been paid so finish the deal
+    const flag = verification.match ? await this.flagMatchedCoupon(conversation, verification.match) : undefined;
+
     conversation.state = ConversationState.COMPLETED;
-    conversation.updatedAt = new Date();
-    conversation.completedAt = new Date(); // Track completion time for animation
+    conversation.updatedAt = now();
+    conversation.completedAt = now(); // Track completion time for animation
 
     // Clean up any stored images
     earlyCouponImages.delete(conversation.id);
     receivedImagesPerConversation.delete(conversation.id);
+    rejectedCouponImages.delete(conversation.id);
 
     // Clear current conversation to allow talking to new sellers
     this.currentConversationId = null;
-    clearSellerContext();
 
-    const thankYou = await generateThankYouMessage();
+    const thankYou = await generateThankYouMessage(conversation.sellerName);
     await this.sendToSeller(conversation, thankYou);
 
     // Save coupon image to disk
     const imageFilename = saveCouponImage(
       conversation.couponType,
       couponImage,
-      conversation.sellerName
+      conversation.sellerName,
+      undefined,
+      verification.fingerprint.qrPayload || undefined
     );
 
     // Record successful deal in history
@@ -1220,30 +1673,25 @@ Please check the chat and handle manually.`;
       conversation.couponType,
       conversation.sellerName,
       conversation.sellerId,
-      FIXED_PRICE,
+      conversation.price,
       conversation.messName,
-      imageFilename || undefined
+      imageFilename || undefined,
+      verification.fingerprint.qrPayload || undefined,
+      flag
     );
+    recordCouponFingerprint(conversation.id, conversation.sellerId, conversation.sellerName, verification.fingerprint, imageFilename || undefined);
 
     // Format date and time
-    const now = new Date();
-    const dateStr = now.toLocaleDateString('en-IN', {
-      day: '2-digit',
-      month: 'short',
-      year: 'numeric'
-    });
-    const timeStr = now.toLocaleTimeString('en-IN', {
-      hour: '2-digit',
-      minute: '2-digit',
-      hour12: true
-    });
+    const timestamp = now();
+    const dateStr = formatLocalDate(timestamp);
+    const timeStr = formatLocalTime(timestamp);
 
     // Forward coupon image to user with details
     const caption = `✅ COUPON PURCHASED!
 
 📋 Type: ${conversation.couponType.toUpperCase()}
 👤 Seller: ${conversation.sellerName}
-💰 Amount: Rs.${FIXED_PRICE}
+💰 Amount: Rs.${conversation.price}
 📅 Date: ${dateStr}
 🕐 Time: ${timeStr}`;
 
@@ -1259,20 +1707,21 @@ Please check the chat and handle manually.`;
     });
   }
 
-  private async failConversation(conversation: Conversation, reason: string): Promise<void> {
+  private async failConversation(conversation: Conversation, reason: string, endedBy: EndedBy): Promise<void> {
     conversation.state = ConversationState.FAILED;
     conversation.failureReason = reason;
-    conversation.updatedAt = new Date();
-    conversation.completedAt = new Date(); // Track completion time for animation
+    conversation.endedBy = endedBy;
+    conversation.updatedAt = now();
+    conversation.completedAt = now(); // Track completion time for animation
 
     // Clean up any stored images
     earlyCouponImages.delete(conversation.id);
     receivedImagesPerConversation.delete(conversation.id);
+    negotiationState.delete(conversation.id);
 
     // Clear current conversation to allow talking to new sellers
     if (this.currentConversationId === conversation.id) {
       this.currentConversationId = null;
-      clearSellerContext();
     }
 
     // Record failed deal in history
@@ -1281,7 +1730,7 @@ Please check the chat and handle manually.`;
       conversation.couponType,
       conversation.sellerName,
       conversation.sellerId,
-      FIXED_PRICE,
+      conversation.price,
       reason,
       conversation.messName,
       conversation.refundReceived
@@ -1290,17 +1739,9 @@ Please check the chat and handle manually.`;
     this.onConversationUpdate();
 
     // Send detailed failure summary to user
-    const now = new Date();
-    const dateStr = now.toLocaleDateString('en-IN', {
-      day: '2-digit',
-      month: 'short',
-      year: 'numeric'
-    });
-    const timeStr = now.toLocaleTimeString('en-IN', {
-      hour: '2-digit',
-      minute: '2-digit',
-      hour12: true
-    });
+    const timestamp = now();
+    const dateStr = formatLocalDate(timestamp);
+    const timeStr = formatLocalTime(timestamp);
 
     // Build detailed failure summary
     let summary = `❌ DEAL FAILED\n\n`;
@@ -1313,7 +1754,7 @@ Please check the chat and handle manually.`;
     // Add refund status if payment was made
     if (conversation.refundRequested) {
       summary += `\n💰 Payment Status:\n`;
-      summary += `   • Payment Made: Yes (Rs.${FIXED_PRICE})\n`;
+      summary += `   • Payment Made: Yes (Rs.${conversation.price})\n`;
       if (conversation.refundReceived) {
         summary += `   • Refund: ✅ RECEIVED\n`;
         if (conversation.refundScreenshotReceived) {
@@ -1339,7 +1780,7 @@ Please check the chat and handle manually.`;
   }
 
   getActiveConversations(): Conversation[] {
-    const now = Date.now();
+    const nowMs = getClock().now();
     const ANIMATION_WINDOW_MS = 15000; // Keep completed conversations visible for 15 seconds for animation
 
     return Array.from(this.conversations.values()).filter(c => {
@@ -1350,7 +1791,7 @@ Please check the chat and handle manually.`;
       // Include recently completed/failed conversations for animation
       if (c.completedAt) {
         const completedMs = new Date(c.completedAt).getTime();
-        return (now - completedMs) < ANIMATION_WINDOW_MS;
+        return (nowMs - completedMs) < ANIMATION_WINDOW_MS;
       }
       return false;
     });
@@ -1387,22 +1828,22 @@ Please check the chat and handle manually.`;
     });
 
     conversation.state = ConversationState.COMPLETED;
-    conversation.updatedAt = new Date();
-    conversation.completedAt = new Date();
+    conversation.updatedAt = now();
+    conversation.completedAt = now();
 
     // Clean up any stored images
     earlyCouponImages.delete(conversationId);
     receivedImagesPerConversation.delete(conversationId);
+    rejectedCouponImages.delete(conversationId);
     sellerCancelFollowUpState.delete(conversationId);
 
     // Clear current conversation to allow talking to new sellers
     if (this.currentConversationId === conversationId) {
       this.currentConversationId = null;
-      clearSellerContext();
     }
 
     // Send thank you message to seller
-    const thankYou = await generateThankYouMessage();
+    const thankYou = await generateThankYouMessage(conversation.sellerName);
     await this.sendToSeller(conversation, thankYou);
 
     // Record as successful deal (without coupon image)
@@ -1411,17 +1852,17 @@ Please check the chat and handle manually.`;
       conversation.couponType,
       conversation.sellerName,
       conversation.sellerId,
-      FIXED_PRICE,
+      conversation.price,
       conversation.messName,
       undefined // No coupon image
     );
 
     // Notify user
-    const now = new Date();
-    const dateStr = now.toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
-    const timeStr = now.toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit', hour12: true });
+    const timestamp = now();
+    const dateStr = formatLocalDate(timestamp);
+    const timeStr = formatLocalTime(timestamp);
 
-    await this.sendToSelf(`✅ DEAL MANUALLY COMPLETED\n\n📋 Type: ${conversation.couponType.toUpperCase()}\n👤 Seller: ${conversation.sellerName}\n💰 Amount: Rs.${FIXED_PRICE}\n📅 Date: ${dateStr}\n🕐 Time: ${timeStr}`);
+    await this.sendToSelf(`✅ DEAL MANUALLY COMPLETED\n\n📋 Type: ${conversation.couponType.toUpperCase()}\n👤 Seller: ${conversation.sellerName}\n💰 Amount: Rs.${conversation.price}\n📅 Date: ${dateStr}\n🕐 Time: ${timeStr}`);
 
     sendSuccessNotification(conversation.couponType);
     this.onCouponPurchased(conversation.couponType, conversationId);
@@ -1454,16 +1895,17 @@ Please check the chat and handle manually.`;
     });
 
     // Send cancellation message to seller
-    const cancelMsg = await generateCancelMessageToSeller();
+    const cancelMsg = await generateCancelMessageToSeller(conversation.sellerName);
     await this.sendToSeller(conversation, cancelMsg);
 
     // Clean up
     earlyCouponImages.delete(conversationId);
     receivedImagesPerConversation.delete(conversationId);
+    rejectedCouponImages.delete(conversationId);
     sellerCancelFollowUpState.delete(conversationId);
 
     // Mark as failed
-    await this.failConversation(conversation, reason);
+    await this.failConversation(conversation, reason, 'us');
 
     return { success: true };
   }
@@ -1,4 +1,11 @@
-export type CouponType = 'lunch' | 'dinner';
+// Name of a meal session from config.meals (by default 'lunch' or 'dinner')
+export type CouponType = string;
+
+// Which side called off a failed deal - only 'seller' counts against their reputation
+export type EndedBy = 'us' | 'seller';
+
+// Failure reason when the user drops a deal themselves (WhatsApp reply or `cancel <seller>`)
+export const USER_CANCELLED_REASON = 'User cancelled';
 
 export enum ConversationState {
   IDLE = 'IDLE',
@@ -48,6 +55,10 @@ export interface Conversation {
   messages?: ChatMessage[];
   // Completion tracking (for animation purposes)
   completedAt?: Date;
+  // Set when we let the seller go because another seller committed first (parallel mode)
+  released?: boolean;
+  // Set when the conversation fails
+  endedBy?: EndedBy;
 }
 
 export interface SellMessage {
@@ -61,34 +72,30 @@ export interface SellMessage {
   timestamp: Date;
 }
 
-export interface DailyState {
-  date: string; // YYYY-MM-DD
-  lunchBought: boolean;
-  dinnerBought: boolean;
-  lunchConversationId?: string;
-  dinnerConversationId?: string;
-  // Mess preferences for the day (array for multiple preferences, null = any)
-  lunchMessPreference?: string[] | null;
-  dinnerMessPreference?: string[] | null;
-  lunchPreferenceAsked?: boolean;
-  dinnerPreferenceAsked?: boolean;
-  // Session pause state
-  lunchPaused?: boolean;  // true = skip lunch for today
-  dinnerPaused?: boolean; // true = skip dinner for today
+// One entry of a ranked mess preference - earlier entries are preferred
+export interface MessChoice {
+  mess: string;
+  maxPrice?: number; // Most we'd pay for this mess (replaces the session's ceiling)
 }
 
-// List of messes at IIT Madras
-export const IITM_MESSES = [
-  'SGR',
-  'SRR',
-  'Firstman',
-  'Prism',
-  'Neelkesh',
-  'Food Sutra',
-  'Vindhya'
-] as const;
+// Ranked mess preference for a session (null = any mess)
+export type MessPreference = MessChoice[] | null;
 
-export type MessName = typeof IITM_MESSES[number] | 'any';
+export interface MealSessionState {
+  bought: boolean;
+  conversationId?: string;
+  messPreference?: MessPreference;
+  preferenceAsked?: boolean;
+  paused?: boolean; // true = skip this meal for today
+  skipReason?: string; // Set when the weekly plan or a skip range paused it, cleared on manual resume
+  maxPrice?: number; // Price cap for today only (the "max" command)
+}
+
+export interface DailyState {
+  date: string; // YYYY-MM-DD
+  // Keyed by meal session name; a missing entry means nothing has happened for that meal yet
+  sessions: Record<string, MealSessionState>;
+}
 
 export interface AppState {
   dailyState: DailyState;
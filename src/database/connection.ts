@@ -1,15 +1,56 @@
 import Database from 'better-sqlite3';
 import { readFileSync, existsSync, mkdirSync } from 'fs';
-import { join, dirname } from 'path';
+import { join, dirname, resolve } from 'path';
 import { fileURLToPath } from 'url';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
-const DATA_DIR = join(__dirname, '../../data');
+// DATA_DIR in the environment moves the database and coupon images (the simulator runs in a throwaway directory)
+const DATA_DIR = process.env.DATA_DIR ? resolve(process.env.DATA_DIR) : join(__dirname, '../../data');
 const DB_PATH = join(DATA_DIR, 'mess_coupon.db');
 const SCHEMA_PATH = join(__dirname, 'schema.sql');
 
 let db: Database.Database | null = null;
 
+// Columns added after a table was first created - CREATE TABLE IF NOT EXISTS won't add these
+// to an existing database, so they're applied with ALTER TABLE when missing
+const ADDED_COLUMNS: Array<{ table: string; column: string; definition: string }> = [
+  { table: 'conversations', column: 'released', definition: 'INTEGER DEFAULT 0' },
+  { table: 'conversations', column: 'ended_by', definition: 'TEXT' },
+  { table: 'deals', column: 'qr_payload', definition: 'TEXT' },
+  { table: 'deals', column: 'flag_reason', definition: 'TEXT' },
+  { table: 'coupon_images', column: 'qr_payload', definition: 'TEXT' },
+  { table: 'daily_sessions', column: 'skip_reason', definition: 'TEXT' },
+  { table: 'daily_sessions', column: 'max_price', definition: 'INTEGER' },
+  { table: 'skip_ranges', column: 'session', definition: 'TEXT' },
+  { table: 'dashboard_sessions', column: 'account_key', definition: 'TEXT' },
+  { table: 'api_tokens', column: 'accounts', definition: 'TEXT' }
+];
+
+// daily_state used to have a fixed set of lunch_* / dinner_* columns; they now live in daily_sessions
+const LEGACY_SESSION_COLUMNS = ['bought', 'conversation_id', 'mess_preference', 'preference_asked', 'paused'];
+
+function migrateLegacyDailyState(database: Database.Database): void {
+  const columns = database.prepare('PRAGMA table_info(daily_state)').all() as Array<{ name: string }>;
+  if (!columns.some(c => c.name === 'lunch_bought')) {
+    return;
+  }
+
+  database.transaction(() => {
+    for (const session of ['lunch', 'dinner']) {
+      database.exec(`
+        INSERT OR IGNORE INTO daily_sessions (account_id, date, session, ${LEGACY_SESSION_COLUMNS.join(', ')})
+        SELECT account_id, date, '${session}', ${LEGACY_SESSION_COLUMNS.map(c => `${session}_${c}`).join(', ')}
+        FROM daily_state
+      `);
+    }
+    for (const session of ['lunch', 'dinner']) {
+      for (const column of LEGACY_SESSION_COLUMNS) {
+        database.exec(`ALTER TABLE daily_state DROP COLUMN ${session}_${column}`);
+      }
+    }
+  })();
+}
+
 /**
  * Get or create the database connection singleton
  */
@@ -44,6 +85,16 @@ export function initializeSchema(): void {
   // Read and execute schema SQL
   const schema = readFileSync(SCHEMA_PATH, 'utf-8');
   database.exec(schema);
+
+  // Bring older databases up to date
+  for (const { table, column, definition } of ADDED_COLUMNS) {
+    const columns = database.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+    if (!columns.some(c => c.name === column)) {
+      database.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+
+  migrateLegacyDailyState(database);
 }
 
 /**
@@ -15,6 +15,15 @@ export * from './repositories/conversationRepository.js';
 export * from './repositories/dealRepository.js';
 export * from './repositories/couponImageRepository.js';
 export * from './repositories/processedMessageRepository.js';
+export * from './repositories/sellerListRepository.js';
+export * from './repositories/groupCursorRepository.js';
+export * from './repositories/couponFingerprintRepository.js';
+export * from './repositories/weeklyPlanRepository.js';
+export * from './repositories/messRepository.js';
+export * from './repositories/messAliasSuggestionRepository.js';
+export * from './repositories/timerRepository.js';
+export * from './repositories/confirmationRepository.js';
+export * from './repositories/dashboardAuthRepository.js';
 
 // Re-export connection utilities
 export { getDatabase, closeDatabase, databaseExists, getDatabasePath, getDataDir };
@@ -15,15 +15,58 @@ import { importDeals } from './repositories/dealRepository.js';
 import { addProcessedMessages } from './repositories/processedMessageRepository.js';
 import { saveCouponImage } from './repositories/couponImageRepository.js';
 import { logger } from '../utils/logger.js';
-import { DailyState, Conversation, CouponType } from '../conversation/types.js';
+import { normalizeMessPreference } from '../utils/messPreference.js';
+import { DailyState, Conversation, CouponType, MessPreference } from '../conversation/types.js';
+
+// state.json predates configurable meal sessions: lunch and dinner had their own fields
+interface OldDailyState {
+  date: string;
+  lunchBought: boolean;
+  dinnerBought: boolean;
+  lunchConversationId?: string;
+  dinnerConversationId?: string;
+  lunchMessPreference?: string[] | null;
+  dinnerMessPreference?: string[] | null;
+  lunchPreferenceAsked?: boolean;
+  dinnerPreferenceAsked?: boolean;
+  lunchPaused?: boolean;
+  dinnerPaused?: boolean;
+}
 
 interface OldPersistedState {
   accountId: string;
-  dailyState: DailyState;
+  dailyState: OldDailyState;
   conversations: Record<string, any>;
   processedMessageIds: string[];
 }
 
+// Flat mess lists become ranked lists (in the order they were picked)
+function convertOldPreference(preference: string[] | null | undefined): MessPreference | undefined {
+  return preference === undefined ? undefined : normalizeMessPreference(preference);
+}
+
+function convertOldDailyState(old: OldDailyState): DailyState {
+  return {
+    date: old.date,
+    sessions: {
+      lunch: {
+        bought: old.lunchBought,
+        conversationId: old.lunchConversationId,
+        messPreference: convertOldPreference(old.lunchMessPreference),
+        preferenceAsked: old.lunchPreferenceAsked,
+        paused: old.lunchPaused
+      },
+      dinner: {
+        bought: old.dinnerBought,
+        conversationId: old.dinnerConversationId,
+        messPreference: convertOldPreference(old.dinnerMessPreference),
+        preferenceAsked: old.dinnerPreferenceAsked,
+        paused: old.dinnerPaused
+      }
+    }
+  };
+}
+
 interface OldDealRecord {
   id: string;
   date: string;
@@ -96,7 +139,7 @@ function migrateStateFile(filePath: string, accountId: string): {
 
     // Migrate daily state
     if (state.dailyState) {
-      saveDailyState(accountId, state.dailyState);
+      saveDailyState(accountId, convertOldDailyState(state.dailyState));
     }
 
     // Migrate conversations
@@ -0,0 +1,115 @@
+import { getDatabase } from '../connection.js';
+
+// 'purchase' = reply "Ok" to buy, 'payment' = reply "paid" once the UPI payment went through
+export type ConfirmationKind = 'purchase' | 'payment';
+
+// Where an answer came from ('timeout' = nobody answered before the deadline)
+export type ConfirmationChannel = 'whatsapp' | 'terminal' | 'dashboard' | 'timeout';
+
+export interface ConfirmationRecord {
+  id: number;
+  conversationId: string;
+  kind: ConfirmationKind;
+  deadlineAt: Date;
+  createdAt: string;
+  resolvedAt: Date | null;
+  approved: boolean | null;
+  channel: ConfirmationChannel | null;
+}
+
+interface ConfirmationRow {
+  id: number;
+  account_id: string;
+  conversation_id: string;
+  kind: string;
+  deadline_at: string;
+  created_at: string;
+  resolved_at: string | null;
+  approved: number | null;
+  channel: string | null;
+}
+
+function rowToRecord(row: ConfirmationRow): ConfirmationRecord {
+  return {
+    id: row.id,
+    conversationId: row.conversation_id,
+    kind: row.kind as ConfirmationKind,
+    deadlineAt: new Date(row.deadline_at),
+    createdAt: row.created_at,
+    resolvedAt: row.resolved_at ? new Date(row.resolved_at) : null,
+    approved: row.approved === null ? null : row.approved === 1,
+    channel: row.channel as ConfirmationChannel | null
+  };
+}
+
+/**
+ * Record a new prompt waiting on the user, returns its ID
+ */
+export function createConfirmation(
+  accountId: string,
+  conversationId: string,
+  kind: ConfirmationKind,
+  deadlineAt: Date
+): number {
+  const db = getDatabase();
+
+  const stmt = db.prepare(`
+    INSERT INTO confirmations (account_id, conversation_id, kind, deadline_at)
+    VALUES (?, ?, ?, ?)
+  `);
+
+  const result = stmt.run(accountId, conversationId, kind, deadlineAt.toISOString());
+  return Number(result.lastInsertRowid);
+}
+
+/**
+ * Record the answer to a prompt (no-op if it was already answered)
+ */
+export function resolveConfirmationRecord(
+  id: number,
+  approved: boolean,
+  channel: ConfirmationChannel,
+  resolvedAt: Date
+): void {
+  const db = getDatabase();
+
+  const stmt = db.prepare(`
+    UPDATE confirmations
+    SET resolved_at = ?, approved = ?, channel = ?
+    WHERE id = ? AND resolved_at IS NULL
+  `);
+
+  stmt.run(resolvedAt.toISOString(), approved ? 1 : 0, channel, id);
+}
+
+/**
+ * Prompts still waiting for an answer, oldest first
+ */
+export function getOpenConfirmations(accountId: string): ConfirmationRecord[] {
+  const db = getDatabase();
+
+  const stmt = db.prepare(`
+    SELECT * FROM confirmations
+    WHERE account_id = ? AND resolved_at IS NULL
+    ORDER BY id
+  `);
+
+  const rows = stmt.all(accountId) as ConfirmationRow[];
+  return rows.map(rowToRecord);
+}
+
+/**
+ * Every prompt for a conversation and how it was answered, oldest first
+ */
+export function getConversationConfirmations(accountId: string, conversationId: string): ConfirmationRecord[] {
+  const db = getDatabase();
+
+  const stmt = db.prepare(`
+    SELECT * FROM confirmations
+    WHERE account_id = ? AND conversation_id = ?
+    ORDER BY id
+  `);
+
+  const rows = stmt.all(accountId, conversationId) as ConfirmationRow[];
+  return rows.map(rowToRecord);
+}
@@ -1,5 +1,5 @@
 import { getDatabase } from '../connection.js';
-import { Conversation, ConversationState, CouponType, ChatMessage } from '../../conversation/types.js';
+import { Conversation, ConversationState, CouponType, ChatMessage, EndedBy } from '../../conversation/types.js';
 
 interface ConversationRow {
   id: string;
@@ -24,6 +24,8 @@ interface ConversationRow {
   created_at: string;
   updated_at: string;
   completed_at: string | null;
+  released: number | null;
+  ended_by: string | null;
 }
 
 function rowToConversation(row: ConversationRow): Conversation {
@@ -51,7 +53,9 @@ function rowToConversation(row: ConversationRow): Conversation {
     })) : undefined,
     createdAt: new Date(row.created_at),
     updatedAt: new Date(row.updated_at),
-    completedAt: row.completed_at ? new Date(row.completed_at) : undefined
+    completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
+    released: row.released === 1 || undefined,
+    endedBy: (row.ended_by as EndedBy | null) || undefined
   };
 }
 
@@ -67,8 +71,8 @@ export function saveConversation(accountId: string, conversation: Conversation):
       group_id, group_name, original_message_id, mess_name, failure_reason,
       coupon_follow_up_count, last_coupon_request_time,
       refund_requested, refund_received, refund_screenshot_received,
-      messages, created_at, updated_at, completed_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      messages, created_at, updated_at, completed_at, released, ended_by
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     ON CONFLICT(id) DO UPDATE SET
       state = excluded.state,
       price = excluded.price,
@@ -82,7 +86,9 @@ export function saveConversation(accountId: string, conversation: Conversation):
       refund_screenshot_received = excluded.refund_screenshot_received,
       messages = excluded.messages,
       updated_at = excluded.updated_at,
-      completed_at = excluded.completed_at
+      completed_at = excluded.completed_at,
+      released = excluded.released,
+      ended_by = excluded.ended_by
   `);
 
   stmt.run(
@@ -107,7 +113,9 @@ export function saveConversation(accountId: string, conversation: Conversation):
     conversation.messages ? JSON.stringify(conversation.messages) : null,
     conversation.createdAt.toISOString(),
     conversation.updatedAt.toISOString(),
-    conversation.completedAt?.toISOString() || null
+    conversation.completedAt?.toISOString() || null,
+    conversation.released ? 1 : 0,
+    conversation.endedBy || null
   );
 }
 
@@ -0,0 +1,99 @@
+import { getDatabase } from '../connection.js';
+
+export interface CouponFingerprint {
+  id: number;
+  accountId: string;
+  dealId: string;
+  imageFilename: string | null;
+  sellerId: string;
+  sellerName: string | null;
+  qrPayload: string | null;
+  perceptualHash: string | null;
+  createdAt: string;
+}
+
+interface CouponFingerprintRow {
+  id: number;
+  account_id: string;
+  deal_id: string;
+  image_filename: string | null;
+  seller_id: string;
+  seller_name: string | null;
+  qr_payload: string | null;
+  perceptual_hash: string | null;
+  created_at: string;
+}
+
+function rowToFingerprint(row: CouponFingerprintRow): CouponFingerprint {
+  return {
+    id: row.id,
+    accountId: row.account_id,
+    dealId: row.deal_id,
+    imageFilename: row.image_filename,
+    sellerId: row.seller_id,
+    sellerName: row.seller_name,
+    qrPayload: row.qr_payload,
+    perceptualHash: row.perceptual_hash,
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Save the fingerprint of an accepted coupon
+ */
+export function saveCouponFingerprint(
+  accountId: string,
+  dealId: string,
+  sellerId: string,
+  sellerName: string | null,
+  qrPayload: string | null,
+  perceptualHash: string | null,
+  imageFilename: string | null
+): CouponFingerprint {
+  const db = getDatabase();
+
+  const stmt = db.prepare(`
+    INSERT INTO coupon_fingerprints (account_id, deal_id, image_filename, seller_id, seller_name, qr_payload, perceptual_hash)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+    RETURNING *
+  `);
+
+  const row = stmt.get(accountId, dealId, imageFilename, sellerId, sellerName, qrPayload, perceptualHash) as CouponFingerprintRow;
+
+  return rowToFingerprint(row);
+}
+
+/**
+ * Find earlier coupons with the same decoded QR payload (any account)
+ */
+export function findFingerprintsByPayload(qrPayload: string): CouponFingerprint[] {
+  const db = getDatabase();
+
+  const stmt = db.prepare(`
+    SELECT * FROM coupon_fingerprints
+    WHERE qr_payload = ?
+    ORDER BY created_at DESC
+  `);
+
+  const rows = stmt.all(qrPayload) as CouponFingerprintRow[];
+
+  return rows.map(rowToFingerprint);
+}
+
+/**
+ * Get fingerprints that have a perceptual hash, newest first (compared in code by Hamming distance)
+ */
+export function getFingerprintsWithHash(days: number = 30): CouponFingerprint[] {
+  const db = getDatabase();
+
+  const stmt = db.prepare(`
+    SELECT * FROM coupon_fingerprints
+    WHERE perceptual_hash IS NOT NULL
+      AND created_at >= datetime('now', '-' || ? || ' days')
+    ORDER BY created_at DESC
+  `);
+
+  const rows = stmt.all(days) as CouponFingerprintRow[];
+
+  return rows.map(rowToFingerprint);
+}
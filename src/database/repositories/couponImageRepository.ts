@@ -1,5 +1,6 @@
 import { getDatabase } from '../connection.js';
 import { CouponType } from '../../conversation/types.js';
+import { getLocalDate, getLocalDayStart, addDays, toSqliteDateTime } from '../../utils/time.js';
 
 export interface CouponImage {
   id: number;
@@ -10,6 +11,7 @@ export interface CouponImage {
   sellerName: string | null;
   createdAt: string;
   expiresAt: string;
+  qrPayload: string | null;
 }
 
 interface CouponImageRow {
@@ -21,6 +23,7 @@ interface CouponImageRow {
   seller_name: string | null;
   created_at: string;
   expires_at: string;
+  qr_payload: string | null;
 }
 
 function rowToImage(row: CouponImageRow): CouponImage {
@@ -32,12 +35,14 @@ function rowToImage(row: CouponImageRow): CouponImage {
     couponType: row.coupon_type as CouponType,
     sellerName: row.seller_name,
     createdAt: row.created_at,
-    expiresAt: row.expires_at
+    expiresAt: row.expires_at,
+    qrPayload: row.qr_payload
   };
 }
 
 /**
  * Save a coupon image record with 2-day expiry
+ * Images expire at local midnight, so "2 days" means two full days in the configured timezone
  */
 export function saveCouponImage(
   accountId: string,
@@ -45,13 +50,15 @@ export function saveCouponImage(
   couponType: CouponType,
   sellerName?: string,
   dealId?: string,
-  retentionDays: number = 2
+  retentionDays: number = 2,
+  qrPayload?: string
 ): CouponImage {
   const db = getDatabase();
+  const expiresAt = toSqliteDateTime(getLocalDayStart(addDays(getLocalDate(), retentionDays)));
 
   const stmt = db.prepare(`
-    INSERT INTO coupon_images (account_id, filename, deal_id, coupon_type, seller_name, expires_at)
-    VALUES (?, ?, ?, ?, ?, datetime('now', '+' || ? || ' days'))
+    INSERT INTO coupon_images (account_id, filename, deal_id, coupon_type, seller_name, expires_at, qr_payload)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
     RETURNING *
   `);
 
@@ -61,7 +68,8 @@ export function saveCouponImage(
     dealId || null,
     couponType,
     sellerName || null,
-    retentionDays
+    expiresAt,
+    qrPayload || null
   ) as CouponImageRow;
 
   return rowToImage(row);
@@ -1,40 +1,52 @@
 import { getDatabase } from '../connection.js';
-import { DailyState } from '../../conversation/types.js';
+import { DailyState, MealSessionState } from '../../conversation/types.js';
+import { getLocalDate, addDays } from '../../utils/time.js';
+import { normalizeMessPreference } from '../../utils/messPreference.js';
 
-interface DailyStateRow {
+interface DailySessionRow {
   id: number;
   account_id: string;
   date: string;
-  lunch_bought: number;
-  dinner_bought: number;
-  lunch_conversation_id: string | null;
-  dinner_conversation_id: string | null;
-  lunch_mess_preference: string | null;
-  dinner_mess_preference: string | null;
-  lunch_preference_asked: number;
-  dinner_preference_asked: number;
-  lunch_paused: number;
-  dinner_paused: number;
-  created_at: string;
+  session: string;
+  bought: number;
+  conversation_id: string | null;
+  mess_preference: string | null;
+  preference_asked: number;
+  paused: number;
+  skip_reason: string | null;
+  max_price: number | null;
   updated_at: string;
 }
 
-function rowToState(row: DailyStateRow): DailyState {
+function rowToSessionState(row: DailySessionRow): MealSessionState {
   return {
-    date: row.date,
-    lunchBought: row.lunch_bought === 1,
-    dinnerBought: row.dinner_bought === 1,
-    lunchConversationId: row.lunch_conversation_id || undefined,
-    dinnerConversationId: row.dinner_conversation_id || undefined,
-    lunchMessPreference: row.lunch_mess_preference ? JSON.parse(row.lunch_mess_preference) : undefined,
-    dinnerMessPreference: row.dinner_mess_preference ? JSON.parse(row.dinner_mess_preference) : undefined,
-    lunchPreferenceAsked: row.lunch_preference_asked === 1,
-    dinnerPreferenceAsked: row.dinner_preference_asked === 1,
-    lunchPaused: row.lunch_paused === 1,
-    dinnerPaused: row.dinner_paused === 1
+    bought: row.bought === 1,
+    conversationId: row.conversation_id || undefined,
+    messPreference: row.mess_preference ? normalizeMessPreference(JSON.parse(row.mess_preference)) : undefined,
+    preferenceAsked: row.preference_asked === 1,
+    paused: row.paused === 1,
+    skipReason: row.skip_reason || undefined,
+    maxPrice: row.max_price ?? undefined
   };
 }
 
+function getSessions(accountId: string, date: string): Record<string, MealSessionState> {
+  const db = getDatabase();
+
+  const stmt = db.prepare(`
+    SELECT * FROM daily_sessions
+    WHERE account_id = ? AND date = ?
+  `);
+
+  const rows = stmt.all(accountId, date) as DailySessionRow[];
+
+  const sessions: Record<string, MealSessionState> = {};
+  for (const row of rows) {
+    sessions[row.session] = rowToSessionState(row);
+  }
+  return sessions;
+}
+
 /**
  * Get daily state for an account and date
  */
@@ -42,15 +54,15 @@ export function getDailyState(accountId: string, date: string): DailyState | nul
   const db = getDatabase();
 
   const stmt = db.prepare(`
-    SELECT * FROM daily_state
+    SELECT date FROM daily_state
     WHERE account_id = ? AND date = ?
   `);
 
-  const row = stmt.get(accountId, date) as DailyStateRow | undefined;
+  const row = stmt.get(accountId, date) as { date: string } | undefined;
 
   if (!row) return null;
 
-  return rowToState(row);
+  return { date: row.date, sessions: getSessions(accountId, row.date) };
 }
 
 /**
@@ -60,76 +72,80 @@ export function getLatestDailyState(accountId: string): DailyState | null {
   const db = getDatabase();
 
   const stmt = db.prepare(`
-    SELECT * FROM daily_state
+    SELECT date FROM daily_state
     WHERE account_id = ?
     ORDER BY date DESC
     LIMIT 1
   `);
 
-  const row = stmt.get(accountId) as DailyStateRow | undefined;
+  const row = stmt.get(accountId) as { date: string } | undefined;
 
   if (!row) return null;
 
-  return rowToState(row);
+  return { date: row.date, sessions: getSessions(accountId, row.date) };
 }
 
 /**
- * Save or update daily state
+ * Save or update daily state (the day row plus one row per meal session)
  */
 export function saveDailyState(accountId: string, state: DailyState): void {
   const db = getDatabase();
 
-  const stmt = db.prepare(`
-    INSERT INTO daily_state (
-      account_id, date,
-      lunch_bought, dinner_bought,
-      lunch_conversation_id, dinner_conversation_id,
-      lunch_mess_preference, dinner_mess_preference,
-      lunch_preference_asked, dinner_preference_asked,
-      lunch_paused, dinner_paused,
-      updated_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+  const dayStmt = db.prepare(`
+    INSERT INTO daily_state (account_id, date, updated_at)
+    VALUES (?, ?, datetime('now'))
     ON CONFLICT(account_id, date) DO UPDATE SET
-      lunch_bought = excluded.lunch_bought,
-      dinner_bought = excluded.dinner_bought,
-      lunch_conversation_id = excluded.lunch_conversation_id,
-      dinner_conversation_id = excluded.dinner_conversation_id,
-      lunch_mess_preference = excluded.lunch_mess_preference,
-      dinner_mess_preference = excluded.dinner_mess_preference,
-      lunch_preference_asked = excluded.lunch_preference_asked,
-      dinner_preference_asked = excluded.dinner_preference_asked,
-      lunch_paused = excluded.lunch_paused,
-      dinner_paused = excluded.dinner_paused,
       updated_at = datetime('now')
   `);
 
-  stmt.run(
-    accountId,
-    state.date,
-    state.lunchBought ? 1 : 0,
-    state.dinnerBought ? 1 : 0,
-    state.lunchConversationId || null,
-    state.dinnerConversationId || null,
-    state.lunchMessPreference !== undefined ? JSON.stringify(state.lunchMessPreference) : null,
-    state.dinnerMessPreference !== undefined ? JSON.stringify(state.dinnerMessPreference) : null,
-    state.lunchPreferenceAsked ? 1 : 0,
-    state.dinnerPreferenceAsked ? 1 : 0,
-    state.lunchPaused ? 1 : 0,
-    state.dinnerPaused ? 1 : 0
-  );
+  const sessionStmt = db.prepare(`
+    INSERT INTO daily_sessions (
+      account_id, date, session,
+      bought, conversation_id, mess_preference, preference_asked, paused, skip_reason, max_price,
+      updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+    ON CONFLICT(account_id, date, session) DO UPDATE SET
+      bought = excluded.bought,
+      conversation_id = excluded.conversation_id,
+      mess_preference = excluded.mess_preference,
+      preference_asked = excluded.preference_asked,
+      paused = excluded.paused,
+      skip_reason = excluded.skip_reason,
+      max_price = excluded.max_price,
+      updated_at = datetime('now')
+  `);
+
+  db.transaction(() => {
+    dayStmt.run(accountId, state.date);
+
+    for (const [session, sessionState] of Object.entries(state.sessions)) {
+      sessionStmt.run(
+        accountId,
+        state.date,
+        session,
+        sessionState.bought ? 1 : 0,
+        sessionState.conversationId || null,
+        sessionState.messPreference !== undefined ? JSON.stringify(sessionState.messPreference) : null,
+        sessionState.preferenceAsked ? 1 : 0,
+        sessionState.paused ? 1 : 0,
+        sessionState.skipReason || null,
+        sessionState.maxPrice ?? null
+      );
+    }
+  })();
 }
 
 /**
- * Delete daily state records older than a given number of days
+ * Delete daily state records older than a given number of days (their sessions go with them)
  */
 export function cleanupOldDailyStates(accountId: string, daysToKeep: number = 30): number {
   const db = getDatabase();
 
   const stmt = db.prepare(`
     DELETE FROM daily_state
-    WHERE account_id = ? AND date < date('now', '-' || ? || ' days')
+    WHERE account_id = ? AND date < ?
   `);
 
-  const result = stmt.run(accountId, daysToKeep);
+  const result = stmt.run(accountId, addDays(getLocalDate(), -daysToKeep));
   return result.changes;
 }
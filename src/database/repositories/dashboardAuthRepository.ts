@@ -0,0 +1,183 @@
+import { getDatabase } from '../connection.js';
+
+// How a dashboard session was opened
+export type DashboardLoginMethod = 'password' | 'whatsapp_code';
+
+export interface DashboardSessionRecord {
+  id: number;
+  csrfToken: string;
+  loginMethod: DashboardLoginMethod;
+  accountKey: string | null;  // Account a code login is limited to, null = every account
+  createdAt: string;
+  expiresAt: Date;
+  lastSeenAt: Date | null;
+}
+
+export interface ApiTokenRecord {
+  id: number;
+  name: string;
+  permissions: string[];
+  accounts: string[] | null;  // Accounts the token may use, null = every account
+  createdAt: string;
+  lastUsedAt: Date | null;
+}
+
+interface DashboardSessionRow {
+  id: number;
+  token_hash: string;
+  csrf_token: string;
+  login_method: string;
+  account_key: string | null;
+  created_at: string;
+  expires_at: string;
+  last_seen_at: string | null;
+}
+
+interface ApiTokenRow {
+  id: number;
+  name: string;
+  token_hash: string;
+  permissions: string;
+  accounts: string | null;
+  created_at: string;
+  last_used_at: string | null;
+}
+
+function rowToSession(row: DashboardSessionRow): DashboardSessionRecord {
+  return {
+    id: row.id,
+    csrfToken: row.csrf_token,
+    loginMethod: row.login_method as DashboardLoginMethod,
+    accountKey: row.account_key,
+    createdAt: row.created_at,
+    expiresAt: new Date(row.expires_at),
+    lastSeenAt: row.last_seen_at ? new Date(row.last_seen_at) : null
+  };
+}
+
+function rowToApiToken(row: ApiTokenRow): ApiTokenRecord {
+  return {
+    id: row.id,
+    name: row.name,
+    permissions: row.permissions.split(',').filter(Boolean),
+    accounts: row.accounts ? row.accounts.split(',').filter(Boolean) : null,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at ? new Date(row.last_used_at) : null
+  };
+}
+
+/**
+ * Record a new dashboard login
+ */
+export function createDashboardSession(
+  tokenHash: string,
+  csrfToken: string,
+  loginMethod: DashboardLoginMethod,
+  accountKey: string | null,
+  expiresAt: Date
+): void {
+  const db = getDatabase();
+
+  const stmt = db.prepare(`
+    INSERT INTO dashboard_sessions (token_hash, csrf_token, login_method, account_key, expires_at)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+
+  stmt.run(tokenHash, csrfToken, loginMethod, accountKey, expiresAt.toISOString());
+}
+
+/**
+ * Get the session for a cookie hash, if it hasn't expired
+ */
+export function getDashboardSession(tokenHash: string, now: Date): DashboardSessionRecord | null {
+  const db = getDatabase();
+
+  const stmt = db.prepare(`
+    SELECT * FROM dashboard_sessions
+    WHERE token_hash = ? AND expires_at > ?
+  `);
+
+  const row = stmt.get(tokenHash, now.toISOString()) as DashboardSessionRow | undefined;
+
+  if (!row) return null;
+
+  return rowToSession(row);
+}
+
+export function touchDashboardSession(id: number, seenAt: Date): void {
+  const db = getDatabase();
+
+  const stmt = db.prepare('UPDATE dashboard_sessions SET last_seen_at = ? WHERE id = ?');
+  stmt.run(seenAt.toISOString(), id);
+}
+
+export function deleteDashboardSession(tokenHash: string): void {
+  const db = getDatabase();
+
+  const stmt = db.prepare('DELETE FROM dashboard_sessions WHERE token_hash = ?');
+  stmt.run(tokenHash);
+}
+
+/**
+ * Delete sessions past their expiry, returns how many were removed
+ */
+export function deleteExpiredDashboardSessions(now: Date): number {
+  const db = getDatabase();
+
+  const stmt = db.prepare('DELETE FROM dashboard_sessions WHERE expires_at <= ?');
+  return stmt.run(now.toISOString()).changes;
+}
+
+/**
+ * Save a new API token (only its hash), returns the record
+ */
+export function createApiToken(name: string, tokenHash: string, permissions: string[], accounts: string[] | null): ApiTokenRecord {
+  const db = getDatabase();
+
+  const stmt = db.prepare(`
+    INSERT INTO api_tokens (name, token_hash, permissions, accounts)
+    VALUES (?, ?, ?, ?)
+  `);
+
+  const result = stmt.run(name, tokenHash, permissions.join(','), accounts ? accounts.join(',') : null);
+
+  const row = db.prepare('SELECT * FROM api_tokens WHERE id = ?').get(result.lastInsertRowid) as ApiTokenRow;
+  return rowToApiToken(row);
+}
+
+export function getApiTokenByHash(tokenHash: string): ApiTokenRecord | null {
+  const db = getDatabase();
+
+  const row = db.prepare('SELECT * FROM api_tokens WHERE token_hash = ?').get(tokenHash) as ApiTokenRow | undefined;
+
+  if (!row) return null;
+
+  return rowToApiToken(row);
+}
+
+/**
+ * Get every API token, oldest first
+ */
+export function getApiTokens(): ApiTokenRecord[] {
+  const db = getDatabase();
+
+  const rows = db.prepare('SELECT * FROM api_tokens ORDER BY id').all() as ApiTokenRow[];
+  return rows.map(rowToApiToken);
+}
+
+export function touchApiToken(id: number, usedAt: Date): void {
+  const db = getDatabase();
+
+  const stmt = db.prepare('UPDATE api_tokens SET last_used_at = ? WHERE id = ?');
+  stmt.run(usedAt.toISOString(), id);
+}
+
+/**
+ * Revoke an API token
+ */
+export function deleteApiToken(id: number): boolean {
+  const db = getDatabase();
+
+  const stmt = db.prepare('DELETE FROM api_tokens WHERE id = ?');
+  return stmt.run(id).changes > 0;
+}
@@ -1,6 +1,7 @@
 import { getDatabase } from '../connection.js';
-import { CouponType } from '../../conversation/types.js';
+import { CouponType, EndedBy } from '../../conversation/types.js';
 import { DealRecord } from '../../state/history.js';
+import { getLocalDate } from '../../utils/time.js';
 
 interface DealRow {
   id: string;
@@ -16,6 +17,8 @@ interface DealRow {
   failure_reason: string | null;
   coupon_image_path: string | null;
   refund_received: number;
+  qr_payload: string | null;
+  flag_reason: string | null;
   created_at: string;
 }
 
@@ -32,7 +35,9 @@ function rowToDealRecord(row: DealRow): DealRecord {
     status: row.status as 'success' | 'failed',
     failureReason: row.failure_reason || undefined,
     couponImagePath: row.coupon_image_path || undefined,
-    refundReceived: row.refund_received === 1
+    refundReceived: row.refund_received === 1,
+    qrPayload: row.qr_payload || undefined,
+    flagReason: row.flag_reason || undefined
   };
 }
 
@@ -45,13 +50,15 @@ export function saveDeal(accountId: string, deal: DealRecord): void {
   const stmt = db.prepare(`
     INSERT INTO deals (
       id, account_id, date, timestamp, coupon_type, seller_name, seller_id,
-      price, mess_name, status, failure_reason, coupon_image_path, refund_received
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      price, mess_name, status, failure_reason, coupon_image_path, refund_received, qr_payload, flag_reason
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     ON CONFLICT(id) DO UPDATE SET
       status = excluded.status,
       failure_reason = excluded.failure_reason,
       coupon_image_path = excluded.coupon_image_path,
-      refund_received = excluded.refund_received
+      refund_received = excluded.refund_received,
+      qr_payload = excluded.qr_payload,
+      flag_reason = excluded.flag_reason
   `);
 
   stmt.run(
@@ -67,7 +74,9 @@ export function saveDeal(accountId: string, deal: DealRecord): void {
     deal.status,
     deal.failureReason || null,
     deal.couponImagePath || null,
-    deal.refundReceived ? 1 : 0
+    deal.refundReceived ? 1 : 0,
+    deal.qrPayload || null,
+    deal.flagReason || null
   );
 }
 
@@ -126,7 +135,7 @@ export function getDealsByDate(accountId: string, date: string): DealRecord[] {
  * Get today's deals for an account
  */
 export function getTodayDeals(accountId: string): DealRecord[] {
-  const today = new Date().toISOString().split('T')[0];
+  const today = getLocalDate();
   return getDealsByDate(accountId, today);
 }
 
@@ -138,8 +147,7 @@ export function getDealStats(accountId: string, days: number = 30): {
   successfulDeals: number;
   failedDeals: number;
   totalSpent: number;
-  lunchCount: number;
-  dinnerCount: number;
+  countsByType: Record<string, number>;  // Successful deals per meal session
 } {
   const db = getDatabase();
 
@@ -151,25 +159,102 @@ export function getDealStats(accountId: string, days: number = 30): {
       COUNT(*) as total,
       SUM(CASE WHEN status = 'success' THEN 1 ELSE 0 END) as successful,
       SUM(CASE WHEN status = 'failed' THEN 1 ELSE 0 END) as failed,
-      SUM(CASE WHEN status = 'success' THEN price ELSE 0 END) as total_spent,
-      SUM(CASE WHEN status = 'success' AND coupon_type = 'lunch' THEN 1 ELSE 0 END) as lunch_count,
-      SUM(CASE WHEN status = 'success' AND coupon_type = 'dinner' THEN 1 ELSE 0 END) as dinner_count
+      SUM(CASE WHEN status = 'success' THEN price ELSE 0 END) as total_spent
     FROM deals
     WHERE account_id = ? AND timestamp > ?
   `);
 
   const row = stmt.get(accountId, cutoffDate.toISOString()) as any;
 
+  const typeStmt = db.prepare(`
+    SELECT coupon_type, COUNT(*) as count
+    FROM deals
+    WHERE account_id = ? AND timestamp > ? AND status = 'success'
+    GROUP BY coupon_type
+  `);
+
+  const countsByType: Record<string, number> = {};
+  for (const typeRow of typeStmt.all(accountId, cutoffDate.toISOString()) as Array<{ coupon_type: string; count: number }>) {
+    countsByType[typeRow.coupon_type] = typeRow.count;
+  }
+
   return {
     totalDeals: row.total || 0,
     successfulDeals: row.successful || 0,
     failedDeals: row.failed || 0,
     totalSpent: row.total_spent || 0,
-    lunchCount: row.lunch_count || 0,
-    dinnerCount: row.dinner_count || 0
+    countsByType
   };
 }
 
+export interface SellerDealOutcome {
+  status: 'success' | 'failed';
+  failureReason?: string;
+  refundRequested: boolean;   // Seller backed out after we paid
+  refundReceived: boolean;
+  released: boolean;          // We let them go for another seller (not their fault)
+  endedBy?: EndedBy;          // Which side called off a failed deal
+  minutesToCoupon: number | null;  // First contact to coupon, successful deals only
+}
+
+interface SellerDealOutcomeRow {
+  status: string;
+  failure_reason: string | null;
+  refund_received: number;
+  // Conversation columns are null when the conversation has been cleaned up
+  refund_requested: number | null;
+  released: number | null;
+  ended_by: string | null;
+  conversation_created_at: string | null;
+  conversation_completed_at: string | null;
+}
+
+/**
+ * Get past deal outcomes with a seller, joined with the conversation for refund and timing details
+ */
+export function getSellerDealOutcomes(accountId: string, sellerId: string, days: number = 90): SellerDealOutcome[] {
+  const db = getDatabase();
+
+  const cutoffDate = new Date();
+  cutoffDate.setDate(cutoffDate.getDate() - days);
+
+  const stmt = db.prepare(`
+    SELECT
+      d.status,
+      d.failure_reason,
+      d.refund_received,
+      c.refund_requested,
+      c.released,
+      c.ended_by,
+      c.created_at AS conversation_created_at,
+      c.completed_at AS conversation_completed_at
+    FROM deals d
+    LEFT JOIN conversations c ON c.id = d.id
+    WHERE d.account_id = ? AND d.seller_id = ? AND d.timestamp > ?
+    ORDER BY d.timestamp DESC
+  `);
+
+  const rows = stmt.all(accountId, sellerId, cutoffDate.toISOString()) as SellerDealOutcomeRow[];
+
+  return rows.map(row => {
+    let minutesToCoupon: number | null = null;
+    if (row.status === 'success' && row.conversation_created_at && row.conversation_completed_at) {
+      const ms = new Date(row.conversation_completed_at).getTime() - new Date(row.conversation_created_at).getTime();
+      minutesToCoupon = Math.max(0, ms / 60000);
+    }
+
+    return {
+      status: row.status as 'success' | 'failed',
+      failureReason: row.failure_reason || undefined,
+      refundRequested: row.refund_requested === 1,
+      refundReceived: row.refund_received === 1,
+      released: row.released === 1,
+      endedBy: (row.ended_by as EndedBy | null) || undefined,
+      minutesToCoupon
+    };
+  });
+}
+
 /**
  * Clean up deals older than N days
  */
@@ -0,0 +1,36 @@
+import { getDatabase } from '../connection.js';
+
+/**
+ * Get the timestamp of the newest message we've seen in a group (null if never seen)
+ */
+export function getGroupCursor(accountId: string, groupId: string): Date | null {
+  const db = getDatabase();
+
+  const stmt = db.prepare(`
+    SELECT last_seen_at FROM group_cursors
+    WHERE account_id = ? AND group_id = ?
+  `);
+
+  const row = stmt.get(accountId, groupId) as { last_seen_at: string } | undefined;
+
+  return row ? new Date(row.last_seen_at) : null;
+}
+
+/**
+ * Advance a group's last-seen timestamp (never moves backwards)
+ */
+export function advanceGroupCursor(accountId: string, groupId: string, lastSeenAt: Date, messageId?: string): void {
+  const db = getDatabase();
+
+  const stmt = db.prepare(`
+    INSERT INTO group_cursors (account_id, group_id, last_seen_at, last_message_id)
+    VALUES (?, ?, ?, ?)
+    ON CONFLICT(account_id, group_id) DO UPDATE SET
+      last_seen_at = excluded.last_seen_at,
+      last_message_id = excluded.last_message_id,
+      updated_at = datetime('now')
+    WHERE excluded.last_seen_at > group_cursors.last_seen_at
+  `);
+
+  stmt.run(accountId, groupId, lastSeenAt.toISOString(), messageId || null);
+}
@@ -0,0 +1,125 @@
+import { getDatabase } from '../connection.js';
+
+export type AliasSuggestionSource = 'sell_post' | 'seller_reply';
+export type AliasSuggestionStatus = 'pending' | 'approved' | 'dismissed';
+
+export interface AliasSuggestion {
+  id: number;
+  token: string;
+  messId: number;
+  distance: number;
+  similarity: number;
+  occurrences: number;
+  source: AliasSuggestionSource;
+  example?: string;
+  status: AliasSuggestionStatus;
+  firstSeen: string;
+  lastSeen: string;
+}
+
+export interface AliasCandidateInput {
+  token: string;
+  messId: number;
+  distance: number;
+  similarity: number;
+  source: AliasSuggestionSource;
+  example: string;
+}
+
+interface AliasSuggestionRow {
+  id: number;
+  token: string;
+  mess_id: number;
+  distance: number;
+  similarity: number;
+  occurrences: number;
+  source: string;
+  example: string | null;
+  status: string;
+  first_seen: string;
+  last_seen: string;
+}
+
+function rowToSuggestion(row: AliasSuggestionRow): AliasSuggestion {
+  return {
+    id: row.id,
+    token: row.token,
+    messId: row.mess_id,
+    distance: row.distance,
+    similarity: row.similarity,
+    occurrences: row.occurrences,
+    source: row.source as AliasSuggestionSource,
+    example: row.example || undefined,
+    status: row.status as AliasSuggestionStatus,
+    firstSeen: row.first_seen,
+    lastSeen: row.last_seen
+  };
+}
+
+/**
+ * Record a sighting of an unmatched token (counts up if it was seen before)
+ * The closest mess is recalculated each time, since the registry may have changed
+ */
+export function recordAliasCandidate(candidate: AliasCandidateInput): void {
+  const db = getDatabase();
+
+  const stmt = db.prepare(`
+    INSERT INTO mess_alias_suggestions (token, mess_id, distance, similarity, source, example)
+    VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT(token) DO UPDATE SET
+      mess_id = excluded.mess_id,
+      distance = excluded.distance,
+      similarity = excluded.similarity,
+      source = excluded.source,
+      example = excluded.example,
+      occurrences = mess_alias_suggestions.occurrences + 1,
+      last_seen = datetime('now')
+  `);
+
+  stmt.run(candidate.token, candidate.messId, candidate.distance, candidate.similarity, candidate.source, candidate.example);
+}
+
+/**
+ * Get suggestions with a status, most often seen first
+ */
+export function getAliasSuggestionRecords(status: AliasSuggestionStatus = 'pending'): AliasSuggestion[] {
+  const db = getDatabase();
+
+  const stmt = db.prepare(`
+    SELECT * FROM mess_alias_suggestions
+    WHERE status = ?
+    ORDER BY occurrences DESC, similarity DESC, last_seen DESC
+  `);
+
+  const rows = stmt.all(status) as AliasSuggestionRow[];
+  return rows.map(rowToSuggestion);
+}
+
+/**
+ * Get a suggestion by ID
+ */
+export function getAliasSuggestionRecord(id: number): AliasSuggestion | null {
+  const db = getDatabase();
+
+  const row = db.prepare('SELECT * FROM mess_alias_suggestions WHERE id = ?').get(id) as AliasSuggestionRow | undefined;
+
+  if (!row) return null;
+
+  return rowToSuggestion(row);
+}
+
+/**
+ * Mark a suggestion approved or dismissed
+ */
+export function setAliasSuggestionStatus(id: number, status: AliasSuggestionStatus): boolean {
+  const db = getDatabase();
+
+  const stmt = db.prepare(`
+    UPDATE mess_alias_suggestions
+    SET status = ?
+    WHERE id = ?
+  `);
+
+  const result = stmt.run(status, id);
+  return result.changes > 0;
+}
@@ -0,0 +1,160 @@
+import { getDatabase } from '../connection.js';
+
+export interface MessRecord {
+  id: number;
+  name: string;
+  aliases: string[];         // Lowercase
+  fuzzyMatch: boolean;       // false = only exact name/alias matches
+  activeFrom: string | null; // YYYY-MM-DD, inclusive
+  activeUntil: string | null; // YYYY-MM-DD, inclusive
+  sortOrder: number;
+  createdAt?: string;
+}
+
+export interface MessInput {
+  name: string;
+  fuzzyMatch: boolean;
+  activeFrom: string | null;
+  activeUntil: string | null;
+  aliases?: string[];
+}
+
+interface MessRow {
+  id: number;
+  name: string;
+  fuzzy_match: number;
+  active_from: string | null;
+  active_until: string | null;
+  sort_order: number;
+  created_at: string;
+}
+
+interface MessAliasRow {
+  alias: string;
+  mess_id: number;
+}
+
+function rowToMess(row: MessRow, aliases: string[]): MessRecord {
+  return {
+    id: row.id,
+    name: row.name,
+    aliases,
+    fuzzyMatch: row.fuzzy_match === 1,
+    activeFrom: row.active_from,
+    activeUntil: row.active_until,
+    sortOrder: row.sort_order,
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Get every mess in the registry with its aliases, in menu order
+ */
+export function getMessRecords(): MessRecord[] {
+  const db = getDatabase();
+
+  const rows = db.prepare(`
+    SELECT * FROM messes
+    ORDER BY sort_order, id
+  `).all() as MessRow[];
+
+  const aliasRows = db.prepare(`
+    SELECT alias, mess_id FROM mess_aliases
+    ORDER BY alias
+  `).all() as MessAliasRow[];
+
+  return rows.map(row => rowToMess(row, aliasRows.filter(a => a.mess_id === row.id).map(a => a.alias)));
+}
+
+/**
+ * Count messes in the registry
+ */
+export function countMessRecords(): number {
+  const db = getDatabase();
+  const row = db.prepare('SELECT COUNT(*) as count FROM messes').get() as { count: number };
+  return row.count;
+}
+
+/**
+ * Add a mess (and its aliases) at the end of the menu
+ */
+export function insertMess(input: MessInput): number {
+  const db = getDatabase();
+
+  const insert = db.transaction(() => {
+    const result = db.prepare(`
+      INSERT INTO messes (name, fuzzy_match, active_from, active_until, sort_order)
+      VALUES (?, ?, ?, ?, (SELECT COALESCE(MAX(sort_order), 0) + 1 FROM messes))
+    `).run(input.name, input.fuzzyMatch ? 1 : 0, input.activeFrom, input.activeUntil);
+
+    const messId = Number(result.lastInsertRowid);
+    const aliasStmt = db.prepare('INSERT OR IGNORE INTO mess_aliases (alias, mess_id) VALUES (?, ?)');
+    for (const alias of input.aliases ?? []) {
+      aliasStmt.run(alias.toLowerCase(), messId);
+    }
+    return messId;
+  });
+
+  return insert();
+}
+
+/**
+ * Update a mess's name, fuzzy matching and active dates (aliases are edited separately)
+ */
+export function updateMessRecord(id: number, input: MessInput): boolean {
+  const db = getDatabase();
+
+  const stmt = db.prepare(`
+    UPDATE messes
+    SET name = ?, fuzzy_match = ?, active_from = ?, active_until = ?
+    WHERE id = ?
+  `);
+
+  const result = stmt.run(input.name, input.fuzzyMatch ? 1 : 0, input.activeFrom, input.activeUntil, id);
+  return result.changes > 0;
+}
+
+/**
+ * Delete a mess with its aliases and alias suggestions
+ */
+export function deleteMessRecord(id: number): boolean {
+  const db = getDatabase();
+
+  const deleteMess = db.transaction(() => {
+    db.prepare('DELETE FROM mess_aliases WHERE mess_id = ?').run(id);
+    db.prepare('DELETE FROM mess_alias_suggestions WHERE mess_id = ?').run(id);
+    return db.prepare('DELETE FROM messes WHERE id = ?').run(id).changes > 0;
+  });
+
+  return deleteMess();
+}
+
+/**
+ * Add an alias for a mess - false if the alias already exists
+ */
+export function insertMessAlias(messId: number, alias: string): boolean {
+  const db = getDatabase();
+
+  const stmt = db.prepare(`
+    INSERT OR IGNORE INTO mess_aliases (alias, mess_id)
+    VALUES (?, ?)
+  `);
+
+  const result = stmt.run(alias.toLowerCase(), messId);
+  return result.changes > 0;
+}
+
+/**
+ * Remove an alias from a mess
+ */
+export function deleteMessAlias(messId: number, alias: string): boolean {
+  const db = getDatabase();
+
+  const stmt = db.prepare(`
+    DELETE FROM mess_aliases
+    WHERE mess_id = ? AND alias = ?
+  `);
+
+  const result = stmt.run(messId, alias.toLowerCase());
+  return result.changes > 0;
+}
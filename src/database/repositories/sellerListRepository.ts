@@ -0,0 +1,110 @@
+import { getDatabase } from '../connection.js';
+
+export type SellerListType = 'block' | 'allow';
+
+export interface SellerListEntry {
+  sellerId: string;
+  sellerName?: string;
+  list: SellerListType;
+  reason?: string;
+  createdAt: string;
+}
+
+interface SellerListRow {
+  id: number;
+  account_id: string;
+  seller_id: string;
+  seller_name: string | null;
+  list: string;
+  reason: string | null;
+  created_at: string;
+}
+
+function rowToEntry(row: SellerListRow): SellerListEntry {
+  return {
+    sellerId: row.seller_id,
+    sellerName: row.seller_name || undefined,
+    list: row.list as SellerListType,
+    reason: row.reason || undefined,
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Add a seller to the blocklist or allowlist (moves them if already on the other list)
+ */
+export function setSellerListEntry(
+  accountId: string,
+  sellerId: string,
+  list: SellerListType,
+  sellerName?: string,
+  reason?: string
+): void {
+  const db = getDatabase();
+
+  const stmt = db.prepare(`
+    INSERT INTO seller_lists (account_id, seller_id, seller_name, list, reason)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(account_id, seller_id) DO UPDATE SET
+      seller_name = COALESCE(excluded.seller_name, seller_lists.seller_name),
+      list = excluded.list,
+      reason = excluded.reason,
+      created_at = datetime('now')
+  `);
+
+  stmt.run(accountId, sellerId, sellerName || null, list, reason || null);
+}
+
+/**
+ * Remove a seller from whichever list they're on
+ */
+export function removeSellerListEntry(accountId: string, sellerId: string): boolean {
+  const db = getDatabase();
+
+  const stmt = db.prepare(`
+    DELETE FROM seller_lists
+    WHERE account_id = ? AND seller_id = ?
+  `);
+
+  const result = stmt.run(accountId, sellerId);
+  return result.changes > 0;
+}
+
+/**
+ * Get the list entry for a seller, if any
+ */
+export function getSellerListEntry(accountId: string, sellerId: string): SellerListEntry | null {
+  const db = getDatabase();
+
+  const stmt = db.prepare(`
+    SELECT * FROM seller_lists
+    WHERE account_id = ? AND seller_id = ?
+  `);
+
+  const row = stmt.get(accountId, sellerId) as SellerListRow | undefined;
+
+  if (!row) return null;
+
+  return rowToEntry(row);
+}
+
+/**
+ * Get all blocklisted/allowlisted sellers for an account (optionally one list only)
+ */
+export function getSellerListEntries(accountId: string, list?: SellerListType): SellerListEntry[] {
+  const db = getDatabase();
+
+  const rows = list
+    ? db.prepare(`
+        SELECT * FROM seller_lists
+        WHERE account_id = ? AND list = ?
+        ORDER BY created_at DESC
+      `).all(accountId, list) as SellerListRow[]
+    : db.prepare(`
+        SELECT * FROM seller_lists
+        WHERE account_id = ?
+        ORDER BY created_at DESC
+      `).all(accountId) as SellerListRow[];
+
+  return rows.map(rowToEntry);
+}
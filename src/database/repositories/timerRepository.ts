@@ -0,0 +1,51 @@
+import { getDatabase } from '../connection.js';
+
+export interface PersistedTimer {
+  kind: string;
+  key: string;
+  dueAt: Date;
+}
+
+interface TimerRow {
+  kind: string;
+  timer_key: string;
+  due_at: string;
+}
+
+/**
+ * Save a pending timer (replaces an existing one with the same kind and key)
+ */
+export function saveTimer(accountId: string, timer: PersistedTimer): void {
+  const db = getDatabase();
+
+  const stmt = db.prepare(`
+    INSERT INTO timers (account_id, kind, timer_key, due_at)
+    VALUES (?, ?, ?, ?)
+    ON CONFLICT(account_id, kind, timer_key) DO UPDATE SET
+      due_at = excluded.due_at
+  `);
+
+  stmt.run(accountId, timer.kind, timer.key, timer.dueAt.toISOString());
+}
+
+/**
+ * Remove a timer once it has fired or been cancelled
+ */
+export function deleteTimer(accountId: string, kind: string, key: string): void {
+  const db = getDatabase();
+
+  const stmt = db.prepare('DELETE FROM timers WHERE account_id = ? AND kind = ? AND timer_key = ?');
+  stmt.run(accountId, kind, key);
+}
+
+/**
+ * All pending timers for an account, soonest first
+ */
+export function getTimers(accountId: string): PersistedTimer[] {
+  const db = getDatabase();
+
+  const stmt = db.prepare('SELECT kind, timer_key, due_at FROM timers WHERE account_id = ? ORDER BY due_at');
+  const rows = stmt.all(accountId) as TimerRow[];
+
+  return rows.map(row => ({ kind: row.kind, key: row.timer_key, dueAt: new Date(row.due_at) }));
+}
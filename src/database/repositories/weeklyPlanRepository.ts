@@ -0,0 +1,177 @@
+import { getDatabase } from '../connection.js';
+import { MessPreference } from '../../conversation/types.js';
+import { normalizeMessPreference } from '../../utils/messPreference.js';
+
+export type PlanMode = 'ask' | 'buy' | 'skip';
+
+export interface WeeklyPlanEntry {
+  weekday: number; // 0 = Sunday ... 6 = Saturday
+  session: string;
+  mode: PlanMode;
+  messPreference: MessPreference;
+  maxPrice: number | null;         // null = use the configured ceiling
+  updatedAt?: string;
+}
+
+export interface SkipRange {
+  id: number;
+  startDate: string; // YYYY-MM-DD, inclusive
+  endDate: string;   // YYYY-MM-DD, inclusive
+  session?: string;  // Only this meal session (unset = every session)
+  label?: string;
+  createdAt: string;
+}
+
+interface WeeklyPlanRow {
+  id: number;
+  account_id: string;
+  weekday: number;
+  session: string;
+  mode: string;
+  mess_preference: string | null;
+  max_price: number | null;
+  updated_at: string;
+}
+
+interface SkipRangeRow {
+  id: number;
+  account_id: string;
+  start_date: string;
+  end_date: string;
+  session: string | null;
+  label: string | null;
+  created_at: string;
+}
+
+function rowToPlanEntry(row: WeeklyPlanRow): WeeklyPlanEntry {
+  return {
+    weekday: row.weekday,
+    session: row.session,
+    mode: row.mode as PlanMode,
+    messPreference: row.mess_preference ? normalizeMessPreference(JSON.parse(row.mess_preference)) : null,
+    maxPrice: row.max_price,
+    updatedAt: row.updated_at
+  };
+}
+
+function rowToSkipRange(row: SkipRangeRow): SkipRange {
+  return {
+    id: row.id,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    session: row.session || undefined,
+    label: row.label || undefined,
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Get the stored weekly plan for an account (optionally one weekday only)
+ * Weekday/session pairs that were never edited have no row
+ */
+export function getWeeklyPlanEntries(accountId: string, weekday?: number): WeeklyPlanEntry[] {
+  const db = getDatabase();
+
+  const rows = weekday !== undefined
+    ? db.prepare(`
+        SELECT * FROM weekly_plan
+        WHERE account_id = ? AND weekday = ?
+      `).all(accountId, weekday) as WeeklyPlanRow[]
+    : db.prepare(`
+        SELECT * FROM weekly_plan
+        WHERE account_id = ?
+        ORDER BY weekday, session
+      `).all(accountId) as WeeklyPlanRow[];
+
+  return rows.map(rowToPlanEntry);
+}
+
+/**
+ * Save the plan for one weekday and session
+ */
+export function saveWeeklyPlanEntry(accountId: string, entry: WeeklyPlanEntry): void {
+  const db = getDatabase();
+
+  const stmt = db.prepare(`
+    INSERT INTO weekly_plan (account_id, weekday, session, mode, mess_preference, max_price, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, datetime('now'))
+    ON CONFLICT(account_id, weekday, session) DO UPDATE SET
+      mode = excluded.mode,
+      mess_preference = excluded.mess_preference,
+      max_price = excluded.max_price,
+      updated_at = datetime('now')
+  `);
+
+  stmt.run(
+    accountId,
+    entry.weekday,
+    entry.session,
+    entry.mode,
+    entry.messPreference ? JSON.stringify(entry.messPreference) : null,
+    entry.maxPrice
+  );
+}
+
+/**
+ * Get all skip ranges for an account, earliest first
+ */
+export function getSkipRanges(accountId: string): SkipRange[] {
+  const db = getDatabase();
+
+  const stmt = db.prepare(`
+    SELECT * FROM skip_ranges
+    WHERE account_id = ?
+    ORDER BY start_date, end_date
+  `);
+
+  const rows = stmt.all(accountId) as SkipRangeRow[];
+  return rows.map(rowToSkipRange);
+}
+
+/**
+ * Get the skip ranges covering a date, earliest first
+ */
+export function findSkipRanges(accountId: string, date: string): SkipRange[] {
+  const db = getDatabase();
+
+  const stmt = db.prepare(`
+    SELECT * FROM skip_ranges
+    WHERE account_id = ? AND start_date <= ? AND end_date >= ?
+    ORDER BY start_date
+  `);
+
+  const rows = stmt.all(accountId, date, date) as SkipRangeRow[];
+  return rows.map(rowToSkipRange);
+}
+
+/**
+ * Add a skip range
+ */
+export function addSkipRange(accountId: string, startDate: string, endDate: string, label?: string, session?: string): SkipRange {
+  const db = getDatabase();
+
+  const stmt = db.prepare(`
+    INSERT INTO skip_ranges (account_id, start_date, end_date, label, session)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+
+  const result = stmt.run(accountId, startDate, endDate, label || null, session || null);
+
+  const row = db.prepare('SELECT * FROM skip_ranges WHERE id = ?').get(result.lastInsertRowid) as SkipRangeRow;
+  return rowToSkipRange(row);
+}
+
+/**
+ * Remove a skip range
+ */
+export function removeSkipRange(accountId: string, id: number): boolean {
+  const db = getDatabase();
+
+  const stmt = db.prepare(`
+    DELETE FROM skip_ranges
+    WHERE account_id = ? AND id = ?
+  `);
+
+  const result = stmt.run(accountId, id);
+  return result.changes > 0;
+}
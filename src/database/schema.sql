@@ -9,34 +9,42 @@ CREATE TABLE IF NOT EXISTS users (
   last_login_at TEXT NOT NULL DEFAULT (datetime('now'))
 );
 
--- Daily state table: Daily preferences and purchase status
+-- Daily state table: One row per account per day
 CREATE TABLE IF NOT EXISTS daily_state (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
   account_id TEXT NOT NULL,
   date TEXT NOT NULL,  -- YYYY-MM-DD
-  lunch_bought INTEGER NOT NULL DEFAULT 0,
-  dinner_bought INTEGER NOT NULL DEFAULT 0,
-  lunch_conversation_id TEXT,
-  dinner_conversation_id TEXT,
-  lunch_mess_preference TEXT,  -- JSON array or null for 'any'
-  dinner_mess_preference TEXT,  -- JSON array or null for 'any'
-  lunch_preference_asked INTEGER NOT NULL DEFAULT 0,
-  dinner_preference_asked INTEGER NOT NULL DEFAULT 0,
-  lunch_paused INTEGER NOT NULL DEFAULT 0,
-  dinner_paused INTEGER NOT NULL DEFAULT 0,
   created_at TEXT NOT NULL DEFAULT (datetime('now')),
   updated_at TEXT NOT NULL DEFAULT (datetime('now')),
   UNIQUE(account_id, date),
   FOREIGN KEY (account_id) REFERENCES users(account_id)
 );
 
+-- Daily sessions table: Preferences and purchase status per meal session per day
+CREATE TABLE IF NOT EXISTS daily_sessions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  account_id TEXT NOT NULL,
+  date TEXT NOT NULL,  -- YYYY-MM-DD
+  session TEXT NOT NULL,  -- Meal session name from config (e.g. 'lunch')
+  bought INTEGER NOT NULL DEFAULT 0,
+  conversation_id TEXT,
+  mess_preference TEXT,  -- JSON ranked list of { mess, maxPrice? }, or null for 'any'
+  preference_asked INTEGER NOT NULL DEFAULT 0,
+  paused INTEGER NOT NULL DEFAULT 0,
+  skip_reason TEXT,  -- Why the session was paused automatically (weekly plan, skip range)
+  max_price INTEGER,  -- Price cap for today only (null = the usual limits)
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE(account_id, date, session),
+  FOREIGN KEY (account_id, date) REFERENCES daily_state(account_id, date) ON DELETE CASCADE
+);
+
 -- Conversations table: All conversation data with messages
 CREATE TABLE IF NOT EXISTS conversations (
   id TEXT PRIMARY KEY,  -- Conversation ID
   account_id TEXT NOT NULL,
   seller_id TEXT NOT NULL,
   seller_name TEXT NOT NULL,
-  coupon_type TEXT NOT NULL,  -- 'lunch' or 'dinner'
+  coupon_type TEXT NOT NULL,  -- Meal session name (e.g. 'lunch')
   state TEXT NOT NULL,
   price REAL NOT NULL DEFAULT 0,
   upi_id TEXT,
@@ -54,6 +62,8 @@ CREATE TABLE IF NOT EXISTS conversations (
   created_at TEXT NOT NULL,
   updated_at TEXT NOT NULL,
   completed_at TEXT,
+  released INTEGER DEFAULT 0,  -- 1 if let go because another seller committed first
+  ended_by TEXT,  -- 'us' or 'seller' for failed conversations
   FOREIGN KEY (account_id) REFERENCES users(account_id)
 );
 
@@ -63,7 +73,7 @@ CREATE TABLE IF NOT EXISTS deals (
   account_id TEXT NOT NULL,
   date TEXT NOT NULL,  -- YYYY-MM-DD
   timestamp TEXT NOT NULL,  -- ISO string
-  coupon_type TEXT NOT NULL,  -- 'lunch' or 'dinner'
+  coupon_type TEXT NOT NULL,  -- Meal session name (e.g. 'lunch')
   seller_name TEXT NOT NULL,
   seller_id TEXT NOT NULL,
   price REAL NOT NULL,
@@ -72,6 +82,8 @@ CREATE TABLE IF NOT EXISTS deals (
   failure_reason TEXT,
   coupon_image_path TEXT,
   refund_received INTEGER DEFAULT 0,
+  qr_payload TEXT,  -- Decoded QR of the coupon we accepted
+  flag_reason TEXT,  -- Why the coupon looks resold (matched an earlier fingerprint)
   created_at TEXT NOT NULL DEFAULT (datetime('now')),
   FOREIGN KEY (account_id) REFERENCES users(account_id)
 );
@@ -86,6 +98,7 @@ CREATE TABLE IF NOT EXISTS coupon_images (
   seller_name TEXT,
   created_at TEXT NOT NULL DEFAULT (datetime('now')),
   expires_at TEXT NOT NULL,  -- For 2-day retention cleanup
+  qr_payload TEXT,  -- Decoded QR, used to reject a coupon that was already sold to us
   FOREIGN KEY (account_id) REFERENCES users(account_id),
   FOREIGN KEY (deal_id) REFERENCES deals(id)
 );
@@ -100,6 +113,156 @@ CREATE TABLE IF NOT EXISTS processed_messages (
   FOREIGN KEY (account_id) REFERENCES users(account_id)
 );
 
+-- Seller lists table: Permanent blocklist (scammers) and allowlist (trusted friends)
+CREATE TABLE IF NOT EXISTS seller_lists (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  account_id TEXT NOT NULL,
+  seller_id TEXT NOT NULL,  -- WhatsApp ID (e.g. 919876543210@c.us)
+  seller_name TEXT,
+  list TEXT NOT NULL,  -- 'block' or 'allow'
+  reason TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE(account_id, seller_id),
+  FOREIGN KEY (account_id) REFERENCES users(account_id)
+);
+
+-- Group cursors table: Newest message seen per group, used to backfill exactly the gap after a disconnect
+CREATE TABLE IF NOT EXISTS group_cursors (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  account_id TEXT NOT NULL,
+  group_id TEXT NOT NULL,
+  last_seen_at TEXT NOT NULL,  -- ISO timestamp of the newest message seen
+  last_message_id TEXT,
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE(account_id, group_id),
+  FOREIGN KEY (account_id) REFERENCES users(account_id)
+);
+
+-- Coupon fingerprints table: QR payload + perceptual hash of every coupon we accepted, to catch resold coupons
+CREATE TABLE IF NOT EXISTS coupon_fingerprints (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  account_id TEXT NOT NULL,
+  deal_id TEXT NOT NULL,
+  image_filename TEXT,  -- coupon_images.filename (the image record expires, the fingerprint doesn't)
+  seller_id TEXT NOT NULL,
+  seller_name TEXT,
+  qr_payload TEXT,
+  perceptual_hash TEXT,  -- 64-bit dHash as hex
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (account_id) REFERENCES users(account_id),
+  FOREIGN KEY (deal_id) REFERENCES deals(id)
+);
+
+-- Weekly plan table: What to do for each weekday and meal session
+CREATE TABLE IF NOT EXISTS weekly_plan (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  account_id TEXT NOT NULL,
+  weekday INTEGER NOT NULL,  -- 0 = Sunday ... 6 = Saturday
+  session TEXT NOT NULL,  -- Meal session name from config
+  mode TEXT NOT NULL DEFAULT 'ask',  -- 'ask' (morning prompt), 'buy' (use the planned messes), 'skip'
+  mess_preference TEXT,  -- JSON ranked list of { mess, maxPrice? }, or null for 'any'
+  max_price REAL,  -- Price ceiling for this day, null = use config
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE(account_id, weekday, session),
+  FOREIGN KEY (account_id) REFERENCES users(account_id)
+);
+
+-- Skip ranges table: Dates when no coupons are needed at all (e.g. going home)
+CREATE TABLE IF NOT EXISTS skip_ranges (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  account_id TEXT NOT NULL,
+  start_date TEXT NOT NULL,  -- YYYY-MM-DD, inclusive
+  end_date TEXT NOT NULL,  -- YYYY-MM-DD, inclusive
+  session TEXT,  -- Only this meal session (null = every session)
+  label TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (account_id) REFERENCES users(account_id)
+);
+
+-- Messes table: Mess registry (shared by every account); seeded with the IITM messes on first use
+CREATE TABLE IF NOT EXISTS messes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL UNIQUE COLLATE NOCASE,  -- Canonical name used in preferences and deals
+  fuzzy_match INTEGER NOT NULL DEFAULT 1,  -- 0 = only exact name/alias matches (names too close to another mess, e.g. SGR/SRR)
+  active_from TEXT,  -- YYYY-MM-DD, inclusive; null = no start
+  active_until TEXT,  -- YYYY-MM-DD, inclusive; null = no end
+  sort_order INTEGER NOT NULL DEFAULT 0,  -- Position in the preference menu
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+-- Mess aliases table: Other names and common misspellings people use for a mess
+CREATE TABLE IF NOT EXISTS mess_aliases (
+  alias TEXT PRIMARY KEY,  -- Lowercase
+  mess_id INTEGER NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (mess_id) REFERENCES messes(id) ON DELETE CASCADE
+);
+
+-- Mess alias suggestions table: Words from sell posts / seller replies that matched no mess but are close to one
+CREATE TABLE IF NOT EXISTS mess_alias_suggestions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  token TEXT NOT NULL UNIQUE,  -- Lowercase word or two-word phrase
+  mess_id INTEGER NOT NULL,  -- Closest mess by edit distance
+  distance INTEGER NOT NULL,  -- Edit distance to the closest name/alias of that mess
+  similarity REAL NOT NULL,  -- 0 to 1
+  occurrences INTEGER NOT NULL DEFAULT 1,
+  source TEXT NOT NULL,  -- Where it was last seen: 'sell_post' or 'seller_reply'
+  example TEXT,  -- Last message it was seen in (truncated)
+  status TEXT NOT NULL DEFAULT 'pending',  -- 'pending', 'approved' (added as an alias) or 'dismissed'
+  first_seen TEXT NOT NULL DEFAULT (datetime('now')),
+  last_seen TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (mess_id) REFERENCES messes(id) ON DELETE CASCADE
+);
+
+-- Timers table: Pending timers that must survive a restart (e.g. coupon follow-ups), re-armed after login
+CREATE TABLE IF NOT EXISTS timers (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  account_id TEXT NOT NULL,
+  kind TEXT NOT NULL,  -- What to run when it fires (e.g. 'coupon_follow_up')
+  timer_key TEXT NOT NULL,  -- What it's about (e.g. the conversation ID)
+  due_at TEXT NOT NULL,  -- ISO timestamp
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE(account_id, kind, timer_key),
+  FOREIGN KEY (account_id) REFERENCES users(account_id)
+);
+
+-- Confirmations table: "Ok" / "paid" prompts waiting on the user, with their deadlines and how each was answered
+CREATE TABLE IF NOT EXISTS confirmations (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  account_id TEXT NOT NULL,
+  conversation_id TEXT NOT NULL,
+  kind TEXT NOT NULL,  -- 'purchase' (reply "Ok" to buy) or 'payment' (reply "paid" once paid)
+  deadline_at TEXT NOT NULL,  -- ISO timestamp; no answer by then counts as a no
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  resolved_at TEXT,  -- ISO timestamp; null while waiting
+  approved INTEGER,  -- 1 = ok / paid, 0 = declined, cancelled or timed out
+  channel TEXT,  -- Where the answer came from: 'whatsapp', 'terminal', 'dashboard' or 'timeout'
+  FOREIGN KEY (account_id) REFERENCES users(account_id)
+);
+
+-- Dashboard sessions table: Browser logins to the web dashboard (shared by every account)
+CREATE TABLE IF NOT EXISTS dashboard_sessions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  token_hash TEXT NOT NULL UNIQUE,  -- SHA-256 of the session cookie; the cookie itself is never stored
+  csrf_token TEXT NOT NULL,  -- Sent back in the X-CSRF-Token header on every change
+  login_method TEXT NOT NULL,  -- 'password' or 'whatsapp_code'
+  account_key TEXT,  -- Configured account a code login is limited to (the one whose self-chat got the code); NULL = every account
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  expires_at TEXT NOT NULL,  -- ISO timestamp
+  last_seen_at TEXT  -- ISO timestamp
+);
+
+-- API tokens table: Scoped bearer tokens for scripts, optionally limited to some accounts
+CREATE TABLE IF NOT EXISTS api_tokens (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,  -- SHA-256 of the token; the token is only shown once, when created
+  permissions TEXT NOT NULL,  -- Comma-separated: view, control, payments, admin
+  accounts TEXT,  -- Comma-separated configured account ids the token may use; NULL = every account
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  last_used_at TEXT  -- ISO timestamp
+);
+
 -- Indexes for performance
 CREATE INDEX IF NOT EXISTS idx_daily_state_account_date ON daily_state(account_id, date);
 CREATE INDEX IF NOT EXISTS idx_conversations_account ON conversations(account_id);
@@ -110,3 +273,9 @@ CREATE INDEX IF NOT EXISTS idx_deals_timestamp ON deals(timestamp);
 CREATE INDEX IF NOT EXISTS idx_coupon_images_expires ON coupon_images(expires_at);
 CREATE INDEX IF NOT EXISTS idx_coupon_images_account ON coupon_images(account_id);
 CREATE INDEX IF NOT EXISTS idx_processed_messages_account ON processed_messages(account_id);
+CREATE INDEX IF NOT EXISTS idx_seller_lists_account ON seller_lists(account_id);
+CREATE INDEX IF NOT EXISTS idx_coupon_fingerprints_payload ON coupon_fingerprints(qr_payload);
+CREATE INDEX IF NOT EXISTS idx_skip_ranges_account_dates ON skip_ranges(account_id, start_date, end_date);
+CREATE INDEX IF NOT EXISTS idx_mess_aliases_mess ON mess_aliases(mess_id);
+CREATE INDEX IF NOT EXISTS idx_mess_alias_suggestions_status ON mess_alias_suggestions(status);
+CREATE INDEX IF NOT EXISTS idx_confirmations_account_conversation ON confirmations(account_id, conversation_id);
@@ -2,26 +2,55 @@ import 'dotenv/config';
 import * as readline from 'readline';
 import pkg from 'whatsapp-web.js';
 
-import { initWhatsAppClient, sendMessage, sendMediaMessage, getGroupChats, getMyWhatsAppId, makeCall, logout, reinitializeClient, fetchChatMediaMessages } from './whatsapp/client.js';
+import { WhatsAppSession } from './whatsapp/client.js';
 import { GroupMonitor } from './whatsapp/groupMonitor.js';
 import { DirectMessageHandler } from './whatsapp/messageHandler.js';
 import { ConversationManager } from './conversation/stateMachine.js';
 import { DailyTracker } from './state/dailyTracker.js';
-import { loadState, saveState, loadStateForAccount, clearCurrentAccount, setCurrentAccount } from './state/persistence.js';
-import { initGroqClient } from './llm/groqClient.js';
+import { saveState, loadStateForAccount, clearCurrentAccount, AccountScope, createAccountScope, runInAccount } from './state/persistence.js';
+import { Account, getAccounts } from './state/accounts.js';
+import { initLLMProviders, getLLMUsageStats } from './llm/llmClient.js';
 import { getConfig, phoneToWhatsAppId } from './utils/config.js';
 import { logger } from './utils/logger.js';
-import { detectSellMessage, detectUserCancellation } from './llm/messageParser.js';
-import { generateWaitPayingMessage, generateUserDeclinedMessage, detectMessNameInMessage } from './llm/conversationAI.js';
-import { Conversation, CouponType, SellMessage } from './conversation/types.js';
-import { WebServer } from './web/server.js';
+import { getLocalDate, getLocalTime, getTimezone } from './utils/time.js';
+import { getClock, sleep } from './utils/clock.js';
+import { detectSellMessage, detectUserCancellation, getSellDetectionStats } from './llm/messageParser.js';
+import { generateWaitPayingMessage, generateUserDeclinedMessage } from './llm/conversationAI.js';
+import { Conversation, CouponType, SellMessage, MessPreference, USER_CANCELLED_REASON } from './conversation/types.js';
+import { OfferWindow } from './conversation/offerWindow.js';
+import { WebServer, WebAccount, WebServerCallbacks } from './web/server.js';
 import { initDatabase, databaseExists } from './database/index.js';
 import { needsMigration, runMigration } from './database/migrate.js';
 import { startImageCleanupJob, stopImageCleanupJob } from './jobs/imageCleanup.js';
+import { getPriceLimits } from './payment/pricePolicy.js';
+import { getMealSessions, getMealLabel } from './state/mealSessions.js';
+import { getSellerReputation } from './state/sellerReputation.js';
+import { isSellerAllowlisted } from './state/sellerLists.js';
+import { getActiveMessNames } from './state/messRegistry.js';
+import { restoreTimers, disarmTimers } from './state/timers.js';
+import { CommandBus, CommandChannel, CommandPermission, CommandResult } from './commands/commandBus.js';
+import { AccountSummary, createCoreCommands } from './commands/coreCommands.js';
+import { ConfirmationChannel, awaitConfirmation, answerConfirmation, getWaitingConfirmation, closeConfirmations, dropWaitingConfirmations } from './state/confirmations.js';
+import { describeMessPreference } from './utils/messPreference.js';
 
 type BotMode = 'test' | 'real';
 
+// How long a post for a lower-ranked mess waits for a better one
+const DEFAULT_PREFERENCE_WINDOW_SECONDS = 20;
+
+// How long the user has to answer the "Ok" and "paid" prompts (saved with the prompt, so a restart doesn't reset them)
+const USER_CONFIRMATION_TIMEOUT_MS = 2 * 60 * 1000;
+const PAYMENT_CONFIRMATION_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * The bot for one WhatsApp account. Each configured account gets its own, with its own WhatsApp session,
+ * conversations, daily tracker and preferences; everything it does runs inside its account scope, so the
+ * state modules read and write that account's data
+ */
 class MessCouponBot {
+  readonly scope: AccountScope;
+  readonly whatsapp: WhatsAppSession;
+
   private dailyTracker!: DailyTracker;
   private conversationManager!: ConversationManager;
   private groupMonitor!: GroupMonitor;
@@ -30,19 +59,10 @@ class MessCouponBot {
   private processedMessageIds: Set<string> = new Set();
   private activeSellerIds: Set<string> = new Set();
 
-  // Confirmation resolvers
-  private userConfirmationResolvers: Map<string, (value: boolean) => void> = new Map();
-  private paymentConfirmationResolvers: Map<string, (value: boolean) => void> = new Map();
-  private pendingConfirmationConvId: string | null = null;
-  private pendingPaymentConvId: string | null = null;
-
   // My WhatsApp ID for confirmations
   private myWhatsAppId: string = '';
   private testPhoneIds: Set<string> = new Set();
 
-  // Bot mode
-  private mode: BotMode = 'real';
-
   // Preference tracking
   private pendingPreferenceType: CouponType | null = null; // Which preference we're waiting for
   private preferenceCheckDone: boolean = false; // Whether we've done morning check today
@@ -51,68 +71,47 @@ class MessCouponBot {
   // Skipped sell messages due to preference mismatch (can be re-processed when preference changes)
   private skippedSellMessages: Map<string, SellMessage> = new Map();
 
-  // Web server
+  // Posts for a lower-ranked mess wait here briefly in case a better-ranked one shows up
+  private offerWindow = new OfferWindow(
+    () => (getConfig().preferenceWindowSeconds ?? DEFAULT_PREFERENCE_WINDOW_SECONDS) * 1000,
+    (offers) => this.handleRankedOffers(offers)
+  );
+
+  // Web server (shared by every account; broadcasts go to the clients watching this one)
   private webServer: WebServer | null = null;
 
+  // Commands shared by the self-chat, the terminal and the dashboard
+  private commandBus = new CommandBus();
+
   // Master ON/OFF switch - bot only searches when active
   private botActive: boolean = false;
 
-  async start(mode: BotMode = 'real'): Promise<void> {
-    this.mode = mode;
-
-    console.log('\n' + '='.repeat(60));
-    console.log(`  MESS COUPON BOT - ${mode.toUpperCase()} MODE`);
-    console.log('='.repeat(60));
-    if (mode === 'test') {
-      console.log('  📋 Test mode: Only test account messages will be processed');
-      console.log('  📋 Groups will NOT be scanned');
-    } else {
-      console.log('  📋 Real mode: Full operation');
-      console.log('  📋 Groups will be scanned + test account works too');
-    }
-    console.log('='.repeat(60) + '\n');
-
-    logger.info(`Starting Mess Coupon Bot in ${mode.toUpperCase()} mode...`);
-
-    // Initialize database
-    logger.info('Initializing database...');
-    initDatabase();
-
-    // Run migration if needed (JSON files exist but no DB)
-    if (needsMigration()) {
-      logger.info('JSON files found, running migration to SQLite...');
-      const migrationResult = runMigration();
-      if (migrationResult.success) {
-        logger.info('Migration completed successfully', {
-          stateFiles: migrationResult.stateFilesMigrated,
-          historyFiles: migrationResult.historyFilesMigrated,
-          conversations: migrationResult.conversationsMigrated,
-          deals: migrationResult.dealsMigrated
-        });
-      } else {
-        logger.warn('Migration completed with errors', { errors: migrationResult.errors.length });
-      }
-    }
+  constructor(readonly account: Account, private mode: BotMode, private runner: BotRunner) {
+    this.scope = createAccountScope(account.id);
+    this.whatsapp = new WhatsAppSession(account.sessionId);
+  }
 
-    // Start image cleanup job (hourly cleanup of expired coupon images)
-    startImageCleanupJob();
+  // Run fn as this account (for calls coming from outside: the terminal, WhatsApp events)
+  inScope<T>(fn: () => T): T {
+    return runInAccount(this.scope, fn);
+  }
 
+  // Build everything but the WhatsApp connection, so the dashboard can show this account before login
+  init(): void {
+    const mode = this.mode;
     const config = getConfig();
-    logger.info('Configuration loaded', { groups: config.groups, maxPrice: config.maxPrice });
 
     // Set up my WhatsApp ID and test phone IDs
-    this.myWhatsAppId = phoneToWhatsAppId(config.myPhoneNumber);
-    for (const phone of config.testPhoneNumbers) {
+    this.myWhatsAppId = phoneToWhatsAppId(this.account.myPhoneNumber);
+    for (const phone of this.account.testPhoneNumbers) {
       this.testPhoneIds.add(phoneToWhatsAppId(phone));
     }
-    logger.info('My WhatsApp ID', { id: this.myWhatsAppId });
-    logger.info('Test phone IDs', { ids: Array.from(this.testPhoneIds) });
-
-    initGroqClient();
+    logger.info('My WhatsApp ID', { account: this.account.id, id: this.myWhatsAppId });
+    logger.info('Test phone IDs', { account: this.account.id, ids: Array.from(this.testPhoneIds) });
 
     // Initialize with empty state first (will load account-specific state after login)
     const emptyState = {
-      dailyState: { date: new Date().toISOString().split('T')[0], lunchBought: false, dinnerBought: false },
+      dailyState: { date: getLocalDate(), sessions: {} },
       conversations: new Map(),
       processedMessageIds: new Set<string>()
     };
@@ -120,18 +119,20 @@ class MessCouponBot {
     this.processedMessageIds = emptyState.processedMessageIds;
 
     this.dailyTracker = new DailyTracker(emptyState.dailyState, () => this.saveCurrentState(), mode === 'test');
-    logger.info('Initial empty state loaded (will load account data after login)');
+    logger.info('Initial empty state loaded (will load account data after login)', { account: this.account.id });
+
+    this.registerCommands();
 
     // Initialize conversation manager with both confirmation callbacks
     this.conversationManager = new ConversationManager(
       this.conversations,
       async (chatId, message) => {
         await this.delay(config.messageDelayMs);
-        await sendMessage(chatId, message);
+        await this.whatsapp.sendMessage(chatId, message);
       },
       async (chatId, mediaBuffer, caption) => {
         await this.delay(config.messageDelayMs);
-        await sendMediaMessage(chatId, mediaBuffer, caption);
+        await this.whatsapp.sendMediaMessage(chatId, mediaBuffer, caption);
       },
       () => this.myWhatsAppId,
       (sellerId) => this.testPhoneIds.has(sellerId),  // isTestAccount checker
@@ -149,7 +150,7 @@ class MessCouponBot {
         if (this.webServer) {
           const conv = this.conversations.get(convId);
           this.webServer.broadcastNotification('success', 'Coupon Purchased!', `${type} coupon from ${conv?.sellerName || 'seller'} — bot turned off`);
-          this.webServer.getIO().emit('conversationEnd', { convId, result: 'success', type });
+          this.webServer.broadcastEvent('conversationEnd', { convId, result: 'success', type });
           this.broadcastWebStatus();
         }
       },
@@ -159,15 +160,16 @@ class MessCouponBot {
         if (this.webServer) {
           const conv = this.conversations.get(convId);
           this.webServer.broadcastNotification('error', 'Deal Failed', `${conv?.couponType || ''} - ${reason}`);
-          this.webServer.getIO().emit('conversationEnd', { convId, result: 'failed', reason });
+          this.webServer.broadcastEvent('conversationEnd', { convId, result: 'failed', reason });
           this.broadcastWebStatus();
         }
       },
       // fetchChatMedia callback - scan chat for existing coupon images
       // afterTimestamp: Only look for images sent after this time (to scope to current conversation)
       async (chatId, limit = 30, afterTimestamp?: Date) => {
-        return fetchChatMediaMessages(chatId, limit, afterTimestamp);
-      }
+        return this.whatsapp.fetchChatMediaMessages(chatId, limit, afterTimestamp);
+      },
+      (type) => this.dailyTracker.getMaxPrice(type)  // Today's cap from the "max" command
     );
 
     this.dmHandler = new DirectMessageHandler(
@@ -189,7 +191,8 @@ class MessCouponBot {
         );
         if (conv) {
           conv.state = 'FAILED' as any;
-          conv.failureReason = 'User cancelled';
+          conv.failureReason = USER_CANCELLED_REASON;
+          conv.endedBy = 'us';
           this.activeSellerIds.delete(sellerId);
           this.dmHandler.setActiveSellerIds(this.activeSellerIds);
           this.saveCurrentState();
@@ -201,24 +204,24 @@ class MessCouponBot {
     this.groupMonitor = new GroupMonitor(
       this.processedMessageIds,
       async (sellMessage) => this.handleSellMessage(sellMessage),
-      (type) => this.botActive && this.dailyTracker.canBuyCoupon(type) && !this.conversationManager.hasActiveConversationInProgress()
+      // Allowlisted sellers are always passed through - the conversation manager makes room for them
+      (type, senderId) => this.botActive && this.dailyTracker.canBuyCoupon(type) &&
+        (!this.conversationManager.hasActiveConversationInProgress(type) || isSellerAllowlisted(senderId))
     );
+  }
 
-    // Start web server FIRST so QR code can be displayed on frontend
-    this.startWebServer();
-
-    // Start terminal input
-    this.startTerminalInput();
+  attachWebServer(webServer: WebServer): void {
+    this.webServer = webServer;
+  }
 
-    // Now initialize WhatsApp client (this will trigger QR code generation)
-    const client = await initWhatsAppClient(async (message) => {
-      await this.handleIncomingMessage(message);
-    });
+  // Connect this account's WhatsApp (shows a QR until it's logged in), then start looking for coupons
+  async start(): Promise<void> {
+    const client = await this.whatsapp.initialize((message) => this.inScope(() => this.handleIncomingMessage(message)));
 
     await this.waitForReady(client);
 
     // Get the correct WhatsApp ID for self-messaging (must be after client ready)
-    const actualMyId = getMyWhatsAppId();
+    const actualMyId = this.whatsapp.getMyWhatsAppId();
     if (actualMyId) {
       this.myWhatsAppId = actualMyId;
       logger.info('Updated my WhatsApp ID from client', { id: this.myWhatsAppId });
@@ -230,10 +233,12 @@ class MessCouponBot {
 
     // Only scan groups in real mode
     if (this.mode === 'real') {
-      const groups = await getGroupChats(config.groups);
+      const groups = await this.whatsapp.getGroupChats(this.account.groups);
       this.groupMonitor.setMonitoredGroups(groups);
+      // Posts arriving before the startup backfill below must not move the cursors past the offline gap
+      this.groupMonitor.markGapStart();
 
-      logger.info('Bot is now running in REAL mode!');
+      logger.info('Bot is now running in REAL mode!', { account: this.account.id });
       this.printStatus();
 
       // Start midnight reset timer for preferences
@@ -243,30 +248,40 @@ class MessCouponBot {
       await this.checkMorningPreferences();
 
       // Also check preferences every 30 minutes in case user didn't respond
-      setInterval(async () => {
+      getClock().setInterval(async () => {
         await this.checkMorningPreferences();
       }, 30 * 60 * 1000);
 
       await this.resumeIncompleteConversations();
 
-      logger.info('Scanning existing messages for sell offers...');
-      await this.groupMonitor.scanExistingMessages();
-
-      const POLL_INTERVAL_MS = 5 * 60 * 1000;
-      setInterval(async () => {
-        logger.info('Running scheduled poll...');
-        await this.groupMonitor.pollLatestMessages();
-        this.saveCurrentState();
-      }, POLL_INTERVAL_MS);
+      // Live group posts arrive through handleMessage. Anything missed while offline is
+      // backfilled from each group's last seen message - now and on every reconnect
+      logger.info('Backfilling group messages since last seen...');
+      await this.groupMonitor.backfillGaps();
+      this.saveCurrentState();
 
-      logger.info(`Polling scheduled every ${POLL_INTERVAL_MS / 1000 / 60} minutes`);
+      this.whatsapp.onConnectionLost(() => this.inScope(() => this.groupMonitor.markGapStart()));
+      this.whatsapp.onConnectionRestored(() => this.inScope(() => {
+        this.recoverMissedGroupMessages().catch(err =>
+          logger.error('Failed to backfill after reconnect', err)
+        );
+      }));
     } else {
-      logger.info('Bot is now running in TEST mode!');
+      logger.info('Bot is now running in TEST mode!', { account: this.account.id });
       logger.info('Waiting for messages from test account only...');
       this.printStatus();
     }
   }
 
+  // After a reconnect the old chat handles may be stale - refetch the groups, then backfill the gap
+  private async recoverMissedGroupMessages(): Promise<void> {
+    logger.info('Connection restored, backfilling missed group messages');
+    const groups = await this.whatsapp.getGroupChats(this.account.groups);
+    this.groupMonitor.setMonitoredGroups(groups);
+    await this.groupMonitor.backfillGaps();
+    this.saveCurrentState();
+  }
+
   private async waitForReady(client: pkg.Client): Promise<void> {
     return new Promise((resolve) => {
       if (client.info) {
@@ -316,40 +331,40 @@ class MessCouponBot {
     const text = message.body.trim();
     const lowerText = text.toLowerCase();
 
+    // What we send to sellers shows up here too - a price ("70") or "cancel..." there isn't meant for the bot
+    if (this.isSellerChat(message.to)) {
+      logger.debug('Ignoring own message to a seller', { to: message.to, text: text.substring(0, 30) });
+      return;
+    }
+
     logger.info('=== SELF MESSAGE RECEIVED ===', {
       text: text.substring(0, 50),
       lowerText: lowerText.substring(0, 50),
       from: message.from,
       to: message.to,
       fromMe: message.fromMe,
-      pendingConfirmation: this.pendingConfirmationConvId,
-      pendingPayment: this.pendingPaymentConvId,
+      pendingConfirmation: getWaitingConfirmation('purchase'),
+      pendingPayment: getWaitingConfirmation('payment'),
       pendingPreference: this.pendingPreferenceType,
-      isOkMessage: ['ok', 'okay', 'yes', 'y'].includes(lowerText)
+      isCommand: this.commandBus.isCommand(text)
     });
 
-    // Check for preference response (number input)
-    if (this.pendingPreferenceType && /^\d+$/.test(text)) {
+    // Check for preference response (numbers in order of preference, optionally with ":price")
+    if (this.pendingPreferenceType && /^\d+(:\d+)?([\s,>]+\d+(:\d+)?)*$/.test(text)) {
       const preference = DailyTracker.parsePreferenceResponse(text);
 
       if (preference === undefined) {
         // Invalid number, ask again
-        await this.sendToSelf('Invalid number. Please enter a valid option number.');
+        await this.sendToSelf('Invalid number. Please enter valid option numbers.');
         return;
       }
 
       // Handle preference update via "hi" command
-      // Convert single preference to array (null = any, string = single-element array)
-      const preferenceArray = preference ? [preference] : null;
       if (this.pendingPreferenceUpdate) {
         const updatedType = this.pendingPreferenceType!;
-        if (updatedType === 'lunch') {
-          this.dailyTracker.setLunchPreference(preferenceArray);
-        } else {
-          this.dailyTracker.setDinnerPreference(preferenceArray);
-        }
+        this.dailyTracker.setPreference(updatedType, preference);
 
-        const prefDisplay = preference || 'Any';
+        const prefDisplay = describeMessPreference(preference);
         await this.sendToSelf(`✅ ${updatedType.toUpperCase()} preference updated to: ${prefDisplay}\n\n${this.dailyTracker.getStatus()}`);
         logger.info('Preference updated via hi command', { type: updatedType, preference: prefDisplay });
 
@@ -362,206 +377,34 @@ class MessCouponBot {
         return;
       }
 
-      // Handle initial morning preference setup
-      if (this.pendingPreferenceType === 'lunch') {
-        this.dailyTracker.setLunchPreference(preferenceArray);
-        logger.info('Lunch preference set', { preference: preference || 'any' });
-        this.pendingPreferenceType = null;
-
-        // Now ask for dinner preference
-        if (this.dailyTracker.needsDinnerPreference()) {
-          await this.askForPreference('dinner');
-        }
-      } else if (this.pendingPreferenceType === 'dinner') {
-        this.dailyTracker.setDinnerPreference(preferenceArray);
-        logger.info('Dinner preference set', { preference: preference || 'any' });
-        this.pendingPreferenceType = null;
-
-        // Both preferences collected
-        const lunchPref = this.dailyTracker.getLunchPreference();
-        const dinnerPref = this.dailyTracker.getDinnerPreference();
-        const lunchDisplay = lunchPref && lunchPref.length > 0 ? lunchPref.join(', ') : 'Any';
-        const dinnerDisplay = dinnerPref && dinnerPref.length > 0 ? dinnerPref.join(', ') : 'Any';
-        await this.sendToSelf(`✅ Preferences saved!\n\nLunch: ${lunchDisplay}\nDinner: ${dinnerDisplay}\n\nNow looking for matching coupons...`);
-      }
-      return;
-    }
-
-    // Check for "stop" command - pause current session
-    if (lowerText === 'stop') {
-      const { stoppedSession, nextSession } = this.dailyTracker.stopCurrentSession();
-
-      if (!stoppedSession) {
-        await this.sendToSelf('No active session to stop.');
-        return;
-      }
-
-      let message = `⏹️ ${stoppedSession.toUpperCase()} session STOPPED.`;
+      // Handle initial morning preference setup, one meal session at a time
+      this.dailyTracker.setPreference(this.pendingPreferenceType, preference);
+      this.pendingPreferenceType = null;
 
-      if (nextSession) {
-        message += `\n\nNow looking for ${nextSession.toUpperCase()} coupons.`;
+      const nextType = this.dailyTracker.getNextPreferenceToAsk();
+      if (nextType) {
+        await this.askForPreference(nextType);
       } else {
-        message += `\n\nNo more sessions for today.`;
-      }
-
-      message += `\n\n${this.dailyTracker.getStatus()}`;
-      await this.sendToSelf(message);
-      this.saveCurrentState();
-      logger.info('Session stopped via WhatsApp', { stopped: stoppedSession, next: nextSession });
-      return;
-    }
-
-    // Check for "start" command - resume paused session
-    if (lowerText === 'start') {
-      const { startedSession } = this.dailyTracker.startSession();
-
-      if (!startedSession) {
-        await this.sendToSelf('No session to start. All sessions are either completed or past their cutoff time.');
-        return;
-      }
-
-      const message = `▶️ ${startedSession.toUpperCase()} session STARTED.\n\nNow looking for ${startedSession} coupons.\n\n${this.dailyTracker.getStatus()}`;
-      await this.sendToSelf(message);
-      this.saveCurrentState();
-      logger.info('Session started via WhatsApp', { started: startedSession });
-      return;
-    }
-
-    // Check for "status" command via WhatsApp
-    if (lowerText === 'status') {
-      await this.sendToSelf(this.dailyTracker.getStatus());
-      return;
-    }
-
-    // Check for "reset" command - reset both sessions to needed
-    if (lowerText === 'reset') {
-      this.dailyTracker.forceResetSession('lunch');
-      this.dailyTracker.forceResetSession('dinner');
-      await this.sendToSelf(`🔄 SESSIONS RESET\n\nBoth lunch and dinner sessions have been reset.\nNow searching for coupons again.\n\n${this.dailyTracker.getStatus()}`);
-      this.saveCurrentState();
-      logger.info('Both sessions reset via WhatsApp');
-      return;
-    }
-
-    // Check for "hi" command - show preference menu for current session
-    if (lowerText === 'hi' || lowerText === 'hello') {
-      const currentSession = this.dailyTracker.getCurrentSession();
-      if (!currentSession) {
-        await this.sendToSelf('No active session right now. Both lunch and dinner are either bought or past cutoff time.');
-        return;
+        // All preferences collected
+        const lines = this.dailyTracker.getSessionSummaries().map(s =>
+          `${s.label}: ${describeMessPreference(s.preference)}`
+        );
+        await this.sendToSelf(`✅ Preferences saved!\n\n${lines.join('\n')}\n\nNow looking for matching coupons...`);
       }
-
-      const currentPref = this.dailyTracker.getPreference(currentSession);
-      const currentPrefDisplay = currentPref && currentPref.length > 0 ? currentPref.join(', ') : 'Any';
-      let message = `🍽️ ${currentSession.toUpperCase()} PREFERENCE UPDATE\n\n`;
-      message += `Current preference: ${currentPrefDisplay}\n\n`;
-      message += `Select new preference:\n\n`;
-      message += `0. Any (no preference)\n`;
-
-      const { IITM_MESSES } = await import('./conversation/types.js');
-      IITM_MESSES.forEach((mess, index) => {
-        message += `${index + 1}. ${mess}\n`;
-      });
-
-      message += `\nReply with the number to update.`;
-
-      this.pendingPreferenceUpdate = true;
-      this.pendingPreferenceType = currentSession;
-      await this.sendToSelf(message);
       return;
     }
 
-    // Check for "ok" confirmation
-    if (lowerText === 'ok' || lowerText === 'okay' || lowerText === 'yes' || lowerText === 'y') {
-      logger.info('Detected OK/YES message', {
-        pendingConfirmationConvId: this.pendingConfirmationConvId,
-        pendingPaymentConvId: this.pendingPaymentConvId,
-        resolversCount: this.userConfirmationResolvers.size
-      });
-
-      if (this.pendingConfirmationConvId) {
-        const resolver = this.userConfirmationResolvers.get(this.pendingConfirmationConvId);
-        const conv = this.conversations.get(this.pendingConfirmationConvId);
-        logger.info('Looking up conversation for confirmation', {
-          hasResolver: !!resolver,
-          hasConv: !!conv,
-          convId: this.pendingConfirmationConvId,
-          conversationIds: Array.from(this.conversations.keys())
-        });
-
-        if (resolver && conv) {
-          logger.info('User confirmed via WhatsApp, sending wait message to seller', {
-            seller: conv.sellerName,
-            sellerId: conv.sellerId
-          });
-
-          // Send "wait, paying" message to seller
-          try {
-            const waitMsg = await generateWaitPayingMessage();
-            await sendMessage(conv.sellerId, waitMsg);
-            logger.info('Wait message sent to seller');
-          } catch (error) {
-            logger.error('Failed to send wait message to seller', error);
-          }
-
-          // Clear confirmation state BEFORE resolving to avoid race conditions
-          const convId = this.pendingConfirmationConvId;
-          this.pendingConfirmationConvId = null;
-          this.userConfirmationResolvers.delete(convId);
-
-          // Resolve the promise (this triggers payment confirmation flow)
-          resolver(true);
-          logger.info('Confirmation resolved, payment flow should start');
-
-          // Broadcast updated status
-          this.broadcastWebStatus();
-        } else {
-          logger.warn('Could not find resolver or conversation', {
-            pendingId: this.pendingConfirmationConvId,
-            conversationIds: Array.from(this.conversations.keys()),
-            resolverKeys: Array.from(this.userConfirmationResolvers.keys())
-          });
-        }
-      } else {
-        logger.info('No pending confirmation to process (user may have already confirmed or timed out)');
-      }
-      return; // Don't process further after handling confirmation
-    }
-
-    // Check for "no" / "cancel"
-    if (lowerText === 'no' || lowerText === 'cancel' || lowerText === 'n') {
-      if (this.pendingConfirmationConvId) {
-        const resolver = this.userConfirmationResolvers.get(this.pendingConfirmationConvId);
-        const conv = this.conversations.get(this.pendingConfirmationConvId);
-        if (resolver) {
-          logger.info('User declined via WhatsApp');
-
-          // Send cancellation message to seller
-          if (conv) {
-            const cancelMsg = await generateUserDeclinedMessage();
-            await sendMessage(conv.sellerId, cancelMsg);
-            logger.info('Sent cancellation message to seller', { sellerId: conv.sellerId });
-          }
-
-          resolver(false);
-          this.userConfirmationResolvers.delete(this.pendingConfirmationConvId);
-          this.pendingConfirmationConvId = null;
-        }
-      }
+    // Everything else that starts with a command word; other self-chat text is ignored
+    const result = await this.runCommand(text, 'whatsapp');
+    if (result) {
+      await this.sendToSelf(result.message);
     }
+  }
 
-    // Check for "paid" confirmation
-    if (lowerText === 'paid' || lowerText === 'done' || lowerText === 'sent') {
-      if (this.pendingPaymentConvId) {
-        const resolver = this.paymentConfirmationResolvers.get(this.pendingPaymentConvId);
-        if (resolver) {
-          logger.info('Payment confirmed via WhatsApp');
-          resolver(true);
-          this.paymentConfirmationResolvers.delete(this.pendingPaymentConvId);
-          this.pendingPaymentConvId = null;
-        }
-      }
-    }
+  private isSellerChat(chatId: string | undefined): boolean {
+    if (!chatId || chatId === this.myWhatsAppId) return false;
+    return this.activeSellerIds.has(chatId) || this.testPhoneIds.has(chatId) ||
+           Array.from(this.conversations.values()).some(c => c.sellerId === chatId);
   }
 
   // Handle messages from test phone number (simulate seller)
@@ -595,7 +438,9 @@ class MessCouponBot {
     if (detection.isSelling && detection.couponType && detection.confidence > 0.5) {
       logger.info('Test phone sell message detected!', {
         couponType: detection.couponType,
-        confidence: detection.confidence
+        confidence: detection.confidence,
+        stage: detection.stage,
+        latencyMs: detection.latencyMs
       });
 
       // Check if bot is active
@@ -638,7 +483,7 @@ class MessCouponBot {
 
     for (const conv of activeConvs) {
       // Check time since last activity (updatedAt), not creation time
-      const lastActivityMs = Date.now() - new Date(conv.updatedAt).getTime();
+      const lastActivityMs = getClock().now() - new Date(conv.updatedAt).getTime();
       const lastActivityMinutes = Math.round(lastActivityMs / 60000);
 
       // Test accounts are exempt from the 10-minute timeout
@@ -652,6 +497,8 @@ class MessCouponBot {
         });
         conv.state = 'FAILED' as any;
         conv.failureReason = 'No response for 10+ minutes';
+        conv.endedBy = 'us';
+        closeConfirmations(conv.id);
         continue;
       }
 
@@ -669,7 +516,8 @@ class MessCouponBot {
     this.saveCurrentState();
   }
 
-  private async handleSellMessage(sellMessage: SellMessage): Promise<void> {
+  // fromWindow = the post already waited in the offer window and won (or was next in line)
+  private async handleSellMessage(sellMessage: SellMessage, fromWindow: boolean = false): Promise<void> {
     logger.info('Processing sell message', {
       seller: sellMessage.senderName,
       couponType: sellMessage.couponType,
@@ -686,36 +534,43 @@ class MessCouponBot {
     // Clean up old skipped messages (older than 20 minutes)
     this.cleanupOldSkippedMessages();
 
-    // Check mess preference (only in real mode)
-    // If mess is mentioned and doesn't match any preference, skip but store for later
-    // If mess is NOT mentioned, allow through (state machine will ask seller)
+    // Rank the post against the mess preference (only in real mode)
+    // A mess that isn't in the preference is skipped but stored for later
+    // The first-choice mess goes straight through; anything else (including posts that don't name a mess,
+    // where the state machine asks the seller) waits briefly in case a better-ranked mess is posted
     if (this.mode === 'real') {
-      const preferences = this.dailyTracker.getPreference(sellMessage.couponType);
-
-      if (preferences !== null && preferences.length > 0) {
-        // User has specific mess preferences
-        const messInMessage = detectMessNameInMessage(sellMessage.rawMessage);
-
-        if (messInMessage) {
-          // Mess IS mentioned - check if it matches any of the preferences
-          const matches = preferences.some(pref =>
-            messInMessage.toLowerCase() === pref.toLowerCase()
-          );
-          if (!matches) {
-            logger.info('Sell message has different mess, storing for later', {
-              preferences,
-              messInMessage,
-              message: sellMessage.rawMessage.substring(0, 50)
-            });
-            // Store for later in case preference changes
-            this.skippedSellMessages.set(sellMessage.messageId, sellMessage);
-            return;
-          }
-          logger.info('Sell message matches mess preference!', { preferences, messInMessage });
-        } else {
-          // Mess NOT mentioned - allow through, state machine will ask seller
-          logger.info('Mess not mentioned in sell message, will ask seller', { preferences });
-        }
+      const preference = this.dailyTracker.getPreference(sellMessage.couponType);
+      const { rank, messName } = this.dailyTracker.rankSellMessage(sellMessage.couponType, sellMessage.rawMessage);
+
+      if (rank === -1) {
+        logger.info('Sell message has different mess, storing for later', {
+          preference: describeMessPreference(preference),
+          messInMessage: messName,
+          message: sellMessage.rawMessage.substring(0, 50)
+        });
+        // Store for later in case preference changes
+        this.skippedSellMessages.set(sellMessage.messageId, sellMessage);
+        return;
+      }
+
+      const windowSeconds = getConfig().preferenceWindowSeconds ?? DEFAULT_PREFERENCE_WINDOW_SECONDS;
+      if (rank > 0 && !fromWindow && windowSeconds > 0) {
+        logger.info('Holding sell message in case a better-ranked mess is posted', {
+          preference: describeMessPreference(preference),
+          messInMessage: messName || 'not mentioned',
+          rank: rank + 1,
+          windowSeconds
+        });
+        this.offerWindow.hold(sellMessage, rank);
+        return;
+      }
+
+      if (preference) {
+        logger.info(messName ? 'Sell message matches mess preference!' : 'Mess not mentioned in sell message, will ask seller', {
+          preference: describeMessPreference(preference),
+          messInMessage: messName,
+          rank: rank + 1
+        });
       }
     }
 
@@ -736,9 +591,26 @@ class MessCouponBot {
     logger.info('Conversation active', { conversationId: conversation.id, state: conversation.state });
   }
 
+  // Act on posts that waited in the offer window, best-ranked first, until one turns into a conversation
+  private async handleRankedOffers(offers: SellMessage[]): Promise<void> {
+    for (const sellMessage of offers) {
+      if (!this.botActive || !this.dailyTracker.canBuyCoupon(sellMessage.couponType)) {
+        logger.info('No longer need this coupon type, dropping held sell messages');
+        break;
+      }
+
+      if (this.conversationManager.hasActiveConversationInProgress(sellMessage.couponType)) {
+        logger.info('Already have an active conversation, dropping held sell messages');
+        break;
+      }
+
+      await this.handleSellMessage(sellMessage, true);
+    }
+  }
+
   // Clean up skipped messages older than 20 minutes
   private cleanupOldSkippedMessages(): void {
-    const cutoffTime = Date.now() - (20 * 60 * 1000);
+    const cutoffTime = getClock().now() - (20 * 60 * 1000);
     for (const [messageId, sellMessage] of this.skippedSellMessages.entries()) {
       if (sellMessage.timestamp.getTime() < cutoffTime) {
         this.skippedSellMessages.delete(messageId);
@@ -746,21 +618,34 @@ class MessCouponBot {
     }
   }
 
-  // Re-process skipped messages when preference changes (newest first)
+  // Re-process skipped messages when preference changes (best-ranked mess first, then trusted sellers, then newest)
   private async reprocessSkippedMessages(couponType: CouponType): Promise<void> {
     this.cleanupOldSkippedMessages();
 
-    // Get messages of the relevant coupon type, sorted by timestamp (newest first)
+    // Get messages of the relevant coupon type - ones the new preference still rejects rank last
+    const scores = new Map<string, number>();
+    const scoreOf = (sellerId: string) => {
+      if (!scores.has(sellerId)) scores.set(sellerId, getSellerReputation(sellerId).score);
+      return scores.get(sellerId)!;
+    };
+    const ranks = new Map<string, number>();
+    const rankOf = (msg: SellMessage) => {
+      if (!ranks.has(msg.messageId)) {
+        const { rank } = this.dailyTracker.rankSellMessage(couponType, msg.rawMessage);
+        ranks.set(msg.messageId, rank === -1 ? Infinity : rank);
+      }
+      return ranks.get(msg.messageId)!;
+    };
     const relevantMessages = Array.from(this.skippedSellMessages.values())
       .filter(msg => msg.couponType === couponType)
-      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+      .sort((a, b) => (rankOf(a) - rankOf(b)) || (scoreOf(b.senderId) - scoreOf(a.senderId)) || (b.timestamp.getTime() - a.timestamp.getTime()));
 
     if (relevantMessages.length === 0) {
       logger.info('No skipped messages to re-process');
       return;
     }
 
-    logger.info(`Re-processing ${relevantMessages.length} skipped ${couponType} messages (newest first)`);
+    logger.info(`Re-processing ${relevantMessages.length} skipped ${couponType} messages (trusted sellers first)`);
 
     for (const sellMessage of relevantMessages) {
       // Check if we already have an active conversation or don't need this coupon anymore
@@ -769,7 +654,7 @@ class MessCouponBot {
         break;
       }
 
-      if (this.conversationManager.hasActiveConversationInProgress()) {
+      if (this.conversationManager.hasActiveConversationInProgress(couponType)) {
         logger.info('Already have an active conversation, stopping re-process');
         break;
       }
@@ -784,289 +669,223 @@ class MessCouponBot {
   }
 
   private waitForUserConfirmation(conversationId: string): Promise<boolean> {
-    return new Promise((resolve) => {
-      this.pendingConfirmationConvId = conversationId;
-      this.userConfirmationResolvers.set(conversationId, resolve);
+    // Timeout after 2 minutes - if no response, decline the deal
+    const confirmation = awaitConfirmation('purchase', conversationId, USER_CONFIRMATION_TIMEOUT_MS);
 
-      // Broadcast status to show confirmation prompt on dashboard
-      this.broadcastWebStatus();
+    // Broadcast status to show confirmation prompt on dashboard
+    this.broadcastWebStatus();
 
-      // Call user after 25 seconds if no response
-      const callTimeout = setTimeout(async () => {
-        if (this.userConfirmationResolvers.has(conversationId)) {
-          logger.info('No response after 25 seconds, calling user...');
-          try {
-            const called = await makeCall(this.myWhatsAppId);
-            if (called) {
-              logger.info('Call initiated to notify user');
-            } else {
-              logger.warn('Could not initiate call, waiting for manual response');
-            }
-          } catch (error) {
-            logger.error('Failed to call user', error);
-          }
-        }
-      }, 25 * 1000);
-
-      // Timeout after 2 minutes - if no response, decline the deal
-      setTimeout(() => {
-        clearTimeout(callTimeout); // Clear the call timeout if still pending
-        if (this.userConfirmationResolvers.has(conversationId)) {
-          logger.warn('User confirmation timed out after 2 minutes');
-          this.userConfirmationResolvers.delete(conversationId);
-          if (this.pendingConfirmationConvId === conversationId) {
-            this.pendingConfirmationConvId = null;
+    // Call user after 25 seconds if no response
+    const callTimeout = getClock().setTimeout(async () => {
+      if (getWaitingConfirmation('purchase') === conversationId) {
+        logger.info('No response after 25 seconds, calling user...');
+        try {
+          const called = await this.whatsapp.makeCall(this.myWhatsAppId);
+          if (called) {
+            logger.info('Call initiated to notify user');
+          } else {
+            logger.warn('Could not initiate call, waiting for manual response');
           }
-          resolve(false);
+        } catch (error) {
+          logger.error('Failed to call user', error);
         }
-      }, 2 * 60 * 1000);
-    });
+      }
+    }, 25 * 1000);
+
+    return confirmation.finally(() => getClock().clearTimer(callTimeout));
   }
 
   private waitForPaymentConfirmation(conversationId: string): Promise<boolean> {
-    return new Promise((resolve) => {
-      this.pendingPaymentConvId = conversationId;
-      this.paymentConfirmationResolvers.set(conversationId, resolve);
+    // Timeout after 10 minutes
+    const payment = awaitConfirmation('payment', conversationId, PAYMENT_CONFIRMATION_TIMEOUT_MS);
 
-      // Broadcast status to show payment prompt on dashboard
-      this.broadcastWebStatus();
+    // Broadcast status to show payment prompt on dashboard
+    this.broadcastWebStatus();
 
-      // Also accept terminal input
-      console.log('\n' + '='.repeat(50));
-      console.log('Waiting for payment...');
-      console.log('Type "paid" when done, or reply "paid" on WhatsApp');
-      console.log('='.repeat(50) + '\n');
+    // Also accept terminal input
+    console.log('\n' + '='.repeat(50));
+    console.log('Waiting for payment...');
+    console.log('Type "paid" when done, or reply "paid" on WhatsApp');
+    console.log('='.repeat(50) + '\n');
 
-      // Timeout after 10 minutes
-      setTimeout(() => {
-        if (this.paymentConfirmationResolvers.has(conversationId)) {
-          logger.warn('Payment confirmation timed out');
-          this.paymentConfirmationResolvers.delete(conversationId);
-          if (this.pendingPaymentConvId === conversationId) {
-            this.pendingPaymentConvId = null;
-          }
-          resolve(false);
-        }
-      }, 10 * 60 * 1000);
-    });
+    return payment;
   }
 
-  private startTerminalInput(): void {
-    const rl = readline.createInterface({
-      input: process.stdin,
-      output: process.stdout
-    });
-
-    rl.on('line', (input) => {
-      const trimmed = input.trim().toLowerCase();
-
-      // Handle "ok" for user confirmation
-      if (trimmed === 'ok' || trimmed === 'okay' || trimmed === 'yes' || trimmed === 'y') {
-        if (this.pendingConfirmationConvId) {
-          const resolver = this.userConfirmationResolvers.get(this.pendingConfirmationConvId);
-          const conv = this.conversations.get(this.pendingConfirmationConvId);
-          if (resolver && conv) {
-            logger.info('User confirmed via terminal, sending wait message to seller');
-
-            // Send "wait, paying" message to seller
-            generateWaitPayingMessage().then(async (waitMsg) => {
-              await sendMessage(conv.sellerId, waitMsg);
-            }).catch(err => logger.error('Failed to send wait message', err));
-
-            resolver(true);
-            this.userConfirmationResolvers.delete(this.pendingConfirmationConvId);
-            this.pendingConfirmationConvId = null;
-          }
-        }
-      }
+  // Answer the "Ok to buy?" prompt from any channel; the seller hears about it either way
+  private async answerPurchaseConfirmation(approved: boolean, channel: ConfirmationChannel): Promise<boolean> {
+    const convId = getWaitingConfirmation('purchase');
+    if (!convId) {
+      logger.info('No pending confirmation to process (user may have already confirmed or timed out)', { channel });
+      return false;
+    }
 
-      // Handle "no" for user confirmation
-      if (trimmed === 'no' || trimmed === 'n') {
-        if (this.pendingConfirmationConvId) {
-          const resolver = this.userConfirmationResolvers.get(this.pendingConfirmationConvId);
-          const conv = this.conversations.get(this.pendingConfirmationConvId);
-          if (resolver) {
-            logger.info('User declined via terminal');
-
-            // Send cancellation message to seller
-            if (conv) {
-              generateUserDeclinedMessage().then(async (cancelMsg) => {
-                await sendMessage(conv.sellerId, cancelMsg);
-                logger.info('Sent cancellation message to seller', { sellerId: conv.sellerId });
-              }).catch(err => logger.error('Failed to send cancel message', err));
-            }
+    const conv = this.conversations.get(convId);
+    logger.info(approved ? 'User confirmed purchase' : 'User declined purchase', { channel, seller: conv?.sellerName });
 
-            resolver(false);
-            this.userConfirmationResolvers.delete(this.pendingConfirmationConvId);
-            this.pendingConfirmationConvId = null;
-          }
-        }
+    // Message the seller before resolving, so "wait, paying" goes out ahead of the payment flow
+    if (conv) {
+      try {
+        const reply = approved ? await generateWaitPayingMessage(conv.sellerName) : await generateUserDeclinedMessage(conv.sellerName);
+        await this.whatsapp.sendMessage(conv.sellerId, reply);
+      } catch (error) {
+        logger.error('Failed to message seller about the confirmation', error);
       }
+    }
 
-      // Handle payment confirmation
-      if (trimmed === 'paid' || trimmed === 'p' || trimmed === 'done') {
-        if (this.pendingPaymentConvId) {
-          const resolver = this.paymentConfirmationResolvers.get(this.pendingPaymentConvId);
-          if (resolver) {
-            logger.info('Payment confirmed via terminal');
-            resolver(true);
-            this.paymentConfirmationResolvers.delete(this.pendingPaymentConvId);
-            this.pendingPaymentConvId = null;
-          }
-        } else {
-          console.log('No pending payment to confirm');
-        }
-      }
+    answerConfirmation('purchase', approved, channel);
+    this.broadcastWebStatus();
+    return true;
+  }
 
-      if (trimmed === 'cancel' || trimmed === 'c') {
-        // Cancel user confirmation
-        if (this.pendingConfirmationConvId) {
-          const resolver = this.userConfirmationResolvers.get(this.pendingConfirmationConvId);
-          const conv = this.conversations.get(this.pendingConfirmationConvId);
-          if (resolver) {
-            // Send cancellation message to seller
-            if (conv) {
-              generateUserDeclinedMessage().then(async (cancelMsg) => {
-                await sendMessage(conv.sellerId, cancelMsg);
-                logger.info('Sent cancellation message to seller', { sellerId: conv.sellerId });
-              }).catch(err => logger.error('Failed to send cancel message', err));
-            }
+  // Answer the "paid?" prompt from any channel (paid = false cancels the payment)
+  private answerPaymentConfirmation(paid: boolean, channel: ConfirmationChannel): boolean {
+    const convId = answerConfirmation('payment', paid, channel);
+    if (!convId) {
+      return false;
+    }
 
-            resolver(false);
-            this.userConfirmationResolvers.delete(this.pendingConfirmationConvId);
-            this.pendingConfirmationConvId = null;
-          }
-        }
-        // Cancel payment confirmation
-        if (this.pendingPaymentConvId) {
-          const resolver = this.paymentConfirmationResolvers.get(this.pendingPaymentConvId);
-          if (resolver) {
-            resolver(false);
-            this.paymentConfirmationResolvers.delete(this.pendingPaymentConvId);
-            this.pendingPaymentConvId = null;
-          }
-        }
-      }
+    logger.info(paid ? 'Payment confirmed' : 'Payment cancelled', { channel, conversationId: convId });
+    this.broadcastWebStatus();
+    return true;
+  }
 
-      if (trimmed === 'stop') {
-        const { stoppedSession, nextSession } = this.dailyTracker.stopCurrentSession();
-        if (!stoppedSession) {
-          console.log('No active session to stop.');
-        } else {
-          console.log(`\n⏹️  ${stoppedSession.toUpperCase()} session STOPPED.`);
-          if (nextSession) {
-            console.log(`Now looking for ${nextSession.toUpperCase()} coupons.`);
-          } else {
-            console.log('No more sessions for today.');
-          }
-          this.printStatus();
-        }
-      }
+  // Run a command from any front-end, then refresh the dashboard; null = the text isn't a command
+  async runCommand(input: string, channel: CommandChannel): Promise<CommandResult | null> {
+    const result = await this.commandBus.dispatch(input, channel);
+    if (result) {
+      this.broadcastWebStatus();
+    }
+    return result;
+  }
 
-      if (trimmed === 'start') {
-        const { startedSession } = this.dailyTracker.startSession();
-        if (!startedSession) {
-          console.log('No session to start. All sessions are either completed or past their cutoff time.');
-        } else {
-          console.log(`\n▶️  ${startedSession.toUpperCase()} session STARTED.`);
-          console.log(`Now looking for ${startedSession} coupons.`);
-          this.printStatus();
+  private registerCommands(): void {
+    const bot = this;
+    this.commandBus.register(...createCoreCommands({
+      get dailyTracker() {
+        return bot.dailyTracker;
+      },
+      getStatusReport: () => this.getStatusReport(),
+      answerPurchase: (approved, channel) => this.answerPurchaseConfirmation(approved, channel),
+      answerPayment: (paid, channel) => this.answerPaymentConfirmation(paid, channel),
+      awaitPreferenceReply: (type) => {
+        this.pendingPreferenceUpdate = true;
+        this.pendingPreferenceType = type;
+      },
+      preferenceChanged: (type) => {
+        this.reprocessSkippedMessages(type).catch(err =>
+          logger.error('Failed to reprocess skipped messages', err)
+        );
+      },
+      sessionResumed: () => {
+        if (this.botActive) {
+          this.backfillGroups('resume');
         }
-      }
-
-      if (trimmed === 'status' || trimmed === 's') {
-        this.printStatus();
-      }
-
-      if (trimmed === 'help' || trimmed === 'h') {
-        this.printHelp();
-      }
-
-      if (trimmed === 'quit' || trimmed === 'q') {
-        logger.info('Shutting down...');
-        this.saveCurrentState();
-        process.exit(0);
-      }
-    });
+      },
+      isBotActive: () => this.botActive,
+      setBotActive: (active) => this.setBotActive(active),
+      getConversations: () => Array.from(this.conversations.values()),
+      cancelConversation: (conversationId, reason) => this.conversationManager.manuallyFailConversation(conversationId, reason),
+      notify: (message) => {
+        this.sendToSelf(message).catch(err => logger.error('Failed to notify self', err));
+        this.broadcastWebStatus();
+      },
+      saveState: () => this.saveCurrentState(),
+      listAccounts: () => this.runner.listAccounts(),
+      selectAccount: (accountId) => this.runner.selectTerminalAccount(accountId),
+      shutdown: () => this.runner.shutdown()
+    }, this.commandBus));
   }
 
   private printStatus(): void {
     console.log('\n' + '─'.repeat(50));
-    console.log(`MESS COUPON BOT STATUS [${this.mode.toUpperCase()} MODE]`);
-    console.log('─'.repeat(50));
-    console.log(this.dailyTracker.getStatus());
+    console.log(this.getStatusReport());
+    console.log('─'.repeat(50) + '\n');
+  }
+
+  // Full status, for the terminal and the "status" command
+  private getStatusReport(): string {
+    const accountLabel = this.runner.accountCount() > 1 ? ` - ${this.account.label}` : '';
+    const lines: string[] = [`MESS COUPON BOT STATUS [${this.mode.toUpperCase()} MODE]${accountLabel}`, this.dailyTracker.getStatus()];
+
+    const detectionStats = getSellDetectionStats();
+    if (detectionStats.total > 0) {
+      const avg = (stage: 'rules' | 'llm') => {
+        const { count, totalLatencyMs } = detectionStats.byStage[stage];
+        return count > 0 ? Math.round(totalLatencyMs / count) : 0;
+      };
+      lines.push(`\nSell detection: ${detectionStats.total} messages, ${detectionStats.llmCallsSaved} decided by rules (avg ${avg('rules')}ms), ${detectionStats.byStage.llm.count} by LLM (avg ${avg('llm')}ms)`);
+    }
+
+    const llmStats = getLLMUsageStats();
+    for (const p of llmStats.providers) {
+      const queued = p.queued.high + p.queued.normal + p.queued.low;
+      lines.push(`LLM (${p.provider}): ${p.requestsToday} requests today${p.budget ? ` of ${p.budget.requestsPerDay}` : ''}, ${p.requestsLastMinute}/min, ${queued} queued, ${p.rateLimitHits} rate-limited`);
+    }
+    if (llmStats.cache.hits + llmStats.cache.misses > 0) {
+      lines.push(`LLM cache: ${llmStats.cache.hits} hits, ${llmStats.cache.misses} misses`);
+    }
 
     const activeConvs = this.conversationManager.getActiveConversations();
     if (activeConvs.length > 0) {
-      console.log(`\nActive Conversations: ${activeConvs.length}`);
+      lines.push(`\nActive Conversations: ${activeConvs.length}`);
       for (const conv of activeConvs) {
-        console.log(`  - ${conv.sellerName} (${conv.couponType}): ${conv.state}`);
+        lines.push(`  - ${conv.sellerName} (${conv.couponType}): ${conv.state}`);
       }
     } else {
-      console.log('\nNo active conversations');
+      lines.push('\nNo active conversations');
     }
 
-    if (this.conversationManager.hasActiveConversationInProgress()) {
-      console.log('\n⏸️  New chats paused - waiting for current seller');
+    const neededType = this.dailyTracker.getNeededCouponType();
+    if (neededType && this.conversationManager.hasActiveConversationInProgress(neededType)) {
+      lines.push('\n⏸️  New chats paused - waiting for current seller');
     }
 
-    if (this.pendingConfirmationConvId) {
-      console.log('\n⏳ Waiting for your confirmation (reply "ok" or "no")');
+    if (getWaitingConfirmation('purchase')) {
+      lines.push('\n⏳ Waiting for your confirmation (reply "ok" or "no")');
     }
 
-    if (this.pendingPaymentConvId) {
-      console.log('\n💰 Waiting for payment confirmation (reply "paid")');
+    if (getWaitingConfirmation('payment')) {
+      lines.push('\n💰 Waiting for payment confirmation (reply "paid")');
     }
 
-    const neededType = this.dailyTracker.getNeededCouponType();
     if (neededType) {
-      console.log(`\nLooking for: ${neededType.toUpperCase()} coupon`);
+      lines.push(`\nLooking for: ${neededType.toUpperCase()} coupon`);
     } else {
-      console.log('\nAll coupons bought for today!');
+      lines.push('\nAll coupons bought for today!');
     }
-    console.log('─'.repeat(50) + '\n');
+    return lines.join('\n');
   }
 
-  private printHelp(): void {
-    console.log('\n' + '─'.repeat(50));
-    console.log('COMMANDS');
-    console.log('─'.repeat(50));
-    console.log('  ok / yes     - Confirm purchase');
-    console.log('  no           - Decline purchase');
-    console.log('  paid / p     - Confirm payment was made');
-    console.log('  cancel / c   - Cancel current action');
-    console.log('  stop         - Stop current session (lunch/dinner)');
-    console.log('  start        - Resume paused session');
-    console.log('  status / s   - Show current status');
-    console.log('  help / h     - Show this help');
-    console.log('  quit / q     - Save and exit');
-    console.log('─'.repeat(50) + '\n');
+  // This account for the dashboard; the server calls these inside the account's scope
+  getWebAccount(): WebAccount {
+    return {
+      id: this.account.id,
+      label: this.account.label,
+      scope: this.scope,
+      whatsapp: this.whatsapp,
+      callbacks: this.createWebCallbacks()
+    };
   }
 
-  private startWebServer(): void {
-    const port = parseInt(process.env.WEB_PORT || '3000', 10);
+  private createWebCallbacks(): WebServerCallbacks {
+    return {
+      onCommand: (command: string, args: string[], permissions: CommandPermission[]) => this.commandBus.execute(command, args, 'dashboard', permissions),
 
-    this.webServer = new WebServer(port, {
-      onStartSession: () => {
-        const result = this.dailyTracker.startSession();
-        this.saveCurrentState();
-        if (result.startedSession) {
-          this.webServer?.broadcastNotification('success', 'Session Started', `Now looking for ${result.startedSession} coupons`);
-        }
-        return result;
-      },
+      listCommands: (permissions: CommandPermission[]) => this.commandBus.list('dashboard', permissions),
 
-      onStopSession: () => {
-        const result = this.dailyTracker.stopCurrentSession();
-        this.saveCurrentState();
-        if (result.stoppedSession) {
-          this.webServer?.broadcastNotification('info', 'Session Stopped', `${result.stoppedSession} session stopped`);
+      onSendLoginCode: async (code: string) => {
+        if (!this.whatsapp.isReady()) return false;
+        try {
+          await this.whatsapp.sendMessage(this.myWhatsAppId, `🔐 Dashboard login code: ${code}\n\nIt works once, for 5 minutes. If you didn't ask for it, someone else has your dashboard link.`);
+          return true;
+        } catch (error) {
+          logger.error('Failed to send dashboard login code', error);
+          return false;
         }
-        return result;
       },
 
       onPauseSession: (type: CouponType) => {
-        const typeCap = type.charAt(0).toUpperCase() + type.slice(1);
+        const typeCap = getMealLabel(type);
         this.dailyTracker.pauseSession(type);
         this.saveCurrentState();
         this.webServer?.broadcastNotification('info', `${typeCap} Paused`, `${typeCap} session paused`);
@@ -1075,27 +894,21 @@ class MessCouponBot {
       },
 
       onResumeSession: (type: CouponType) => {
-        const typeCap = type.charAt(0).toUpperCase() + type.slice(1);
+        const typeCap = getMealLabel(type);
         this.dailyTracker.resumeSession(type);
         this.saveCurrentState();
         this.webServer?.broadcastNotification('success', `${typeCap} Resumed`, `Now looking for ${type} coupons`);
         logger.info('Session resumed via dashboard', { type });
 
-        // Trigger a poll if bot is active
-        if (this.botActive && this.mode === 'real') {
-          this.groupMonitor.pollLatestMessages().catch(err =>
-            logger.error('Failed to poll after resume', err)
-          );
+        // Catch up on group messages if bot is active
+        if (this.botActive) {
+          this.backfillGroups('resume');
         }
         return { success: true, paused: false };
       },
 
-      onSetPreference: (type: CouponType, messNames: string[] | null) => {
-        if (type === 'lunch') {
-          this.dailyTracker.setLunchPreference(messNames);
-        } else {
-          this.dailyTracker.setDinnerPreference(messNames);
-        }
+      onSetPreference: (type: CouponType, preference: MessPreference) => {
+        this.dailyTracker.setPreference(type, preference);
         this.saveCurrentState();
         // Re-process skipped messages with new preference (newest first)
         this.reprocessSkippedMessages(type).catch(err =>
@@ -1103,55 +916,9 @@ class MessCouponBot {
         );
       },
 
-      onConfirmPurchase: () => {
-        if (this.pendingConfirmationConvId) {
-          const resolver = this.userConfirmationResolvers.get(this.pendingConfirmationConvId);
-          const conv = this.conversations.get(this.pendingConfirmationConvId);
-          if (resolver && conv) {
-            logger.info('User confirmed via web dashboard');
-            generateWaitPayingMessage().then(async (waitMsg) => {
-              await sendMessage(conv.sellerId, waitMsg);
-            }).catch(err => logger.error('Failed to send wait message', err));
-            resolver(true);
-            this.userConfirmationResolvers.delete(this.pendingConfirmationConvId);
-            this.pendingConfirmationConvId = null;
-          }
-        }
-      },
-
-      onDeclinePurchase: () => {
-        if (this.pendingConfirmationConvId) {
-          const resolver = this.userConfirmationResolvers.get(this.pendingConfirmationConvId);
-          const conv = this.conversations.get(this.pendingConfirmationConvId);
-          if (resolver) {
-            logger.info('User declined via web dashboard');
-            if (conv) {
-              generateUserDeclinedMessage().then(async (cancelMsg) => {
-                await sendMessage(conv.sellerId, cancelMsg);
-              }).catch(err => logger.error('Failed to send cancel message', err));
-            }
-            resolver(false);
-            this.userConfirmationResolvers.delete(this.pendingConfirmationConvId);
-            this.pendingConfirmationConvId = null;
-          }
-        }
-      },
-
-      onConfirmPayment: () => {
-        if (this.pendingPaymentConvId) {
-          const resolver = this.paymentConfirmationResolvers.get(this.pendingPaymentConvId);
-          if (resolver) {
-            logger.info('Payment confirmed via web dashboard');
-            resolver(true);
-            this.paymentConfirmationResolvers.delete(this.pendingPaymentConvId);
-            this.pendingPaymentConvId = null;
-          }
-        }
-      },
-
       onToggleSessionStatus: (type: CouponType) => {
         const result = this.dailyTracker.toggleSessionStatus(type);
-        const typeCap = type.charAt(0).toUpperCase() + type.slice(1);
+        const typeCap = getMealLabel(type);
         if (result.newStatus === 'needed') {
           this.webServer?.broadcastNotification('info', 'Session Reset', `${typeCap} reset to needed - searching again`);
         } else {
@@ -1162,30 +929,21 @@ class MessCouponBot {
         return result;
       },
 
-      onSetBotActive: (active: boolean) => {
-        this.botActive = active;
-        logger.info('Bot active status changed via dashboard', { active });
-
-        if (active) {
-          // When turning ON, start looking for coupons
-          this.webServer?.broadcastNotification('success', 'Bot Activated', 'Now searching for coupons...');
-
-          // Immediately poll for messages if in real mode
-          if (this.mode === 'real') {
-            this.groupMonitor.pollLatestMessages().catch(err =>
-              logger.error('Failed to poll after activation', err)
-            );
-          }
-        } else {
-          this.webServer?.broadcastNotification('info', 'Bot Deactivated', 'Bot is now idle');
+      onPlanChanged: (weekday: number | null, session: CouponType | null) => {
+        // Only today's sessions need updating; other days pick up the plan when they start
+        if (weekday === null || weekday === getLocalTime().weekday) {
+          this.dailyTracker.applyPlan(session ?? undefined);
         }
+      },
 
+      onSetBotActive: (active: boolean) => {
+        this.setBotActive(active);
         return { success: true };
       },
 
       onLogout: async () => {
         logger.info('Logout requested');
-        await logout();
+        await this.whatsapp.logout();
 
         // Clear current account from persistence
         clearCurrentAccount();
@@ -1195,10 +953,9 @@ class MessCouponBot {
         this.processedMessageIds.clear();
         this.activeSellerIds.clear();
         this.skippedSellMessages.clear();
-        this.userConfirmationResolvers.clear();
-        this.paymentConfirmationResolvers.clear();
-        this.pendingConfirmationConvId = null;
-        this.pendingPaymentConvId = null;
+        this.offerWindow.clear();
+        disarmTimers();
+        dropWaitingConfirmations();
         this.pendingPreferenceType = null;
         this.pendingPreferenceUpdate = false;
         this.botActive = false;  // Reset bot active state on logout
@@ -1210,9 +967,9 @@ class MessCouponBot {
 
         // Reinitialize WhatsApp client for new session
         try {
-          await reinitializeClient(async () => {
+          await this.whatsapp.reinitialize(() => this.inScope(async () => {
             // Called when new client is ready (after QR scan)
-            const newId = getMyWhatsAppId();
+            const newId = this.whatsapp.getMyWhatsAppId();
             if (newId) {
               this.myWhatsAppId = newId;
               logger.info('Updated WhatsApp ID for new session', { id: this.myWhatsAppId });
@@ -1221,7 +978,7 @@ class MessCouponBot {
               const phoneNumber = newId.replace(/@c\.us$/, '').replace(/@s\.whatsapp\.net$/, '');
               await this.loadAccountState(phoneNumber);
             }
-          });
+          }));
           logger.info('WhatsApp client reinitialized - waiting for new QR scan');
         } catch (error) {
           logger.error('Failed to reinitialize WhatsApp client', error);
@@ -1236,13 +993,8 @@ class MessCouponBot {
       getStatus: () => ({
         mode: this.mode,
         dailyStatus: this.dailyTracker.getStatus(),
-        lunchPreference: this.dailyTracker.getLunchPreference(),
-        dinnerPreference: this.dailyTracker.getDinnerPreference(),
+        sessions: this.dailyTracker.getSessionSummaries(),
         currentSession: this.dailyTracker.getCurrentSession(),
-        lunchPaused: this.dailyTracker.isSessionPaused('lunch'),
-        dinnerPaused: this.dailyTracker.isSessionPaused('dinner'),
-        lunchBought: this.dailyTracker.isSessionBought('lunch'),
-        dinnerBought: this.dailyTracker.isSessionBought('dinner'),
         botActive: this.botActive
       }),
 
@@ -1250,19 +1002,15 @@ class MessCouponBot {
         return this.conversationManager.getActiveConversations();
       },
 
-      getPendingConfirmation: () => ({
-        convId: this.pendingConfirmationConvId,
-        conversation: this.pendingConfirmationConvId
-          ? this.conversations.get(this.pendingConfirmationConvId) || null
-          : null
-      }),
+      getPendingConfirmation: () => {
+        const convId = getWaitingConfirmation('purchase');
+        return { convId, conversation: convId ? this.conversations.get(convId) || null : null };
+      },
 
-      getPendingPayment: () => ({
-        convId: this.pendingPaymentConvId,
-        conversation: this.pendingPaymentConvId
-          ? this.conversations.get(this.pendingPaymentConvId) || null
-          : null
-      }),
+      getPendingPayment: () => {
+        const convId = getWaitingConfirmation('payment');
+        return { convId, conversation: convId ? this.conversations.get(convId) || null : null };
+      },
 
       getConversationMessages: (conversationId: string) => {
         return this.conversationManager.getConversationMessages(conversationId);
@@ -1275,10 +1023,31 @@ class MessCouponBot {
       onManualFail: async (conversationId: string, reason?: string) => {
         return this.conversationManager.manuallyFailConversation(conversationId, reason);
       }
-    });
+    };
+  }
 
-    this.webServer.start();
-    this.webServer.setupWhatsAppCallbacks();
+  // Master switch, from the dashboard or the "on" / "off" commands
+  private setBotActive(active: boolean): void {
+    this.botActive = active;
+    logger.info('Bot active status changed', { active });
+
+    if (active) {
+      // When turning ON, start looking for coupons
+      this.webServer?.broadcastNotification('success', 'Bot Activated', 'Now searching for coupons...');
+
+      // Immediately catch up on group messages
+      this.backfillGroups('activation');
+    } else {
+      this.webServer?.broadcastNotification('info', 'Bot Deactivated', 'Bot is now idle');
+    }
+  }
+
+  // Catch up on group posts missed while we weren't looking (groups are only scanned in real mode)
+  private backfillGroups(reason: string): void {
+    if (this.mode !== 'real') return;
+    this.groupMonitor.backfillGaps().catch(err =>
+      logger.error(`Failed to backfill after ${reason}`, err)
+    );
   }
 
   // Broadcast status update to web clients
@@ -1296,21 +1065,18 @@ class MessCouponBot {
     const state = loadStateForAccount(phoneNumber);
 
     // Check if this is a returning user (has existing data)
+    const sessionStates = Object.values(state.dailyState.sessions);
     const isReturningUser = state.conversations.size > 0 ||
                             state.processedMessageIds.size > 0 ||
-                            state.dailyState.lunchBought ||
-                            state.dailyState.dinnerBought ||
-                            state.dailyState.lunchMessPreference !== undefined ||
-                            state.dailyState.dinnerMessPreference !== undefined;
+                            sessionStates.some(s => s.bought || s.messPreference !== undefined);
 
     if (isReturningUser) {
       logger.info('Returning user detected - loading saved data', {
         phone: '••••••' + phoneNumber.slice(-4),
         conversations: state.conversations.size,
-        lunchStatus: state.dailyState.lunchBought ? 'BOUGHT' : 'NEEDED',
-        dinnerStatus: state.dailyState.dinnerBought ? 'BOUGHT' : 'NEEDED',
-        lunchPreference: state.dailyState.lunchMessPreference || 'Any',
-        dinnerPreference: state.dailyState.dinnerMessPreference || 'Any'
+        sessions: Object.fromEntries(Object.entries(state.dailyState.sessions).map(([name, s]) =>
+          [name, `${s.bought ? 'BOUGHT' : 'NEEDED'}, preference ${describeMessPreference(s.messPreference ?? null)}`]
+        ))
       });
     } else {
       logger.info('New user detected - starting fresh', {
@@ -1323,6 +1089,7 @@ class MessCouponBot {
     this.processedMessageIds.clear();
     this.activeSellerIds.clear();
     this.skippedSellMessages.clear();
+    this.offerWindow.clear();
 
     // Copy loaded state INTO existing maps (don't reassign - ConversationManager has reference to these!)
     for (const [id, conv] of state.conversations) {
@@ -1345,6 +1112,9 @@ class MessCouponBot {
     // Update DM handler with new active sellers
     this.dmHandler.setActiveSellerIds(this.activeSellerIds);
 
+    // Pick up coupon follow-ups (and other saved timers) where they left off before the restart
+    restoreTimers();
+
     logger.info('Account state loaded successfully', {
       isReturningUser,
       conversations: this.conversations.size,
@@ -1365,7 +1135,7 @@ class MessCouponBot {
     this.broadcastWebStatus();
   }
 
-  private saveCurrentState(): void {
+  saveCurrentState(): void {
     saveState(
       this.dailyTracker.getState(),
       this.conversations,
@@ -1376,13 +1146,13 @@ class MessCouponBot {
   }
 
   private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+    return sleep(ms);
   }
 
   // Send message to self with error handling
   private async sendToSelf(message: string): Promise<void> {
     try {
-      await sendMessage(this.myWhatsAppId, message);
+      await this.whatsapp.sendMessage(this.myWhatsAppId, message);
     } catch (error) {
       logger.warn('Failed to send WhatsApp message to self', { error });
       console.log('\n' + '='.repeat(50));
@@ -1406,20 +1176,11 @@ class MessCouponBot {
     if (!this.dailyTracker.isMorning()) return;
     if (this.preferenceCheckDone) return;
 
-    // Check if we need to ask for lunch preference
-    if (this.dailyTracker.needsLunchPreference()) {
-      logger.info('Morning preference check - asking for lunch preference');
-      await this.askForPreference('lunch');
-      this.preferenceCheckDone = true;
-      return;
-    }
-
-    // If lunch is already set but dinner isn't asked yet
-    if (this.dailyTracker.needsDinnerPreference()) {
-      logger.info('Morning preference check - asking for dinner preference');
-      await this.askForPreference('dinner');
-      this.preferenceCheckDone = true;
-      return;
+    // Ask for the first meal session without a preference; the rest follow as each one is answered
+    const nextType = this.dailyTracker.getNextPreferenceToAsk();
+    if (nextType) {
+      logger.info(`Morning preference check - asking for ${nextType} preference`);
+      await this.askForPreference(nextType);
     }
 
     this.preferenceCheckDone = true;
@@ -1428,15 +1189,150 @@ class MessCouponBot {
   // Reset preference check flag at midnight
   private startMidnightReset(): void {
     const checkReset = () => {
-      const now = new Date();
-      if (now.getHours() === 0 && now.getMinutes() === 0) {
+      const { hour, minute } = getLocalTime();
+      if (hour === 0 && minute === 0) {
         this.preferenceCheckDone = false;
         logger.info('Midnight - reset preference check flag');
       }
     };
 
     // Check every minute
-    setInterval(checkReset, 60 * 1000);
+    getClock().setInterval(checkReset, 60 * 1000);
+  }
+}
+
+/**
+ * Runs one MessCouponBot per configured account in this process, sharing the database, the LLM budget,
+ * the dashboard and the terminal (which talks to one account at a time - see the "account" command)
+ */
+class BotRunner {
+  private bots: MessCouponBot[] = [];
+  private terminalBot!: MessCouponBot;
+  private webServer: WebServer | null = null;
+
+  async start(mode: BotMode = 'real'): Promise<void> {
+    console.log('\n' + '='.repeat(60));
+    console.log(`  MESS COUPON BOT - ${mode.toUpperCase()} MODE`);
+    console.log('='.repeat(60));
+    if (mode === 'test') {
+      console.log('  📋 Test mode: Only test account messages will be processed');
+      console.log('  📋 Groups will NOT be scanned');
+    } else {
+      console.log('  📋 Real mode: Full operation');
+      console.log('  📋 Groups will be scanned + test account works too');
+    }
+    console.log('='.repeat(60) + '\n');
+
+    logger.info(`Starting Mess Coupon Bot in ${mode.toUpperCase()} mode...`);
+
+    // Initialize database
+    logger.info('Initializing database...');
+    initDatabase();
+
+    // Run migration if needed (JSON files exist but no DB)
+    if (needsMigration()) {
+      logger.info('JSON files found, running migration to SQLite...');
+      const migrationResult = runMigration();
+      if (migrationResult.success) {
+        logger.info('Migration completed successfully', {
+          stateFiles: migrationResult.stateFilesMigrated,
+          historyFiles: migrationResult.historyFilesMigrated,
+          conversations: migrationResult.conversationsMigrated,
+          deals: migrationResult.dealsMigrated
+        });
+      } else {
+        logger.warn('Migration completed with errors', { errors: migrationResult.errors.length });
+      }
+    }
+
+    // Start image cleanup job (hourly cleanup of expired coupon images)
+    startImageCleanupJob();
+
+    const accounts = getAccounts();
+    logger.info('Configuration loaded', {
+      accounts: accounts.map(a => a.id),
+      groups: Array.from(new Set(accounts.flatMap(a => a.groups))),
+      timezone: getTimezone(),
+      prices: Object.fromEntries(getMealSessions().map(s => [s.name, getPriceLimits(s.name)]))
+    });
+
+    initLLMProviders();
+
+    this.bots = accounts.map(account => new MessCouponBot(account, mode, this));
+    this.terminalBot = this.bots[0];
+    for (const bot of this.bots) {
+      bot.inScope(() => bot.init());
+    }
+
+    // Start web server FIRST so QR codes can be displayed on frontend
+    this.startWebServer();
+
+    // Start terminal input
+    this.startTerminalInput();
+
+    // Now connect every account (each one triggers its own QR code until it's logged in)
+    await Promise.all(this.bots.map(bot => bot.inScope(() => bot.start()).catch((error) => {
+      logger.error('Account failed to start', { account: bot.account.id, error });
+    })));
+  }
+
+  private startWebServer(): void {
+    const port = parseInt(process.env.WEB_PORT || '3000', 10);
+
+    this.webServer = new WebServer(port, this.bots.map(bot => bot.inScope(() => bot.getWebAccount())));
+    for (const bot of this.bots) {
+      bot.attachWebServer(this.webServer);
+    }
+
+    this.webServer.start();
+    this.webServer.setupWhatsAppCallbacks();
+  }
+
+  private startTerminalInput(): void {
+    const rl = readline.createInterface({
+      input: process.stdin,
+      output: process.stdout
+    });
+
+    rl.on('line', (input) => {
+      if (!input.trim()) return;
+
+      const bot = this.terminalBot;
+      bot.inScope(() => bot.runCommand(input, 'terminal')).then((result) => {
+        console.log(result ? `\n${result.message}\n` : 'Unknown command. Type "help" for the list.');
+      }).catch(err => logger.error('Terminal command failed', err));
+    });
+  }
+
+  accountCount(): number {
+    return this.bots.length;
+  }
+
+  listAccounts(): AccountSummary[] {
+    return this.bots.map(bot => ({
+      id: bot.account.id,
+      label: bot.account.label,
+      loggedIn: bot.whatsapp.isReady(),
+      terminal: bot === this.terminalBot
+    }));
+  }
+
+  // Point the terminal at another account; false if there's no such account
+  selectTerminalAccount(accountId: string): boolean {
+    const bot = this.bots.find(b => b.account.id === accountId);
+    if (!bot) return false;
+    this.terminalBot = bot;
+    logger.info('Terminal switched account', { account: accountId });
+    return true;
+  }
+
+  // Save every account, then exit
+  shutdown(): void {
+    logger.info('Shutting down...');
+    for (const bot of this.bots) {
+      bot.inScope(() => bot.saveCurrentState());
+    }
+    process.exit(0);
   }
 }
 
@@ -1455,8 +1351,8 @@ if (args.includes('test') || args.includes('--test') || args.includes('-t')) {
   process.exit(1);
 }
 
-const bot = new MessCouponBot();
-bot.start(mode).catch((error) => {
+const runner = new BotRunner();
+runner.start(mode).catch((error) => {
   logger.error('Fatal error', error);
   process.exit(1);
 });
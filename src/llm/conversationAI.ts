@@ -1,17 +1,11 @@
-import { chatWithRetry } from './groqClient.js';
-import { CouponType, IITM_MESSES } from '../conversation/types.js';
+import { chatWithRetry, isTemplatesOnly, isTemplatesOnlyError } from './llmClient.js';
+import { CouponType } from '../conversation/types.js';
 import { logger } from '../utils/logger.js';
 import { fuzzyMatchMessName, FuzzyMatchResult } from '../utils/fuzzyMatch.js';
 
-// Fixed price - no negotiation
-const FIXED_PRICE = 70;
-
 // Cache for gender detection to avoid repeated LLM calls for same name
 const genderCache: Map<string, 'male' | 'female' | 'neutral'> = new Map();
 
-// Store current seller context for message generation
-let currentSellerContext: { name: string; gender: 'male' | 'female' | 'neutral' } | null = null;
-
 // Detect gender from name using LLM
 async function detectGenderFromName(name: string): Promise<'male' | 'female' | 'neutral'> {
   if (!name || name === 'Unknown') return 'neutral';
@@ -20,12 +14,14 @@ async function detectGenderFromName(name: string): Promise<'male' | 'female' | '
   const cached = genderCache.get(name.toLowerCase());
   if (cached) return cached;
 
+  if (isTemplatesOnly('classification')) return 'neutral';
+
   try {
     const prompt = `Based on this Indian name, determine the likely gender. Name: "${name}"
 
 Reply with ONLY one word: "male", "female", or "neutral" (if unsure or unisex name).`;
 
-    const response = await chatWithRetry(prompt, 'Classify gender', 2);
+    const response = await chatWithRetry(prompt, 'Classify gender', { maxRetries: 2 });
     const gender = response.toLowerCase().trim();
 
     let result: 'male' | 'female' | 'neutral' = 'neutral';
@@ -44,13 +40,14 @@ Reply with ONLY one word: "male", "female", or "neutral" (if unsure or unisex na
   }
 }
 
-// Get appropriate address instruction based on gender and name
-function getAddressInstruction(): string {
-  if (!currentSellerContext) {
+// Get appropriate address instruction based on the seller's gender and name
+// Takes the seller per call - several conversations can be generating replies at once
+async function getAddressInstruction(name: string): Promise<string> {
+  if (!name) {
     return 'Do not use any specific address term.';
   }
 
-  const { name, gender } = currentSellerContext;
+  const gender = await detectGenderFromName(name);
   const firstName = name && name !== 'Unknown' ? name.split(' ')[0] : null;
 
   switch (gender) {
@@ -63,19 +60,31 @@ function getAddressInstruction(): string {
   }
 }
 
-export async function setSellerContext(sellerName: string): Promise<void> {
-  const gender = await detectGenderFromName(sellerName);
-  currentSellerContext = { name: sellerName, gender };
-  logger.info('Seller context set', { name: sellerName, gender });
+function pickTemplate(templates: string[]): string {
+  return templates[Math.floor(Math.random() * templates.length)];
 }
 
-export function clearSellerContext(): void {
-  currentSellerContext = null;
+/**
+ * Generate message using LLM with robust error handling
+ * Falls back to one of the canned templates when no model is configured or the provider is down
+ */
+async function generateMessage(sellerName: string, task: string, maxLength: number, fallback: string[]): Promise<string> {
+  if (isTemplatesOnly('generation')) {
+    return pickTemplate(fallback);
+  }
+
+  try {
+    return await generateMessageWithLLM(sellerName, task, maxLength);
+  } catch (error) {
+    if (!isTemplatesOnlyError(error)) {
+      logger.warn('Message generation failed, using template', { task: task.substring(0, 50) });
+    }
+    return pickTemplate(fallback);
+  }
 }
 
-// Generate message using LLM with robust error handling
-async function generateMessage(task: string, maxLength: number = 80): Promise<string> {
-  const addressInstruction = getAddressInstruction();
+async function generateMessageWithLLM(sellerName: string, task: string, maxLength: number): Promise<string> {
+  const addressInstruction = await getAddressInstruction(sellerName);
 
   const prompt = `You are a real college student at IIT Madras texting on WhatsApp to buy a mess coupon.
 
@@ -94,7 +103,7 @@ Task: ${task}
 
 Write ONLY the message text, nothing else. No quotes around it.`;
 
-  const response = await chatWithRetry(prompt, 'Generate natural message', 3);
+  const response = await chatWithRetry(prompt, 'Generate natural message', { task: 'generation', priority: 'high' });
 
   // Clean up the response
   let cleaned = response
@@ -106,7 +115,7 @@ Write ONLY the message text, nothing else. No quotes around it.`;
   if (cleaned.length < 3 || cleaned.length > maxLength * 1.5) {
     logger.warn('Generated message length unusual, regenerating', { length: cleaned.length, message: cleaned });
     // Try one more time
-    const retry = await chatWithRetry(prompt, 'Generate natural message', 2);
+    const retry = await chatWithRetry(prompt, 'Generate natural message', { task: 'generation', priority: 'high', maxRetries: 2 });
     cleaned = retry.replace(/^["']|["']$/g, '').replace(/^\*+|\*+$/g, '').trim();
   }
 
@@ -114,7 +123,7 @@ Write ONLY the message text, nothing else. No quotes around it.`;
   return cleaned;
 }
 
-export async function generateInitialMessage(couponType: CouponType, groupName: string, messName?: string): Promise<string> {
+export async function generateInitialMessage(sellerName: string, couponType: CouponType, groupName: string, messName?: string): Promise<string> {
   let task: string;
   if (messName) {
     // When mess name is known, mention it so buyer knows which mess
@@ -123,154 +132,179 @@ export async function generateInitialMessage(couponType: CouponType, groupName:
     // When mess name is not known
     task = `First message to someone selling a ${couponType} mess coupon at IIT Madras. You saw their message in "${groupName}" group. Express interest casually - DON'T mention any price or money yet. DON'T ask obvious questions like "are you selling a coupon?" or "is this for IIT Madras?" - it's already clear from context. Just say you're interested or ask if it's still available. Keep it very short and natural.`;
   }
-  return generateMessage(task, 100);
+  return generateMessage(sellerName, task, 100, messName
+    ? [`saw your message about ${messName} ${couponType} coupon, still available?`, `hey, is the ${messName} ${couponType} coupon still there?`]
+    : [`saw your ${couponType} coupon message, still available?`, `is the ${couponType} coupon still available?`]);
 }
 
-export async function generateAskUpiMessage(): Promise<string> {
+export async function generateAskUpiMessage(sellerName: string): Promise<string> {
   const task = 'Seller agreed to sell the coupon. Now ask for their UPI ID to send payment. Keep it natural and brief.';
-  return generateMessage(task, 60);
+  return generateMessage(sellerName, task, 60, ['cool, what\'s your upi id?', 'great, send your upi id', 'okay, share your upi?']);
 }
 
-export async function generateDeclineMessage(reason?: string): Promise<string> {
+export async function generateDeclineMessage(sellerName: string, reason?: string): Promise<string> {
   const task = `Politely decline the coupon deal because ${reason || 'the price is more than what you can afford'}. Don't try to negotiate or counter-offer. Instead, gracefully back out - tell them they're free to go ahead and sell it to someone else, and you'll find another one. Sound casual and friendly, not disappointed. Something like "ah that's a bit much for me, go ahead and sell to someone else - I'll find another one" or "no worries, that's above my budget, feel free to sell to others". Keep it brief and natural.`;
-  return generateMessage(task, 80);
+  return generateMessage(sellerName, task, 80, ['ah that\'s a bit much for me, go ahead and sell to someone else', 'no worries, that\'s above my budget, feel free to sell to others']);
+}
+
+// Generate counter-offer when seller's price is above our budget
+export async function generateCounterOffer(sellerName: string, sellerPrice: number, offer: number): Promise<string> {
+  const task = `Seller wants Rs.${sellerPrice} for the coupon, which is a bit above your budget. Counter-offer Rs.${offer} in a friendly, casual way. Something like "can you do ${offer}?" or "would ${offer} work?". Mention the number ${offer} clearly. Don't be pushy. Keep it short.`;
+  return generateMessage(sellerName, task, 50, [`can you do ${offer}?`, `would ${offer} work?`]);
 }
 
-export async function generatePaymentConfirmation(upiId: string, amount: number): Promise<string> {
+// Generate message when seller agrees to a price within budget
+export async function generatePriceAgreedMessage(sellerName: string, price: number): Promise<string> {
+  const task = `Seller agreed to sell the coupon for Rs.${price}. Confirm the price briefly and ask for their UPI ID to send payment. Something like "cool, ${price} it is. what's your upi?". Keep it short and natural.`;
+  return generateMessage(sellerName, task, 60, [`cool, ${price} it is. what's your upi?`, `okay ${price} works, send your upi id`]);
+}
+
+export async function generatePaymentConfirmation(sellerName: string, upiId: string, amount: number): Promise<string> {
   const task = `You just sent Rs.${amount} payment. Tell them to check and share the coupon screenshot. Sound natural.`;
-  return generateMessage(task, 80);
+  return generateMessage(sellerName, task, 80, [`sent ${amount}, check and send the coupon screenshot`, `paid ${amount}, please share the coupon`]);
 }
 
-export async function generatePaymentDoneWithThanks(): Promise<string> {
+export async function generatePaymentDoneWithThanks(sellerName: string): Promise<string> {
   const task = 'You just sent the payment and you already received the coupon screenshot. Say payment done and thanks for the coupon in a brief, natural way. Keep it short.';
-  return generateMessage(task, 50);
+  return generateMessage(sellerName, task, 50, ['payment done, thanks for the coupon', 'paid, thanks a lot']);
 }
 
-export async function generatePayingNowMessage(): Promise<string> {
+export async function generatePayingNowMessage(sellerName: string): Promise<string> {
   const task = 'Seller is asking if you paid or are paying. Tell them you are paying right now / just a moment / hold on. Keep it very short and casual.';
-  return generateMessage(task, 40);
+  return generateMessage(sellerName, task, 40, ['paying right now', 'one sec, paying', 'just a moment, sending it']);
 }
 
-export async function generateThankYouMessage(): Promise<string> {
+export async function generateThankYouMessage(sellerName: string): Promise<string> {
   const task = 'You received the coupon. Say thanks briefly. Dont be over the top, just a simple thanks.';
-  return generateMessage(task, 30);
+  return generateMessage(sellerName, task, 30, ['thanks!', 'got it, thanks', 'thanks a lot']);
 }
 
-export async function generateNotAvailableResponse(): Promise<string> {
+export async function generateNotAvailableResponse(sellerName: string): Promise<string> {
   const task = 'Seller said coupon is not available or already sold. Acknowledge briefly and politely.';
-  return generateMessage(task, 40);
+  return generateMessage(sellerName, task, 40, ['oh okay, no worries', 'ah okay, thanks anyway']);
 }
 
-export async function generateFollowUpMessage(context: string): Promise<string> {
+export async function generateFollowUpMessage(sellerName: string, context: string): Promise<string> {
   const task = `Continue the conversation naturally. Context: ${context}`;
-  return generateMessage(task, 60);
+  return generateMessage(sellerName, task, 60, ['okay', 'got it']);
 }
 
-export async function generateCouponRequestMessage(followUpCount: number): Promise<string> {
+export async function generateCouponRequestMessage(sellerName: string, followUpCount: number): Promise<string> {
   let task = '';
+  let fallback: string[];
   if (followUpCount === 0) {
     task = 'You just paid for the coupon. Politely ask them to send the coupon image/screenshot now.';
+    fallback = ['paid, please send the coupon screenshot', 'done, can you send the coupon now?'];
   } else if (followUpCount === 1) {
     task = 'You paid but haven\'t received coupon yet. Gently remind them to send the coupon. Don\'t sound impatient.';
+    fallback = ['hey, could you send the coupon when you get a chance?', 'just a reminder to send the coupon'];
   } else if (followUpCount === 2) {
     task = 'Still waiting for coupon after payment. Ask again politely but show you are waiting.';
+    fallback = ['still waiting for the coupon, please send it', 'can you send the coupon please?'];
   } else {
     task = 'Been waiting for coupon for a while now. Ask again, stay polite but be firm. Mention you already paid.';
+    fallback = ['I already paid, please send the coupon now', 'been waiting a while, I\'ve paid - please send the coupon'];
   }
-  return generateMessage(task, 70);
+  return generateMessage(sellerName, task, 70, fallback);
 }
 
-export async function generateWaitPayingMessage(): Promise<string> {
+export async function generateWaitPayingMessage(sellerName: string): Promise<string> {
   const task = 'Tell the seller you are about to pay them right now. Keep it brief and natural, like "one sec, paying".';
-  return generateMessage(task, 40);
+  return generateMessage(sellerName, task, 40, ['one sec, paying', 'paying now']);
 }
 
-export async function generateCancelMessageToSeller(): Promise<string> {
+export async function generateCancelMessageToSeller(sellerName: string): Promise<string> {
   const task = 'Apologize to the seller because your friend just got you a coupon, so you don\'t need it anymore. Be polite and brief.';
-  return generateMessage(task, 70);
+  return generateMessage(sellerName, task, 70, ['sorry, my friend just got me a coupon so I don\'t need it anymore', 'ah sorry, friend got me one already. thanks though']);
+}
+
+// Generate message releasing a seller because we're buying from someone else
+export async function generateReleaseSellerMessage(sellerName: string): Promise<string> {
+  const task = 'Tell the seller you already got a coupon from someone else, so you don\'t need theirs anymore. Thank them. Something like "got one already, thanks though!" or "arre mil gaya already, thanks yaar". Keep it short and friendly.';
+  return generateMessage(sellerName, task, 60, ['got one already, thanks though!', 'found one from someone else, thanks anyway']);
 }
 
 // Generate message when user decides not to proceed with the deal
-export async function generateUserDeclinedMessage(): Promise<string> {
+export async function generateUserDeclinedMessage(sellerName: string): Promise<string> {
   const task = 'You were about to buy a coupon but just found out your friend already bought one for you. Apologize briefly to the seller. Something like "sorry bro, my friend just told me he got one for me" or "ah sorry, just got a message - friend bought me one already". Keep it casual and apologetic.';
-  return generateMessage(task, 60);
+  return generateMessage(sellerName, task, 60, ['sorry, my friend just told me he got one for me', 'ah sorry, friend bought me one already']);
 }
 
 // Generate friendly response when seller says "hold on", "sending", "wait", etc.
-export async function generateWaitingAcknowledgment(): Promise<string> {
+export async function generateWaitingAcknowledgment(sellerName: string): Promise<string> {
   const task = 'Seller said they will send the coupon soon (like "hold on", "sending", "wait"). Acknowledge it in a friendly, patient way. Something like "sure, no rush" or "okay, take your time". Keep it very short and casual.';
-  return generateMessage(task, 30);
+  return generateMessage(sellerName, task, 30, ['sure, no rush', 'okay, take your time']);
 }
 
 // Generate question when received image is not a coupon
-export async function generateWrongImageQuestion(): Promise<string> {
+export async function generateWrongImageQuestion(sellerName: string): Promise<string> {
   const task = 'You received an image from the seller but it doesn\'t look like the mess coupon you\'re waiting for. Ask them about it briefly - could be something like "is this the coupon?" or "wrong image?" or just "?" or "bro this doesn\'t look like the coupon". Keep it very short and casual.';
-  return generateMessage(task, 25);
+  return generateMessage(sellerName, task, 25, ['is this the coupon?', 'wrong image?']);
 }
 
 // Generate response to ask for missing details (like mess name)
-export async function generateAskMessName(): Promise<string> {
+export async function generateAskMessName(sellerName: string): Promise<string> {
   const task = 'Ask the seller which mess the coupon is for (there are multiple messes like Himalaya, Cauvery, etc. at IIT Madras). Keep it casual and brief.';
-  return generateMessage(task, 40);
+  return generateMessage(sellerName, task, 40, ['which mess is this for?', 'btw which mess?']);
 }
 
 // Generate a friendly conversational response based on what seller said
-export async function generateConversationalResponse(sellerMessage: string, context: string): Promise<string> {
+export async function generateConversationalResponse(sellerName: string, sellerMessage: string, context: string): Promise<string> {
   const task = `Respond naturally to the seller's message. Seller said: "${sellerMessage}". Context: ${context}. Be friendly and conversational, keep it short.`;
-  return generateMessage(task, 50);
+  return generateMessage(sellerName, task, 50, ['okay', 'sure']);
 }
 
 // Generate follow-up when seller suddenly tries to cancel (before payment)
-export async function generateSellerCancelFollowUp(sellerMessage: string): Promise<string> {
+export async function generateSellerCancelFollowUp(sellerName: string, sellerMessage: string): Promise<string> {
   const task = `The seller suddenly seems to be backing out or cancelling the deal. They said: "${sellerMessage}". Ask them what happened in a friendly way, try to understand the situation. Maybe something like "oh what happened?" or "everything okay?". Keep it casual and short.`;
-  return generateMessage(task, 30);
+  return generateMessage(sellerName, task, 30, ['oh what happened?', 'everything okay?']);
 }
 
 // Generate message to convince seller to continue the deal
-export async function generateConvinceSeller(): Promise<string> {
+export async function generateConvinceSeller(sellerName: string): Promise<string> {
   const task = 'Try to gently convince the seller to continue with the coupon sale. Be understanding but express that you really need it. Something like "come on, I really need it" or "please, already counting on it". Keep it casual and not pushy.';
-  return generateMessage(task, 35);
+  return generateMessage(sellerName, task, 35, ['come on, I really need it', 'please, already counting on it']);
 }
 
 // Generate polite refund request (when seller cancels after payment)
-export async function generateRefundRequest(amount: number): Promise<string> {
+export async function generateRefundRequest(sellerName: string, amount: number): Promise<string> {
   const task = `The seller is cancelling the deal AFTER you already paid Rs.${amount}. Politely ask them to refund the money. Be understanding but firm. Something like "okay no problem, but please refund the ${amount} I sent" or "that's fine, just send back the money please". Keep it polite but clear.`;
-  return generateMessage(task, 50);
+  return generateMessage(sellerName, task, 50, [`okay no problem, but please refund the ${amount} I sent`, 'that\'s fine, just send back the money please']);
 }
 
 // Generate message when seller confirms they won't sell after trying to convince
-export async function generateAcceptCancellation(paymentMade: boolean): Promise<string> {
+export async function generateAcceptCancellation(sellerName: string, paymentMade: boolean): Promise<string> {
   if (paymentMade) {
     const task = 'The seller has decided not to sell even after you paid. Accept it gracefully but remind them about the refund. Something like "alright, just send back the money then" or "okay, waiting for the refund".';
-    return generateMessage(task, 40);
+    return generateMessage(sellerName, task, 40, ['alright, just send back the money then', 'okay, waiting for the refund']);
   } else {
     const task = 'The seller has decided not to sell. Accept it gracefully. Something like "okay no worries" or "alright, thanks anyway".';
-    return generateMessage(task, 25);
+    return generateMessage(sellerName, task, 25, ['okay no worries', 'alright, thanks anyway']);
   }
 }
 
 // Generate follow-up asking about refund status
-export async function generateRefundFollowUp(): Promise<string> {
+export async function generateRefundFollowUp(sellerName: string): Promise<string> {
   const task = 'You\'re waiting for the seller to refund your money. Ask them about it politely. Something like "did you send it?" or "refund done?" or "waiting for the refund". Keep it short.';
-  return generateMessage(task, 25);
+  return generateMessage(sellerName, task, 25, ['did you send it?', 'refund done?']);
 }
 
 // Generate request for refund screenshot
-export async function generateAskRefundScreenshot(): Promise<string> {
+export async function generateAskRefundScreenshot(sellerName: string): Promise<string> {
   const task = 'Seller says they refunded the money. Ask them to send a screenshot of the payment as confirmation. Something like "can you send the screenshot?" or "share the payment screenshot please". Keep it casual and short.';
-  return generateMessage(task, 30);
+  return generateMessage(sellerName, task, 30, ['can you send the screenshot?', 'share the payment screenshot please']);
 }
 
 // Generate thank you after refund screenshot received
-export async function generateRefundThanks(): Promise<string> {
+export async function generateRefundThanks(sellerName: string): Promise<string> {
   const task = 'Seller sent the refund payment screenshot. Thank them briefly. Something like "got it, thanks" or "okay thanks". Keep it very short.';
-  return generateMessage(task, 20);
+  return generateMessage(sellerName, task, 20, ['got it, thanks', 'okay thanks']);
 }
 
 // Generate conversational response during refund discussion
-export async function generateRefundConversation(sellerMessage: string): Promise<string> {
-  const task = `You're waiting for the seller to refund Rs.70 after they cancelled the deal. They said: "${sellerMessage}". Respond naturally, stay polite but keep reminding about the refund if needed. Keep it short.`;
-  return generateMessage(task, 40);
+export async function generateRefundConversation(sellerName: string, sellerMessage: string, amount: number): Promise<string> {
+  const task = `You're waiting for the seller to refund Rs.${amount} after they cancelled the deal. They said: "${sellerMessage}". Respond naturally, stay polite but keep reminding about the refund if needed. Keep it short.`;
+  return generateMessage(sellerName, task, 40, [`okay, please send back the ${amount} when you can`, 'sure, just waiting for the refund']);
 }
 
 /**
@@ -305,13 +339,13 @@ export function detectMessNameWithDetails(message: string): FuzzyMatchResult {
 }
 
 // Generate message asking which mess the coupon is for
-export async function generateAskMessNameMessage(): Promise<string> {
+export async function generateAskMessNameMessage(sellerName: string): Promise<string> {
   const task = 'Ask the seller which mess the coupon is for. There are multiple messes at IIT Madras (like Himalaya, Cauvery, SGR, etc.). Keep it casual and brief, something like "which mess is this for?" or "btw which mess?". Keep it short.';
-  return generateMessage(task, 30);
+  return generateMessage(sellerName, task, 30, ['which mess is this for?', 'btw which mess?']);
 }
 
 // Generate polite decline when mess doesn't match preference
-export async function generateMessMismatchDecline(preferredMess: string, actualMess: string): Promise<string> {
+export async function generateMessMismatchDecline(sellerName: string, preferredMess: string, actualMess: string): Promise<string> {
   const task = `Politely decline the coupon because you specifically need a ${preferredMess} mess coupon, but the seller has ${actualMess}. Apologize briefly. Something like "ah sorry, I was actually looking for ${preferredMess}" or "oh, I need ${preferredMess} specifically, sorry". Keep it polite and short.`;
-  return generateMessage(task, 50);
+  return generateMessage(sellerName, task, 50, [`ah sorry, I was actually looking for ${preferredMess}`, `oh, I need ${preferredMess} specifically, sorry`]);
 }
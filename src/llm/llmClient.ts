@@ -0,0 +1,217 @@
+import { logger } from '../utils/logger.js';
+import { sleep } from '../utils/clock.js';
+import { getConfig, LLMTask, LLMProviderConfig, LLMProviderName, LLMBudgetConfig } from '../utils/config.js';
+import {
+  LLMProvider,
+  TemplatesOnlyError,
+  RateLimitError,
+  DEFAULT_MODELS,
+  getProviderApiKey,
+  createGroqProvider,
+  createOpenAICompatibleProvider,
+  createTemplatesProvider
+} from './providers.js';
+import { LLMScheduler, LLMSchedulerStats, LLMPriority, BudgetExhaustedError } from './llmScheduler.js';
+import { getCacheKey, getCachedResponse, setCachedResponse, getResponseCacheStats, ResponseCacheStats } from './responseCache.js';
+
+const DEFAULT_PROVIDER: LLMProviderConfig = { provider: 'groq' };
+const DEFAULT_CACHE_TTL_MINUTES = 10;
+const MAX_TOKENS = 500;
+
+// Groq free tier for llama-3.1-8b-instant; other providers are unlimited unless configured
+const DEFAULT_BUDGETS: Partial<Record<LLMProviderName, LLMBudgetConfig>> = {
+  groq: { requestsPerMinute: 30, tokensPerMinute: 6000, requestsPerDay: 14400, reservedForReplies: 0.3 }
+};
+
+export interface ChatRequestOptions {
+  task?: LLMTask;          // Which configured provider to use (default 'classification')
+  priority?: LLMPriority;  // Queue position when the budget is tight (default 'normal')
+  maxRetries?: number;     // Default 3
+  cache?: boolean;         // Reuse a recent answer for the same prompt + message (default false)
+}
+
+export interface LLMUsageStats {
+  tasks: Record<LLMTask, { provider: LLMProvider['name']; model: string }>;
+  providers: LLMSchedulerStats[];
+  cache: ResponseCacheStats;
+}
+
+interface ResolvedProvider {
+  provider: LLMProvider;
+  model: string;
+  scheduler: LLMScheduler | null; // null for templates-only
+}
+
+// Providers are built once per task on first use; tasks sharing a provider share its scheduler (and budget)
+const providers: Map<LLMTask, ResolvedProvider> = new Map();
+const schedulers: Map<string, LLMScheduler> = new Map();
+let providerWrapper: ((provider: LLMProvider) => LLMProvider) | null = null;
+
+function getScheduler(settings: LLMProviderConfig): LLMScheduler {
+  const key = `${settings.provider}:${settings.baseUrl ?? ''}`;
+  let scheduler = schedulers.get(key);
+  if (!scheduler) {
+    const defaults = DEFAULT_BUDGETS[settings.provider];
+    const budget = defaults || settings.budget
+      ? { ...(defaults ?? { requestsPerMinute: Infinity, tokensPerMinute: Infinity, requestsPerDay: Infinity, reservedForReplies: 0 }), ...settings.budget }
+      : null;
+    scheduler = new LLMScheduler(settings.provider, budget);
+    schedulers.set(key, scheduler);
+  }
+  return scheduler;
+}
+
+function buildProvider(task: LLMTask): ResolvedProvider {
+  const settings: LLMProviderConfig = { ...DEFAULT_PROVIDER, ...getConfig().llm?.[task] };
+  const model = settings.model ?? DEFAULT_MODELS[settings.provider];
+  const templates = (): ResolvedProvider => ({
+    provider: createTemplatesProvider(),
+    model: DEFAULT_MODELS.templates,
+    scheduler: null
+  });
+
+  switch (settings.provider) {
+    case 'groq': {
+      const apiKey = getProviderApiKey(settings);
+      if (!apiKey) {
+        logger.warn(`No Groq API key set - ${task} will use templates only`, { env: settings.apiKeyEnv ?? 'GROQ_API_KEY' });
+        return templates();
+      }
+      return { provider: createGroqProvider(apiKey), model, scheduler: getScheduler(settings) };
+    }
+    case 'openai':
+      return {
+        provider: createOpenAICompatibleProvider(settings.baseUrl, getProviderApiKey(settings)),
+        model,
+        scheduler: getScheduler(settings)
+      };
+    case 'templates':
+      return templates();
+    default:
+      logger.warn(`Unknown LLM provider "${settings.provider}" for ${task} - using templates only`);
+      return templates();
+  }
+}
+
+function getProvider(task: LLMTask): ResolvedProvider {
+  let resolved = providers.get(task);
+  if (!resolved) {
+    resolved = buildProvider(task);
+    if (providerWrapper) {
+      // A wrapped provider may answer even when the configured one is templates-only, so it always gets a scheduler
+      resolved = { ...resolved, provider: providerWrapper(resolved.provider), scheduler: resolved.scheduler ?? new LLMScheduler('recorded', null) };
+    }
+    providers.set(task, resolved);
+  }
+  return resolved;
+}
+
+/**
+ * Wrap every task's provider, e.g. to record or replay answers in an offline regression run
+ * null restores the configured providers
+ */
+export function setProviderWrapper(wrapper: ((provider: LLMProvider) => LLMProvider) | null): void {
+  providerWrapper = wrapper;
+  providers.clear();
+}
+
+// Resolve and log the provider for each task (never throws - a missing key means templates only)
+export function initLLMProviders(): void {
+  for (const task of ['classification', 'generation'] as LLMTask[]) {
+    const { provider, model } = getProvider(task);
+    logger.info(`LLM provider for ${task}`, { provider: provider.name, model });
+  }
+}
+
+// True when this task has no model behind it and callers should go straight to their fallbacks
+export function isTemplatesOnly(task: LLMTask): boolean {
+  return getProvider(task).provider.name === 'templates';
+}
+
+export function isTemplatesOnlyError(error: unknown): boolean {
+  return error instanceof TemplatesOnlyError;
+}
+
+// Rough token count (~4 chars per token) plus the completion allowance, which the provider also counts
+function estimateTokens(systemPrompt: string, userMessage: string): number {
+  return Math.ceil((systemPrompt.length + userMessage.length) / 4) + MAX_TOKENS;
+}
+
+export async function chat(systemPrompt: string, userMessage: string, task: LLMTask = 'classification', priority: LLMPriority = 'normal'): Promise<string> {
+  const { provider, model, scheduler } = getProvider(task);
+
+  // Nothing to schedule when there is no model
+  if (!scheduler) {
+    throw new TemplatesOnlyError();
+  }
+
+  try {
+    const result = await scheduler.run(priority, estimateTokens(systemPrompt, userMessage), () =>
+      provider.chat(systemPrompt, userMessage, { model, temperature: 0.3, maxTokens: MAX_TOKENS })
+    );
+    return result.content;
+  } catch (error) {
+    if (!(error instanceof RateLimitError) && !(error instanceof BudgetExhaustedError)) {
+      logger.error(`LLM API error (${provider.name})`, error);
+    }
+    throw error;
+  }
+}
+
+export async function chatWithRetry(
+  systemPrompt: string,
+  userMessage: string,
+  options: ChatRequestOptions = {}
+): Promise<string> {
+  const { task = 'classification', priority = 'normal', maxRetries = 3, cache = false } = options;
+
+  const cacheKey = cache ? getCacheKey(systemPrompt, userMessage) : null;
+  if (cacheKey) {
+    const cached = getCachedResponse(cacheKey);
+    if (cached !== null) return cached;
+  }
+
+  let lastError: unknown;
+
+  for (let i = 0; i < maxRetries; i++) {
+    try {
+      const response = await chat(systemPrompt, userMessage, task, priority);
+      if (cacheKey) {
+        const ttlMinutes = getConfig().llm?.cacheTtlMinutes ?? DEFAULT_CACHE_TTL_MINUTES;
+        setCachedResponse(cacheKey, response, ttlMinutes * 60 * 1000);
+      }
+      return response;
+    } catch (error) {
+      // Nothing to retry when there is no model or no budget left
+      if (isTemplatesOnlyError(error) || error instanceof BudgetExhaustedError) throw error;
+      lastError = error;
+
+      if (error instanceof RateLimitError) {
+        // Group classification has a rule fallback - don't hold a queue slot through the backoff
+        if (priority === 'low') throw error;
+        // The scheduler already holds the queue until the backoff ends
+        logger.warn(`LLM rate limited, retry ${i + 1}/${maxRetries} after backoff`);
+        continue;
+      }
+
+      logger.warn(`LLM API retry ${i + 1}/${maxRetries}`);
+      await sleep(1000 * 2 ** i);
+    }
+  }
+
+  throw lastError;
+}
+
+// Budget, queue and cache counters for the dashboard
+export function getLLMUsageStats(): LLMUsageStats {
+  const describe = (task: LLMTask) => {
+    const { provider, model } = getProvider(task);
+    return { provider: provider.name, model };
+  };
+
+  return {
+    tasks: { classification: describe('classification'), generation: describe('generation') },
+    providers: Array.from(schedulers.values()).map(s => s.getStats()),
+    cache: getResponseCacheStats()
+  };
+}
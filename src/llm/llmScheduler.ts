@@ -0,0 +1,227 @@
+import { logger } from '../utils/logger.js';
+import { getClock, TimerHandle } from '../utils/clock.js';
+import { LLMBudgetConfig } from '../utils/config.js';
+import { ChatResult, RateLimitError } from './providers.js';
+
+// high = seller replies (someone is waiting on us), normal = our own chat, low = group classification
+export type LLMPriority = 'high' | 'normal' | 'low';
+
+const PRIORITIES: LLMPriority[] = ['high', 'normal', 'low'];
+const WINDOW_MS = 60 * 1000;
+const MAX_BACKOFF_MS = 60 * 1000;
+
+// Thrown when the daily request budget is used up; callers fall back to templates / rules
+export class BudgetExhaustedError extends Error {
+  constructor(provider: string) {
+    super(`Daily LLM request budget for ${provider} exhausted`);
+    this.name = 'BudgetExhaustedError';
+  }
+}
+
+interface UsageEntry {
+  at: number;
+  tokens: number;
+}
+
+interface QueuedCall {
+  priority: LLMPriority;
+  estimatedTokens: number;
+  enqueuedAt: number;
+  start: (entry: UsageEntry) => void;
+  fail: (error: Error) => void;
+}
+
+export interface LLMSchedulerStats {
+  provider: string;
+  budget: LLMBudgetConfig | null;
+  requestsLastMinute: number;
+  tokensLastMinute: number;
+  requestsToday: number;
+  tokensToday: number;
+  queued: Record<LLMPriority, number>;
+  completed: Record<LLMPriority, number>;
+  avgQueueWaitMs: number;
+  rateLimitHits: number;
+  backoffRemainingMs: number;
+}
+
+// Provider quotas reset on the UTC day, not the mess timezone
+function today(): string {
+  return new Date(getClock().now()).toISOString().split('T')[0];
+}
+
+/**
+ * Runs LLM calls for one provider inside its request/token budget
+ * Calls wait in a priority queue; low-priority work can't eat the share reserved for seller replies,
+ * and a 429 pauses everything until the provider's Retry-After (or an exponential backoff) has passed
+ */
+export class LLMScheduler {
+  private queue: QueuedCall[] = [];
+  private window: UsageEntry[] = [];
+  private timer: TimerHandle | null = null;
+  private day = today();
+  private requestsToday = 0;
+  private tokensToday = 0;
+  private backoffUntil = 0;
+  private consecutiveRateLimits = 0;
+  private rateLimitHits = 0;
+  private totalQueueWaitMs = 0;
+  private completed: Record<LLMPriority, number> = { high: 0, normal: 0, low: 0 };
+
+  constructor(private name: string, private budget: LLMBudgetConfig | null) {}
+
+  async run(priority: LLMPriority, estimatedTokens: number, call: () => Promise<ChatResult>): Promise<ChatResult> {
+    const entry = await this.waitForSlot(priority, estimatedTokens);
+
+    try {
+      const result = await call();
+      // Swap the estimate for what the provider actually counted
+      const tokens = result.totalTokens ?? estimatedTokens;
+      this.tokensToday += tokens - entry.tokens;
+      entry.tokens = tokens;
+      this.consecutiveRateLimits = 0;
+      this.completed[priority]++;
+      return result;
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        this.onRateLimit(error.retryAfterMs);
+      }
+      throw error;
+    } finally {
+      this.pump();
+    }
+  }
+
+  getStats(): LLMSchedulerStats {
+    this.prune();
+    const queued: Record<LLMPriority, number> = { high: 0, normal: 0, low: 0 };
+    for (const call of this.queue) {
+      queued[call.priority]++;
+    }
+    const totalCompleted = this.completed.high + this.completed.normal + this.completed.low;
+
+    return {
+      provider: this.name,
+      budget: this.budget,
+      requestsLastMinute: this.window.length,
+      tokensLastMinute: this.window.reduce((sum, e) => sum + e.tokens, 0),
+      requestsToday: this.requestsToday,
+      tokensToday: this.tokensToday,
+      queued,
+      completed: { ...this.completed },
+      avgQueueWaitMs: totalCompleted > 0 ? Math.round(this.totalQueueWaitMs / totalCompleted) : 0,
+      rateLimitHits: this.rateLimitHits,
+      backoffRemainingMs: Math.max(this.backoffUntil - getClock().now(), 0)
+    };
+  }
+
+  private waitForSlot(priority: LLMPriority, estimatedTokens: number): Promise<UsageEntry> {
+    return new Promise((resolve, reject) => {
+      const call: QueuedCall = { priority, estimatedTokens, enqueuedAt: getClock().now(), start: resolve, fail: reject };
+
+      // Keep the queue ordered by priority, FIFO within the same priority
+      const rank = PRIORITIES.indexOf(priority);
+      const index = this.queue.findIndex(c => PRIORITIES.indexOf(c.priority) > rank);
+      if (index === -1) {
+        this.queue.push(call);
+      } else {
+        this.queue.splice(index, 0, call);
+      }
+
+      this.pump();
+    });
+  }
+
+  private pump(): void {
+    if (this.timer) {
+      getClock().clearTimer(this.timer);
+      this.timer = null;
+    }
+
+    // Start a new day's budget before checking it - nothing else may run once it's used up
+    this.rollOverDay();
+
+    while (this.queue.length > 0) {
+      const next = this.queue[0];
+
+      if (this.budget && this.requestsToday >= this.getDailyLimit(next.priority)) {
+        this.queue.shift();
+        next.fail(new BudgetExhaustedError(this.name));
+        continue;
+      }
+
+      const waitMs = this.getWaitMs(next);
+      if (waitMs > 0) {
+        this.timer = getClock().setTimeout(() => {
+          this.timer = null;
+          this.pump();
+        }, waitMs);
+        return;
+      }
+
+      this.queue.shift();
+      const entry: UsageEntry = { at: getClock().now(), tokens: next.estimatedTokens };
+      this.window.push(entry);
+      this.requestsToday++;
+      this.tokensToday += entry.tokens;
+      this.totalQueueWaitMs += entry.at - next.enqueuedAt;
+      next.start(entry);
+    }
+  }
+
+  // Seller replies may use the whole daily budget, everything else leaves the reserved share for them
+  private getDailyLimit(priority: LLMPriority): number {
+    if (!this.budget) return Infinity;
+    if (priority === 'high') return this.budget.requestsPerDay;
+    return Math.floor(this.budget.requestsPerDay * (1 - this.budget.reservedForReplies));
+  }
+
+  // How long the call at the head of the queue has to wait (0 = send now)
+  private getWaitMs(call: QueuedCall): number {
+    const now = getClock().now();
+    if (now < this.backoffUntil) {
+      return this.backoffUntil - now;
+    }
+    if (!this.budget) return 0;
+
+    this.prune();
+    if (this.window.length === 0) return 0;
+
+    // Everything but seller replies stays out of the reserved share
+    const share = call.priority === 'high' ? 1 : 1 - this.budget.reservedForReplies;
+    const requestLimit = Math.max(Math.floor(this.budget.requestsPerMinute * share), 1);
+    const tokenLimit = this.budget.tokensPerMinute * share;
+    const tokensUsed = this.window.reduce((sum, e) => sum + e.tokens, 0);
+
+    if (this.window.length >= requestLimit || tokensUsed + call.estimatedTokens > tokenLimit) {
+      return Math.max(this.window[0].at + WINDOW_MS - now, 1);
+    }
+    return 0;
+  }
+
+  private prune(): void {
+    const cutoff = getClock().now() - WINDOW_MS;
+    while (this.window.length > 0 && this.window[0].at <= cutoff) {
+      this.window.shift();
+    }
+
+    this.rollOverDay();
+  }
+
+  private rollOverDay(): void {
+    const date = today();
+    if (date !== this.day) {
+      this.day = date;
+      this.requestsToday = 0;
+      this.tokensToday = 0;
+    }
+  }
+
+  private onRateLimit(retryAfterMs: number | null): void {
+    this.rateLimitHits++;
+    this.consecutiveRateLimits++;
+    const delay = retryAfterMs ?? Math.min(2000 * 2 ** (this.consecutiveRateLimits - 1), MAX_BACKOFF_MS);
+    this.backoffUntil = Math.max(this.backoffUntil, getClock().now() + delay);
+    logger.warn(`LLM provider ${this.name} rate limited, backing off`, { delayMs: delay, hits: this.rateLimitHits });
+  }
+}
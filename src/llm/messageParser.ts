@@ -1,44 +1,81 @@
-import { chatWithRetry } from './groqClient.js';
+import { chatWithRetry, isTemplatesOnly } from './llmClient.js';
 import { CouponType } from '../conversation/types.js';
 import { logger } from '../utils/logger.js';
+import { MealSession, getMealSessions, isMealName, findMentionedMeals } from '../state/mealSessions.js';
+
+// Example lines for the sell-detection prompt; `meal` examples are kept only when that meal is configured,
+// `unsupported` ones only when no configured meal uses that word
+const SELL_DETECTION_EXAMPLES: Array<{ line: string; meal?: string; unsupported?: string }> = [
+  { meal: 'lunch', line: '- "lunch coupon selling 50rs" → isSelling: true, couponType: "lunch"' },
+  { meal: 'dinner', line: '- "anyone selling dinner coupon?" → isSelling: false (asking to buy)' },
+  { unsupported: 'breakfast', line: '- "selling breakfast coupon" → isSelling: false, couponType: null (BREAKFAST - NOT SUPPORTED)' },
+  { unsupported: 'snacks', line: '- "snacks coupon available 30rs" → isSelling: false, couponType: null (SNACKS - NOT SUPPORTED)' },
+  { meal: 'dinner', line: '- "extra dinner coupon available" → isSelling: true, couponType: "dinner"' },
+  { unsupported: 'morning mess', line: '- "selling morning mess coupon" → isSelling: false, couponType: null (BREAKFAST - NOT SUPPORTED)' },
+  { meal: 'lunch', line: '- "koi lunch coupon bech raha?" → isSelling: false (asking if anyone is selling = wants to buy)' },
+  { meal: 'dinner', line: '- "selling dinner coupon dm" → isSelling: true, couponType: "dinner"' },
+  { meal: 'lunch', line: '- "need lunch coupon" → isSelling: false (wants to buy)' },
+  { unsupported: 'nashta', line: '- "nashta coupon selling" → isSelling: false, couponType: null (BREAKFAST - NOT SUPPORTED)' },
+  { unsupported: 'evening snacks', line: '- "evening snacks coupon for sale" → isSelling: false, couponType: null (SNACKS - NOT SUPPORTED)' }
+];
+
+let sellDetectionPrompt: { sessions: MealSession[]; prompt: string } | null = null;
 
-const SELL_DETECTION_PROMPT = `You are a message classifier for a mess coupon exchange system.
-Analyze the WhatsApp message and determine if the SENDER THEMSELVES is OFFERING TO SELL a mess coupon (ONLY lunch or dinner).
+// Sell-detection prompt for the configured meal sessions (rebuilt only when the sessions change)
+function getSellDetectionPrompt(): string {
+  const sessions = getMealSessions();
+  if (sellDetectionPrompt?.sessions === sessions) {
+    return sellDetectionPrompt.prompt;
+  }
+
+  const names = sessions.map(s => s.name);
+  const mealList = names.join(' or ');
+  const mealListUpper = names.map(n => n.toUpperCase()).join(' AND ');
+  const configuredKeywords = sessions.flatMap(s => s.keywords);
+  const isUnsupported = (word: string) => !configuredKeywords.some(kw => word.includes(kw) || kw.includes(word));
+  const unsupported = ['breakfast', 'snacks', 'morning mess', 'evening snacks', 'nashta'].filter(isUnsupported);
+
+  const examples = SELL_DETECTION_EXAMPLES
+    .filter(e => (e.meal ? names.includes(e.meal) : isUnsupported(e.unsupported!)))
+    .map(e => e.line);
+  for (const session of sessions) {
+    if (session.name !== 'lunch' && session.name !== 'dinner') {
+      examples.push(`- "selling ${session.keywords[0]} coupon" → isSelling: true, couponType: "${session.name}"`);
+    }
+  }
+
+  const rejectLines = unsupported.length > 0
+    ? `- IGNORE and REJECT messages about any other meal (${unsupported.map(u => u.toUpperCase()).join(', ')}) → isSelling: false
+- If the message says ${unsupported.map(u => `"${u}"`).join(', ')} → isSelling: false, couponType: null
+- If the coupon type is unclear and could be another meal, set isSelling: false`
+    : '- If the coupon type is unclear, set isSelling: false';
+
+  const prompt = `You are a message classifier for a mess coupon exchange system.
+Analyze the WhatsApp message and determine if the SENDER THEMSELVES is OFFERING TO SELL a mess coupon (ONLY ${mealList}).
 
 CRITICAL DISTINCTION - READ CAREFULLY:
-- "selling lunch coupon" / "I have a coupon for sale" / "extra coupon available" = SELLING (isSelling: true)
+- "selling ${names[0]} coupon" / "I have a coupon for sale" / "extra coupon available" = SELLING (isSelling: true)
 - "is anyone selling?" / "anyone selling coupon?" / "who's selling?" / "koi bech raha hai?" = NOT SELLING (isSelling: false) - this person WANTS TO BUY
 - "need a coupon" / "looking for coupon" / "want to buy" = NOT SELLING (isSelling: false)
 
 The message is ONLY considered "selling" if the sender is OFFERING their own coupon for sale.
 If the sender is ASKING whether others are selling, they are a BUYER, not a seller.
 
-VERY IMPORTANT - ONLY LUNCH AND DINNER:
-- We ONLY care about LUNCH and DINNER coupons
-- IGNORE and REJECT messages about BREAKFAST coupons → isSelling: false
-- IGNORE and REJECT messages about SNACKS coupons → isSelling: false
-- IGNORE and REJECT messages about MORNING MESS / MORNING COUPON → isSelling: false
-- IGNORE and REJECT messages about EVENING SNACKS → isSelling: false
-- If the message says "breakfast", "snacks", "morning mess", "evening snacks", "nashta" → isSelling: false, couponType: null
-- If the coupon type is unclear and could be breakfast or snacks, set isSelling: false
+VERY IMPORTANT - ONLY ${mealListUpper}:
+- We ONLY care about ${mealListUpper} coupons
+${rejectLines}
 
 EXAMPLES:
-- "lunch coupon selling 50rs" → isSelling: true, couponType: "lunch"
-- "anyone selling dinner coupon?" → isSelling: false (asking to buy)
-- "selling breakfast coupon" → isSelling: false, couponType: null (BREAKFAST - NOT SUPPORTED)
-- "snacks coupon available 30rs" → isSelling: false, couponType: null (SNACKS - NOT SUPPORTED)
-- "extra dinner coupon available" → isSelling: true, couponType: "dinner"
-- "selling morning mess coupon" → isSelling: false, couponType: null (BREAKFAST - NOT SUPPORTED)
-- "koi lunch coupon bech raha?" → isSelling: false (asking if anyone is selling = wants to buy)
-- "selling dinner coupon dm" → isSelling: true, couponType: "dinner"
-- "need lunch coupon" → isSelling: false (wants to buy)
-- "nashta coupon selling" → isSelling: false, couponType: null (BREAKFAST - NOT SUPPORTED)
-- "evening snacks coupon for sale" → isSelling: false, couponType: null (SNACKS - NOT SUPPORTED)
+${examples.join('\n')}
 
 Respond ONLY with a JSON object in this exact format:
-{"isSelling": true/false, "couponType": "lunch"/"dinner"/null, "confidence": 0.0-1.0}
+{"isSelling": true/false, "couponType": ${names.map(n => `"${n}"`).join('/')}/null, "confidence": 0.0-1.0}
+
+If the person is asking if others are selling (buyer), or unclear, or selling a coupon for any other meal, respond: {"isSelling": false, "couponType": null, "confidence": 0.0}`;
 
-If the person is asking if others are selling (buyer), or unclear, or selling BREAKFAST/SNACKS, respond: {"isSelling": false, "couponType": null, "confidence": 0.0}`;
+  sellDetectionPrompt = { sessions, prompt };
+  return prompt;
+}
 
 const CANCELLATION_DETECTION_PROMPT = `You are detecting if a buyer is cancelling a coupon deal.
 Analyze the message and determine if they are saying they no longer want to buy.
@@ -96,10 +133,21 @@ Context: {context}
 
 Write ONLY the clarifying question, nothing else:`;
 
+// Which stage decided a sell detection: the deterministic rules, the LLM, or the fallback after an LLM error
+export type SellDetectionStage = 'rules' | 'llm' | 'error';
+
 export interface SellDetectionResult {
   isSelling: boolean;
   couponType: CouponType | null;
   confidence: number;
+  stage?: SellDetectionStage;
+  latencyMs?: number;
+}
+
+export interface SellDetectionStats {
+  total: number;
+  byStage: Record<SellDetectionStage, { count: number; totalLatencyMs: number }>;
+  llmCallsSaved: number;  // Messages decided by rules alone
 }
 
 export interface ResponseAnalysis {
@@ -156,62 +204,158 @@ const AGREEMENT_PATTERNS = [
   'haan', 'ha', 'theek', 'thik', 'available', 'hai', 'yes available'
 ];
 
-// Keywords that indicate breakfast or snacks coupons (NOT supported)
+// Keywords that indicate breakfast or snacks coupons (NOT supported unless configured as a meal session)
 const BREAKFAST_SNACKS_KEYWORDS = [
   'breakfast', 'snacks', 'snack', 'nashta', 'morning mess',
   'morning coupon', 'evening snacks', 'evening snack', 'bf coupon',
   'bf mess', 'bfast', 'b fast', 'subah', 'snaks'
 ];
 
-export async function detectSellMessage(message: string): Promise<SellDetectionResult> {
+// Rule patterns for the sell-detection fast path
+const SELL_VERB_REGEX = /\b(selling|sell|wts|for sale|on sale|available|availble|avl|avbl|extra|spare|bech(na|ne|raha|rha|rahi|rhi|ta|ti|unga|ungi)?|dm)\b/;
+const BUYER_QUESTION_REGEX = /\b(any ?one|any1|anybody|koi|someone|somebody|who|who's|whos)\b.*\b(selling|sell|sells|bech|bech raha|bech rha|have|has)\b/;
+const HAVE_COUPON_REGEX = /\b(have|got)\b.*\b(coupons?|cpn)\b/;
+const BUYER_INTENT_REGEX = /\b(need|needed|want|wanted|looking for|require|required|buy|buying|chahiye|lena|lene)\b/;
+const COUPON_CONTEXT_REGEX = /\b(coupons?|cpn|mess|lunch|dinner|breakfast|snacks?|nashta|bf)\b/;
+
+// Deterministic classifier - returns a result only when the text is clear, null when the LLM should decide
+export function classifySellMessageByRules(message: string): SellDetectionResult | null {
   const lowerMessage = message.toLowerCase();
+  const meals = findMentionedMeals(lowerMessage);
+  const reject: SellDetectionResult = { isSelling: false, couponType: null, confidence: 0, stage: 'rules' };
 
-  // Pre-filter: Reject breakfast and snacks messages before LLM call
-  const isBreakfastOrSnacks = BREAKFAST_SNACKS_KEYWORDS.some(kw => lowerMessage.includes(kw));
-  if (isBreakfastOrSnacks) {
-    // Only reject if it doesn't ALSO mention lunch or dinner
-    const mentionsLunch = lowerMessage.includes('lunch');
-    const mentionsDinner = lowerMessage.includes('dinner');
-    if (!mentionsLunch && !mentionsDinner) {
-      logger.info('Rejected breakfast/snacks message (pre-filter)', { message: message.substring(0, 50) });
-      return { isSelling: false, couponType: null, confidence: 0 };
-    }
+  // Group chatter that doesn't mention coupons or meals at all
+  if (meals.length === 0 && !COUPON_CONTEXT_REGEX.test(lowerMessage) && !BREAKFAST_SNACKS_KEYWORDS.some(kw => lowerMessage.includes(kw))) {
+    return reject;
+  }
+
+  // Breakfast and snacks coupons are not supported (unless a configured meal is also mentioned)
+  if (meals.length === 0 && BREAKFAST_SNACKS_KEYWORDS.some(kw => lowerMessage.includes(kw))) {
+    return reject;
+  }
+
+  // Buyers asking if anyone is selling
+  if (BUYER_QUESTION_REGEX.test(lowerMessage)) {
+    return reject;
+  }
+
+  // Buyers saying they need one - unless it also reads like an offer ("have a coupon, anyone want it?"), then the LLM decides
+  if (BUYER_INTENT_REGEX.test(lowerMessage) && !/\bselling\b/.test(lowerMessage)) {
+    return SELL_VERB_REGEX.test(lowerMessage) || HAVE_COUPON_REGEX.test(lowerMessage) ? null : reject;
+  }
+
+  // Clear offer: a sell verb, exactly one meal, and not phrased as a question
+  if (SELL_VERB_REGEX.test(lowerMessage) && meals.length === 1 && !lowerMessage.includes('?')) {
+    return { isSelling: true, couponType: meals[0], confidence: 0.95, stage: 'rules' };
+  }
+
+  return null;
+}
+
+/**
+ * Best-effort verdict for messages the rules left undecided, used when no LLM is available
+ * Leans towards rejecting: only a sell verb with exactly one meal and no buyer intent counts as an offer
+ */
+function classifyAmbiguousSellMessage(message: string): SellDetectionResult {
+  const lowerMessage = message.toLowerCase();
+  const meals = findMentionedMeals(lowerMessage);
+  const buyerIntent = BUYER_INTENT_REGEX.test(lowerMessage) && !/\bselling\b/.test(lowerMessage);
+
+  if (SELL_VERB_REGEX.test(lowerMessage) && meals.length === 1 && !buyerIntent) {
+    return { isSelling: true, couponType: meals[0], confidence: 0.7, stage: 'rules' };
   }
+  return { isSelling: false, couponType: null, confidence: 0, stage: 'rules' };
+}
+
+const sellDetectionStats: SellDetectionStats = {
+  total: 0,
+  byStage: {
+    rules: { count: 0, totalLatencyMs: 0 },
+    llm: { count: 0, totalLatencyMs: 0 },
+    error: { count: 0, totalLatencyMs: 0 }
+  },
+  llmCallsSaved: 0
+};
+
+// Counters for how often each stage decides and how long it takes
+export function getSellDetectionStats(): SellDetectionStats {
+  return JSON.parse(JSON.stringify(sellDetectionStats));
+}
+
+function recordSellDetection(result: SellDetectionResult, startedAt: number): SellDetectionResult {
+  const stage = result.stage ?? 'llm';
+  const latencyMs = Date.now() - startedAt;
+  sellDetectionStats.total++;
+  sellDetectionStats.byStage[stage].count++;
+  sellDetectionStats.byStage[stage].totalLatencyMs += latencyMs;
+  if (stage === 'rules') {
+    sellDetectionStats.llmCallsSaved++;
+  }
+  return { ...result, stage, latencyMs };
+}
+
+export async function detectSellMessage(message: string): Promise<SellDetectionResult> {
+  const startedAt = Date.now();
+
+  // Fast path: clear-cut messages never reach the LLM
+  const ruleResult = classifySellMessageByRules(message);
+  if (ruleResult) {
+    logger.debug('Sell detection decided by rules', { message: message.substring(0, 50), result: ruleResult });
+    return recordSellDetection(ruleResult, startedAt);
+  }
+
+  if (isTemplatesOnly('classification')) {
+    return recordSellDetection(classifyAmbiguousSellMessage(message), startedAt);
+  }
+
+  return recordSellDetection(await detectSellMessageWithLLM(message), startedAt);
+}
+
+async function detectSellMessageWithLLM(message: string): Promise<SellDetectionResult> {
+  const lowerMessage = message.toLowerCase();
+  const isBreakfastOrSnacks = BREAKFAST_SNACKS_KEYWORDS.some(kw => lowerMessage.includes(kw));
+  const mentionedMeals = findMentionedMeals(lowerMessage);
 
   try {
-    const response = await chatWithRetry(SELL_DETECTION_PROMPT, message);
+    const response = await chatWithRetry(getSellDetectionPrompt(), message, { priority: 'low', cache: true });
 
     const jsonMatch = response.match(/\{[\s\S]*\}/);
     if (!jsonMatch) {
       logger.warn('Could not parse sell detection response', { response });
-      return { isSelling: false, couponType: null, confidence: 0 };
+      return { isSelling: false, couponType: null, confidence: 0, stage: 'error' };
     }
 
-    const result = JSON.parse(jsonMatch[0]) as SellDetectionResult;
+    const parsed = JSON.parse(jsonMatch[0]) as SellDetectionResult;
+    const result: SellDetectionResult = {
+      isSelling: parsed.isSelling,
+      couponType: typeof parsed.couponType === 'string' ? parsed.couponType.toLowerCase() : null,
+      confidence: parsed.confidence,
+      stage: 'llm'
+    };
 
-    // Post-filter safety: If LLM somehow classified breakfast/snacks as lunch/dinner, reject it
-    if (result.isSelling && isBreakfastOrSnacks && result.couponType) {
+    // Post-filter safety: If LLM somehow classified breakfast/snacks as a meal the message doesn't name, reject it
+    if (result.isSelling && isBreakfastOrSnacks && result.couponType && !mentionedMeals.includes(result.couponType)) {
       logger.warn('LLM classified breakfast/snacks message as sell - overriding to reject', {
         message: message.substring(0, 50),
         llmResult: result
       });
-      return { isSelling: false, couponType: null, confidence: 0 };
+      return { isSelling: false, couponType: null, confidence: 0, stage: 'llm' };
     }
 
-    // Also reject if couponType is neither lunch nor dinner (LLM might return something else)
-    if (result.isSelling && result.couponType && result.couponType !== 'lunch' && result.couponType !== 'dinner') {
+    // Also reject if couponType isn't a configured meal session (LLM might return something else)
+    if (result.isSelling && result.couponType && !isMealName(result.couponType)) {
       logger.warn('LLM returned unsupported coupon type - rejecting', {
         couponType: result.couponType,
         message: message.substring(0, 50)
       });
-      return { isSelling: false, couponType: null, confidence: 0 };
+      return { isSelling: false, couponType: null, confidence: 0, stage: 'llm' };
     }
 
     logger.debug('Sell detection result', { message: message.substring(0, 50), result });
     return result;
   } catch (error) {
-    logger.error('Failed to detect sell message', error);
-    return { isSelling: false, couponType: null, confidence: 0 };
+    logger.error('Failed to detect sell message, falling back to rules', error);
+    return { ...classifyAmbiguousSellMessage(message), stage: 'error' };
   }
 }
 
@@ -229,8 +373,13 @@ export async function detectUserCancellation(message: string): Promise<boolean>
     return true;
   }
 
+  // Keywords are all we have without a model
+  if (isTemplatesOnly('classification')) {
+    return false;
+  }
+
   try {
-    const response = await chatWithRetry(CANCELLATION_DETECTION_PROMPT, message);
+    const response = await chatWithRetry(CANCELLATION_DETECTION_PROMPT, message, { cache: true });
     const jsonMatch = response.match(/\{[\s\S]*\}/);
     if (jsonMatch) {
       const result = JSON.parse(jsonMatch[0]);
@@ -334,9 +483,14 @@ export async function analyzeSellerResponse(message: string): Promise<ResponseAn
     };
   }
 
+  // Without a model, fall back to the price / not-available patterns
+  if (isTemplatesOnly('classification')) {
+    return analyzeSellerResponseByRules(message);
+  }
+
   // For complex messages, use LLM
   try {
-    const response = await chatWithRetry(RESPONSE_ANALYSIS_PROMPT, message);
+    const response = await chatWithRetry(RESPONSE_ANALYSIS_PROMPT, message, { priority: 'high', cache: true });
 
     const jsonMatch = response.match(/\{[\s\S]*\}/);
     if (!jsonMatch) {
@@ -405,18 +559,50 @@ export async function analyzeSellerResponse(message: string): Promise<ResponseAn
       clarificationQuestion: null
     };
   } catch (error) {
-    logger.error('Failed to analyze seller response', error);
-    return createClarificationResponse(message, 'error analyzing');
+    logger.error('Failed to analyze seller response, falling back to rules', error);
+    return analyzeSellerResponseByRules(message);
   }
 }
 
+/**
+ * Rule-based analysis for messages the pre-checks couldn't settle (no LLM available)
+ * Picks up a quoted price; anything else gets a clarification question
+ */
+function analyzeSellerResponseByRules(message: string): ResponseAnalysis {
+  const priceMatch = message.match(/(?:rs\.?|₹|inr)?\s*\b(\d{2,3})\b\s*(?:rs|rupees|\/-)?/i);
+  const price = priceMatch ? parseInt(priceMatch[1], 10) : null;
+
+  if (price !== null && price >= 20 && price <= 150) {
+    logger.info('Detected price via rules', { price });
+    return {
+      available: true,
+      price,
+      upiId: null,
+      phoneNumber: null,
+      agreesToSale: true,
+      hasCoupon: false,
+      needsMoreInfo: true,
+      suggestedResponse: '',
+      useSameNumber: false,
+      needsClarification: false,
+      clarificationQuestion: null
+    };
+  }
+
+  return createClarificationResponse(message, 'no LLM available');
+}
+
 async function generateClarificationQuestion(sellerMessage: string, context: string): Promise<string> {
+  if (isTemplatesOnly('generation')) {
+    return "Sorry, didn't get that. Is the coupon still available?";
+  }
+
   try {
     const prompt = CLARIFICATION_PROMPT
       .replace('{message}', sellerMessage)
       .replace('{context}', context);
 
-    const response = await chatWithRetry(prompt, 'Generate clarification question', 2);
+    const response = await chatWithRetry(prompt, 'Generate clarification question', { task: 'generation', priority: 'high', maxRetries: 2 });
     const cleaned = response.replace(/^["']|["']$/g, '').trim();
 
     if (cleaned.length > 5 && cleaned.length < 100) {
@@ -0,0 +1,151 @@
+import Groq from 'groq-sdk';
+import { LLMProviderName, LLMProviderConfig } from '../utils/config.js';
+
+export interface ChatOptions {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface ChatResult {
+  content: string;
+  totalTokens: number | null; // As reported by the provider, null if it doesn't say
+}
+
+export interface LLMProvider {
+  name: LLMProviderName | 'recorded'; // 'recorded' = answers replayed from a regression recording
+  chat(systemPrompt: string, userMessage: string, options: ChatOptions): Promise<ChatResult>;
+}
+
+// Thrown by the templates-only provider; callers fall back to canned messages / rule-based parsing
+export class TemplatesOnlyError extends Error {
+  constructor() {
+    super('LLM disabled: templates-only provider selected');
+    this.name = 'TemplatesOnlyError';
+  }
+}
+
+// Provider answered 429 - the scheduler backs off before trying again
+export class RateLimitError extends Error {
+  constructor(public readonly retryAfterMs: number | null) {
+    super('LLM provider rate limit hit (429)');
+    this.name = 'RateLimitError';
+  }
+}
+
+// Retry-After is either seconds or an HTTP date
+function parseRetryAfter(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(date - Date.now(), 0);
+}
+
+export const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  groq: 'llama-3.1-8b-instant',
+  openai: 'llama3.1',
+  templates: 'none'
+};
+
+const DEFAULT_API_KEY_ENV: Record<LLMProviderName, string | null> = {
+  groq: 'GROQ_API_KEY',
+  openai: 'OPENAI_API_KEY',
+  templates: null
+};
+
+// Ollama's OpenAI-compatible endpoint; llama.cpp's server uses http://localhost:8080/v1
+const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+
+// Read the API key for a provider config (null when not set or not needed)
+export function getProviderApiKey(settings: LLMProviderConfig): string | null {
+  const envName = settings.apiKeyEnv ?? DEFAULT_API_KEY_ENV[settings.provider];
+  return envName ? process.env[envName] || null : null;
+}
+
+export function createGroqProvider(apiKey: string): LLMProvider {
+  // SDK retries are off - 429s and backoff are handled by the scheduler in llmClient
+  const client = new Groq({ apiKey, maxRetries: 0 });
+
+  return {
+    name: 'groq',
+    async chat(systemPrompt, userMessage, options) {
+      try {
+        const completion = await client.chat.completions.create({
+          model: options.model,
+          messages: [
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: userMessage }
+          ],
+          temperature: options.temperature,
+          max_tokens: options.maxTokens
+        });
+
+        return {
+          content: (completion.choices[0]?.message?.content || '').trim(),
+          totalTokens: completion.usage?.total_tokens ?? null
+        };
+      } catch (error) {
+        if (error instanceof Groq.APIError && error.status === 429) {
+          throw new RateLimitError(parseRetryAfter(error.headers?.['retry-after']));
+        }
+        throw error;
+      }
+    }
+  };
+}
+
+/**
+ * Any server exposing POST /chat/completions in the OpenAI format
+ * (OpenAI itself, a local llama.cpp server, Ollama, LM Studio, ...)
+ */
+export function createOpenAICompatibleProvider(baseUrl: string = DEFAULT_OPENAI_BASE_URL, apiKey: string | null = null): LLMProvider {
+  const url = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    name: 'openai',
+    async chat(systemPrompt, userMessage, options) {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (apiKey) {
+        headers['Authorization'] = `Bearer ${apiKey}`;
+      }
+
+      const res = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: options.model,
+          messages: [
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: userMessage }
+          ],
+          temperature: options.temperature,
+          max_tokens: options.maxTokens
+        })
+      });
+
+      if (res.status === 429) {
+        throw new RateLimitError(parseRetryAfter(res.headers.get('retry-after')));
+      }
+      if (!res.ok) {
+        throw new Error(`LLM endpoint ${url} returned ${res.status}: ${(await res.text()).substring(0, 200)}`);
+      }
+
+      const data = await res.json() as { choices?: { message?: { content?: string } }[]; usage?: { total_tokens?: number } };
+      return {
+        content: (data.choices?.[0]?.message?.content || '').trim(),
+        totalTokens: data.usage?.total_tokens ?? null
+      };
+    }
+  };
+}
+
+// No model at all - every call fails fast so callers use their canned fallbacks
+export function createTemplatesProvider(): LLMProvider {
+  return {
+    name: 'templates',
+    async chat() {
+      throw new TemplatesOnlyError();
+    }
+  };
+}
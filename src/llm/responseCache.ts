@@ -0,0 +1,56 @@
+import { createHash } from 'crypto';
+import { getClock } from '../utils/clock.js';
+
+const MAX_ENTRIES = 500;
+
+interface CacheEntry {
+  response: string;
+  expiresAt: number;
+}
+
+export interface ResponseCacheStats {
+  entries: number;
+  hits: number;
+  misses: number;
+}
+
+// Map keeps insertion order, so the first key is always the oldest entry
+const cache: Map<string, CacheEntry> = new Map();
+let hits = 0;
+let misses = 0;
+
+// Lowercase and collapse whitespace so trivially different copies of a message share an entry
+export function normalizeMessage(message: string): string {
+  return message.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+export function getCacheKey(systemPrompt: string, userMessage: string): string {
+  const promptHash = createHash('sha1').update(systemPrompt).digest('hex').substring(0, 12);
+  return `${promptHash}:${normalizeMessage(userMessage)}`;
+}
+
+export function getCachedResponse(key: string): string | null {
+  const entry = cache.get(key);
+  if (!entry || entry.expiresAt <= getClock().now()) {
+    if (entry) cache.delete(key);
+    misses++;
+    return null;
+  }
+  hits++;
+  return entry.response;
+}
+
+export function setCachedResponse(key: string, response: string, ttlMs: number): void {
+  cache.delete(key);
+  cache.set(key, { response, expiresAt: getClock().now() + ttlMs });
+
+  while (cache.size > MAX_ENTRIES) {
+    const oldest = cache.keys().next().value;
+    if (oldest === undefined) break;
+    cache.delete(oldest);
+  }
+}
+
+export function getResponseCacheStats(): ResponseCacheStats {
+  return { entries: cache.size, hits, misses };
+}
@@ -1,12 +1,13 @@
 import notifier from 'node-notifier';
 import { logger } from '../utils/logger.js';
 import { getConfig } from '../utils/config.js';
+import { CouponType } from '../conversation/types.js';
 
 export interface PaymentRequest {
   sellerName: string;
   upiId: string;
   amount: number;
-  couponType: 'lunch' | 'dinner';
+  couponType: CouponType;
   conversationId: string;
 }
 
@@ -43,7 +44,7 @@ export function sendPaymentNotification(request: PaymentRequest): void {
   console.log('='.repeat(60) + '\n');
 }
 
-export function sendSuccessNotification(couponType: 'lunch' | 'dinner'): void {
+export function sendSuccessNotification(couponType: CouponType): void {
   const config = getConfig();
 
   try {
@@ -0,0 +1,75 @@
+import { CouponType } from '../conversation/types.js';
+import { getConfig, PriceLimit, NegotiationConfig } from '../utils/config.js';
+import { getLocalDate, getLocalTime } from '../utils/time.js';
+import { now } from '../utils/clock.js';
+import { getMealSession } from '../state/mealSessions.js';
+import { getPlannedSession } from '../state/weeklyPlan.js';
+
+const DEFAULT_NEGOTIATION: NegotiationConfig = {
+  enabled: false,
+  maxRounds: 2,
+  step: 5
+};
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+export interface PriceLimits {
+  maxPrice: number;    // Hard ceiling - never pay more than this
+  targetPrice: number; // What we'd like to pay (defaults to the ceiling)
+}
+
+/**
+ * Resolve the price limits for a coupon type on a given day
+ * Order of precedence: mess max price from the ranked preference (else today's "max" cap) > weekly plan > day-of-week override >
+ * per-meal policy > meal session cap > legacy maxPrice
+ */
+export function getPriceLimits(couponType: CouponType, date: Date = now(), messMaxPrice?: number): PriceLimits {
+  const config = getConfig();
+  const policy = config.pricePolicy;
+  const session = getMealSession(couponType);
+
+  const mealPolicy = couponType !== 'dayOverrides' ? policy?.[couponType] as PriceLimit | undefined : undefined;
+  const base: PriceLimit = mealPolicy ?? {
+    maxPrice: session?.maxPrice ?? config.maxPrice,
+    targetPrice: session?.targetPrice
+  };
+  const weekday = WEEKDAYS[getLocalTime(date).weekday];
+  const override: Partial<PriceLimit> = policy?.dayOverrides?.[weekday]?.[couponType] ?? {};
+
+  const planned = getPlannedSession(couponType, getLocalDate(date));
+
+  const maxPrice = messMaxPrice ?? planned.maxPrice ?? override.maxPrice ?? base.maxPrice;
+  const targetPrice = Math.min(override.targetPrice ?? base.targetPrice ?? maxPrice, maxPrice);
+
+  return { maxPrice, targetPrice };
+}
+
+// Highest price we accept for this coupon type today
+export function getMaxPrice(couponType: CouponType, date: Date = now(), messMaxPrice?: number): number {
+  return getPriceLimits(couponType, date, messMaxPrice).maxPrice;
+}
+
+// Price we open with / record when the seller doesn't quote one
+export function getTargetPrice(couponType: CouponType, date: Date = now(), messMaxPrice?: number): number {
+  return getPriceLimits(couponType, date, messMaxPrice).targetPrice;
+}
+
+// Check whether a quoted price is acceptable under the policy
+export function isPriceAcceptable(couponType: CouponType, price: number, date: Date = now(), messMaxPrice?: number): boolean {
+  return price <= getMaxPrice(couponType, date, messMaxPrice);
+}
+
+// Negotiation settings (opt-in, disabled unless config enables it)
+export function getNegotiationSettings(): NegotiationConfig {
+  return { ...DEFAULT_NEGOTIATION, ...getConfig().negotiation };
+}
+
+/**
+ * Our counter-offer for a given negotiation round (1-based)
+ * Starts at the target price and moves up by `step` each round, never above the ceiling
+ */
+export function getCounterOffer(couponType: CouponType, round: number, date: Date = now(), messMaxPrice?: number): number {
+  const { maxPrice, targetPrice } = getPriceLimits(couponType, date, messMaxPrice);
+  const { step } = getNegotiationSettings();
+  return Math.min(targetPrice + step * Math.max(round - 1, 0), maxPrice);
+}
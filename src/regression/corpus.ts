@@ -0,0 +1,78 @@
+import { readFileSync, readdirSync, statSync } from 'fs';
+import { join } from 'path';
+
+// Which parser function a case exercises
+export type RegressionTarget = 'sell' | 'response' | 'cancellation' | 'mess';
+
+export const REGRESSION_TARGETS: RegressionTarget[] = ['sell', 'response', 'cancellation', 'mess'];
+
+/**
+ * One labelled message. `expected` is a partial result of the target's function:
+ * - sell: SellDetectionResult ({ isSelling, couponType })
+ * - response: any ResponseAnalysis fields; "*" for upiId / phoneNumber / price means "any value"
+ * - cancellation: { isCancelling }
+ * - mess: { mess } - canonical mess name, or null when no mess should be found
+ */
+export interface CorpusCase {
+  target: RegressionTarget;
+  message: string;
+  expected: Record<string, unknown>;
+  note?: string;
+  source: string; // "file.jsonl:12", for the failure report
+}
+
+// Thrown for a malformed corpus line - a bad label would silently skew every number
+export class CorpusError extends Error {
+  constructor(source: string, problem: string) {
+    super(`${source}: ${problem}`);
+    this.name = 'CorpusError';
+  }
+}
+
+function parseLine(line: string, source: string): CorpusCase {
+  let value: any;
+  try {
+    value = JSON.parse(line);
+  } catch {
+    throw new CorpusError(source, 'not valid JSON');
+  }
+
+  if (!REGRESSION_TARGETS.includes(value?.target)) {
+    throw new CorpusError(source, `target must be one of ${REGRESSION_TARGETS.join(', ')}`);
+  }
+  if (typeof value.message !== 'string' || !value.message.trim()) {
+    throw new CorpusError(source, 'message is required');
+  }
+  if (!value.expected || typeof value.expected !== 'object' || Object.keys(value.expected).length === 0) {
+    throw new CorpusError(source, 'expected must be an object with at least one field');
+  }
+
+  return {
+    target: value.target,
+    message: value.message,
+    expected: value.expected,
+    note: typeof value.note === 'string' ? value.note : undefined,
+    source
+  };
+}
+
+/**
+ * Load cases from .jsonl files; a directory means every .jsonl file in it
+ * Blank lines and lines starting with # are skipped
+ */
+export function loadCorpus(paths: string[]): CorpusCase[] {
+  const files = paths.flatMap(path => statSync(path).isDirectory()
+    ? readdirSync(path).filter(f => f.endsWith('.jsonl')).sort().map(f => join(path, f))
+    : [path]);
+
+  const cases: CorpusCase[] = [];
+  for (const file of files) {
+    const lines = readFileSync(file, 'utf-8').split('\n');
+    lines.forEach((line, index) => {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith('#')) return;
+      cases.push(parseLine(trimmed, `${file}:${index + 1}`));
+    });
+  }
+  return cases;
+}
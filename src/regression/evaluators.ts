@@ -0,0 +1,105 @@
+import { detectSellMessage, analyzeSellerResponse, detectSellerCancellation, ResponseAnalysis } from '../llm/messageParser.js';
+import { fuzzyMatchMessName } from '../utils/fuzzyMatch.js';
+import { getBuiltInMesses } from '../state/messRegistry.js';
+import { RegressionTarget } from './corpus.js';
+
+// One scored dimension of a case: the class the label and the prediction fall into, and whether they agree exactly
+export interface ScoredLabel {
+  dimension: string;
+  expectedClass: string;
+  predictedClass: string;
+  correct: boolean;
+}
+
+export interface Evaluation {
+  labels: ScoredLabel[];
+  detail: string; // What the function returned, for the failure report
+}
+
+export interface Evaluator {
+  title: string;
+  evaluate(message: string, expected: Record<string, unknown>): Promise<Evaluation>;
+}
+
+// Fields whose exact value matters but whose class is just "set" / "null" (one class per UPI ID would be useless)
+const VALUE_FIELDS: Array<keyof ResponseAnalysis> = ['price', 'upiId', 'phoneNumber', 'suggestedResponse', 'clarificationQuestion'];
+const ANY_VALUE = '*';
+
+function sellClass(result: { isSelling?: unknown; couponType?: unknown }): string {
+  return result.isSelling ? String(result.couponType ?? 'unknown') : 'not_selling';
+}
+
+function responseClass(field: keyof ResponseAnalysis, value: unknown): string {
+  if (VALUE_FIELDS.includes(field)) {
+    return value === null || value === undefined || value === '' ? 'null' : 'set';
+  }
+  return String(value);
+}
+
+const sellEvaluator: Evaluator = {
+  title: 'Sell detection (detectSellMessage)',
+  async evaluate(message, expected) {
+    const result = await detectSellMessage(message);
+    const expectedClass = sellClass(expected);
+    const predictedClass = sellClass(result);
+    return {
+      labels: [{ dimension: 'class', expectedClass, predictedClass, correct: expectedClass === predictedClass }],
+      detail: `${predictedClass} (stage ${result.stage}, confidence ${result.confidence})`
+    };
+  }
+};
+
+// Only the fields a case labels are scored, each as its own dimension
+const responseEvaluator: Evaluator = {
+  title: 'Seller responses (analyzeSellerResponse)',
+  async evaluate(message, expected) {
+    const result = await analyzeSellerResponse(message);
+    const labels = Object.entries(expected).map(([key, value]) => {
+      const field = key as keyof ResponseAnalysis;
+      const actual = result[field];
+      const correct = value === ANY_VALUE ? actual !== null && actual !== '' : actual === value;
+      return {
+        dimension: field,
+        expectedClass: value === ANY_VALUE ? 'set' : responseClass(field, value),
+        predictedClass: responseClass(field, actual),
+        correct
+      };
+    });
+    const detail = Object.keys(expected).map(key => `${key}=${JSON.stringify(result[key as keyof ResponseAnalysis])}`).join(', ');
+    return { labels, detail };
+  }
+};
+
+const cancellationEvaluator: Evaluator = {
+  title: 'Seller cancellation (detectSellerCancellation)',
+  async evaluate(message, expected) {
+    const result = detectSellerCancellation(message);
+    const expectedClass = String(expected.isCancelling);
+    const predictedClass = String(result.isCancelling);
+    return {
+      labels: [{ dimension: 'isCancelling', expectedClass, predictedClass, correct: expectedClass === predictedClass }],
+      detail: `${predictedClass} (confidence ${result.confidence})`
+    };
+  }
+};
+
+// Matched against the built-in messes so results don't depend on what's in the local database
+const messEvaluator: Evaluator = {
+  title: 'Mess names (fuzzyMatchMessName)',
+  async evaluate(message, expected) {
+    const result = fuzzyMatchMessName(message, getBuiltInMesses());
+    const expectedClass = expected.mess === null ? 'none' : String(expected.mess);
+    const predictedClass = result.correctedName ?? 'none';
+    return {
+      labels: [{ dimension: 'mess', expectedClass, predictedClass, correct: expectedClass === predictedClass }],
+      detail: result.matched ? `${predictedClass} (from "${result.originalWord}", distance ${result.distance})` : 'none'
+    };
+  }
+};
+
+export const EVALUATORS: Record<RegressionTarget, Evaluator> = {
+  sell: sellEvaluator,
+  response: responseEvaluator,
+  cancellation: cancellationEvaluator,
+  mess: messEvaluator
+};
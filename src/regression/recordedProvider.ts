@@ -0,0 +1,85 @@
+import { existsSync, readFileSync, appendFileSync } from 'fs';
+import { LLMProvider, TemplatesOnlyError } from '../llm/providers.js';
+import { getCacheKey } from '../llm/responseCache.js';
+
+// replay = answer only from the recording; record = ask the configured provider for anything not recorded yet
+export type RecordingMode = 'replay' | 'record';
+
+export interface RecordingStats {
+  replayed: number;
+  recorded: number;
+  missing: number; // Replay mode: prompts with no recorded answer (callers fell back to their rules)
+}
+
+interface RecordedAnswer {
+  key: string;
+  message: string;
+  response: string;
+  model: string;
+  recordedAt: string;
+}
+
+// A missing answer behaves like a templates-only provider, so callers take their rule-based fallback without retrying
+export class RecordingMissingError extends TemplatesOnlyError {
+  constructor() {
+    super();
+    this.message = 'No recorded LLM answer for this prompt';
+    this.name = 'RecordingMissingError';
+  }
+}
+
+/**
+ * LLM answers stored as JSONL, keyed like the response cache (prompt hash + normalized message)
+ * Editing a prompt changes its hash, so old answers stop matching and show up as missing until re-recorded
+ */
+export class LLMRecording {
+  private answers: Map<string, RecordedAnswer> = new Map();
+  private stats: RecordingStats = { replayed: 0, recorded: 0, missing: 0 };
+
+  constructor(private path: string, private mode: RecordingMode) {
+    if (existsSync(path)) {
+      for (const line of readFileSync(path, 'utf-8').split('\n')) {
+        if (!line.trim()) continue;
+        const answer = JSON.parse(line) as RecordedAnswer;
+        this.answers.set(answer.key, answer);
+      }
+    }
+  }
+
+  // For llmClient.setProviderWrapper
+  wrap(provider: LLMProvider): LLMProvider {
+    return {
+      name: 'recorded',
+      chat: async (systemPrompt, userMessage, options) => {
+        const key = getCacheKey(systemPrompt, userMessage);
+        const answer = this.answers.get(key);
+        if (answer) {
+          this.stats.replayed++;
+          return { content: answer.response, totalTokens: null };
+        }
+
+        if (this.mode === 'replay') {
+          this.stats.missing++;
+          throw new RecordingMissingError();
+        }
+
+        const result = await provider.chat(systemPrompt, userMessage, options);
+        const recorded: RecordedAnswer = {
+          key,
+          message: userMessage,
+          response: result.content,
+          model: options.model,
+          recordedAt: new Date().toISOString()
+        };
+        this.answers.set(key, recorded);
+        appendFileSync(this.path, JSON.stringify(recorded) + '\n');
+        this.stats.recorded++;
+        return result;
+      }
+    };
+  }
+
+  getStats(): RecordingStats {
+    return { ...this.stats };
+  }
+}
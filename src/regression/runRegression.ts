@@ -0,0 +1,242 @@
+/**
+ * Offline regression run for the message parser
+ *
+ * Evaluates detectSellMessage, analyzeSellerResponse, detectSellerCancellation and fuzzyMatchMessName
+ * against the labelled corpus in regression/corpus and reports precision and recall per class.
+ * LLM answers come from regression/recordings.jsonl; anything not recorded falls back to the rules,
+ * exactly as if no model were configured. `--record` asks the configured provider for the missing answers.
+ * Exits 1 when a case fails, or with --baseline when a score drops or more cases fail than in the baseline.
+ *
+ * Usage: npm run regression -- [--corpus <file|dir>]... [--record] [--recordings <file>]
+ *                               [--save <report.json>] [--baseline <report.json>] [--verbose]
+ */
+
+import 'dotenv/config';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { Config, setConfig } from '../utils/config.js';
+import { setLoggerSilent } from '../utils/logger.js';
+import { setProviderWrapper } from '../llm/llmClient.js';
+import { CorpusCase, RegressionTarget, REGRESSION_TARGETS, loadCorpus } from './corpus.js';
+import { EVALUATORS, ScoredLabel } from './evaluators.js';
+import { LLMRecording, RecordingMode } from './recordedProvider.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const ROOT_DIR = join(__dirname, '../..');
+const DEFAULT_CORPUS = join(ROOT_DIR, 'regression/corpus');
+const DEFAULT_RECORDINGS = join(ROOT_DIR, 'regression/recordings.jsonl');
+
+interface Options {
+  corpus: string[];
+  mode: RecordingMode;
+  recordings: string;
+  save: string | null;
+  baseline: string | null;
+  verbose: boolean;
+}
+
+interface ClassCounts {
+  tp: number;
+  fp: number;
+  fn: number;
+  support: number; // Cases labelled with this class
+}
+
+interface ClassScore {
+  precision: number | null; // null when the class was never predicted
+  recall: number | null;    // null when no case is labelled with it
+  support: number;
+}
+
+interface Failure {
+  testCase: CorpusCase;
+  detail: string;
+}
+
+// Saved with --save and compared against with --baseline; keyed "<target>/<dimension>/<class>"
+export interface RegressionReport {
+  createdAt: string;
+  cases: number;
+  failed: number;
+  scores: Record<string, ClassScore>;
+}
+
+function parseArgs(argv: string[]): Options {
+  const options: Options = { corpus: [], mode: 'replay', recordings: DEFAULT_RECORDINGS, save: null, baseline: null, verbose: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      const next = argv[++i];
+      if (!next) usage(`${arg} needs a value`);
+      return next;
+    };
+
+    switch (arg) {
+      case '--corpus': options.corpus.push(value()); break;
+      case '--record': options.mode = 'record'; break;
+      case '--recordings': options.recordings = value(); break;
+      case '--save': options.save = value(); break;
+      case '--baseline': options.baseline = value(); break;
+      case '--verbose': options.verbose = true; break;
+      default: usage(`Unknown argument: ${arg}`);
+    }
+  }
+
+  if (options.corpus.length === 0) {
+    options.corpus.push(DEFAULT_CORPUS);
+  }
+  return options;
+}
+
+function usage(problem: string): never {
+  console.error(problem);
+  console.error('Usage: npm run regression -- [--corpus <file|dir>]... [--record] [--recordings <file>] [--save <report.json>] [--baseline <report.json>] [--verbose]');
+  process.exit(2);
+}
+
+// The parser reads meal sessions from config; without a local config.json the example config is used
+function loadRegressionConfig(): void {
+  const configPath = join(ROOT_DIR, 'config/config.json');
+  const path = existsSync(configPath) ? configPath : join(ROOT_DIR, 'config/config.example.json');
+  setConfig(JSON.parse(readFileSync(path, 'utf-8')) as Config);
+}
+
+function percent(value: number | null): string {
+  return value === null ? '-' : `${(value * 100).toFixed(1)}%`;
+}
+
+function score(counts: ClassCounts): ClassScore {
+  return {
+    precision: counts.tp + counts.fp > 0 ? counts.tp / (counts.tp + counts.fp) : null,
+    recall: counts.support > 0 ? counts.tp / counts.support : null,
+    support: counts.support
+  };
+}
+
+// A wrong prediction counts against both classes: a false positive for what was predicted, a miss for what was expected
+function tally(counts: Map<string, ClassCounts>, dimensionKey: string, label: ScoredLabel): void {
+  const get = (cls: string) => {
+    const key = `${dimensionKey}/${cls}`;
+    let entry = counts.get(key);
+    if (!entry) {
+      entry = { tp: 0, fp: 0, fn: 0, support: 0 };
+      counts.set(key, entry);
+    }
+    return entry;
+  };
+
+  get(label.expectedClass).support++;
+  if (label.correct) {
+    get(label.expectedClass).tp++;
+  } else {
+    get(label.predictedClass).fp++;
+    get(label.expectedClass).fn++;
+  }
+}
+
+function printScores(target: RegressionTarget, scores: Record<string, ClassScore>, baseline: RegressionReport | null): void {
+  const rows = Object.entries(scores).filter(([key]) => key.startsWith(`${target}/`));
+  if (rows.length === 0) return;
+
+  console.log(`  ${'class'.padEnd(34)}${'precision'.padStart(10)}${'recall'.padStart(10)}${'support'.padStart(9)}`);
+  for (const [key, s] of rows) {
+    const [, dimension, cls] = key.split('/');
+    // Seller responses score several fields, the other targets a single one
+    const name = target === 'response' ? `${dimension}=${cls}` : cls;
+    let line = `  ${name.padEnd(34)}${percent(s.precision).padStart(10)}${percent(s.recall).padStart(10)}${String(s.support).padStart(9)}`;
+
+    const before = baseline?.scores[key];
+    if (baseline && (!before || before.precision !== s.precision || before.recall !== s.recall)) {
+      line += before
+        ? `   (was ${percent(before.precision)} / ${percent(before.recall)})`
+        : '   (new)';
+    }
+    console.log(line);
+  }
+}
+
+// Classes whose precision or recall dropped since the baseline (a class that disappeared counts as dropped)
+function findRegressions(scores: Record<string, ClassScore>, baseline: RegressionReport): string[] {
+  const dropped = (before: number | null, after: number | null | undefined) =>
+    before !== null && (after === null || after === undefined || after < before);
+
+  return Object.entries(baseline.scores)
+    .filter(([key, before]) => dropped(before.precision, scores[key]?.precision) || dropped(before.recall, scores[key]?.recall))
+    .map(([key]) => key);
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  setLoggerSilent(!options.verbose);
+  loadRegressionConfig();
+
+  const recording = new LLMRecording(options.recordings, options.mode);
+  setProviderWrapper(provider => recording.wrap(provider));
+
+  const cases = loadCorpus(options.corpus);
+  const baseline = options.baseline ? JSON.parse(readFileSync(options.baseline, 'utf-8')) as RegressionReport : null;
+
+  const counts = new Map<string, ClassCounts>();
+  const failures: Failure[] = [];
+
+  for (const testCase of cases) {
+    const evaluation = await EVALUATORS[testCase.target].evaluate(testCase.message, testCase.expected);
+    for (const label of evaluation.labels) {
+      tally(counts, `${testCase.target}/${label.dimension}`, label);
+    }
+    if (evaluation.labels.some(l => !l.correct)) {
+      failures.push({ testCase, detail: evaluation.detail });
+    }
+  }
+
+  const scores: Record<string, ClassScore> = {};
+  for (const [key, entry] of [...counts.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+    scores[key] = score(entry);
+  }
+
+  for (const target of REGRESSION_TARGETS) {
+    const targetCases = cases.filter(c => c.target === target);
+    if (targetCases.length === 0) continue;
+    const failed = failures.filter(f => f.testCase.target === target).length;
+    console.log(`\n${EVALUATORS[target].title}: ${targetCases.length - failed}/${targetCases.length} cases correct`);
+    printScores(target, scores, baseline);
+  }
+
+  if (failures.length > 0) {
+    console.log('\nFailures:');
+    for (const { testCase, detail } of failures) {
+      console.log(`  [${testCase.target}] ${testCase.source} "${testCase.message}"`);
+      console.log(`      expected ${JSON.stringify(testCase.expected)}, got ${detail}${testCase.note ? ` - ${testCase.note}` : ''}`);
+    }
+  }
+
+  const stats = recording.getStats();
+  console.log(`\n${cases.length - failures.length}/${cases.length} cases correct. LLM answers: ${stats.replayed} replayed, ${stats.recorded} recorded, ${stats.missing} not recorded (rules used instead)`);
+  if (stats.missing > 0 && options.mode === 'replay') {
+    console.log('Run with --record (and an API key) to record the missing answers.');
+  }
+
+  if (options.save) {
+    const report: RegressionReport = { createdAt: new Date().toISOString(), cases: cases.length, failed: failures.length, scores };
+    writeFileSync(options.save, JSON.stringify(report, null, 2) + '\n');
+    console.log(`Report saved to ${options.save}`);
+  }
+
+  // Against a baseline only getting worse fails the run, so known gaps in the corpus don't block every change
+  if (baseline) {
+    const regressions = findRegressions(scores, baseline);
+    if (regressions.length > 0 || failures.length > baseline.failed) {
+      console.log(`\nRegressed since the baseline: ${failures.length} failed (was ${baseline.failed})${regressions.length > 0 ? `, lower scores for ${regressions.join(', ')}` : ''}`);
+      process.exitCode = 1;
+    }
+  } else if (failures.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,43 @@
+import { Jimp } from 'jimp';
+import qrcode from 'qrcode-terminal';
+
+const MODULE_PX = 8;   // Pixels per QR module
+const QUIET_ZONE = 4;  // Blank modules around the code, as a printed QR has
+
+// qrcode-terminal only renders to text: one ANSI-coloured cell per module, black (40) or white (47) background
+const CELL_PATTERN = /\x1b\[(40|47)m {2}\x1b\[0m/g;
+
+function qrModules(payload: string): boolean[][] {
+  let text = '';
+  qrcode.generate(payload, { small: false }, output => { text = output; });
+  return text.split('\n')
+    .map(line => [...line.matchAll(CELL_PATTERN)].map(match => match[1] === '40'))
+    .filter(row => row.length > 0);
+}
+
+/**
+ * A PNG with a readable QR code carrying `payload`, standing in for a coupon screenshot
+ * Each coupon needs its own payload - a repeated QR is rejected as a resold coupon
+ */
+export async function createCouponImage(payload: string): Promise<Buffer> {
+  const modules = qrModules(payload);
+  const size = (modules.length + QUIET_ZONE * 2) * MODULE_PX;
+  const image = new Jimp({ width: size, height: size, color: 0xffffffff });
+
+  modules.forEach((row, y) => row.forEach((dark, x) => {
+    if (!dark) return;
+    for (let dy = 0; dy < MODULE_PX; dy++) {
+      for (let dx = 0; dx < MODULE_PX; dx++) {
+        image.setPixelColor(0x000000ff, (x + QUIET_ZONE) * MODULE_PX + dx, (y + QUIET_ZONE) * MODULE_PX + dy);
+      }
+    }
+  }));
+
+  return image.getBuffer('image/png');
+}
+
+// A plain image with no QR, e.g. a refund screenshot
+export async function createPlainImage(): Promise<Buffer> {
+  const image = new Jimp({ width: 200, height: 120, color: 0xe8f0e8ff });
+  return image.getBuffer('image/png');
+}
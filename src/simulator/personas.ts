@@ -0,0 +1,142 @@
+import { ConversationState, CouponType } from '../conversation/types.js';
+
+// One thing the seller does, in reply to whatever the bot said last
+export type SellerStep =
+  | { say: string }
+  | { sendCoupon: true; caption?: string } // An image with a readable coupon QR
+  | { sendImage: true; caption?: string } // An image with no QR (e.g. a refund screenshot)
+  | { wait: number };                      // Stay silent for this many ms (simulated time - follow-ups fire)
+
+export interface ExpectedDeal {
+  status: 'success' | 'failed';
+  failureReason?: string;
+  refundReceived?: boolean;
+  messName?: string;
+}
+
+/**
+ * What a run must end with. Replies come from randomly picked templates, so messages to the
+ * seller are counted; the fixed strings (acks, notifications to the user) are matched in order
+ */
+export interface PersonaExpectation {
+  state: ConversationState;
+  sellerMessages: number;
+  sellerMessagesInclude?: string[];
+  selfMessagesInclude: string[];
+  confirmationsRequested: number;
+  deal: ExpectedDeal | null; // null = nothing recorded in deal history
+}
+
+export interface SellerPersona {
+  name: string; // Used with --persona
+  description: string;
+  sellerName: string;
+  sellerPhone: string; // 10 digits, the seller's WhatsApp number
+  couponType: CouponType;
+  post: string; // The group message that starts the conversation
+  steps: SellerStep[];
+  expect: PersonaExpectation;
+}
+
+export const PERSONAS: SellerPersona[] = [
+  {
+    name: 'prompt',
+    description: 'Names the mess in the post, pays to the same number, sends the coupon once paid',
+    sellerName: 'Prompt Pranav',
+    sellerPhone: '9876500001',
+    couponType: 'lunch',
+    post: 'Selling lunch coupon firstman, dm',
+    steps: [
+      { say: 'gpay same no' },
+      { sendCoupon: true }
+    ],
+    expect: {
+      state: ConversationState.COMPLETED,
+      sellerMessages: 3, // Initial message, payment done, thanks
+      selfMessagesInclude: ['COUPON PURCHASE CONFIRMATION', 'COUPON PURCHASED!'],
+      confirmationsRequested: 1,
+      deal: { status: 'success', messName: 'Firstman' }
+    }
+  },
+  {
+    name: 'early-coupon',
+    description: 'Sends the coupon before giving payment details',
+    sellerName: 'Early Esha',
+    sellerPhone: '9876500002',
+    couponType: 'lunch',
+    post: 'lunch coupon available',
+    steps: [
+      { say: 'prism' },
+      { sendCoupon: true },
+      { say: 'upi is esha.r@okaxis' }
+    ],
+    expect: {
+      state: ConversationState.COMPLETED,
+      // Initial message, which mess, UPI, early-image ack, clarifying question (the image had no text), payment done + thanks
+      sellerMessages: 6,
+      sellerMessagesInclude: ['Got it, thanks! Just confirming payment.'],
+      selfMessagesInclude: ['COUPON PURCHASE CONFIRMATION', 'COUPON PURCHASED!'],
+      confirmationsRequested: 1,
+      deal: { status: 'success', messName: 'Prism' }
+    }
+  },
+  {
+    name: 'cancel-after-payment',
+    description: 'Takes the payment, backs out, then refunds and sends a screenshot',
+    sellerName: 'Backout Bala',
+    sellerPhone: '9876500003',
+    couponType: 'dinner',
+    post: 'selling dinner coupon neelkesh',
+    steps: [
+      { say: 'yes, upi is bala.k@okicici' },
+      { say: 'sorry bro my friend wants it' },
+      { say: 'sorry, cant sell it now' },
+      { say: 'sorry, not selling' },
+      { say: 'refunded, check' },
+      { sendImage: true }
+    ],
+    expect: {
+      state: ConversationState.FAILED,
+      // Initial message, payment done, what happened, convince, refund request, screenshot please, thanks
+      sellerMessages: 7,
+      selfMessagesInclude: ['COUPON PURCHASE CONFIRMATION', 'SELLER CANCELLED AFTER PAYMENT', 'REFUND RECEIVED', 'DEAL FAILED'],
+      confirmationsRequested: 1,
+      deal: { status: 'failed', failureReason: 'Seller cancelled after payment - REFUND RECEIVED', refundReceived: true, messName: 'Neelkesh' }
+    }
+  },
+  {
+    name: 'no-coupon',
+    description: 'Takes the payment, then goes silent for five minutes',
+    sellerName: 'Silent Sanjay',
+    sellerPhone: '9876500005',
+    couponType: 'lunch',
+    post: 'lunch coupon firstman, dm',
+    steps: [
+      { say: 'gpay same no' },
+      { wait: 5 * 60 * 1000 }
+    ],
+    expect: {
+      state: ConversationState.AWAITING_COUPON,
+      sellerMessages: 10, // Initial message, payment done, 8 follow-ups 30s apart
+      selfMessagesInclude: ['COUPON PURCHASE CONFIRMATION', 'COUPON NOT RECEIVED'],
+      confirmationsRequested: 1,
+      deal: null // Left for the user to handle
+    }
+  },
+  {
+    name: 'ghost',
+    description: 'Posts a coupon and never replies',
+    sellerName: 'Ghost Gautam',
+    sellerPhone: '9876500004',
+    couponType: 'dinner',
+    post: 'dinner coupon available',
+    steps: [],
+    expect: {
+      state: ConversationState.AWAITING_MESS_INFO,
+      sellerMessages: 2, // Initial message, which mess
+      selfMessagesInclude: [],
+      confirmationsRequested: 0,
+      deal: null
+    }
+  }
+];
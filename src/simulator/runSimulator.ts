@@ -0,0 +1,132 @@
+/**
+ * Scripted seller simulator
+ *
+ * Drives ConversationManager through its injected send / confirmation callbacks with scripted seller
+ * personas instead of a second phone and real WhatsApp, then checks the final state, the messages sent
+ * and the recorded deal. Runs against a throwaway database with templates only (no LLM calls), on a
+ * fake clock, so follow-ups and timeouts happen instantly when a persona waits.
+ *
+ * Usage: npm run simulate -- [--persona <name>]... [--transcript] [--verbose] [--keep]
+ */
+
+import { SANDBOX_DIR } from './sandbox.js';
+import { readFileSync, rmSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { Config, setConfig } from '../utils/config.js';
+import { setLoggerSilent } from '../utils/logger.js';
+import { FakeClock, setClock } from '../utils/clock.js';
+import { initDatabase, closeDatabase } from '../database/index.js';
+import { setCurrentAccount } from '../state/persistence.js';
+import { PERSONAS, SellerPersona } from './personas.js';
+import { PersonaRun, runPersona, checkPersonaRun } from './simulation.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const ROOT_DIR = join(__dirname, '../..');
+const SIMULATOR_PHONE = '9999900000';
+
+interface Options {
+  personas: SellerPersona[];
+  transcript: boolean;
+  verbose: boolean;
+  keep: boolean;
+}
+
+function parseArgs(argv: string[]): Options {
+  const options: Options = { personas: [], transcript: false, verbose: false, keep: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case '--persona': {
+        const name = argv[++i];
+        const persona = PERSONAS.find(p => p.name === name);
+        if (!persona) usage(`Unknown persona: ${name ?? '(none)'} - one of ${PERSONAS.map(p => p.name).join(', ')}`);
+        options.personas.push(persona);
+        break;
+      }
+      case '--transcript': options.transcript = true; break;
+      case '--verbose': options.verbose = true; break;
+      case '--keep': options.keep = true; break;
+      default: usage(`Unknown argument: ${arg}`);
+    }
+  }
+
+  if (options.personas.length === 0) {
+    options.personas = PERSONAS;
+  }
+  return options;
+}
+
+function usage(problem: string): never {
+  console.error(problem);
+  console.error('Usage: npm run simulate -- [--persona <name>]... [--transcript] [--verbose] [--keep]');
+  process.exit(2);
+}
+
+// The example config, not the local one - the scripts assume its prices and meals; replies come from templates only
+function loadSimulatorConfig(): void {
+  const example = JSON.parse(readFileSync(join(ROOT_DIR, 'config/config.example.json'), 'utf-8')) as Config;
+  setConfig({
+    ...example,
+    llm: { classification: { provider: 'templates' }, generation: { provider: 'templates' } },
+    parallelSellers: 1,
+    messageDelayMs: 0,
+    notificationSound: false
+  });
+}
+
+function printTranscript(run: PersonaRun): void {
+  console.log(`    [group] ${run.persona.sellerName}: ${run.persona.post}`);
+  for (const entry of run.transcript) {
+    const text = entry.text.replace(/\n+/g, ' | ');
+    const image = entry.image ? '[image] ' : '';
+    if (entry.direction === 'from_seller') console.log(`    seller: ${image}${text}`);
+    else if (entry.direction === 'to_seller') console.log(`    bot:    ${image}${text}`);
+    else console.log(`    (you)   ${image}${text.substring(0, 80)}`);
+  }
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  setLoggerSilent(!options.verbose);
+  loadSimulatorConfig();
+  initDatabase();
+  setCurrentAccount(SIMULATOR_PHONE);
+
+  const clock = new FakeClock();
+  setClock(clock);
+
+  let failed = 0;
+  for (const persona of options.personas) {
+    const run = await runPersona(persona, clock);
+    const problems = checkPersonaRun(run);
+    const outcome = run.conversation ? run.conversation.state : 'not contacted';
+    console.log(`${problems.length === 0 ? 'PASS' : 'FAIL'}  ${persona.name} - ${persona.description} (${outcome})`);
+
+    for (const problem of problems) {
+      console.log(`      ${problem}`);
+    }
+    if (problems.length > 0 || options.transcript) {
+      printTranscript(run);
+    }
+    if (problems.length > 0) failed++;
+  }
+
+  console.log(`\n${options.personas.length - failed}/${options.personas.length} personas passed`);
+
+  closeDatabase();
+  if (options.keep) {
+    console.log(`Simulator data kept in ${SANDBOX_DIR}`);
+  } else {
+    rmSync(SANDBOX_DIR, { recursive: true, force: true });
+  }
+
+  // Exit explicitly so nothing left pending on the system clock keeps the process alive
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
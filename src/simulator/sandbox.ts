@@ -0,0 +1,10 @@
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+/**
+ * Throwaway data directory for a simulator run, so deals, coupon images and fingerprints never touch data/
+ * Must be the simulator's first import: the database module reads DATA_DIR when it loads
+ */
+export const SANDBOX_DIR = mkdtempSync(join(tmpdir(), 'mess-simulator-'));
+process.env.DATA_DIR = SANDBOX_DIR;
@@ -0,0 +1,177 @@
+import { ConversationManager } from '../conversation/stateMachine.js';
+import { Conversation } from '../conversation/types.js';
+import { getDeal } from '../database/index.js';
+import { DealRecord } from '../state/history.js';
+import { FakeClock, now } from '../utils/clock.js';
+import { createCouponImage, createPlainImage } from './couponImage.js';
+import { SellerPersona } from './personas.js';
+
+const SELF_ID = '919999900000@c.us';
+const GROUP_ID = 'simulated-group@g.us';
+const GROUP_NAME = 'Simulated Group';
+
+export interface TranscriptEntry {
+  direction: 'to_seller' | 'to_self' | 'from_seller';
+  text: string;
+  image?: Buffer;
+  at: Date;
+}
+
+export interface PersonaRun {
+  persona: SellerPersona;
+  conversation: Conversation | null; // null = the manager decided not to contact the seller
+  transcript: TranscriptEntry[];
+  confirmationsRequested: number;
+  deal: DealRecord | null;
+  couponPayload: string; // QR payload of the coupon this persona sends
+}
+
+/**
+ * Play one persona against a fresh ConversationManager
+ * The user approves every payment straight away; each seller step is handled to completion before the next.
+ * clock must be the installed clock - wait steps advance it, firing follow-ups and timeouts on the way
+ */
+export async function runPersona(persona: SellerPersona, clock: FakeClock): Promise<PersonaRun> {
+  const sellerId = `91${persona.sellerPhone}@c.us`;
+  const couponPayload = `SIM-COUPON-${persona.name}`;
+  const transcript: TranscriptEntry[] = [];
+  let confirmationsRequested = 0;
+
+  const record = (chatId: string, text: string, image?: Buffer) => {
+    transcript.push({ direction: chatId === SELF_ID ? 'to_self' : 'to_seller', text, image, at: now() });
+  };
+
+  const manager = new ConversationManager(
+    new Map(),
+    async (chatId, message) => record(chatId, message),
+    async (chatId, mediaBuffer, caption) => record(chatId, caption, mediaBuffer),
+    () => SELF_ID,
+    () => false,
+    async () => { confirmationsRequested++; return true; }, // User replies "Ok"
+    async () => true,                                         // User marks the payment done
+    () => {},
+    () => {},
+    () => null, // Any mess
+    () => {},
+    // Same contract as fetchChatMediaMessages: the seller's images, most recent first
+    async (_chatId, limit = 30, afterTimestamp) => transcript
+      .filter(e => e.direction === 'from_seller' && e.image && (!afterTimestamp || e.at >= afterTimestamp))
+      .map(e => e.image!)
+      .reverse()
+      .slice(0, limit)
+  );
+
+  const conversation = await manager.startOrResumeConversation({
+    messageId: `sim_${persona.name}_${clock.now()}`,
+    senderId: sellerId,
+    senderName: persona.sellerName,
+    groupId: GROUP_ID,
+    groupName: GROUP_NAME,
+    couponType: persona.couponType,
+    rawMessage: persona.post,
+    timestamp: now()
+  });
+
+  if (conversation) {
+    for (const step of persona.steps) {
+      if ('wait' in step) {
+        await clock.advance(step.wait);
+        continue;
+      }
+
+      let text: string;
+      let image: Buffer | undefined;
+      if ('say' in step) {
+        text = step.say;
+      } else {
+        text = step.caption ?? '';
+        image = 'sendCoupon' in step ? await createCouponImage(couponPayload) : await createPlainImage();
+      }
+
+      transcript.push({ direction: 'from_seller', text, image, at: now() });
+      await manager.handleSellerMessage(sellerId, text, image);
+    }
+  }
+
+  return {
+    persona,
+    conversation,
+    transcript,
+    confirmationsRequested,
+    deal: conversation ? getDeal(conversation.id) : null,
+    couponPayload
+  };
+}
+
+// Everything about a run that doesn't match the persona's expectation (empty = passed)
+export function checkPersonaRun(run: PersonaRun): string[] {
+  const { persona, conversation, transcript, deal } = run;
+  const expect = persona.expect;
+  if (!conversation) {
+    return ['Seller was never contacted'];
+  }
+
+  const problems: string[] = [];
+  if (conversation.state !== expect.state) {
+    problems.push(`Ended in ${conversation.state}, expected ${expect.state}${conversation.failureReason ? ` (${conversation.failureReason})` : ''}`);
+  }
+
+  const toSeller = transcript.filter(e => e.direction === 'to_seller').map(e => e.text);
+  if (toSeller.length !== expect.sellerMessages) {
+    problems.push(`Sent ${toSeller.length} message(s) to the seller, expected ${expect.sellerMessages}`);
+  }
+  for (const text of expect.sellerMessagesInclude ?? []) {
+    if (!toSeller.includes(text)) {
+      problems.push(`Never sent the seller "${text}"`);
+    }
+  }
+
+  // Notifications to the user must appear in this order (other messages may come in between)
+  const toSelf = transcript.filter(e => e.direction === 'to_self').map(e => e.text);
+  let position = 0;
+  for (const text of expect.selfMessagesInclude) {
+    const index = toSelf.findIndex((message, i) => i >= position && message.includes(text));
+    if (index === -1) {
+      problems.push(`No "${text}" notification to the user${position > 0 ? ' after the previous one' : ''}`);
+    } else {
+      position = index + 1;
+    }
+  }
+
+  if (run.confirmationsRequested !== expect.confirmationsRequested) {
+    problems.push(`Asked the user to confirm ${run.confirmationsRequested} time(s), expected ${expect.confirmationsRequested}`);
+  }
+
+  if (!expect.deal) {
+    if (deal) {
+      problems.push(`Recorded a ${deal.status} deal, expected none`);
+    }
+    return problems;
+  }
+  if (!deal) {
+    problems.push(`No deal recorded, expected ${expect.deal.status}`);
+    return problems;
+  }
+
+  if (deal.status !== expect.deal.status) {
+    problems.push(`Deal recorded as ${deal.status}, expected ${expect.deal.status}`);
+  }
+  if (expect.deal.failureReason !== undefined && deal.failureReason !== expect.deal.failureReason) {
+    problems.push(`Deal failure reason "${deal.failureReason ?? ''}", expected "${expect.deal.failureReason}"`);
+  }
+  if (expect.deal.refundReceived !== undefined && deal.refundReceived !== expect.deal.refundReceived) {
+    problems.push(`Deal refundReceived ${deal.refundReceived}, expected ${expect.deal.refundReceived}`);
+  }
+  if (expect.deal.messName !== undefined && deal.messName !== expect.deal.messName) {
+    problems.push(`Deal mess ${deal.messName ?? 'none'}, expected ${expect.deal.messName}`);
+  }
+  if (deal.price !== conversation.price) {
+    problems.push(`Deal price Rs.${deal.price} doesn't match the agreed Rs.${conversation.price}`);
+  }
+  // A coupon that was sent must be the one recorded
+  if (deal.status === 'success' && persona.steps.some(step => 'sendCoupon' in step) && deal.qrPayload !== run.couponPayload) {
+    problems.push(`Deal recorded coupon ${deal.qrPayload ?? 'none'}, expected ${run.couponPayload}`);
+  }
+
+  return problems;
+}
@@ -0,0 +1,69 @@
+import { getConfig, AccountConfig } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+
+export interface Account {
+  id: string;
+  label: string;
+  myPhoneNumber: string;
+  testPhoneNumbers: string[];
+  groups: string[];
+  sessionId: string | undefined; // LocalAuth clientId - undefined keeps the session folder from before accounts were configurable
+}
+
+// Id of the single account when config.accounts is missing
+export const DEFAULT_ACCOUNT_ID = 'default';
+
+function toAccount(entry: AccountConfig): Account | null {
+  const id = entry.id?.trim().toLowerCase();
+  if (!id || !/^[a-z0-9_-]+$/.test(id)) {
+    logger.warn('Ignoring account with invalid id (letters, digits, - and _ only)', { account: entry });
+    return null;
+  }
+
+  const config = getConfig();
+  return {
+    id,
+    label: entry.label || id,
+    myPhoneNumber: entry.myPhoneNumber ?? config.myPhoneNumber,
+    testPhoneNumbers: entry.testPhoneNumbers ?? config.testPhoneNumbers,
+    groups: entry.groups ?? config.groups,
+    sessionId: id
+  };
+}
+
+/**
+ * Accounts to run, in config order (the first one is what the dashboard and terminal start on)
+ * Without config.accounts this is one account on the top-level settings and the original session folder
+ */
+export function getAccounts(): Account[] {
+  const config = getConfig();
+
+  const seen = new Set<string>();
+  const accounts: Account[] = [];
+  for (const entry of config.accounts ?? []) {
+    const account = toAccount(entry);
+    if (!account) continue;
+    if (seen.has(account.id)) {
+      logger.warn(`Ignoring duplicate account "${account.id}"`);
+      continue;
+    }
+    seen.add(account.id);
+    accounts.push(account);
+  }
+
+  if (accounts.length === 0) {
+    if (config.accounts) {
+      logger.warn('No usable accounts in config, running the default account');
+    }
+    return [{
+      id: DEFAULT_ACCOUNT_ID,
+      label: DEFAULT_ACCOUNT_ID,
+      myPhoneNumber: config.myPhoneNumber,
+      testPhoneNumbers: config.testPhoneNumbers,
+      groups: config.groups,
+      sessionId: undefined
+    }];
+  }
+
+  return accounts;
+}
@@ -0,0 +1,120 @@
+import { logger } from '../utils/logger.js';
+import { findNearMisses } from '../utils/fuzzyMatch.js';
+import { getMealSessions } from './mealSessions.js';
+import { getMesses, getMessById, findMess, addMessAlias } from './messRegistry.js';
+import {
+  AliasSuggestion,
+  AliasSuggestionSource,
+  recordAliasCandidate,
+  getAliasSuggestionRecords,
+  getAliasSuggestionRecord,
+  setAliasSuggestionStatus
+} from '../database/repositories/messAliasSuggestionRepository.js';
+
+export type { AliasSuggestion, AliasSuggestionSource };
+
+// Words sellers use all the time that are never a mess name (meal names are added from config)
+const COMMON_WORDS = [
+  'selling', 'sell', 'sale', 'coupon', 'coupons', 'mess', 'available', 'anyone', 'someone', 'need', 'want', 'interested',
+  'today', 'tomorrow', 'tonight', 'price', 'only', 'for', 'the', 'and', 'one', 'two', 'has', 'have', 'any', 'dm', 'ping',
+  'please', 'pls', 'plz', 'bro', 'bhai', 'hai', 'hain', 'kisi', 'chahiye', 'kya', 'nahi', 'yes', 'yeah', 'this', 'that',
+  'its', 'it', 'from', 'with', 'veg', 'nonveg', 'non', 'north', 'indian', 'ticket', 'tickets', 'token', 'rupees', 'rs'
+];
+
+// Only the closest few candidates per message are kept, the rest are almost always noise
+const MAX_CANDIDATES_PER_MESSAGE = 3;
+const EXAMPLE_LENGTH = 120;
+
+export interface AliasSuggestionGroup {
+  messId: number;
+  messName: string;
+  suggestions: AliasSuggestion[];
+}
+
+function getIgnoredWords(): Set<string> {
+  const words = new Set(COMMON_WORDS);
+  for (const session of getMealSessions()) {
+    words.add(session.name);
+    session.keywords.forEach(keyword => words.add(keyword));
+  }
+  return words;
+}
+
+/**
+ * Collect words from a message in which no mess name was found, for alias suggestions
+ * Call only after fuzzyMatchMessName came up empty for the same text
+ */
+export function collectAliasCandidates(message: string, source: AliasSuggestionSource): void {
+  try {
+    const nearMisses = findNearMisses(message, getIgnoredWords()).slice(0, MAX_CANDIDATES_PER_MESSAGE);
+    for (const nearMiss of nearMisses) {
+      recordAliasCandidate({
+        token: nearMiss.token,
+        messId: nearMiss.messId,
+        distance: nearMiss.distance,
+        similarity: nearMiss.similarity,
+        source,
+        example: message.substring(0, EXAMPLE_LENGTH)
+      });
+    }
+    if (nearMisses.length > 0) {
+      logger.debug('Collected alias candidates', { source, tokens: nearMisses.map(n => `${n.token} ~ ${n.messName}`) });
+    }
+  } catch (error) {
+    logger.error('Failed to collect alias candidates', { source, error });
+  }
+}
+
+// Pending suggestions grouped by the mess they're closest to, messes in menu order
+export function getAliasSuggestions(): AliasSuggestionGroup[] {
+  let suggestions: AliasSuggestion[] = [];
+  try {
+    suggestions = getAliasSuggestionRecords('pending');
+  } catch (error) {
+    logger.error('Failed to load alias suggestions', error);
+  }
+
+  return getMesses()
+    .map(mess => ({ messId: mess.id, messName: mess.name, suggestions: suggestions.filter(s => s.messId === mess.id) }))
+    .filter(group => group.suggestions.length > 0);
+}
+
+/**
+ * Approve a suggestion: add its token as an alias of the suggested mess (or another one)
+ * Returns an error message, or null on success
+ */
+export function approveAliasSuggestion(id: number, messId?: number): string | null {
+  const suggestion = getAliasSuggestionRecord(id);
+  if (!suggestion || suggestion.status !== 'pending') {
+    return 'Suggestion not found';
+  }
+
+  const mess = getMessById(messId ?? suggestion.messId);
+  if (!mess) {
+    return 'Mess not found';
+  }
+
+  // Added by hand in the meantime - nothing left to approve
+  const existing = findMess(suggestion.token);
+  if (existing) {
+    setAliasSuggestionStatus(id, 'dismissed');
+    return `"${suggestion.token}" already refers to ${existing.name}`;
+  }
+
+  if (!addMessAlias(mess.id, suggestion.token)) {
+    return 'Failed to save alias';
+  }
+  setAliasSuggestionStatus(id, 'approved');
+  logger.info('Alias suggestion approved', { alias: suggestion.token, mess: mess.name, seen: suggestion.occurrences });
+  return null;
+}
+
+export function dismissAliasSuggestion(id: number): boolean {
+  try {
+    const suggestion = getAliasSuggestionRecord(id);
+    return suggestion?.status === 'pending' && setAliasSuggestionStatus(id, 'dismissed');
+  } catch (error) {
+    logger.error('Failed to dismiss alias suggestion', { id, error });
+    return false;
+  }
+}
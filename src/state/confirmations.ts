@@ -0,0 +1,186 @@
+import { getAccountKey, getCurrentAccountId } from './persistence.js';
+import { getClock, now, TimerHandle } from '../utils/clock.js';
+import { logger } from '../utils/logger.js';
+import {
+  ConfirmationKind,
+  ConfirmationChannel,
+  ConfirmationRecord,
+  createConfirmation,
+  resolveConfirmationRecord,
+  getOpenConfirmations,
+  getConversationConfirmations
+} from '../database/repositories/confirmationRepository.js';
+
+export type { ConfirmationKind, ConfirmationChannel, ConfirmationRecord };
+
+/**
+ * Prompts waiting on the user - "Ok" to buy, then "paid" once paid
+ * Each prompt is saved with its deadline, so a conversation resumed after a restart waits on the same
+ * prompt for the time it had left instead of asking again. Any channel can answer (WhatsApp, terminal,
+ * dashboard) and the channel is saved with the answer
+ * Waiting prompts are kept per account scope, so one account's "ok" never answers another's prompt
+ */
+
+interface Waiter {
+  account: string; // getAccountKey() of the bot that asked
+  conversationId: string;
+  kind: ConfirmationKind;
+  recordId: number | null; // null = couldn't be saved, only lives until a restart
+  resolve: (approved: boolean) => void;
+  deadline: TimerHandle;
+}
+
+const waiters: Map<string, Waiter> = new Map();
+
+function waiterKey(kind: ConfirmationKind, conversationId: string, account: string = getAccountKey()): string {
+  return `${account}|${kind}:${conversationId}`;
+}
+
+// Prompts waiting for the account we're running as
+function accountWaiters(): Waiter[] {
+  const account = getAccountKey();
+  return Array.from(waiters.values()).filter(w => w.account === account);
+}
+
+function settle(waiter: Waiter, approved: boolean, channel: ConfirmationChannel): void {
+  waiters.delete(waiterKey(waiter.kind, waiter.conversationId, waiter.account));
+  getClock().clearTimer(waiter.deadline);
+
+  if (waiter.recordId !== null) {
+    try {
+      resolveConfirmationRecord(waiter.recordId, approved, channel, now());
+    } catch (error) {
+      logger.error('Failed to save confirmation answer', { conversationId: waiter.conversationId, kind: waiter.kind, error });
+    }
+  }
+
+  logger.info('Confirmation answered', { conversationId: waiter.conversationId, kind: waiter.kind, approved, channel });
+  waiter.resolve(approved);
+}
+
+// The saved prompt for this conversation still waiting for an answer (e.g. from before a restart)
+export function getOpenConfirmation(conversationId: string): ConfirmationRecord | null {
+  const accountId = getCurrentAccountId();
+
+  if (!accountId) {
+    return null;
+  }
+
+  try {
+    return getOpenConfirmations(accountId).filter(c => c.conversationId === conversationId).pop() ?? null;
+  } catch (error) {
+    logger.error('Failed to look up open confirmation', { conversationId, error });
+    return null;
+  }
+}
+
+/**
+ * Wait for the user to answer a prompt; resolves false if nobody answers within timeoutMs
+ * A saved prompt of the same kind that is still open for this conversation is picked up with its original deadline
+ */
+export function awaitConfirmation(kind: ConfirmationKind, conversationId: string, timeoutMs: number): Promise<boolean> {
+  const previous = waiters.get(waiterKey(kind, conversationId));
+  if (previous) {
+    settle(previous, false, 'timeout');
+  }
+
+  let recordId: number | null = null;
+  let deadlineAt = new Date(getClock().now() + timeoutMs);
+
+  const accountId = getCurrentAccountId();
+  if (accountId) {
+    try {
+      const open = getOpenConfirmation(conversationId);
+      if (open && open.kind === kind) {
+        recordId = open.id;
+        deadlineAt = open.deadlineAt;
+        logger.info('Picking up saved confirmation', { conversationId, kind, deadlineAt: deadlineAt.toISOString() });
+      } else {
+        recordId = createConfirmation(accountId, conversationId, kind, deadlineAt);
+      }
+    } catch (error) {
+      logger.error('Failed to save confirmation', { conversationId, kind, error });
+    }
+  }
+
+  return new Promise((resolve) => {
+    const waiter: Waiter = {
+      account: getAccountKey(),
+      conversationId,
+      kind,
+      recordId,
+      resolve,
+      deadline: getClock().setTimeout(() => {
+        logger.warn('Confirmation timed out', { conversationId, kind });
+        settle(waiter, false, 'timeout');
+      }, Math.max(0, deadlineAt.getTime() - getClock().now()))
+    };
+    waiters.set(waiterKey(kind, conversationId), waiter);
+  });
+}
+
+// Conversation whose prompt of this kind is waiting right now (the newest if there are several)
+export function getWaitingConfirmation(kind: ConfirmationKind): string | null {
+  let conversationId: string | null = null;
+  for (const waiter of accountWaiters()) {
+    if (waiter.kind === kind) {
+      conversationId = waiter.conversationId;
+    }
+  }
+  return conversationId;
+}
+
+// Answer the waiting prompt of this kind; returns its conversation, or null if nothing was waiting
+export function answerConfirmation(kind: ConfirmationKind, approved: boolean, channel: ConfirmationChannel): string | null {
+  const conversationId = getWaitingConfirmation(kind);
+  if (!conversationId) {
+    return null;
+  }
+
+  settle(waiters.get(waiterKey(kind, conversationId))!, approved, channel);
+  return conversationId;
+}
+
+// Close every prompt of a conversation that was given up on (e.g. dropped as stale on startup)
+export function closeConfirmations(conversationId: string): void {
+  for (const waiter of accountWaiters()) {
+    if (waiter.conversationId === conversationId) {
+      settle(waiter, false, 'timeout');
+    }
+  }
+
+  const accountId = getCurrentAccountId();
+  if (!accountId) return;
+
+  try {
+    for (const open of getOpenConfirmations(accountId).filter(c => c.conversationId === conversationId)) {
+      resolveConfirmationRecord(open.id, false, 'timeout', now());
+    }
+  } catch (error) {
+    logger.error('Failed to close saved confirmations', { conversationId, error });
+  }
+}
+
+// Forget this account's prompts waiting in memory without answering them (logout) - the saved ones stay open
+export function dropWaitingConfirmations(): void {
+  for (const waiter of accountWaiters()) {
+    getClock().clearTimer(waiter.deadline);
+    waiters.delete(waiterKey(waiter.kind, waiter.conversationId, waiter.account));
+  }
+}
+
+// Every prompt of a conversation and how it was answered, oldest first
+export function getConfirmationHistory(conversationId: string): ConfirmationRecord[] {
+  const accountId = getCurrentAccountId();
+
+  if (!accountId) {
+    return [];
+  }
+
+  try {
+    return getConversationConfirmations(accountId, conversationId);
+  } catch (error) {
+    logger.error('Failed to load confirmations', { conversationId, error });
+    return [];
+  }
+}
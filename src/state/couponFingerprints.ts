@@ -0,0 +1,91 @@
+import { getCurrentAccountId } from './persistence.js';
+import { logger } from '../utils/logger.js';
+import { computePerceptualHash, hammingDistance } from '../utils/imageHash.js';
+import {
+  CouponFingerprint,
+  saveCouponFingerprint,
+  findFingerprintsByPayload,
+  getFingerprintsWithHash
+} from '../database/repositories/couponFingerprintRepository.js';
+
+export type { CouponFingerprint };
+
+// Max differing bits for two images to count as the same screenshot
+const SAME_IMAGE_MAX_DISTANCE = 6;
+
+// How far back perceptual hashes are compared (QR payloads are matched across all history)
+const IMAGE_MATCH_DAYS = 30;
+
+export interface CouponMatch {
+  kind: 'qr' | 'image'; // Same decoded QR, or only a near-identical picture
+  previous: CouponFingerprint;
+  distance: number;     // Hamming distance of the image hashes (0 for a QR match)
+}
+
+export interface CouponImageFingerprint {
+  qrPayload: string | null;
+  perceptualHash: string | null;
+}
+
+export async function fingerprintCouponImage(image: Buffer, qrPayload: string | null): Promise<CouponImageFingerprint> {
+  return { qrPayload, perceptualHash: await computePerceptualHash(image) };
+}
+
+/**
+ * Find a coupon we've already accepted that matches this one
+ * A QR match wins over an image match; the image match picks the closest earlier screenshot
+ */
+export function findMatchingCoupon(fingerprint: CouponImageFingerprint): CouponMatch | null {
+  try {
+    if (fingerprint.qrPayload) {
+      const sameQr = findFingerprintsByPayload(fingerprint.qrPayload);
+      if (sameQr.length > 0) {
+        return { kind: 'qr', previous: sameQr[0], distance: 0 };
+      }
+    }
+
+    if (fingerprint.perceptualHash) {
+      let best: CouponMatch | null = null;
+      for (const previous of getFingerprintsWithHash(IMAGE_MATCH_DAYS)) {
+        const distance = hammingDistance(fingerprint.perceptualHash, previous.perceptualHash!);
+        if (distance <= SAME_IMAGE_MAX_DISTANCE && (!best || distance < best.distance)) {
+          best = { kind: 'image', previous, distance };
+        }
+      }
+      return best;
+    }
+  } catch (error) {
+    logger.error('Failed to look up coupon fingerprints', error);
+  }
+
+  return null;
+}
+
+// One-line description of an earlier coupon for alerts and deal flags
+export function describeCouponMatch(match: CouponMatch): string {
+  const previous = match.previous;
+  const seller = previous.sellerName || previous.sellerId.replace(/@.*$/, '');
+  const date = previous.createdAt.split(' ')[0];
+  const what = match.kind === 'qr' ? 'Same QR code' : 'Same coupon image';
+  return `${what} as the coupon from ${seller} on ${date}`;
+}
+
+export function recordCouponFingerprint(
+  dealId: string,
+  sellerId: string,
+  sellerName: string,
+  fingerprint: CouponImageFingerprint,
+  imageFilename?: string
+): void {
+  const accountId = getCurrentAccountId();
+
+  if (!accountId || (!fingerprint.qrPayload && !fingerprint.perceptualHash)) {
+    return;
+  }
+
+  try {
+    saveCouponFingerprint(accountId, dealId, sellerId, sellerName, fingerprint.qrPayload, fingerprint.perceptualHash, imageFilename || null);
+  } catch (error) {
+    logger.error('Failed to save coupon fingerprint', { dealId, error });
+  }
+}
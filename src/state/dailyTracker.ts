@@ -1,14 +1,26 @@
-import { DailyState, CouponType, IITM_MESSES } from '../conversation/types.js';
+import { DailyState, CouponType, MealSessionState, MessPreference } from '../conversation/types.js';
 import { logger } from '../utils/logger.js';
 import { fuzzyMatchMessName } from '../utils/fuzzyMatch.js';
-
-// Lunch cutoff time: 2:10 PM (14:10) - only for real mode
-const LUNCH_CUTOFF_HOUR = 14;
-const LUNCH_CUTOFF_MINUTE = 10;
-
-// Dinner cutoff time: 9:10 PM (21:10) - only for real mode
-const DINNER_CUTOFF_HOUR = 21;
-const DINNER_CUTOFF_MINUTE = 10;
+import { getMessRank, getUnknownMessRank, describeMessPreference } from '../utils/messPreference.js';
+import { getLocalDate, getLocalTime, getTimezone } from '../utils/time.js';
+import { MealSession, getMealSessions, getMealSession, getSessionWindow, formatClock } from './mealSessions.js';
+import { PlannedSession, getDayPlan } from './weeklyPlan.js';
+import { getActiveMessNames, resolveMessName } from './messRegistry.js';
+
+export type SessionStatus = 'bought' | 'paused' | 'skipped' | 'upcoming' | 'needed';
+
+export interface SessionSummary {
+  name: string;
+  label: string;
+  start: string;   // HH:MM in the configured timezone
+  cutoff: string;
+  status: SessionStatus;
+  bought: boolean;
+  paused: boolean;
+  skipReason: string | null; // Why the plan paused it (null = not paused, or paused by hand)
+  preference: MessPreference;
+  maxPrice: number | null; // Today's cap from the "max" command (null = the usual limits)
+}
 
 export class DailyTracker {
   private state: DailyState;
@@ -19,63 +31,108 @@ export class DailyTracker {
     this.state = initialState;
     this.onStateChange = onStateChange;
     this.testMode = testMode;
+    // Sessions missing from a loaded state get their plan quietly; it's saved with the next change
+    if (this.state.date === getLocalDate()) {
+      this.applyPlanToNewSessions();
+    }
     this.checkAndResetIfNewDay();
 
     if (testMode) {
       logger.info('DailyTracker running in TEST MODE - no purchase limits or time restrictions');
     } else {
       logger.info('DailyTracker running in REAL MODE', {
-        lunchCutoff: `${LUNCH_CUTOFF_HOUR}:${LUNCH_CUTOFF_MINUTE.toString().padStart(2, '0')}`,
-        dinnerCutoff: `${DINNER_CUTOFF_HOUR}:${DINNER_CUTOFF_MINUTE.toString().padStart(2, '0')}`
+        sessions: getMealSessions().map(s => `${s.name} ${formatClock(s.start)}-${formatClock(s.cutoff)}`),
+        timezone: getTimezone()
       });
     }
   }
 
   private checkAndResetIfNewDay(): void {
-    const today = new Date().toISOString().split('T')[0];
+    const today = getLocalDate();
     if (this.state.date !== today) {
       logger.info('New day detected, resetting tracker');
       this.state = {
         date: today,
-        lunchBought: false,
-        dinnerBought: false
+        sessions: {}
       };
+      this.applyPlanToNewSessions();
+      this.onStateChange();
+    } else if (this.applyPlanToNewSessions()) {
       this.onStateChange();
     }
   }
 
-  private isLunchTimeOver(): boolean {
-    // No time restrictions in test mode
-    if (this.testMode) return false;
+  // Start every session that has no state yet today from the weekly plan - true if any were added
+  private applyPlanToNewSessions(): boolean {
+    const missing = getMealSessions().filter(s => !this.state.sessions[s.name]);
+    if (missing.length === 0) return false;
 
-    const now = new Date();
-    const currentHour = now.getHours();
-    const currentMinute = now.getMinutes();
+    const plan = getDayPlan(this.state.date);
+    for (const session of missing) {
+      this.applyPlannedSession(session.name, plan[session.name]);
+    }
+    return true;
+  }
 
-    if (currentHour > LUNCH_CUTOFF_HOUR) {
-      return true;
+  private applyPlannedSession(type: CouponType, planned: PlannedSession | undefined): void {
+    const state = this.session(type);
+    if (!planned) return;
+
+    if (planned.mode === 'skip') {
+      state.paused = true;
+      state.skipReason = planned.skipReason;
+      return;
     }
-    if (currentHour === LUNCH_CUTOFF_HOUR && currentMinute >= LUNCH_CUTOFF_MINUTE) {
-      return true;
+
+    // Undo an earlier automatic skip, but leave a manual pause alone
+    if (state.skipReason) {
+      state.paused = false;
+      state.skipReason = undefined;
+    }
+    if (planned.mode === 'buy') {
+      state.messPreference = planned.messPreference;
+      state.preferenceAsked = true;
     }
-    return false;
   }
 
-  private isDinnerTimeOver(): boolean {
-    // No time restrictions in test mode
-    if (this.testMode) return false;
-
-    const now = new Date();
-    const currentHour = now.getHours();
-    const currentMinute = now.getMinutes();
+  // Re-apply today's plan after it was edited (sessions already bought are left alone)
+  applyPlan(type?: CouponType): void {
+    this.checkAndResetIfNewDay();
 
-    if (currentHour > DINNER_CUTOFF_HOUR) {
-      return true;
+    const plan = getDayPlan(this.state.date);
+    for (const session of getMealSessions()) {
+      if ((type && session.name !== type) || this.isBought(session.name)) continue;
+      this.applyPlannedSession(session.name, plan[session.name]);
     }
-    if (currentHour === DINNER_CUTOFF_HOUR && currentMinute >= DINNER_CUTOFF_MINUTE) {
-      return true;
+    logger.info('Weekly plan applied to today', { session: type ?? 'all' });
+    this.onStateChange();
+  }
+
+  // Mutable state for a session, created on first use
+  private session(type: CouponType): MealSessionState {
+    if (!this.state.sessions[type]) {
+      this.state.sessions[type] = { bought: false };
     }
-    return false;
+    return this.state.sessions[type];
+  }
+
+  private isBought(type: CouponType): boolean {
+    return this.state.sessions[type]?.bought === true;
+  }
+
+  private isPaused(type: CouponType): boolean {
+    return this.state.sessions[type]?.paused === true;
+  }
+
+  // Outside the session's start-cutoff window (never in test mode)
+  private isOutsideWindow(session: MealSession): boolean {
+    if (this.testMode) return false;
+    return getSessionWindow(session) !== 'open';
+  }
+
+  private isTimeOver(session: MealSession): boolean {
+    if (this.testMode) return false;
+    return getSessionWindow(session) === 'over';
   }
 
   canBuyCoupon(type: CouponType): boolean {
@@ -86,224 +143,235 @@ export class DailyTracker {
 
     this.checkAndResetIfNewDay();
 
-    if (type === 'lunch') {
-      // Can't buy lunch if already bought, paused, or past time
-      if (this.state.lunchPaused) {
-        logger.debug('Lunch session is PAUSED');
-        return false;
-      }
-      if (this.isLunchTimeOver()) {
-        logger.debug('Lunch time is over (past 2:10 PM)');
-        return false;
-      }
-      return !this.state.lunchBought;
-    } else {
-      // Can't buy dinner if already bought, paused, or past time
-      if (this.state.dinnerPaused) {
-        logger.debug('Dinner session is PAUSED');
-        return false;
-      }
-      if (this.isDinnerTimeOver()) {
-        logger.debug('Dinner time is over (past 9:10 PM)');
-        return false;
-      }
-      return !this.state.dinnerBought;
+    const session = getMealSession(type);
+    if (!session) {
+      logger.debug('Not a configured meal session', { type });
+      return false;
+    }
+
+    // Can't buy if already bought, paused, or outside the session's window
+    if (this.isPaused(type)) {
+      logger.debug(`${session.label} session is PAUSED`);
+      return false;
+    }
+    if (this.isOutsideWindow(session)) {
+      logger.debug(`${session.label} is outside its window (${formatClock(session.start)}-${formatClock(session.cutoff)})`);
+      return false;
     }
+    return !this.isBought(type);
   }
 
   markCouponBought(type: CouponType, conversationId: string): void {
     this.checkAndResetIfNewDay();
 
-    if (type === 'lunch') {
-      this.state.lunchBought = true;
-      this.state.lunchConversationId = conversationId;
-      logger.info('Lunch coupon marked as bought', { conversationId });
-    } else {
-      this.state.dinnerBought = true;
-      this.state.dinnerConversationId = conversationId;
-      logger.info('Dinner coupon marked as bought', { conversationId });
-    }
+    const state = this.session(type);
+    state.bought = true;
+    state.conversationId = conversationId;
+    logger.info(`${this.label(type)} coupon marked as bought`, { conversationId });
 
     this.onStateChange();
   }
 
   getNeededCouponType(): CouponType | null {
-    // In test mode, return based on what's not bought (no time check)
-    if (this.testMode) {
-      if (!this.state.lunchBought) return 'lunch';
-      if (!this.state.dinnerBought) return 'dinner';
-      return null;
-    }
+    this.checkAndResetIfNewDay();
+
+    // First session (by cutoff) that's not bought and still open; in test mode the clock is ignored
+    const needed = getMealSessions().find(s => !this.isBought(s.name) && !this.isOutsideWindow(s));
+    return needed?.name ?? null;
+  }
 
+  getState(): DailyState {
     this.checkAndResetIfNewDay();
+    return { date: this.state.date, sessions: JSON.parse(JSON.stringify(this.state.sessions)) };
+  }
 
-    // Only look for lunch if not bought AND before 2:10 PM
-    if (!this.state.lunchBought && !this.isLunchTimeOver()) {
-      return 'lunch';
-    }
-    // Only look for dinner if not bought AND before 9:10 PM
-    if (!this.state.dinnerBought && !this.isDinnerTimeOver()) {
-      return 'dinner';
+  private getSessionStatus(session: MealSession): SessionStatus {
+    if (this.isBought(session.name)) return 'bought';
+    if (this.isPaused(session.name)) return 'paused';
+    if (!this.testMode) {
+      const window = getSessionWindow(session);
+      if (window === 'over') return 'skipped';
+      if (window === 'before') return 'upcoming';
     }
-    return null;
+    return 'needed';
   }
 
-  getState(): DailyState {
+  // Per-session status for the dashboard and commands
+  getSessionSummaries(): SessionSummary[] {
     this.checkAndResetIfNewDay();
-    return { ...this.state };
+    return getMealSessions().map(session => ({
+      name: session.name,
+      label: session.label,
+      start: formatClock(session.start),
+      cutoff: formatClock(session.cutoff),
+      status: this.getSessionStatus(session),
+      bought: this.isBought(session.name),
+      paused: this.isPaused(session.name),
+      skipReason: (this.isPaused(session.name) && this.state.sessions[session.name]?.skipReason) || null,
+      preference: this.state.sessions[session.name]?.messPreference ?? null,
+      maxPrice: this.state.sessions[session.name]?.maxPrice ?? null
+    }));
   }
 
   getStatus(): string {
     this.checkAndResetIfNewDay();
 
-    let lunch: string;
-    if (this.state.lunchBought) {
-      lunch = 'BOUGHT';
-    } else if (this.state.lunchPaused) {
-      lunch = 'PAUSED';
-    } else if (!this.testMode && this.isLunchTimeOver()) {
-      lunch = 'SKIPPED (past 2:10 PM)';
-    } else {
-      lunch = 'NEEDED';
-    }
-
-    let dinner: string;
-    if (this.state.dinnerBought) {
-      dinner = 'BOUGHT';
-    } else if (this.state.dinnerPaused) {
-      dinner = 'PAUSED';
-    } else if (!this.testMode && this.isDinnerTimeOver()) {
-      dinner = 'SKIPPED (past 9:10 PM)';
-    } else {
-      dinner = 'NEEDED';
-    }
+    const parts = getMealSessions().map(session => {
+      const status = this.getSessionStatus(session);
+      let text = status.toUpperCase();
+      const skipReason = this.state.sessions[session.name]?.skipReason;
+      if (status === 'skipped') {
+        text += ` (past ${formatClock(session.cutoff)})`;
+      } else if (status === 'paused' && skipReason) {
+        text += ` (${skipReason})`;
+      } else if (status === 'upcoming') {
+        text += ` (from ${formatClock(session.start)})`;
+      }
+      const maxPrice = this.state.sessions[session.name]?.maxPrice;
+      if (maxPrice !== undefined && (status === 'needed' || status === 'upcoming')) {
+        text += ` ≤₹${maxPrice}`;
+      }
+      return `${session.label}: ${text}`;
+    });
 
     const modeLabel = this.testMode ? ' [TEST]' : '';
-    return `[${this.state.date}]${modeLabel} Lunch: ${lunch} | Dinner: ${dinner}`;
+    return `[${this.state.date}]${modeLabel} ${parts.join(' | ')}`;
   }
 
   // Check if it's morning (12am - 12pm)
   isMorning(): boolean {
-    const now = new Date();
-    return now.getHours() < 12;
+    return getLocalTime().hour < 12;
   }
 
-  // Check if lunch preference has been asked today
-  needsLunchPreference(): boolean {
+  // Check if a preference still needs to be asked today
+  needsPreference(type: CouponType): boolean {
     this.checkAndResetIfNewDay();
-    return !this.state.lunchPreferenceAsked && !this.state.lunchBought;
+    return !this.state.sessions[type]?.preferenceAsked && !this.isBought(type);
   }
 
-  // Check if dinner preference has been asked today
-  needsDinnerPreference(): boolean {
-    this.checkAndResetIfNewDay();
-    return !this.state.dinnerPreferenceAsked && !this.state.dinnerBought;
+  // Next session (in order) whose preference hasn't been asked yet today (paused/skipped ones don't need asking)
+  getNextPreferenceToAsk(): CouponType | null {
+    const session = getMealSessions().find(s =>
+      this.needsPreference(s.name) && !this.isPaused(s.name) && !this.isTimeOver(s)
+    );
+    return session?.name ?? null;
   }
 
-  // Set lunch preference (array of mess names, null = any)
-  setLunchPreference(messNames: string[] | null): void {
+  // Set preference for a session (ranked messes, null = any)
+  setPreference(type: CouponType, preference: MessPreference): void {
     this.checkAndResetIfNewDay();
-    this.state.lunchMessPreference = messNames;
-    this.state.lunchPreferenceAsked = true;
-    logger.info('Lunch preference set', { preference: messNames || 'any' });
+    const state = this.session(type);
+    state.messPreference = preference;
+    state.preferenceAsked = true;
+    logger.info(`${this.label(type)} preference set`, { preference: describeMessPreference(preference) });
     this.onStateChange();
   }
 
-  // Set dinner preference (array of mess names, null = any)
-  setDinnerPreference(messNames: string[] | null): void {
+  // Get preference for a coupon type (null = any); names saved before a mess was renamed resolve to the new name
+  getPreference(type: CouponType): MessPreference {
     this.checkAndResetIfNewDay();
-    this.state.dinnerMessPreference = messNames;
-    this.state.dinnerPreferenceAsked = true;
-    logger.info('Dinner preference set', { preference: messNames || 'any' });
-    this.onStateChange();
+    const preference = this.state.sessions[type]?.messPreference ?? null;
+    return preference?.map(c => ({ ...c, mess: resolveMessName(c.mess) })) ?? null;
   }
 
-  // Get lunch preference (null = any)
-  getLunchPreference(): string[] | null {
+  // Cap what we pay for a session today only (null = back to the usual limits); a mess's own max price still wins
+  setMaxPrice(type: CouponType, maxPrice: number | null): void {
     this.checkAndResetIfNewDay();
-    return this.state.lunchMessPreference ?? null;
+    this.session(type).maxPrice = maxPrice ?? undefined;
+    logger.info(`${this.label(type)} max price set for today`, { maxPrice });
+    this.onStateChange();
   }
 
-  // Get dinner preference (null = any)
-  getDinnerPreference(): string[] | null {
+  getMaxPrice(type: CouponType): number | undefined {
     this.checkAndResetIfNewDay();
-    return this.state.dinnerMessPreference ?? null;
+    return this.state.sessions[type]?.maxPrice;
   }
 
-  // Get preference for a coupon type
-  getPreference(type: CouponType): string[] | null {
-    return type === 'lunch' ? this.getLunchPreference() : this.getDinnerPreference();
+  private label(type: CouponType): string {
+    return getMealSession(type)?.label ?? type;
   }
 
   // Generate the preference message
   static generatePreferenceMessage(type: CouponType): string {
-    const mealType = type === 'lunch' ? 'LUNCH' : 'DINNER';
+    const mealType = (getMealSession(type)?.label ?? type).toUpperCase();
     let message = `🍽️ ${mealType} MESS PREFERENCE\n\n`;
-    message += `Which mess do you prefer for ${type} today?\n\n`;
+    message += `Which messes do you want for ${type} today?\n\n`;
     message += `0. Any (no preference)\n`;
 
-    IITM_MESSES.forEach((mess, index) => {
+    getActiveMessNames().forEach((mess, index) => {
       message += `${index + 1}. ${mess}\n`;
     });
 
-    message += `\nReply with the number only.`;
+    message += `\nReply with the number, or several in order of preference (best first).`;
+    message += `\nAdd a max price with a colon, e.g. ${DailyTracker.preferenceExample()}.`;
     return message;
   }
 
-  // Parse preference response (index number)
-  static parsePreferenceResponse(response: string): string | null {
-    const trimmed = response.trim();
-    const index = parseInt(trimmed, 10);
+  // '"3:80 1:60" = Firstman up to ₹80, else SGR up to ₹60', built from the messes in the menu
+  static preferenceExample(messes: string[] = getActiveMessNames()): string {
+    if (messes.length < 2) {
+      return `"1:80" = ${messes[0] ?? 'the first mess'} up to ₹80`;
+    }
+    const first = Math.min(3, messes.length);
+    return `"${first}:80 1:60" = ${messes[first - 1]} up to ₹80, else ${messes[0]} up to ₹60`;
+  }
 
-    if (isNaN(index)) {
-      return undefined as any; // Invalid response
+  /**
+   * Parse a preference reply: "0" = any, "3" = one mess, "3 1" = ranked, "3:80 1:60" = ranked with max prices
+   * Returns undefined if the reply isn't valid
+   */
+  static parsePreferenceResponse(response: string): MessPreference | undefined {
+    const tokens = response.trim().split(/[\s,>]+/).filter(Boolean);
+    if (tokens.length === 0) {
+      return undefined;
     }
 
-    if (index === 0) {
+    if (tokens.length === 1 && tokens[0] === '0') {
       return null; // "Any" preference
     }
 
-    if (index >= 1 && index <= IITM_MESSES.length) {
-      return IITM_MESSES[index - 1];
+    // Numbers refer to the menu we sent: today's active messes
+    const messes = getActiveMessNames();
+    const preference: NonNullable<MessPreference> = [];
+    for (const token of tokens) {
+      const match = /^(\d+)(?::(\d+))?$/.exec(token);
+      const index = match ? parseInt(match[1], 10) : NaN;
+      if (!match || index < 1 || index > messes.length) {
+        return undefined; // Invalid index
+      }
+
+      const mess = messes[index - 1];
+      if (preference.some(c => c.mess === mess)) continue;
+      preference.push(match[2] ? { mess, maxPrice: parseInt(match[2], 10) } : { mess });
     }
 
-    return undefined as any; // Invalid index
+    return preference;
   }
 
   /**
-   * Check if a sell message matches any of the preferences
-   * Uses fuzzy matching to handle spelling mistakes in the message
+   * Rank a sell message against the session's preference (0 = first choice, -1 = a mess we don't want)
+   * Posts that don't name a mess rank after every wanted mess; uses fuzzy matching for spelling mistakes
    */
-  matchesPreference(type: CouponType, sellMessage: string): boolean {
-    const preferences = this.getPreference(type);
-
-    // If preference is "any" (null or empty), match everything
-    if (preferences === null || preferences.length === 0) {
-      return true;
-    }
-
-    // Use fuzzy matching to detect mess name in the message
+  rankSellMessage(type: CouponType, sellMessage: string): { rank: number; messName: string | null } {
+    const preference = this.getPreference(type);
     const matchResult = fuzzyMatchMessName(sellMessage);
+    const messName = matchResult.matched ? matchResult.correctedName : null;
 
-    if (!matchResult.matched || !matchResult.correctedName) {
-      // No mess name detected in message - can't determine match
-      // Return false to skip, state machine will ask seller for mess name
-      return false;
-    }
-
-    // Log if auto-correction happened
-    if (matchResult.distance > 0) {
+    if (messName && matchResult.distance > 0) {
       logger.info('Mess name auto-corrected for preference check', {
         original: matchResult.originalWord,
-        corrected: matchResult.correctedName,
+        corrected: messName,
         distance: matchResult.distance
       });
     }
 
-    // Check if the corrected mess name matches any preference
-    return preferences.some(
-      pref => pref.toLowerCase() === matchResult.correctedName!.toLowerCase()
-    );
+    if (!preference) {
+      return { rank: 0, messName };
+    }
+    if (!messName) {
+      return { rank: getUnknownMessRank(preference), messName };
+    }
+    return { rank: getMessRank(preference, messName), messName };
   }
 
   /**
@@ -318,75 +386,63 @@ export class DailyTracker {
   // Pause a session (stop finding coupons for this type)
   pauseSession(type: CouponType): void {
     this.checkAndResetIfNewDay();
-    if (type === 'lunch') {
-      this.state.lunchPaused = true;
-      logger.info('Lunch session PAUSED');
-    } else {
-      this.state.dinnerPaused = true;
-      logger.info('Dinner session PAUSED');
-    }
+    const state = this.session(type);
+    state.paused = true;
+    state.skipReason = undefined;
+    logger.info(`${this.label(type)} session PAUSED`);
     this.onStateChange();
   }
 
   // Resume a session (start finding coupons for this type again)
   resumeSession(type: CouponType): void {
     this.checkAndResetIfNewDay();
-    if (type === 'lunch') {
-      this.state.lunchPaused = false;
-      logger.info('Lunch session RESUMED');
-    } else {
-      this.state.dinnerPaused = false;
-      logger.info('Dinner session RESUMED');
-    }
+    const state = this.session(type);
+    state.paused = false;
+    state.skipReason = undefined;
+    logger.info(`${this.label(type)} session RESUMED`);
     this.onStateChange();
   }
 
   // Check if a session is paused
   isSessionPaused(type: CouponType): boolean {
     this.checkAndResetIfNewDay();
-    if (type === 'lunch') {
-      return this.state.lunchPaused === true;
-    } else {
-      return this.state.dinnerPaused === true;
-    }
+    return this.isPaused(type);
   }
 
   // Force reset a session (clears bought status and resumes searching)
   forceResetSession(type: CouponType): void {
     this.checkAndResetIfNewDay();
-    if (type === 'lunch') {
-      this.state.lunchBought = false;
-      this.state.lunchPaused = false;
-      this.state.lunchConversationId = undefined;
-      logger.info('Lunch session FORCE RESET - now searching for lunch coupon');
-    } else {
-      this.state.dinnerBought = false;
-      this.state.dinnerPaused = false;
-      this.state.dinnerConversationId = undefined;
-      logger.info('Dinner session FORCE RESET - now searching for dinner coupon');
-    }
+    const state = this.session(type);
+    state.bought = false;
+    state.paused = false;
+    state.skipReason = undefined;
+    state.conversationId = undefined;
+    logger.info(`${this.label(type)} session FORCE RESET - now searching for ${type} coupon`);
     this.onStateChange();
   }
 
+  // Force reset every configured session
+  forceResetAllSessions(): void {
+    for (const session of getMealSessions()) {
+      this.forceResetSession(session.name);
+    }
+  }
+
   // Manually mark a session as bought (without a conversation)
   markSessionBought(type: CouponType): void {
     this.checkAndResetIfNewDay();
-    if (type === 'lunch') {
-      this.state.lunchBought = true;
-      this.state.lunchPaused = false;
-      logger.info('Lunch session manually marked as BOUGHT');
-    } else {
-      this.state.dinnerBought = true;
-      this.state.dinnerPaused = false;
-      logger.info('Dinner session manually marked as BOUGHT');
-    }
+    const state = this.session(type);
+    state.bought = true;
+    state.paused = false;
+    state.skipReason = undefined;
+    logger.info(`${this.label(type)} session manually marked as BOUGHT`);
     this.onStateChange();
   }
 
   // Check if a session is bought
   isSessionBought(type: CouponType): boolean {
     this.checkAndResetIfNewDay();
-    return type === 'lunch' ? this.state.lunchBought : this.state.dinnerBought;
+    return this.isBought(type);
   }
 
   // Toggle session status (bought <-> needed)
@@ -408,22 +464,14 @@ export class DailyTracker {
 
     // In test mode, return based on what's not bought
     if (this.testMode) {
-      if (!this.state.lunchBought) return 'lunch';
-      if (!this.state.dinnerBought) return 'dinner';
-      return null;
-    }
-
-    // Check lunch session
-    if (!this.state.lunchBought && !this.state.lunchPaused && !this.isLunchTimeOver()) {
-      return 'lunch';
-    }
-
-    // Check dinner session
-    if (!this.state.dinnerBought && !this.state.dinnerPaused && !this.isDinnerTimeOver()) {
-      return 'dinner';
+      return getMealSessions().find(s => !this.isBought(s.name))?.name ?? null;
     }
 
-    return null;
+    // First session (by cutoff) that's not bought, not paused and still open
+    const current = getMealSessions().find(s =>
+      !this.isBought(s.name) && !this.isPaused(s.name) && !this.isOutsideWindow(s)
+    );
+    return current?.name ?? null;
   }
 
   // Stop current session and move to next
@@ -436,15 +484,8 @@ export class DailyTracker {
 
     this.pauseSession(currentSession);
 
-    // Determine next session
-    let nextSession: CouponType | null = null;
-    if (currentSession === 'lunch') {
-      // Check if dinner is available
-      if (!this.state.dinnerBought && !this.state.dinnerPaused && !this.isDinnerTimeOver()) {
-        nextSession = 'dinner';
-      }
-    }
-    // If dinner was stopped, no next session today
+    // The next session is whatever is active now that this one is paused
+    const nextSession = this.getCurrentSession();
 
     return { stoppedSession: currentSession, nextSession };
   }
@@ -453,16 +494,13 @@ export class DailyTracker {
   startSession(): { startedSession: CouponType | null } {
     this.checkAndResetIfNewDay();
 
-    // Try to resume lunch first if it was paused and still valid
-    if (this.state.lunchPaused && !this.state.lunchBought && !this.isLunchTimeOver()) {
-      this.resumeSession('lunch');
-      return { startedSession: 'lunch' };
-    }
-
-    // Try to resume dinner if it was paused and still valid
-    if (this.state.dinnerPaused && !this.state.dinnerBought && !this.isDinnerTimeOver()) {
-      this.resumeSession('dinner');
-      return { startedSession: 'dinner' };
+    // Resume the first paused session that's not bought and still valid
+    const paused = getMealSessions().find(s =>
+      this.isPaused(s.name) && !this.isBought(s.name) && !this.isTimeOver(s)
+    );
+    if (paused) {
+      this.resumeSession(paused.name);
+      return { startedSession: paused.name };
     }
 
     // Check if there's an active session already
@@ -472,11 +510,10 @@ export class DailyTracker {
 
   // Reset all state (for new user login)
   reset(): void {
-    const today = new Date().toISOString().split('T')[0];
+    const today = getLocalDate();
     this.state = {
       date: today,
-      lunchBought: false,
-      dinnerBought: false
+      sessions: {}
     };
     logger.info('DailyTracker state reset for new user');
     this.onStateChange();
@@ -3,6 +3,8 @@ import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import { CouponType } from '../conversation/types.js';
 import { logger } from '../utils/logger.js';
+import { getLocalDate, getLocalTime } from '../utils/time.js';
+import { getClock } from '../utils/clock.js';
 import { getCurrentAccountId } from './persistence.js';
 import {
   saveDeal,
@@ -34,19 +36,23 @@ export interface DealRecord {
   failureReason?: string;
   couponImagePath?: string;  // Relative path to coupon image
   refundReceived?: boolean;
+  qrPayload?: string;  // Decoded QR of the accepted coupon
+  flagReason?: string;  // Set when the coupon matched one we'd already seen
 }
 
 export function saveCouponImage(
   couponType: CouponType,
   imageBuffer: Buffer,
   sellerName: string,
-  dealId?: string
+  dealId?: string,
+  qrPayload?: string
 ): string | null {
   try {
     const accountId = getCurrentAccountId();
-    const now = new Date();
-    const dateStr = now.toISOString().split('T')[0];
-    const timeStr = now.toTimeString().split(' ')[0].replace(/:/g, '-');
+    const now = new Date(getClock().now());
+    const dateStr = getLocalDate(now);
+    const { hour, minute } = getLocalTime(now);
+    const timeStr = `${String(hour).padStart(2, '0')}-${String(minute).padStart(2, '0')}-${String(now.getSeconds()).padStart(2, '0')}`;
     const safeSeller = sellerName.replace(/[^a-zA-Z0-9]/g, '_').substring(0, 20);
 
     // Include account ID prefix for privacy/isolation
@@ -61,7 +67,7 @@ export function saveCouponImage(
     // Create database record with 2-day expiry
     if (accountId) {
       try {
-        dbSaveCouponImage(accountId, filename, couponType, sellerName, dealId, 2);
+        dbSaveCouponImage(accountId, filename, couponType, sellerName, dealId, 2, qrPayload);
         logger.debug('Coupon image record created', { filename, expiresInDays: 2 });
       } catch (error: any) {
         // Log but don't fail if DB record creation fails
@@ -83,14 +89,16 @@ export function recordSuccessfulDeal(
   sellerId: string,
   price: number,
   messName?: string,
-  couponImageFilename?: string
+  couponImageFilename?: string,
+  qrPayload?: string,
+  flagReason?: string
 ): DealRecord {
   const accountId = getCurrentAccountId();
 
-  const now = new Date();
+  const now = new Date(getClock().now());
   const record: DealRecord = {
     id: conversationId,
-    date: now.toISOString().split('T')[0],
+    date: getLocalDate(now),
     timestamp: now.toISOString(),
     couponType,
     sellerName,
@@ -98,7 +106,9 @@ export function recordSuccessfulDeal(
     price,
     messName,
     status: 'success',
-    couponImagePath: couponImageFilename
+    couponImagePath: couponImageFilename,
+    qrPayload,
+    flagReason
   };
 
   // Save to database
@@ -132,10 +142,10 @@ export function recordFailedDeal(
 ): DealRecord {
   const accountId = getCurrentAccountId();
 
-  const now = new Date();
+  const now = new Date(getClock().now());
   const record: DealRecord = {
     id: conversationId,
-    date: now.toISOString().split('T')[0],
+    date: getLocalDate(now),
     timestamp: now.toISOString(),
     couponType,
     sellerName,
@@ -182,8 +192,7 @@ export function getStats(days: number = 30): {
   successfulDeals: number;
   failedDeals: number;
   totalSpent: number;
-  lunchCount: number;
-  dinnerCount: number;
+  countsByType: Record<string, number>;
 } {
   const accountId = getCurrentAccountId();
 
@@ -193,8 +202,7 @@ export function getStats(days: number = 30): {
       successfulDeals: 0,
       failedDeals: 0,
       totalSpent: 0,
-      lunchCount: 0,
-      dinnerCount: 0
+      countsByType: {}
     };
   }
 
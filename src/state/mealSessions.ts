@@ -0,0 +1,131 @@
+import { getConfig, MealSessionConfig } from '../utils/config.js';
+import { getLocalTime } from '../utils/time.js';
+import { now } from '../utils/clock.js';
+import { logger } from '../utils/logger.js';
+
+export interface MealSession {
+  name: string;
+  label: string;
+  start: number;   // Minutes after local midnight
+  cutoff: number;  // Minutes after local midnight
+  maxPrice?: number;
+  targetPrice?: number;
+  keywords: string[];
+}
+
+// What the bot did before sessions were configurable: look for lunch until 2:10 PM, dinner until 9:10 PM
+const DEFAULT_MEALS: MealSessionConfig[] = [
+  { name: 'lunch', start: '00:00', cutoff: '14:10' },
+  { name: 'dinner', start: '00:00', cutoff: '21:10' }
+];
+
+// Names that would collide with other keys (pricePolicy.dayOverrides)
+const RESERVED_NAMES = ['dayoverrides'];
+
+let cachedSource: MealSessionConfig[] | undefined;
+let cachedSessions: MealSession[] = [];
+
+// "HH:MM" -> minutes after midnight, null if malformed
+function parseClock(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value?.trim() ?? '');
+  if (!match) return null;
+  const hour = parseInt(match[1], 10);
+  const minute = parseInt(match[2], 10);
+  if (hour > 23 || minute > 59) return null;
+  return hour * 60 + minute;
+}
+
+// Minutes after midnight -> "HH:MM"
+export function formatClock(minutes: number): string {
+  return `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+}
+
+function toSession(meal: MealSessionConfig): MealSession | null {
+  const name = meal.name?.trim().toLowerCase();
+  const start = parseClock(meal.start);
+  const cutoff = parseClock(meal.cutoff);
+
+  if (!name || !/^[a-z][a-z0-9_-]*$/.test(name) || RESERVED_NAMES.includes(name)) {
+    logger.warn('Ignoring meal session with invalid name', { meal });
+    return null;
+  }
+  if (start === null || cutoff === null || start >= cutoff) {
+    logger.warn(`Ignoring meal session "${name}": start/cutoff must be HH:MM with start before cutoff`, { meal });
+    return null;
+  }
+
+  return {
+    name,
+    label: meal.label || name.charAt(0).toUpperCase() + name.slice(1),
+    start,
+    cutoff,
+    maxPrice: meal.maxPrice,
+    targetPrice: meal.targetPrice,
+    keywords: (meal.keywords && meal.keywords.length > 0 ? meal.keywords : [name]).map(k => k.toLowerCase())
+  };
+}
+
+/**
+ * Enabled meal sessions from config, ordered by cutoff (the order we look for them in a day)
+ * Falls back to lunch + dinner when `meals` is missing or has no usable entries
+ */
+export function getMealSessions(): MealSession[] {
+  const source = getConfig().meals;
+  if (source === cachedSource && cachedSessions.length > 0) {
+    return cachedSessions;
+  }
+
+  const seen = new Set<string>();
+  let sessions: MealSession[] = [];
+  for (const meal of source ?? DEFAULT_MEALS) {
+    if (meal.enabled === false) continue;
+    const session = toSession(meal);
+    if (!session) continue;
+    if (seen.has(session.name)) {
+      logger.warn(`Ignoring duplicate meal session "${session.name}"`);
+      continue;
+    }
+    seen.add(session.name);
+    sessions.push(session);
+  }
+
+  if (sessions.length === 0) {
+    logger.warn('No usable meal sessions in config, using lunch and dinner');
+    sessions = DEFAULT_MEALS.map(meal => toSession(meal)!);
+  }
+
+  cachedSource = source;
+  cachedSessions = sessions.sort((a, b) => a.cutoff - b.cutoff || a.start - b.start);
+  return cachedSessions;
+}
+
+export function getMealSession(name: string): MealSession | null {
+  return getMealSessions().find(s => s.name === name) ?? null;
+}
+
+export function isMealName(name: unknown): name is string {
+  return typeof name === 'string' && getMealSession(name) !== null;
+}
+
+export function getMealLabel(name: string): string {
+  return getMealSession(name)?.label ?? name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+// Where the current local time falls relative to a session's window
+export function getSessionWindow(session: MealSession, date: Date = now()): 'before' | 'open' | 'over' {
+  const { hour, minute } = getLocalTime(date);
+  const now = hour * 60 + minute;
+  if (now < session.start) return 'before';
+  if (now >= session.cutoff) return 'over';
+  return 'open';
+}
+
+// Meal sessions a message mentions, matched on whole words
+export function findMentionedMeals(message: string): string[] {
+  const lowerMessage = message.toLowerCase();
+  return getMealSessions()
+    .filter(session => session.keywords.some(keyword =>
+      new RegExp(`\\b${keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`).test(lowerMessage)
+    ))
+    .map(session => session.name);
+}
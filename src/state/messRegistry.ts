@@ -0,0 +1,199 @@
+import { getLocalDate } from '../utils/time.js';
+import { logger } from '../utils/logger.js';
+import {
+  MessRecord,
+  MessInput,
+  getMessRecords,
+  countMessRecords,
+  insertMess,
+  updateMessRecord,
+  deleteMessRecord,
+  insertMessAlias,
+  deleteMessAlias
+} from '../database/repositories/messRepository.js';
+
+export type { MessRecord, MessInput };
+
+/**
+ * The IITM messes the registry starts with (and falls back to if the database can't be read)
+ *
+ * NOTE: SGR and SRR are only 1 character apart, so fuzzy matching is off for both and they
+ * get distinct aliases instead
+ */
+const DEFAULT_MESSES: MessInput[] = [
+  { name: 'SGR', fuzzyMatch: false, activeFrom: null, activeUntil: null, aliases: ['sagar', 'sagr'] },
+  { name: 'SRR', fuzzyMatch: false, activeFrom: null, activeUntil: null, aliases: ['south', 'south mess', 'southmess'] },
+  {
+    name: 'Firstman', fuzzyMatch: true, activeFrom: null, activeUntil: null,
+    aliases: ['first man', '1st man', '1stman', 'firstmen', 'fristman', 'firstmam', 'fisrtman', 'firsrman', 'firstmsn']
+  },
+  { name: 'Prism', fuzzyMatch: true, activeFrom: null, activeUntil: null, aliases: ['prizm', 'prismm', 'prisim'] },
+  {
+    name: 'Neelkesh', fuzzyMatch: true, activeFrom: null, activeUntil: null,
+    aliases: ['nilkesh', 'neelksh', 'neelkes', 'neelkash', 'neelkessh', 'neelkech', 'neel', 'nilesh']
+  },
+  {
+    name: 'Food Sutra', fuzzyMatch: true, activeFrom: null, activeUntil: null,
+    aliases: ['foodsutra', 'food sutr', 'food suthra', 'fs', 'foodsuthra', 'food stura', 'foodstura', 'foof sutra', 'food suutra']
+  },
+  {
+    name: 'Vindhya', fuzzyMatch: true, activeFrom: null, activeUntil: null,
+    aliases: ['vindya', 'vindhaya', 'vindhiya', 'vindh', 'vindhyaa', 'vindhay', 'vindhys', 'vundhya']
+  }
+];
+
+const DEFAULT_RECORDS: MessRecord[] = DEFAULT_MESSES.map((mess, index) => ({
+  id: 0,
+  name: mess.name,
+  aliases: mess.aliases ?? [],
+  fuzzyMatch: mess.fuzzyMatch,
+  activeFrom: mess.activeFrom,
+  activeUntil: mess.activeUntil,
+  sortOrder: index + 1
+}));
+
+// The registry is read on every sell post, so it's cached until an edit goes through this module
+let cachedMesses: MessRecord[] | null = null;
+let loggedFallback = false;
+
+function loadMesses(): MessRecord[] {
+  if (cachedMesses) {
+    return cachedMesses;
+  }
+
+  try {
+    // An empty registry (new database) starts from the built-in list
+    if (countMessRecords() === 0) {
+      DEFAULT_MESSES.forEach(mess => insertMess(mess));
+      logger.info(`Seeded mess registry with ${DEFAULT_MESSES.length} messes`);
+    }
+    cachedMesses = getMessRecords();
+    loggedFallback = false;
+    return cachedMesses;
+  } catch (error) {
+    if (!loggedFallback) {
+      logger.error('Failed to load mess registry, using the built-in messes', error);
+      loggedFallback = true;
+    }
+    return DEFAULT_RECORDS;
+  }
+}
+
+function isActive(mess: MessRecord, date: string): boolean {
+  return (!mess.activeFrom || mess.activeFrom <= date) && (!mess.activeUntil || mess.activeUntil >= date);
+}
+
+// The built-in IITM messes, regardless of what's in the database (used by offline tools)
+export function getBuiltInMesses(): MessRecord[] {
+  return DEFAULT_RECORDS;
+}
+
+// Every mess in the registry, including ones outside their active dates
+export function getMesses(): MessRecord[] {
+  return loadMesses();
+}
+
+// Messes serving on a date (defaults to today), in menu order
+export function getActiveMesses(date: string = getLocalDate()): MessRecord[] {
+  return loadMesses().filter(mess => isActive(mess, date));
+}
+
+export function getActiveMessNames(date?: string): string[] {
+  return getActiveMesses(date).map(mess => mess.name);
+}
+
+// Look a mess up by its name or one of its aliases, case-insensitively
+export function findMess(nameOrAlias: string): MessRecord | null {
+  const lower = nameOrAlias.trim().toLowerCase();
+  return loadMesses().find(mess => mess.name.toLowerCase() === lower)
+    ?? loadMesses().find(mess => mess.aliases.includes(lower))
+    ?? null;
+}
+
+// Canonical name for a mess name or alias (e.g. a preference saved before a rename); unknown names come back unchanged
+export function resolveMessName(nameOrAlias: string): string {
+  return findMess(nameOrAlias)?.name ?? nameOrAlias;
+}
+
+export function getMessById(id: number): MessRecord | null {
+  return loadMesses().find(mess => mess.id === id) ?? null;
+}
+
+// Add a mess - returns it, or null if it couldn't be saved
+export function createMess(input: MessInput): MessRecord | null {
+  try {
+    const id = insertMess(input);
+    cachedMesses = null;
+    logger.info('Mess added to registry', { name: input.name });
+    return getMessById(id);
+  } catch (error) {
+    logger.error('Failed to add mess', { name: input.name, error });
+    return null;
+  }
+}
+
+/**
+ * Update a mess; on a rename the old name is kept as an alias, so posts and saved
+ * preferences that use it still resolve to the mess
+ */
+export function updateMess(id: number, input: MessInput): boolean {
+  const existing = getMessById(id);
+  if (!existing) {
+    return false;
+  }
+
+  try {
+    const updated = updateMessRecord(id, input);
+    if (updated && existing.name.toLowerCase() !== input.name.toLowerCase()) {
+      insertMessAlias(id, existing.name);
+    }
+    cachedMesses = null;
+    logger.info('Mess updated', { id, name: input.name });
+    return updated;
+  } catch (error) {
+    logger.error('Failed to update mess', { id, error });
+    return false;
+  }
+}
+
+export function deleteMess(id: number): boolean {
+  try {
+    const deleted = deleteMessRecord(id);
+    cachedMesses = null;
+    if (deleted) {
+      logger.info('Mess removed from registry', { id });
+    }
+    return deleted;
+  } catch (error) {
+    logger.error('Failed to remove mess', { id, error });
+    return false;
+  }
+}
+
+// Add an alias - false if the mess doesn't exist or the alias is already taken
+export function addMessAlias(id: number, alias: string): boolean {
+  const lower = alias.trim().toLowerCase();
+  if (!lower || !getMessById(id) || findMess(lower)) {
+    return false;
+  }
+
+  try {
+    const added = insertMessAlias(id, lower);
+    cachedMesses = null;
+    return added;
+  } catch (error) {
+    logger.error('Failed to add mess alias', { id, alias: lower, error });
+    return false;
+  }
+}
+
+export function removeMessAlias(id: number, alias: string): boolean {
+  try {
+    const removed = deleteMessAlias(id, alias);
+    cachedMesses = null;
+    return removed;
+  } catch (error) {
+    logger.error('Failed to remove mess alias', { id, alias, error });
+    return false;
+  }
+}
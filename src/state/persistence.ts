@@ -1,5 +1,7 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import { DailyState, Conversation } from '../conversation/types.js';
 import { logger } from '../utils/logger.js';
+import { getLocalDate } from '../utils/time.js';
 import {
   upsertUser,
   saveDailyState as dbSaveDailyState,
@@ -10,15 +12,45 @@ import {
   getProcessedMessages as dbGetProcessedMessages
 } from '../database/index.js';
 
-// Current account identifier (phone number hash for privacy)
+/**
+ * Several WhatsApp accounts can run in one process, each with its own bot. Everything a bot does runs
+ * inside its AccountScope (runInAccount), so the state modules keep calling getCurrentAccountId() and get
+ * that bot's account. Code outside any scope (offline tools) falls back to the process-wide account
+ */
+export interface AccountScope {
+  key: string;              // Configured account id (config.accounts[].id), known before WhatsApp login
+  accountId: string | null; // Phone number hash, set once this account's WhatsApp is logged in
+}
+
+const accountStorage = new AsyncLocalStorage<AccountScope>();
+
+// Account identifier outside any scope (phone number hash for privacy)
 let currentAccountId: string | null = null;
 
+export function createAccountScope(key: string): AccountScope {
+  return { key, accountId: null };
+}
+
+// Run fn (and everything it schedules or awaits) as this account
+export function runInAccount<T>(scope: AccountScope, fn: () => T): T {
+  return accountStorage.run(scope, fn);
+}
+
+// The scope we're running in, if any
+export function getAccountScope(): AccountScope | undefined {
+  return accountStorage.getStore();
+}
+
+// Key for in-memory state that must stay apart per account, even before login
+export function getAccountKey(): string {
+  return accountStorage.getStore()?.key ?? '';
+}
+
 function getDefaultDailyState(): DailyState {
-  const today = new Date().toISOString().split('T')[0];
+  const today = getLocalDate();
   return {
     date: today,
-    lunchBought: false,
-    dinnerBought: false
+    sessions: {}
   };
 }
 
@@ -36,35 +68,47 @@ function hashPhone(phone: string): string {
 // Set the current account (call this when WhatsApp client is ready)
 export function setCurrentAccount(phoneNumber: string): void {
   const newAccountId = hashPhone(phoneNumber);
+  const previousAccountId = getCurrentAccountId();
 
-  if (currentAccountId && currentAccountId !== newAccountId) {
+  if (previousAccountId && previousAccountId !== newAccountId) {
     logger.info('Account changed, will load new account data', {
-      oldAccount: currentAccountId.substring(0, 4) + '...',
+      oldAccount: previousAccountId.substring(0, 4) + '...',
       newAccount: newAccountId.substring(0, 4) + '...'
     });
   }
 
-  currentAccountId = newAccountId;
+  const scope = accountStorage.getStore();
+  if (scope) {
+    scope.accountId = newAccountId;
+  } else {
+    currentAccountId = newAccountId;
+  }
 
   // Create/update user record in database
-  upsertUser(currentAccountId);
+  upsertUser(newAccountId);
 
-  logger.info('Current account set', { accountId: currentAccountId.substring(0, 4) + '...' });
+  logger.info('Current account set', { accountId: newAccountId.substring(0, 4) + '...', scope: scope?.key });
 }
 
-// Get current account ID
+// Get current account ID (the scope's account when running in one)
 export function getCurrentAccountId(): string | null {
-  return currentAccountId;
+  const scope = accountStorage.getStore();
+  return scope ? scope.accountId : currentAccountId;
 }
 
 // Clear current account (on logout)
 export function clearCurrentAccount(): void {
-  currentAccountId = null;
-  logger.info('Current account cleared');
+  const scope = accountStorage.getStore();
+  if (scope) {
+    scope.accountId = null;
+  } else {
+    currentAccountId = null;
+  }
+  logger.info('Current account cleared', { scope: scope?.key });
 }
 
 export function loadState(accountId?: string): { dailyState: DailyState; conversations: Map<string, Conversation>; processedMessageIds: Set<string> } {
-  const targetAccountId = accountId || currentAccountId;
+  const targetAccountId = accountId || getCurrentAccountId();
 
   // If no account is set, return empty state
   if (!targetAccountId) {
@@ -86,7 +130,7 @@ export function loadState(accountId?: string): { dailyState: DailyState; convers
       dailyState = getDefaultDailyState();
     } else {
       // Check if it's a new day
-      const today = new Date().toISOString().split('T')[0];
+      const today = getLocalDate();
       if (storedState.date !== today) {
         logger.info('New day detected, resetting daily state');
         dailyState = getDefaultDailyState();
@@ -128,25 +172,26 @@ export function saveState(
   processedMessageIds: Set<string>
 ): void {
   // Don't save if no account is set
-  if (!currentAccountId) {
+  const accountId = getCurrentAccountId();
+  if (!accountId) {
     logger.debug('No account set, skipping state save');
     return;
   }
 
   try {
     // Save daily state to database
-    dbSaveDailyState(currentAccountId, dailyState);
+    dbSaveDailyState(accountId, dailyState);
 
     // Save conversations to database
-    dbSaveConversations(currentAccountId, conversations);
+    dbSaveConversations(accountId, conversations);
 
     // Save new processed message IDs (addProcessedMessages handles duplicates)
     const messageIdArray = Array.from(processedMessageIds);
     if (messageIdArray.length > 0) {
-      addProcessedMessages(currentAccountId, messageIdArray);
+      addProcessedMessages(accountId, messageIdArray);
     }
 
-    logger.debug('State saved for account', { accountId: currentAccountId.substring(0, 4) + '...' });
+    logger.debug('State saved for account', { accountId: accountId.substring(0, 4) + '...' });
   } catch (error) {
     logger.error('Failed to save state', error);
   }
@@ -155,5 +200,5 @@ export function saveState(
 // Load state for a specific account (used when client becomes ready)
 export function loadStateForAccount(phoneNumber: string): { dailyState: DailyState; conversations: Map<string, Conversation>; processedMessageIds: Set<string> } {
   setCurrentAccount(phoneNumber);
-  return loadState(currentAccountId!);
+  return loadState(getCurrentAccountId()!);
 }
@@ -0,0 +1,89 @@
+import { getCurrentAccountId } from './persistence.js';
+import { phoneToWhatsAppId } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import {
+  SellerListEntry,
+  SellerListType,
+  setSellerListEntry,
+  removeSellerListEntry,
+  getSellerListEntry,
+  getSellerListEntries
+} from '../database/repositories/sellerListRepository.js';
+
+export type { SellerListEntry, SellerListType };
+
+// Accept either a WhatsApp ID ("919876543210@c.us") or a plain phone number
+export function normalizeSellerId(sellerIdOrPhone: string): string {
+  const trimmed = sellerIdOrPhone.trim();
+  if (trimmed.includes('@')) {
+    return trimmed;
+  }
+  return phoneToWhatsAppId(trimmed);
+}
+
+// Which list (if any) a seller is on for the current account
+export function getSellerListStatus(sellerId: string): SellerListType | null {
+  const accountId = getCurrentAccountId();
+
+  if (!accountId) {
+    return null;
+  }
+
+  try {
+    return getSellerListEntry(accountId, sellerId)?.list ?? null;
+  } catch (error) {
+    logger.error('Failed to look up seller list', { sellerId, error });
+    return null;
+  }
+}
+
+export function isSellerBlocklisted(sellerId: string): boolean {
+  return getSellerListStatus(sellerId) === 'block';
+}
+
+export function isSellerAllowlisted(sellerId: string): boolean {
+  return getSellerListStatus(sellerId) === 'allow';
+}
+
+export function getSellerLists(): { blocklist: SellerListEntry[]; allowlist: SellerListEntry[] } {
+  const accountId = getCurrentAccountId();
+
+  if (!accountId) {
+    return { blocklist: [], allowlist: [] };
+  }
+
+  const entries = getSellerListEntries(accountId);
+  return {
+    blocklist: entries.filter(e => e.list === 'block'),
+    allowlist: entries.filter(e => e.list === 'allow')
+  };
+}
+
+// Put a seller on a list - returns the normalized seller ID, or null if no account is logged in
+export function addSellerToList(sellerIdOrPhone: string, list: SellerListType, sellerName?: string, reason?: string): string | null {
+  const accountId = getCurrentAccountId();
+
+  if (!accountId) {
+    return null;
+  }
+
+  const sellerId = normalizeSellerId(sellerIdOrPhone);
+  setSellerListEntry(accountId, sellerId, list, sellerName, reason);
+  logger.info(list === 'block' ? 'Seller blocklisted' : 'Seller allowlisted', { sellerId, sellerName, reason });
+  return sellerId;
+}
+
+export function removeSellerFromLists(sellerIdOrPhone: string): boolean {
+  const accountId = getCurrentAccountId();
+
+  if (!accountId) {
+    return false;
+  }
+
+  const sellerId = normalizeSellerId(sellerIdOrPhone);
+  const removed = removeSellerListEntry(accountId, sellerId);
+  if (removed) {
+    logger.info('Seller removed from lists', { sellerId });
+  }
+  return removed;
+}
@@ -0,0 +1,133 @@
+import { getConfig, ReputationConfig } from '../utils/config.js';
+import { getCurrentAccountId } from './persistence.js';
+import { getSellerDealOutcomes } from '../database/repositories/dealRepository.js';
+import { logger } from '../utils/logger.js';
+
+export type ReputationLevel = 'new' | 'trusted' | 'neutral' | 'risky' | 'bad';
+
+export interface SellerReputation {
+  sellerId: string;
+  score: number;   // 0-100, sellers with no history start at NEUTRAL_SCORE
+  level: ReputationLevel;
+  completed: number;
+  failed: number;
+  cancelledAfterPayment: number;  // Backed out after we paid and refunded
+  refundsOwed: number;            // Backed out after we paid and never refunded
+  avgMinutesToCoupon: number | null;
+}
+
+const DEFAULT_REPUTATION: ReputationConfig = {
+  skipBelow: 20,
+  warnBelow: 40,
+  trustedAbove: 70
+};
+
+const NEUTRAL_SCORE = 50;
+
+// Score weights
+const COMPLETION_BONUS = 12;
+const MAX_COMPLETION_BONUS = 40;
+const FAILURE_PENALTY = 4;
+const MAX_FAILURE_PENALTY = 20;       // Failures alone leave a seller at 'risky', never skipped
+const CANCELLED_AFTER_PAYMENT_PENALTY = 30;
+const REFUND_OWED_PENALTY = 50;
+const FAST_COUPON_MINUTES = 5;
+const SLOW_COUPON_MINUTES = 20;
+
+export function getReputationSettings(): ReputationConfig {
+  return { ...DEFAULT_REPUTATION, ...getConfig().reputation };
+}
+
+/**
+ * Score a seller from our past deals with them
+ * Released conversations (we picked another seller) and failures we caused don't count against anyone
+ */
+export function getSellerReputation(sellerId: string): SellerReputation {
+  const reputation: SellerReputation = {
+    sellerId,
+    score: NEUTRAL_SCORE,
+    level: 'new',
+    completed: 0,
+    failed: 0,
+    cancelledAfterPayment: 0,
+    refundsOwed: 0,
+    avgMinutesToCoupon: null
+  };
+
+  const accountId = getCurrentAccountId();
+  if (!accountId) {
+    return reputation;
+  }
+
+  let outcomes;
+  try {
+    outcomes = getSellerDealOutcomes(accountId, sellerId)
+      .filter(o => !o.released && !(o.status === 'failed' && !o.refundRequested && o.endedBy === 'us'));
+  } catch (error) {
+    logger.error('Failed to load seller history for reputation', { sellerId, error });
+    return reputation;
+  }
+
+  if (outcomes.length === 0) {
+    return reputation;
+  }
+
+  const couponTimes: number[] = [];
+  for (const outcome of outcomes) {
+    if (outcome.status === 'success') {
+      reputation.completed++;
+      if (outcome.minutesToCoupon !== null) {
+        couponTimes.push(outcome.minutesToCoupon);
+      }
+    } else if (outcome.refundRequested && outcome.refundReceived) {
+      reputation.cancelledAfterPayment++;
+    } else if (outcome.refundRequested) {
+      reputation.refundsOwed++;
+    } else {
+      reputation.failed++;
+    }
+  }
+
+  if (couponTimes.length > 0) {
+    reputation.avgMinutesToCoupon = Math.round(couponTimes.reduce((a, b) => a + b, 0) / couponTimes.length);
+  }
+
+  let score = NEUTRAL_SCORE;
+  score += Math.min(reputation.completed * COMPLETION_BONUS, MAX_COMPLETION_BONUS);
+  score -= Math.min(reputation.failed * FAILURE_PENALTY, MAX_FAILURE_PENALTY);
+  score -= reputation.cancelledAfterPayment * CANCELLED_AFTER_PAYMENT_PENALTY;
+  score -= reputation.refundsOwed * REFUND_OWED_PENALTY;
+
+  if (reputation.avgMinutesToCoupon !== null) {
+    if (reputation.avgMinutesToCoupon <= FAST_COUPON_MINUTES) score += 5;
+    else if (reputation.avgMinutesToCoupon >= SLOW_COUPON_MINUTES) score -= 10;
+  }
+
+  reputation.score = Math.max(0, Math.min(100, Math.round(score)));
+
+  const settings = getReputationSettings();
+  if (reputation.refundsOwed > 0 || reputation.score < settings.skipBelow) {
+    reputation.level = 'bad';
+  } else if (reputation.score < settings.warnBelow) {
+    reputation.level = 'risky';
+  } else if (reputation.score >= settings.trustedAbove) {
+    reputation.level = 'trusted';
+  } else {
+    reputation.level = 'neutral';
+  }
+
+  return reputation;
+}
+
+// One-line summary for self-chat messages and logs
+export function describeReputation(reputation: SellerReputation): string {
+  if (reputation.level === 'new') {
+    return 'new seller (no history)';
+  }
+  const parts = [`score ${reputation.score}/100`, `${reputation.completed} completed`];
+  if (reputation.failed > 0) parts.push(`${reputation.failed} failed`);
+  if (reputation.cancelledAfterPayment > 0) parts.push(`${reputation.cancelledAfterPayment} cancelled after payment`);
+  if (reputation.refundsOwed > 0) parts.push(`${reputation.refundsOwed} refund(s) owed`);
+  if (reputation.avgMinutesToCoupon !== null) parts.push(`~${reputation.avgMinutesToCoupon} min to coupon`);
+  return parts.join(', ');
+}
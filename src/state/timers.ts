@@ -0,0 +1,140 @@
+import { getAccountKey, getAccountScope, getCurrentAccountId, runInAccount } from './persistence.js';
+import { getClock, TimerHandle } from '../utils/clock.js';
+import { logger } from '../utils/logger.js';
+import { saveTimer, deleteTimer, getTimers } from '../database/repositories/timerRepository.js';
+
+/**
+ * Named timers that survive a restart
+ * A timer is a (kind, key) pair - e.g. ('coupon_follow_up', conversationId) - and what runs when it
+ * fires is registered once per kind with onTimer(). Scheduling saves it to the database; after login
+ * restoreTimers() re-arms everything still pending, firing overdue ones straight away
+ * Handlers and armed timers belong to the account scope they were registered / scheduled in, and a
+ * timer fires back inside that scope
+ */
+
+export type TimerHandler = (key: string) => void | Promise<void>;
+
+interface ArmedTimer {
+  account: string; // getAccountKey() when it was armed
+  handle: TimerHandle;
+}
+
+const handlers: Map<string, TimerHandler> = new Map();
+const armed: Map<string, ArmedTimer> = new Map();
+
+function timerId(kind: string, key: string, account: string = getAccountKey()): string {
+  return `${account}|${kind}:${key}`;
+}
+
+function arm(kind: string, key: string, delayMs: number): void {
+  const id = timerId(kind, key);
+  const existing = armed.get(id);
+  if (existing !== undefined) {
+    getClock().clearTimer(existing.handle);
+  }
+
+  // Timer callbacks don't reliably keep the async context (e.g. a fake clock), so carry the scope along
+  const scope = getAccountScope();
+  const run = () => fire(kind, key);
+  armed.set(id, {
+    account: getAccountKey(),
+    handle: getClock().setTimeout(() => scope ? runInAccount(scope, run) : run(), Math.max(0, delayMs))
+  });
+}
+
+async function fire(kind: string, key: string): Promise<void> {
+  armed.delete(timerId(kind, key));
+  forget(kind, key);
+
+  const handler = handlers.get(timerId(kind, '*'));
+  if (!handler) {
+    logger.warn('Timer fired with no handler registered', { kind, key });
+    return;
+  }
+
+  try {
+    await handler(key);
+  } catch (error) {
+    logger.error('Timer handler failed', { kind, key, error });
+  }
+}
+
+// Drop the saved copy; a failed write only means the timer fires once more after a restart
+function forget(kind: string, key: string): void {
+  const accountId = getCurrentAccountId();
+  if (!accountId) return;
+
+  try {
+    deleteTimer(accountId, kind, key);
+  } catch (error) {
+    logger.error('Failed to delete saved timer', { kind, key, error });
+  }
+}
+
+// What to run when a timer of this kind fires (registering again replaces the handler)
+export function onTimer(kind: string, handler: TimerHandler): void {
+  handlers.set(timerId(kind, '*'), handler);
+}
+
+/**
+ * Run the kind's handler with key after delayMs; replaces a pending timer with the same kind and key
+ * Without a logged-in account (or if saving fails) the timer still runs, it just won't survive a restart
+ */
+export function scheduleTimer(kind: string, key: string, delayMs: number): void {
+  arm(kind, key, delayMs);
+
+  const accountId = getCurrentAccountId();
+  if (!accountId) return;
+
+  try {
+    saveTimer(accountId, { kind, key, dueAt: new Date(getClock().now() + delayMs) });
+  } catch (error) {
+    logger.error('Failed to save timer', { kind, key, error });
+  }
+}
+
+export function cancelTimer(kind: string, key: string): void {
+  const id = timerId(kind, key);
+  const timer = armed.get(id);
+  if (timer !== undefined) {
+    getClock().clearTimer(timer.handle);
+    armed.delete(id);
+  }
+  forget(kind, key);
+}
+
+// Stop this account's armed timers without touching the saved copies (logout / account switch)
+export function disarmTimers(): void {
+  const account = getAccountKey();
+  for (const [id, timer] of armed) {
+    if (timer.account !== account) continue;
+    getClock().clearTimer(timer.handle);
+    armed.delete(id);
+  }
+}
+
+/**
+ * Re-arm the current account's saved timers (call after login, once the handlers are registered)
+ * Timers armed for a previous account are dropped
+ */
+export function restoreTimers(): number {
+  disarmTimers();
+
+  const accountId = getCurrentAccountId();
+  if (!accountId) return 0;
+
+  try {
+    const timers = getTimers(accountId);
+    const nowMs = getClock().now();
+    for (const timer of timers) {
+      arm(timer.kind, timer.key, timer.dueAt.getTime() - nowMs);
+    }
+    if (timers.length > 0) {
+      logger.info(`Restored ${timers.length} pending timer(s)`, { kinds: [...new Set(timers.map(t => t.kind))] });
+    }
+    return timers.length;
+  } catch (error) {
+    logger.error('Failed to restore saved timers', error);
+    return 0;
+  }
+}
@@ -0,0 +1,139 @@
+import { getCurrentAccountId } from './persistence.js';
+import { getMealSessions } from './mealSessions.js';
+import { getLocalDate } from '../utils/time.js';
+import { logger } from '../utils/logger.js';
+import { MessPreference } from '../conversation/types.js';
+import {
+  PlanMode,
+  WeeklyPlanEntry,
+  SkipRange,
+  getWeeklyPlanEntries,
+  saveWeeklyPlanEntry,
+  getSkipRanges,
+  findSkipRanges,
+  addSkipRange,
+  removeSkipRange
+} from '../database/repositories/weeklyPlanRepository.js';
+
+export type { PlanMode, WeeklyPlanEntry, SkipRange };
+
+export const PLAN_MODES: PlanMode[] = ['ask', 'buy', 'skip'];
+
+const DEFAULT_SKIP_REASON = 'going home';
+
+// What the plan says for one session on one date
+export interface PlannedSession {
+  mode: PlanMode;
+  messPreference: MessPreference;
+  maxPrice: number | null;
+  skipReason?: string; // Set when mode is 'skip'
+}
+
+// Unedited weekday/session pairs keep the old behaviour: ask every morning
+const DEFAULT_PLAN: PlannedSession = { mode: 'ask', messPreference: null, maxPrice: null };
+
+// Weekday (0 = Sunday) of a YYYY-MM-DD calendar date
+export function getWeekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * The plan for every enabled session on a date (defaults to today)
+ * A skip range covering the date (for every session, or just that one) overrides the weekly plan
+ */
+export function getDayPlan(date: string = getLocalDate()): Record<string, PlannedSession> {
+  const plan: Record<string, PlannedSession> = {};
+  const accountId = getCurrentAccountId();
+
+  let entries: WeeklyPlanEntry[] = [];
+  let skipRanges: SkipRange[] = [];
+  if (accountId) {
+    try {
+      entries = getWeeklyPlanEntries(accountId, getWeekday(date));
+      skipRanges = findSkipRanges(accountId, date);
+    } catch (error) {
+      logger.error('Failed to load weekly plan', { date, error });
+    }
+  }
+
+  for (const session of getMealSessions()) {
+    const entry = entries.find(e => e.session === session.name);
+    const planned: PlannedSession = entry
+      ? { mode: entry.mode, messPreference: entry.messPreference, maxPrice: entry.maxPrice }
+      : { ...DEFAULT_PLAN };
+
+    const skipRange = skipRanges.find(r => !r.session || r.session === session.name);
+    if (skipRange) {
+      planned.mode = 'skip';
+      planned.skipReason = skipRange.label || DEFAULT_SKIP_REASON;
+    } else if (planned.mode === 'skip') {
+      planned.skipReason = 'weekly plan';
+    }
+
+    plan[session.name] = planned;
+  }
+
+  return plan;
+}
+
+export function getPlannedSession(session: string, date: string = getLocalDate()): PlannedSession {
+  return getDayPlan(date)[session] ?? { ...DEFAULT_PLAN };
+}
+
+/**
+ * The full weekly grid for the dashboard - every weekday x enabled session, defaults filled in
+ */
+export function getWeeklyPlan(): { entries: WeeklyPlanEntry[]; skipRanges: SkipRange[] } {
+  const accountId = getCurrentAccountId();
+  const stored = accountId ? getWeeklyPlanEntries(accountId) : [];
+  const entries: WeeklyPlanEntry[] = [];
+
+  for (let weekday = 0; weekday < 7; weekday++) {
+    for (const session of getMealSessions()) {
+      const entry = stored.find(e => e.weekday === weekday && e.session === session.name);
+      entries.push(entry ?? { weekday, session: session.name, ...DEFAULT_PLAN });
+    }
+  }
+
+  return { entries, skipRanges: accountId ? getSkipRanges(accountId) : [] };
+}
+
+// Save one cell of the weekly plan - false if no account is logged in
+export function setWeeklyPlanEntry(entry: WeeklyPlanEntry): boolean {
+  const accountId = getCurrentAccountId();
+
+  if (!accountId) {
+    return false;
+  }
+
+  saveWeeklyPlanEntry(accountId, entry);
+  logger.info('Weekly plan updated', { weekday: entry.weekday, session: entry.session, mode: entry.mode });
+  return true;
+}
+
+// Skip every session on these dates, or only the given one - null if no account is logged in
+export function addSkipDates(startDate: string, endDate: string, label?: string, session?: string): SkipRange | null {
+  const accountId = getCurrentAccountId();
+
+  if (!accountId) {
+    return null;
+  }
+
+  const range = addSkipRange(accountId, startDate, endDate, label, session);
+  logger.info('Skip range added', { startDate, endDate, label, session: session ?? 'all' });
+  return range;
+}
+
+export function removeSkipDates(id: number): boolean {
+  const accountId = getCurrentAccountId();
+
+  if (!accountId) {
+    return false;
+  }
+
+  const removed = removeSkipRange(accountId, id);
+  if (removed) {
+    logger.info('Skip range removed', { id });
+  }
+  return removed;
+}
@@ -0,0 +1,127 @@
+// Opaque handle returned by Clock.setTimeout / setInterval
+export type TimerHandle = unknown;
+
+/**
+ * Source of the current time and of timers
+ * Everything time-dependent (follow-ups, confirmation timeouts, meal cutoffs, "today") goes through
+ * getClock(), so tests and the simulator can swap in a FakeClock and move time forward at will
+ */
+export interface Clock {
+  now(): number; // ms since epoch, like Date.now()
+  setTimeout(callback: () => void | Promise<void>, ms: number): TimerHandle;
+  setInterval(callback: () => void | Promise<void>, ms: number): TimerHandle;
+  clearTimer(handle: TimerHandle): void;
+}
+
+export class SystemClock implements Clock {
+  now(): number {
+    return Date.now();
+  }
+
+  setTimeout(callback: () => void | Promise<void>, ms: number): TimerHandle {
+    return setTimeout(callback, ms);
+  }
+
+  setInterval(callback: () => void | Promise<void>, ms: number): TimerHandle {
+    return setInterval(callback, ms);
+  }
+
+  clearTimer(handle: TimerHandle): void {
+    // clearTimeout and clearInterval are interchangeable in Node
+    clearTimeout(handle as NodeJS.Timeout);
+  }
+}
+
+interface FakeTimer {
+  dueAt: number;
+  callback: () => void | Promise<void>;
+  every: number | null; // Interval length, null for a one-off timer
+}
+
+/**
+ * A clock that only moves when told to. advance() fires due timers in order, waiting for each
+ * callback (and anything it awaits) to finish, so a test sees the state right after every timer
+ */
+export class FakeClock implements Clock {
+  private current: number;
+  private timers: Map<number, FakeTimer> = new Map();
+  private nextId = 1;
+
+  constructor(start: Date | number = Date.now()) {
+    this.current = typeof start === 'number' ? start : start.getTime();
+  }
+
+  now(): number {
+    return this.current;
+  }
+
+  setTimeout(callback: () => void | Promise<void>, ms: number): TimerHandle {
+    const id = this.nextId++;
+    this.timers.set(id, { dueAt: this.current + Math.max(0, ms), callback, every: null });
+    return id;
+  }
+
+  setInterval(callback: () => void | Promise<void>, ms: number): TimerHandle {
+    const id = this.nextId++;
+    const every = Math.max(1, ms);
+    this.timers.set(id, { dueAt: this.current + every, callback, every });
+    return id;
+  }
+
+  clearTimer(handle: TimerHandle): void {
+    this.timers.delete(handle as number);
+  }
+
+  // Move time forward by ms, firing every timer that comes due on the way (including ones they schedule)
+  async advance(ms: number): Promise<void> {
+    const target = this.current + ms;
+
+    for (;;) {
+      let nextId: number | null = null;
+      let next: FakeTimer | null = null;
+      for (const [id, timer] of this.timers) {
+        if (timer.dueAt <= target && (!next || timer.dueAt < next.dueAt)) {
+          nextId = id;
+          next = timer;
+        }
+      }
+      if (nextId === null || !next) break;
+
+      this.current = next.dueAt;
+      if (next.every) {
+        next.dueAt += next.every;
+      } else {
+        this.timers.delete(nextId);
+      }
+      await next.callback();
+    }
+
+    this.current = target;
+  }
+
+  // Timers still waiting to fire
+  pendingTimers(): number {
+    return this.timers.size;
+  }
+}
+
+let clock: Clock = new SystemClock();
+
+export function getClock(): Clock {
+  return clock;
+}
+
+// Swap the clock (the simulator uses a FakeClock); timers already set on the old clock keep running there
+export function setClock(value: Clock): void {
+  clock = value;
+}
+
+// The current time as a Date - use instead of new Date()
+export function now(): Date {
+  return new Date(clock.now());
+}
+
+// Promise that resolves after ms on the current clock
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => clock.setTimeout(resolve, ms));
+}
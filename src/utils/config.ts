@@ -4,11 +4,92 @@ import { fileURLToPath } from 'url';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
+export interface PriceLimit {
+  maxPrice: number;
+  targetPrice?: number;
+}
+
+// Per-weekday overrides, keyed by lowercase day name (e.g. "sunday") and then meal name
+export type DayOverrides = Record<string, Record<string, Partial<PriceLimit>>>;
+
+export interface PricePolicy {
+  // Per-meal limits keyed by meal session name (e.g. "lunch")
+  [meal: string]: PriceLimit | DayOverrides | undefined;
+  dayOverrides?: DayOverrides;
+}
+
+export interface MealSessionConfig {
+  name: string;         // Lowercase id used in state, deals and the API (e.g. "lunch")
+  label?: string;       // Shown in self-chat and the dashboard (default: capitalized name)
+  start: string;        // "HH:MM" - don't buy before this
+  cutoff: string;       // "HH:MM" - stop looking at this time
+  maxPrice?: number;    // Price cap for this meal (pricePolicy[name] takes precedence)
+  targetPrice?: number;
+  enabled?: boolean;    // Default true
+  keywords?: string[];  // Words that mean this meal in sell messages (default: the name)
+}
+
+export interface NegotiationConfig {
+  enabled: boolean;
+  maxRounds: number; // Counter-offers to make before giving up
+  step: number;      // Rs added to our offer each round (capped at the ceiling)
+}
+
+export interface ReputationConfig {
+  skipBelow: number;    // Don't contact sellers scoring under this
+  warnBelow: number;    // Contact, but warn in self-chat
+  trustedAbove: number; // Trusted sellers can take a slot from an untrusted one
+}
+
+export type LLMProviderName = 'groq' | 'openai' | 'templates';
+
+// 'classification' = parsing seller/group messages, 'generation' = writing our replies
+export type LLMTask = 'classification' | 'generation';
+
+export interface LLMBudgetConfig {
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+  requestsPerDay: number;
+  reservedForReplies: number; // Share (0-1) of the per-minute and daily budget that only seller-reply calls may use
+}
+
+export interface LLMProviderConfig {
+  provider: LLMProviderName;
+  model?: string;     // Defaults per provider (groq: llama-3.1-8b-instant)
+  baseUrl?: string;   // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1 for Ollama
+  apiKeyEnv?: string; // Env var holding the API key (groq: GROQ_API_KEY, openai: OPENAI_API_KEY)
+  budget?: Partial<LLMBudgetConfig>; // Defaults to the Groq free tier for groq, unlimited otherwise
+}
+
+export interface LLMConfig {
+  classification?: LLMProviderConfig;
+  generation?: LLMProviderConfig;
+  cacheTtlMinutes?: number; // How long classification answers are reused (default 10)
+}
+
+// One WhatsApp account run by this process; unset fields fall back to the top-level ones
+export interface AccountConfig {
+  id: string;                  // Short name for the dashboard and terminal, also the WhatsApp session folder (letters, digits, - and _)
+  label?: string;              // Shown in the account switcher (default: the id)
+  myPhoneNumber?: string;
+  testPhoneNumbers?: string[];
+  groups?: string[];
+}
+
 export interface Config {
+  accounts?: AccountConfig[]; // Default: one account using the top-level settings
   groups: string[];
   testPhoneNumbers: string[];
   myPhoneNumber: string;
-  maxPrice: number;
+  maxPrice: number; // Fallback ceiling when neither pricePolicy nor the meal sets one
+  meals?: MealSessionConfig[]; // Default: lunch until 14:10, dinner until 21:10
+  pricePolicy?: PricePolicy;
+  negotiation?: NegotiationConfig;
+  reputation?: ReputationConfig;
+  llm?: LLMConfig;
+  parallelSellers?: number; // Max sellers to talk to at once before one commits to payment (default 1)
+  preferenceWindowSeconds?: number; // How long a post for a lower-ranked mess waits for a better one (default 20, 0 = never wait)
+  timezone?: string; // IANA zone for "today", meal cutoffs and the midnight reset (default Asia/Kolkata)
   messageDelayMs: number;
   notificationSound: boolean;
 }
@@ -24,6 +105,11 @@ export function loadConfig(): Config {
   return config;
 }
 
+// Use a config that didn't come from config/config.json (offline tools run without one)
+export function setConfig(value: Config): void {
+  config = value;
+}
+
 export function getConfig(): Config {
   if (!config) {
     return loadConfig();
@@ -3,7 +3,7 @@
  * Handles common spelling mistakes in WhatsApp messages
  */
 
-import { IITM_MESSES } from '../conversation/types.js';
+import { MessRecord, getActiveMesses } from '../state/messRegistry.js';
 
 /**
  * Calculate Levenshtein distance between two strings
@@ -49,78 +49,6 @@ export function similarityRatio(str1: string, str2: string): number {
   return 1 - (distance / maxLen);
 }
 
-/**
- * Common misspellings and variations for each mess
- * Maps misspelling -> correct name
- *
- * NOTE: SGR and SRR are very similar (1 char difference), so we use distinct
- * aliases for each to avoid confusion. Fuzzy matching is disabled for these two.
- */
-const MESS_ALIASES: Record<string, string> = {
-  // SGR variations (distinct aliases only - no fuzzy matching)
-  'sgr': 'SGR',
-  'sagar': 'SGR',     // Common way people say SGR
-  'sagr': 'SGR',      // Typo for sagar
-
-  // SRR variations (distinct aliases only - no fuzzy matching)
-  'srr': 'SRR',
-  'south': 'SRR',     // South mess = SRR
-  'south mess': 'SRR',
-  'southmess': 'SRR',
-
-  // Firstman variations
-  'firstman': 'Firstman',
-  'first man': 'Firstman',
-  '1st man': 'Firstman',
-  '1stman': 'Firstman',
-  'firstmen': 'Firstman',
-  'fristman': 'Firstman',
-  'firstmam': 'Firstman',
-  'fisrtman': 'Firstman',
-  'firsrman': 'Firstman',
-  'firstmsn': 'Firstman',
-
-  // Prism variations
-  'prism': 'Prism',
-  'prizm': 'Prism',
-  'prismm': 'Prism',
-  'prisim': 'Prism',
-
-  // Neelkesh variations
-  'neelkesh': 'Neelkesh',
-  'nilkesh': 'Neelkesh',
-  'neelksh': 'Neelkesh',
-  'neelkes': 'Neelkesh',
-  'neelkash': 'Neelkesh',
-  'neelkessh': 'Neelkesh',
-  'neelkech': 'Neelkesh',
-  'neel': 'Neelkesh',
-  'nilesh': 'Neelkesh',
-
-  // Food Sutra variations
-  'food sutra': 'Food Sutra',
-  'foodsutra': 'Food Sutra',
-  'food sutr': 'Food Sutra',
-  'food suthra': 'Food Sutra',
-  'fs': 'Food Sutra',
-  'foodsuthra': 'Food Sutra',
-  'food stura': 'Food Sutra',
-  'foodstura': 'Food Sutra',
-  'foof sutra': 'Food Sutra',
-  'food suutra': 'Food Sutra',
-
-  // Vindhya variations
-  'vindhya': 'Vindhya',
-  'vindya': 'Vindhya',
-  'vindhaya': 'Vindhya',
-  'vindhiya': 'Vindhya',
-  'vindh': 'Vindhya',
-  'vindhyaa': 'Vindhya',
-  'vindhay': 'Vindhya',
-  'vindhys': 'Vindhya',
-  'vundhya': 'Vindhya',
-};
-
 /**
  * Default threshold for fuzzy matching
  * Lower = stricter matching, Higher = more lenient
@@ -131,19 +59,13 @@ const MESS_ALIASES: Record<string, string> = {
  */
 const DEFAULT_MAX_DISTANCE = 2;
 
-/**
- * Mess names that are too similar to each other and require EXACT matching
- * SGR and SRR are only 1 character apart - fuzzy matching would confuse them
- */
-const EXACT_MATCH_ONLY = new Set(['sgr', 'srr']);
-
 /**
  * Dynamic threshold based on word length
  * Shorter words get stricter threshold to avoid false positives
  */
-function getMaxDistance(wordLength: number, targetWord?: string): number {
-  // SGR and SRR require exact match (distance 0) to avoid confusion
-  if (targetWord && EXACT_MATCH_ONLY.has(targetWord.toLowerCase())) {
+function getMaxDistance(wordLength: number, fuzzyMatch: boolean): number {
+  // Messes with fuzzy matching off (SGR and SRR) require an exact match to avoid confusion
+  if (!fuzzyMatch) {
     return 0;
   }
 
@@ -162,35 +84,25 @@ export interface FuzzyMatchResult {
 
 /**
  * Find the best matching mess name in a message using fuzzy matching
+ * Matches against the messes active today in the registry unless a list is passed in
  * Returns the corrected mess name if found
  */
-export function fuzzyMatchMessName(message: string): FuzzyMatchResult {
+export function fuzzyMatchMessName(message: string, messes: MessRecord[] = getActiveMesses()): FuzzyMatchResult {
   const lowerMessage = message.toLowerCase();
   const words = lowerMessage.split(/\s+/);
 
-  // First, check exact matches and known aliases
-  for (const [alias, messName] of Object.entries(MESS_ALIASES)) {
-    if (lowerMessage.includes(alias)) {
-      return {
-        matched: true,
-        correctedName: messName,
-        originalWord: alias,
-        distance: 0,
-        confidence: 1
-      };
-    }
-  }
-
-  // Check exact matches with IITM_MESSES
-  for (const mess of IITM_MESSES) {
-    if (lowerMessage.includes(mess.toLowerCase())) {
-      return {
-        matched: true,
-        correctedName: mess,
-        originalWord: mess.toLowerCase(),
-        distance: 0,
-        confidence: 1
-      };
+  // First, check exact matches with mess names and known aliases
+  for (const mess of messes) {
+    for (const term of [mess.name.toLowerCase(), ...mess.aliases]) {
+      if (lowerMessage.includes(term)) {
+        return {
+          matched: true,
+          correctedName: mess.name,
+          originalWord: term,
+          distance: 0,
+          confidence: 1
+        };
+      }
     }
   }
 
@@ -216,44 +128,81 @@ export function fuzzyMatchMessName(message: string): FuzzyMatchResult {
     if (word.length < 2) continue; // Skip very short words
 
     // Check against each mess name
-    for (const mess of IITM_MESSES) {
-      const messLower = mess.toLowerCase();
-      const distance = levenshteinDistance(word, messLower);
-      // Pass messLower to check if it's SGR/SRR (require exact match)
-      const maxDist = getMaxDistance(messLower.length, messLower);
-
-      if (distance <= maxDist && distance < bestMatch.distance) {
-        const confidence = 1 - (distance / Math.max(word.length, messLower.length));
-        bestMatch = {
-          matched: true,
-          correctedName: mess,
-          originalWord: word,
-          distance,
-          confidence
-        };
+    for (const mess of messes) {
+      // Check against the name first, then its aliases
+      for (const target of [mess.name.toLowerCase(), ...mess.aliases]) {
+        const distance = levenshteinDistance(word, target);
+        const maxDist = getMaxDistance(target.length, mess.fuzzyMatch);
+
+        if (distance <= maxDist && distance < bestMatch.distance) {
+          const confidence = 1 - (distance / Math.max(word.length, target.length));
+          bestMatch = {
+            matched: true,
+            correctedName: mess.name,
+            originalWord: word,
+            distance,
+            confidence
+          };
+        }
       }
     }
+  }
 
-    // Also check against aliases
-    for (const [alias, messName] of Object.entries(MESS_ALIASES)) {
-      const distance = levenshteinDistance(word, alias);
-      // Pass alias to check if it's SGR/SRR (require exact match)
-      const maxDist = getMaxDistance(alias.length, alias);
+  return bestMatch;
+}
 
-      if (distance <= maxDist && distance < bestMatch.distance) {
-        const confidence = 1 - (distance / Math.max(word.length, alias.length));
-        bestMatch = {
-          matched: true,
-          correctedName: messName,
-          originalWord: word,
-          distance,
-          confidence
-        };
+/**
+ * Minimum similarity for an unmatched word to count as a near miss of a mess name or alias
+ * Below this it's usually just a different word that shares a few letters
+ */
+const NEAR_MISS_MIN_SIMILARITY = 0.55;
+
+export interface NearMiss {
+  token: string;
+  messId: number;
+  messName: string;
+  distance: number;
+  similarity: number; // 0 to 1
+}
+
+/**
+ * Find words (and two-word phrases) in a message that are close to a mess name or alias without
+ * matching it, each paired with the closest mess - used to suggest new aliases when fuzzyMatchMessName
+ * finds nothing. Words in ignoreWords (meal names, "selling", ...) are never candidates
+ */
+export function findNearMisses(message: string, ignoreWords: Set<string>, messes: MessRecord[] = getActiveMesses()): NearMiss[] {
+  const words = message.toLowerCase().split(/[^\p{L}\p{N}]+/u);
+  const isCandidate = (word: string | undefined) => !!word && word.length >= 3 && !/^\d+$/.test(word) && !ignoreWords.has(word);
+
+  const candidates = new Set<string>();
+  words.forEach((word, i) => {
+    if (!isCandidate(word)) return;
+    candidates.add(word);
+    if (isCandidate(words[i + 1])) {
+      candidates.add(`${word} ${words[i + 1]}`);
+    }
+  });
+
+  const nearMisses: NearMiss[] = [];
+  for (const token of candidates) {
+    let closest: NearMiss | null = null;
+
+    for (const mess of messes) {
+      for (const target of [mess.name.toLowerCase(), ...mess.aliases]) {
+        const similarity = similarityRatio(token, target);
+        if (!closest || similarity > closest.similarity) {
+          closest = { token, messId: mess.id, messName: mess.name, distance: levenshteinDistance(token, target), similarity };
+        }
       }
     }
+
+    // An exact hit would have been matched already, so it isn't a new alias
+    if (closest && closest.distance > 0 && closest.similarity >= NEAR_MISS_MIN_SIMILARITY) {
+      nearMisses.push(closest);
+    }
   }
 
-  return bestMatch;
+  return nearMisses.sort((a, b) => b.similarity - a.similarity);
 }
 
 /**
@@ -288,17 +237,14 @@ export function fuzzyMatchesPreference(message: string, preferences: string[]):
 }
 
 /**
- * Get all registered mess aliases (for documentation/debugging)
+ * Get all registered mess aliases, alias -> mess name (for documentation/debugging)
  */
 export function getMessAliases(): Record<string, string> {
-  return { ...MESS_ALIASES };
-}
-
-/**
- * Add a new alias for a mess (can be used to learn from user corrections)
- */
-export function addMessAlias(alias: string, messName: string): void {
-  if (IITM_MESSES.includes(messName as any)) {
-    MESS_ALIASES[alias.toLowerCase()] = messName;
+  const aliases: Record<string, string> = {};
+  for (const mess of getActiveMesses()) {
+    for (const alias of mess.aliases) {
+      aliases[alias] = mess.name;
+    }
   }
+  return aliases;
 }
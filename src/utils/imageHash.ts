@@ -0,0 +1,40 @@
+import { Jimp } from 'jimp';
+import { logger } from './logger.js';
+
+/**
+ * 64-bit difference hash (dHash) of an image, as 16 hex chars
+ * Survives re-compression, resizing and small crops, so a forwarded screenshot hashes (almost) the same
+ */
+export async function computePerceptualHash(imageBuffer: Buffer): Promise<string | null> {
+  try {
+    const image = await Jimp.read(imageBuffer);
+    image.greyscale().resize({ w: 9, h: 8 });
+    const data = image.bitmap.data;
+
+    let hash = 0n;
+    for (let y = 0; y < 8; y++) {
+      for (let x = 0; x < 8; x++) {
+        // Greyscale, so the red channel is the brightness
+        const left = data[(y * 9 + x) * 4];
+        const right = data[(y * 9 + x + 1) * 4];
+        hash = (hash << 1n) | (left > right ? 1n : 0n);
+      }
+    }
+
+    return hash.toString(16).padStart(16, '0');
+  } catch (error) {
+    logger.error('Failed to compute perceptual hash', error);
+    return null;
+  }
+}
+
+// Number of differing bits between two hashes (0 = identical, 64 = opposite)
+export function hammingDistance(a: string, b: string): number {
+  let diff = BigInt('0x' + a) ^ BigInt('0x' + b);
+  let count = 0;
+  while (diff > 0n) {
+    count += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return count;
+}
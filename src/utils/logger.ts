@@ -13,21 +13,31 @@ function formatMessage(level: LogLevel, message: string, data?: unknown): string
   return `${prefix} ${message}`;
 }
 
+// Offline tools (e.g. the regression runner) silence the log so their own report stays readable
+let silent = false;
+
+export function setLoggerSilent(value: boolean): void {
+  silent = value;
+}
+
 export const logger = {
   info(message: string, data?: unknown): void {
+    if (silent) return;
     console.log(formatMessage('info', message, data));
   },
 
   warn(message: string, data?: unknown): void {
+    if (silent) return;
     console.warn(formatMessage('warn', message, data));
   },
 
   error(message: string, data?: unknown): void {
+    if (silent) return;
     console.error(formatMessage('error', message, data));
   },
 
   debug(message: string, data?: unknown): void {
-    if (process.env.DEBUG) {
+    if (process.env.DEBUG && !silent) {
       console.log(formatMessage('debug', message, data));
     }
   }
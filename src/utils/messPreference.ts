@@ -0,0 +1,46 @@
+import { MessChoice, MessPreference } from '../conversation/types.js';
+
+// Rank given to a post that doesn't name its mess: after every mess we'd take, since the seller has to be asked first
+export function getUnknownMessRank(preference: MessPreference): number {
+  return preference?.length ?? 0;
+}
+
+/**
+ * Turn a stored or submitted preference into a ranked list
+ * Accepts the old flat format (["SGR", "Firstman"]) as well as [{ mess, maxPrice }]; empty means any mess
+ */
+export function normalizeMessPreference(value: unknown): MessPreference {
+  if (!Array.isArray(value)) return null;
+
+  const choices: MessChoice[] = [];
+  for (const item of value) {
+    const mess = typeof item === 'string' ? item.trim() : typeof item?.mess === 'string' ? item.mess.trim() : '';
+    if (!mess || choices.some(c => c.mess.toLowerCase() === mess.toLowerCase())) continue;
+
+    const maxPrice = typeof item === 'object' && typeof item.maxPrice === 'number' && item.maxPrice > 0 ? item.maxPrice : undefined;
+    choices.push(maxPrice !== undefined ? { mess, maxPrice } : { mess });
+  }
+
+  return choices.length > 0 ? choices : null;
+}
+
+// Position of a mess in the preference (0 = first choice), -1 if we don't want it; any mess ranks 0 with no preference
+export function getMessRank(preference: MessPreference, messName: string): number {
+  if (!preference) return 0;
+  return preference.findIndex(c => c.mess.toLowerCase() === messName.toLowerCase());
+}
+
+export function getMessChoice(preference: MessPreference, messName: string | null | undefined): MessChoice | null {
+  if (!preference || !messName) return null;
+  return preference.find(c => c.mess.toLowerCase() === messName.toLowerCase()) ?? null;
+}
+
+export function getPreferredMessNames(preference: MessPreference): string[] {
+  return preference?.map(c => c.mess) ?? [];
+}
+
+// "Firstman (≤₹80) > SGR (≤₹60)" for status messages, "Any" without a preference
+export function describeMessPreference(preference: MessPreference): string {
+  if (!preference) return 'Any';
+  return preference.map(c => c.maxPrice !== undefined ? `${c.mess} (≤₹${c.maxPrice})` : c.mess).join(' > ');
+}
@@ -35,6 +35,11 @@ export async function detectQRCode(imageBuffer: Buffer): Promise<QRDetectionResu
   }
 }
 
+// UPI payment QRs (upi://pay?pa=...) - a payment screenshot or the seller's own QR, not a coupon
+export function isPaymentQRPayload(data: string): boolean {
+  return data.trim().toLowerCase().startsWith('upi://');
+}
+
 export async function isLikelyCouponImage(imageBuffer: Buffer): Promise<boolean> {
   // Check if image contains a QR code (likely a coupon)
   const result = await detectQRCode(imageBuffer);
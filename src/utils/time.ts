@@ -0,0 +1,112 @@
+import { getConfig } from './config.js';
+import { logger } from './logger.js';
+import { now } from './clock.js';
+
+// The mess runs on IST; the server may not (cloud VMs are usually UTC)
+const DEFAULT_TIMEZONE = 'Asia/Kolkata';
+
+export interface LocalTime {
+  hour: number;    // 0-23
+  minute: number;
+  weekday: number; // 0 = Sunday, like Date.getDay()
+}
+
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+const formatters: Map<string, Intl.DateTimeFormat> = new Map();
+let warnedInvalidTimezone = false;
+
+// Configured timezone, falling back to IST if the name isn't a valid IANA zone
+export function getTimezone(): string {
+  const timezone = getConfig().timezone || DEFAULT_TIMEZONE;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return timezone;
+  } catch {
+    if (!warnedInvalidTimezone) {
+      logger.warn(`Invalid timezone "${timezone}" in config, using ${DEFAULT_TIMEZONE}`);
+      warnedInvalidTimezone = true;
+    }
+    return DEFAULT_TIMEZONE;
+  }
+}
+
+function getParts(date: Date): Record<string, string> {
+  const timezone = getTimezone();
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      weekday: 'short',
+      hourCycle: 'h23'
+    });
+    formatters.set(timezone, formatter);
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+  return parts;
+}
+
+// Calendar date (YYYY-MM-DD) in the configured timezone - use this for "today"
+export function getLocalDate(date: Date = now()): string {
+  const parts = getParts(date);
+  return `${parts.year}-${parts.month}-${parts.day}`;
+}
+
+// Wall-clock hour/minute/weekday in the configured timezone
+export function getLocalTime(date: Date = now()): LocalTime {
+  const parts = getParts(date);
+  return {
+    hour: parseInt(parts.hour, 10),
+    minute: parseInt(parts.minute, 10),
+    weekday: WEEKDAY_INDEX[parts.weekday]
+  };
+}
+
+// Shift a YYYY-MM-DD date by whole days
+export function addDays(dateString: string, days: number): string {
+  const date = new Date(`${dateString}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split('T')[0];
+}
+
+// Offset of the configured timezone from UTC at a given instant (ms)
+function getOffsetMs(date: Date): number {
+  const parts = getParts(date);
+  const asUtc = Date.UTC(
+    parseInt(parts.year, 10), parseInt(parts.month, 10) - 1, parseInt(parts.day, 10),
+    parseInt(parts.hour, 10), parseInt(parts.minute, 10), parseInt(parts.second, 10)
+  );
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// The instant local midnight starts on a given date (defaults to today)
+export function getLocalDayStart(dateString: string = getLocalDate()): Date {
+  const midnightUtc = new Date(`${dateString}T00:00:00Z`).getTime();
+  // Re-check the offset at the result in case a DST change falls in between
+  const guess = midnightUtc - getOffsetMs(new Date(midnightUtc));
+  return new Date(midnightUtc - getOffsetMs(new Date(guess)));
+}
+
+// UTC timestamp in SQLite's datetime() format, so it compares correctly with datetime('now')
+export function toSqliteDateTime(date: Date): string {
+  return date.toISOString().replace('T', ' ').substring(0, 19);
+}
+
+// Human-readable date/time for self-chat messages, in the configured timezone
+export function formatLocalDate(date: Date = now()): string {
+  return date.toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric', timeZone: getTimezone() });
+}
+
+export function formatLocalTime(date: Date = now()): string {
+  return date.toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit', hour12: true, timeZone: getTimezone() });
+}
@@ -0,0 +1,290 @@
+import { createHash, randomBytes, randomInt, timingSafeEqual } from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { CommandPermission } from '../commands/commandBus.js';
+import { getClock, now } from '../utils/clock.js';
+import { logger } from '../utils/logger.js';
+import {
+  ApiTokenRecord,
+  DashboardLoginMethod,
+  createDashboardSession,
+  getDashboardSession,
+  touchDashboardSession,
+  deleteDashboardSession,
+  deleteExpiredDashboardSessions,
+  createApiToken,
+  getApiTokenByHash,
+  getApiTokens,
+  touchApiToken,
+  deleteApiToken
+} from '../database/repositories/dashboardAuthRepository.js';
+
+export type { ApiTokenRecord };
+
+export const SESSION_COOKIE = 'mcb_session';
+export const CSRF_HEADER = 'x-csrf-token';
+export const ALL_PERMISSIONS: CommandPermission[] = ['view', 'control', 'payments', 'admin'];
+
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const LOGIN_CODE_TTL_MS = 5 * 60 * 1000;
+const LOGIN_CODE_RESEND_MS = 60 * 1000;
+const LOGIN_CODE_MAX_TRIES = 5;
+
+// Failed logins allowed per client address before it has to wait
+const MAX_FAILED_LOGINS = 10;
+const FAILED_LOGIN_WINDOW_MS = 15 * 60 * 1000;
+
+// last_seen_at / last_used_at are only written this often per session or token
+const TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Who is calling: a browser with a dashboard session (everything, but changes need the CSRF token)
+ * or a script with an API token (only the token's permissions, no CSRF - it isn't sent automatically)
+ * accounts lists the configured accounts the caller may act as (null = every account)
+ */
+export type Caller =
+  | { kind: 'session'; id: number; csrfToken: string; permissions: CommandPermission[]; accounts: string[] | null }
+  | { kind: 'token'; id: number; name: string; permissions: CommandPermission[]; accounts: string[] | null };
+
+export type LoginCodeResult = 'sent' | 'too_soon' | 'unavailable';
+
+function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+function secretsMatch(given: string, expected: string): boolean {
+  return timingSafeEqual(Buffer.from(hashSecret(given), 'hex'), Buffer.from(hashSecret(expected), 'hex'));
+}
+
+export function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const part of (header ?? '').split(';')) {
+    const index = part.indexOf('=');
+    if (index < 0) continue;
+    try {
+      cookies[part.slice(0, index).trim()] = decodeURIComponent(part.slice(index + 1).trim());
+    } catch {
+      // Malformed value - ignore the cookie
+    }
+  }
+  return cookies;
+}
+
+export function isPermission(value: unknown): value is CommandPermission {
+  return typeof value === 'string' && (ALL_PERMISSIONS as string[]).includes(value);
+}
+
+export function canUseAccount(caller: Caller, accountId: string): boolean {
+  return caller.accounts === null || caller.accounts.includes(accountId);
+}
+
+// Whether the caller may use every account in the list (null = every account, so only unrestricted callers)
+export function canUseAccounts(caller: Caller, accounts: string[] | null): boolean {
+  if (caller.accounts === null) return true;
+  return accounts !== null && accounts.every(id => canUseAccount(caller, id));
+}
+
+/**
+ * Dashboard login: a password (every account), or a one-time code sent to an account's own WhatsApp chat
+ * (only that account - with several accounts, one person's WhatsApp mustn't unlock another's bot)
+ * Sessions and API tokens are saved as hashes, so a copy of the database can't be used to log in
+ */
+export class DashboardAuth {
+  private password: string;
+  // Pending code per account
+  private loginCodes: Map<string, { code: string; expiresAt: number; sentAt: number; tries: number }> = new Map();
+  private failedLogins: Map<string, { count: number; since: number }> = new Map();
+  private lastTouched: Map<string, number> = new Map();
+
+  constructor(private sendLoginCode: (code: string) => Promise<boolean>) {
+    const configured = process.env.DASHBOARD_PASSWORD?.trim();
+    if (configured) {
+      this.password = configured;
+    } else {
+      // Without a configured password the dashboard is still locked - with one that only the terminal has seen
+      this.password = randomBytes(9).toString('base64url');
+      logger.warn('DASHBOARD_PASSWORD is not set - using a one-off password for this run');
+      console.log('\n' + '='.repeat(50));
+      console.log(`  Dashboard password (this run only): ${this.password}`);
+      console.log('  Set DASHBOARD_PASSWORD in .env to choose your own');
+      console.log('='.repeat(50) + '\n');
+    }
+
+    try {
+      const removed = deleteExpiredDashboardSessions(now());
+      if (removed > 0) {
+        logger.info(`Removed ${removed} expired dashboard session(s)`);
+      }
+    } catch (error) {
+      logger.error('Failed to clean up dashboard sessions', error);
+    }
+  }
+
+  // Whether this client address has used up its failed logins for now
+  isLockedOut(address: string): boolean {
+    const entry = this.failedLogins.get(address);
+    if (!entry) return false;
+    if (getClock().now() - entry.since > FAILED_LOGIN_WINDOW_MS) {
+      this.failedLogins.delete(address);
+      return false;
+    }
+    return entry.count >= MAX_FAILED_LOGINS;
+  }
+
+  private recordFailedLogin(address: string): void {
+    const entry = this.failedLogins.get(address);
+    if (entry && getClock().now() - entry.since <= FAILED_LOGIN_WINDOW_MS) {
+      entry.count++;
+    } else {
+      this.failedLogins.set(address, { count: 1, since: getClock().now() });
+    }
+    logger.warn('Failed dashboard login', { address });
+  }
+
+  // Send a fresh one-time code to the account's self-chat (one at a time; a new one replaces the old)
+  // Call inside the account's scope, so sendLoginCode goes through that account's WhatsApp
+  async requestLoginCode(account: string): Promise<LoginCodeResult> {
+    const nowMs = getClock().now();
+    const pending = this.loginCodes.get(account);
+    if (pending && nowMs - pending.sentAt < LOGIN_CODE_RESEND_MS) {
+      return 'too_soon';
+    }
+
+    const code = randomInt(0, 1_000_000).toString().padStart(6, '0');
+    if (!(await this.sendLoginCode(code))) {
+      return 'unavailable';
+    }
+
+    this.loginCodes.set(account, { code, expiresAt: nowMs + LOGIN_CODE_TTL_MS, sentAt: nowMs, tries: 0 });
+    logger.info('Dashboard login code sent to WhatsApp', { account });
+    return 'sent';
+  }
+
+  /**
+   * Check a password, or the login code sent to `account`; returns the new session's cookie value, or null if it was wrong
+   */
+  login(address: string, credentials: { password?: string; code?: string; account: string }): { token: string; maxAgeMs: number } | null {
+    let method: DashboardLoginMethod | null = null;
+    let accountKey: string | null = null;
+
+    const loginCode = this.loginCodes.get(credentials.account);
+    if (credentials.password && secretsMatch(credentials.password, this.password)) {
+      method = 'password';
+    } else if (credentials.code && loginCode) {
+      loginCode.tries++;
+      if (getClock().now() > loginCode.expiresAt || loginCode.tries > LOGIN_CODE_MAX_TRIES) {
+        this.loginCodes.delete(credentials.account);
+      } else if (secretsMatch(credentials.code.trim(), loginCode.code)) {
+        this.loginCodes.delete(credentials.account);
+        method = 'whatsapp_code';
+        accountKey = credentials.account;
+      }
+    }
+
+    if (!method) {
+      this.recordFailedLogin(address);
+      return null;
+    }
+
+    this.failedLogins.delete(address);
+    const token = randomBytes(32).toString('base64url');
+    createDashboardSession(hashSecret(token), randomBytes(24).toString('base64url'), method, accountKey, new Date(getClock().now() + SESSION_TTL_MS));
+    logger.info('Dashboard login', { method, address, account: accountKey ?? 'all' });
+    return { token, maxAgeMs: SESSION_TTL_MS };
+  }
+
+  logout(sessionToken: string): void {
+    try {
+      deleteDashboardSession(hashSecret(sessionToken));
+    } catch (error) {
+      logger.error('Failed to delete dashboard session', error);
+    }
+  }
+
+  /**
+   * Identify a request from its Authorization: Bearer header (API token) or session cookie
+   * null = not logged in (or the database couldn't be read)
+   */
+  authenticate(authorization: string | undefined, cookieHeader: string | undefined): Caller | null {
+    try {
+      const bearer = /^Bearer\s+(\S+)$/i.exec(authorization ?? '')?.[1];
+      if (bearer) {
+        const tokenHash = hashSecret(bearer);
+        const token = getApiTokenByHash(tokenHash);
+        if (!token) return null;
+        this.touch(tokenHash, () => touchApiToken(token.id, now()));
+        return { kind: 'token', id: token.id, name: token.name, permissions: token.permissions.filter(isPermission), accounts: token.accounts };
+      }
+
+      const sessionToken = parseCookies(cookieHeader)[SESSION_COOKIE];
+      if (!sessionToken) return null;
+
+      const sessionHash = hashSecret(sessionToken);
+      const session = getDashboardSession(sessionHash, now());
+      if (!session) return null;
+      this.touch(sessionHash, () => touchDashboardSession(session.id, now()));
+      return {
+        kind: 'session',
+        id: session.id,
+        csrfToken: session.csrfToken,
+        permissions: ALL_PERMISSIONS,
+        accounts: session.accountKey ? [session.accountKey] : null
+      };
+    } catch (error) {
+      logger.error('Failed to check dashboard credentials', error);
+      return null;
+    }
+  }
+
+  private touch(key: string, write: () => void): void {
+    const nowMs = getClock().now();
+    if (nowMs - (this.lastTouched.get(key) ?? 0) < TOUCH_INTERVAL_MS) return;
+    this.lastTouched.set(key, nowMs);
+    write();
+  }
+
+  // Session callers must echo their CSRF token on anything that changes state
+  hasValidCsrf(caller: Caller, header: string | undefined): boolean {
+    if (caller.kind !== 'session') return true;
+    return !!header && secretsMatch(header, caller.csrfToken);
+  }
+
+  // A new token is only returned here - just its hash is kept
+  createToken(name: string, permissions: CommandPermission[], accounts: string[] | null): { token: string; record: ApiTokenRecord } {
+    const token = `mcb_${randomBytes(32).toString('base64url')}`;
+    const record = createApiToken(name, hashSecret(token), permissions, accounts);
+    logger.info('API token created', { id: record.id, name, permissions, accounts: accounts ?? 'all' });
+    return { token, record };
+  }
+
+  // Tokens the caller could have created - a caller limited to some accounts doesn't see the others' tokens
+  listTokens(caller: Caller): ApiTokenRecord[] {
+    return getApiTokens().filter(token => canUseAccounts(caller, token.accounts));
+  }
+
+  revokeToken(id: number, caller: Caller): boolean {
+    if (!this.listTokens(caller).some(token => token.id === id)) {
+      return false;
+    }
+    const revoked = deleteApiToken(id);
+    if (revoked) {
+      logger.info('API token revoked', { id });
+    }
+    return revoked;
+  }
+
+  // Route guard: the caller (set by the /api middleware) must hold this permission
+  allow(permission: CommandPermission) {
+    return (_req: Request, res: Response, next: NextFunction): void => {
+      const caller = res.locals.caller as Caller | undefined;
+      if (!caller) {
+        res.status(401).json({ success: false, error: 'Not logged in' });
+        return;
+      }
+      if (!caller.permissions.includes(permission)) {
+        res.status(403).json({ success: false, error: `This token needs the "${permission}" permission` });
+        return;
+      }
+      next();
+    };
+  }
+}
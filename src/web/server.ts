@@ -1,26 +1,58 @@
 import express, { Request, Response } from 'express';
 import { createServer } from 'http';
-import { Server as SocketServer } from 'socket.io';
+import { Server as SocketServer, Socket } from 'socket.io';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 import { logger } from '../utils/logger.js';
-import { DailyTracker } from '../state/dailyTracker.js';
-import { Conversation, CouponType, IITM_MESSES } from '../conversation/types.js';
+import { DailyTracker, SessionSummary } from '../state/dailyTracker.js';
+import { getMealSessions, isMealName } from '../state/mealSessions.js';
+import { Conversation, CouponType, MessPreference } from '../conversation/types.js';
 import { getHistory, getTodayDeals, getStats, COUPONS_DIRECTORY, DealRecord } from '../state/history.js';
-import { getAuthState, logout, isClientReady, setEventCallbacks, requestPairingCode } from '../whatsapp/client.js';
+import { getSellerReputation } from '../state/sellerReputation.js';
+import { getSellerLists, addSellerToList, removeSellerFromLists } from '../state/sellerLists.js';
+import { PLAN_MODES, PlanMode, getWeeklyPlan, setWeeklyPlanEntry, addSkipDates, removeSkipDates } from '../state/weeklyPlan.js';
+import { MessInput, getMesses, getActiveMessNames, getMessById, findMess, createMess, updateMess, deleteMess, addMessAlias, removeMessAlias } from '../state/messRegistry.js';
+import { getAliasSuggestions, approveAliasSuggestion, dismissAliasSuggestion } from '../state/aliasSuggestions.js';
+import { getConfirmationHistory } from '../state/confirmations.js';
+import { CommandPermission, CommandResult } from '../commands/commandBus.js';
+import { Caller, DashboardAuth, SESSION_COOKIE, CSRF_HEADER, parseCookies, isPermission, canUseAccount, canUseAccounts } from './auth.js';
+import { getLLMUsageStats } from '../llm/llmClient.js';
+import { normalizeMessPreference } from '../utils/messPreference.js';
+import { getLocalDate } from '../utils/time.js';
+import { AccountScope, getAccountScope, runInAccount } from '../state/persistence.js';
+import { WhatsAppSession } from '../whatsapp/client.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
+// Mess names and aliases end up in chat menus and dashboard markup, so keep them to plain characters
+const MESS_NAME_PATTERN = /^[\p{L}\p{N} &.()-]+$/u;
+
+// Which account a request is for (the dashboard's account switcher); without it, the first account
+const ACCOUNT_HEADER = 'x-account';
+
+// Socket.IO rooms: everyone watching an account, and those of them allowed to see its WhatsApp QR / pairing codes
+function accountRoom(accountId: string): string {
+  return `account:${accountId}`;
+}
+
+function adminRoom(accountId: string): string {
+  return `account:${accountId}:admin`;
+}
+
+// Other sites allowed to call the API from a browser (e.g. DASHBOARD_ORIGINS=https://home.example.com); the dashboard's own origin always is
+function getAllowedOrigins(): string[] {
+  return (process.env.DASHBOARD_ORIGINS ?? '').split(',').map(o => o.trim().replace(/\/+$/, '')).filter(Boolean);
+}
+
 export interface WebServerCallbacks {
-  onStartSession: () => { startedSession: CouponType | null };
-  onStopSession: () => { stoppedSession: CouponType | null; nextSession: CouponType | null };
+  onCommand: (command: string, args: string[], permissions: CommandPermission[]) => Promise<CommandResult>;
+  listCommands: (permissions: CommandPermission[]) => Array<{ name: string; aliases: string[]; usage: string; description: string }>;
+  onSendLoginCode: (code: string) => Promise<boolean>; // false = WhatsApp isn't connected
   onPauseSession: (type: CouponType) => { success: boolean; paused: boolean };
   onResumeSession: (type: CouponType) => { success: boolean; paused: boolean };
-  onSetPreference: (type: CouponType, messNames: string[] | null) => void;
-  onConfirmPurchase: () => void;
-  onDeclinePurchase: () => void;
-  onConfirmPayment: () => void;
+  onSetPreference: (type: CouponType, preference: MessPreference) => void;
   onToggleSessionStatus: (type: CouponType) => { newStatus: 'bought' | 'needed' };
+  onPlanChanged: (weekday: number | null, session: CouponType | null) => void; // null = skip ranges changed
   onSetBotActive: (active: boolean) => { success: boolean; error?: string };
   onLogout: () => Promise<void>;
   onRestart: () => Promise<void>;
@@ -29,13 +61,8 @@ export interface WebServerCallbacks {
   getStatus: () => {
     mode: string;
     dailyStatus: string;
-    lunchPreference: string[] | null;
-    dinnerPreference: string[] | null;
+    sessions: SessionSummary[];
     currentSession: CouponType | null;
-    lunchPaused: boolean;
-    dinnerPaused: boolean;
-    lunchBought: boolean;
-    dinnerBought: boolean;
     botActive: boolean;
   };
   getActiveConversations: () => Conversation[];
@@ -44,171 +71,660 @@ export interface WebServerCallbacks {
   getConversationMessages: (conversationId: string) => Array<{ id: string; sender: string; text: string; timestamp: Date; hasMedia?: boolean }>;
 }
 
+// One WhatsApp account as the dashboard sees it - requests for it run inside its scope
+export interface WebAccount {
+  id: string;
+  label: string;
+  scope: AccountScope;
+  whatsapp: WhatsAppSession;
+  callbacks: WebServerCallbacks;
+}
+
 export class WebServer {
   private app: express.Application;
   private server: ReturnType<typeof createServer>;
   private io: SocketServer;
-  private callbacks: WebServerCallbacks;
+  private accounts: WebAccount[];
   private port: number;
+  private auth: DashboardAuth;
+  private allowedOrigins: string[];
 
-  constructor(port: number, callbacks: WebServerCallbacks) {
+  constructor(port: number, accounts: WebAccount[]) {
     this.port = port;
-    this.callbacks = callbacks;
+    this.accounts = accounts;
+    this.auth = new DashboardAuth((code) => this.currentAccount().callbacks.onSendLoginCode(code));
+    this.allowedOrigins = getAllowedOrigins();
     this.app = express();
     this.server = createServer(this.app);
     this.io = new SocketServer(this.server, {
-      cors: {
-        origin: '*',
-        methods: ['GET', 'POST']
-      }
+      cors: this.allowedOrigins.length > 0
+        ? { origin: this.allowedOrigins, methods: ['GET', 'POST'], credentials: true }
+        : undefined,
+      // CORS doesn't cover WebSockets, so check the origin on the handshake too
+      allowRequest: (req, callback) => callback(null, this.isAllowedOrigin(req.headers.origin, req.headers.host))
     });
 
     this.setupRoutes();
     this.setupSocketHandlers();
   }
 
+  // No Origin (same-origin GET, scripts), the dashboard's own host, or one listed in DASHBOARD_ORIGINS
+  private isAllowedOrigin(origin: string | undefined, host: string | undefined): boolean {
+    if (!origin) return true;
+    try {
+      if (new URL(origin).host === host) return true;
+    } catch {
+      return false;
+    }
+    return this.allowedOrigins.includes(origin);
+  }
+
+  // The account asked for by id, out of `accounts`; no id = the first one
+  private findAccount(id: unknown, accounts: WebAccount[] = this.accounts): WebAccount | undefined {
+    if (id === undefined || id === null || id === '') return accounts[0];
+    return accounts.find(a => a.id === id);
+  }
+
+  // Accounts this login or token may act as (a WhatsApp code login only gets the account it was sent to)
+  private accountsFor(caller: Caller): WebAccount[] {
+    return this.accounts.filter(a => canUseAccount(caller, a.id));
+  }
+
+  // The account whose scope we're running in (a request, a socket event or one of the bots)
+  private currentAccount(): WebAccount {
+    const scope = getAccountScope();
+    return this.accounts.find(a => a.scope === scope) ?? this.accounts[0];
+  }
+
   private setupRoutes(): void {
-    // Serve static files
+    // Cross-origin browser calls only from DASHBOARD_ORIGINS (no CORS headers for anyone else)
+    this.app.use((req: Request, res: Response, next) => {
+      const origin = req.headers.origin;
+      if (origin && this.allowedOrigins.includes(origin)) {
+        res.setHeader('Access-Control-Allow-Origin', origin);
+        res.setHeader('Access-Control-Allow-Credentials', 'true');
+        res.setHeader('Access-Control-Allow-Headers', `Content-Type, Authorization, ${CSRF_HEADER}, ${ACCOUNT_HEADER}`);
+        res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE');
+        res.setHeader('Vary', 'Origin');
+        if (req.method === 'OPTIONS') {
+          res.sendStatus(204);
+          return;
+        }
+      }
+      next();
+    });
+
+    // Serve static files (the page itself holds no data - it logs in before loading anything)
     this.app.use(express.static(join(__dirname, 'public')));
     this.app.use(express.json());
 
+    // Dashboard login - the only API routes open without a session or token
+    this.app.get('/api/dashboard/session', (req: Request, res: Response) => {
+      const caller = this.auth.authenticate(req.headers.authorization, req.headers.cookie);
+      res.json({
+        authenticated: caller !== null,
+        csrfToken: caller?.kind === 'session' ? caller.csrfToken : null,
+        permissions: caller?.permissions ?? [],
+        // So the login page can ask which account's self-chat should get the code
+        accounts: this.accounts.length > 1 ? this.accounts.map(a => ({ id: a.id, label: a.label })) : []
+      });
+    });
+
+    this.app.post('/api/dashboard/login-code', async (req: Request, res: Response) => {
+      if (this.auth.isLockedOut(req.ip ?? '')) {
+        res.status(429).json({ success: false, error: 'Too many failed logins. Try again in 15 minutes.' });
+        return;
+      }
+      // The code goes to the self-chat of the account picked on the login page
+      const account = this.findAccount(req.body?.account);
+      if (!account) {
+        res.status(404).json({ success: false, error: 'Unknown account' });
+        return;
+      }
+      const result = await runInAccount(account.scope, () => this.auth.requestLoginCode(account.id));
+      if (result === 'too_soon') {
+        res.status(429).json({ success: false, error: 'A code was just sent - wait a minute before asking again.' });
+      } else if (result === 'unavailable') {
+        res.status(409).json({ success: false, error: 'WhatsApp isn\'t connected, so no code can be sent. Use the password.' });
+      } else {
+        res.json({ success: true, message: 'Code sent to your WhatsApp chat with yourself.' });
+      }
+    });
+
+    this.app.post('/api/dashboard/login', (req: Request, res: Response) => {
+      const address = req.ip ?? '';
+      if (this.auth.isLockedOut(address)) {
+        res.status(429).json({ success: false, error: 'Too many failed logins. Try again in 15 minutes.' });
+        return;
+      }
+
+      // A code only logs in to the account whose self-chat it was sent to
+      const { password, code } = req.body ?? {};
+      const session = this.auth.login(address, {
+        password: typeof password === 'string' ? password : undefined,
+        code: typeof code === 'string' ? code : undefined,
+        account: this.findAccount(req.body?.account)?.id ?? ''
+      });
+      if (!session) {
+        res.status(401).json({ success: false, error: 'Wrong password or code' });
+        return;
+      }
+
+      res.cookie(SESSION_COOKIE, session.token, {
+        httpOnly: true,
+        sameSite: 'strict',
+        secure: req.secure || req.headers['x-forwarded-proto'] === 'https',
+        maxAge: session.maxAgeMs,
+        path: '/'
+      });
+      res.json({ success: true });
+    });
+
+    this.app.post('/api/dashboard/logout', (req: Request, res: Response) => {
+      const token = parseCookies(req.headers.cookie)[SESSION_COOKIE];
+      if (token) {
+        this.auth.logout(token);
+      }
+      res.clearCookie(SESSION_COOKIE, { path: '/' });
+      res.json({ success: true });
+    });
+
+    // Everything else needs a session or an API token, and session changes need the CSRF token
+    this.app.use(['/api', '/coupons'], (req: Request, res: Response, next) => {
+      const caller = this.auth.authenticate(req.headers.authorization, req.headers.cookie);
+      if (!caller) {
+        res.status(401).json({ success: false, error: 'Not logged in' });
+        return;
+      }
+      if (!['GET', 'HEAD'].includes(req.method) && !this.auth.hasValidCsrf(caller, req.get(CSRF_HEADER))) {
+        res.status(403).json({ success: false, error: 'Missing or invalid CSRF token - reload the dashboard' });
+        return;
+      }
+      res.locals.caller = caller;
+      next();
+    });
+
+    // Pick the account (X-Account header, or ?account= for image links) and handle the rest of the request as it
+    // Only accounts the caller's login or token covers; no account asked for = the first of those
+    this.app.use(['/api', '/coupons'], (req: Request, res: Response, next) => {
+      const requested = req.get(ACCOUNT_HEADER) ?? req.query.account;
+      const account = this.findAccount(requested, this.accountsFor(res.locals.caller as Caller));
+      if (!account) {
+        const known = this.findAccount(requested) !== undefined;
+        res.status(known ? 403 : 404).json({ success: false, error: known ? 'This login can\'t use that account' : 'Unknown account' });
+        return;
+      }
+      runInAccount(account.scope, () => next());
+    });
+
+    // Accounts for the switcher, with whether each one's WhatsApp is logged in
+    this.app.get('/api/accounts', this.auth.allow('view'), (_req: Request, res: Response) => {
+      res.json({
+        current: this.currentAccount().id,
+        accounts: this.accountsFor(res.locals.caller as Caller).map(a => {
+          const authState = a.whatsapp.getAuthState();
+          return {
+            id: a.id,
+            label: a.label,
+            isLoggedIn: authState.isReady,
+            userPhone: authState.userPhone ? this.maskPhone(authState.userPhone) : null,
+            botActive: runInAccount(a.scope, () => a.callbacks.getStatus().botActive)
+          };
+        })
+      });
+    });
+
+    // API tokens for scripts: each holds only the permissions it was created with
+    this.app.get('/api/dashboard/tokens', this.auth.allow('admin'), (_req: Request, res: Response) => {
+      res.json({ tokens: this.auth.listTokens(res.locals.caller as Caller) });
+    });
+
+    this.app.post('/api/dashboard/tokens', this.auth.allow('admin'), (req: Request, res: Response) => {
+      const caller = res.locals.caller as Caller;
+      const { name, permissions, accounts } = req.body ?? {};
+      if (typeof name !== 'string' || !name.trim()) {
+        res.status(400).json({ success: false, error: 'name is required' });
+        return;
+      }
+      if (!Array.isArray(permissions) || permissions.length === 0 || !permissions.every(isPermission)) {
+        res.status(400).json({ success: false, error: 'permissions must be a list of: view, control, payments, admin' });
+        return;
+      }
+
+      // No accounts = the caller's own (every account for a password login)
+      let tokenAccounts = caller.accounts;
+      if (accounts !== undefined && accounts !== null) {
+        if (!Array.isArray(accounts) || accounts.length === 0 || !accounts.every(id => this.accounts.some(a => a.id === id))) {
+          res.status(400).json({ success: false, error: 'accounts must be a list of account ids' });
+          return;
+        }
+        tokenAccounts = [...new Set(accounts as string[])];
+      }
+      if (!canUseAccounts(caller, tokenAccounts)) {
+        res.status(403).json({ success: false, error: 'A token can only use the accounts your login can' });
+        return;
+      }
+
+      const { token, record } = this.auth.createToken(name.trim(), [...new Set(permissions as CommandPermission[])], tokenAccounts);
+      res.json({ success: true, token, record });
+    });
+
+    this.app.delete('/api/dashboard/tokens/:id', this.auth.allow('admin'), (req: Request, res: Response) => {
+      if (!this.auth.revokeToken(parseInt(req.params.id as string, 10), res.locals.caller as Caller)) {
+        res.status(404).json({ success: false, error: 'Token not found' });
+        return;
+      }
+      res.json({ success: true });
+    });
+
     // API Routes
-    this.app.get('/api/status', (_req: Request, res: Response) => {
-      const status = this.callbacks.getStatus();
-      const conversations = this.callbacks.getActiveConversations();
-      const pendingConfirm = this.callbacks.getPendingConfirmation();
-      const pendingPayment = this.callbacks.getPendingPayment();
+    this.app.get('/api/status', this.auth.allow('view'), (_req: Request, res: Response) => {
+      const { id, callbacks } = this.currentAccount();
+      const status = callbacks.getStatus();
+      const conversations = this.withSellerReputation(callbacks.getActiveConversations());
+      const pendingConfirm = callbacks.getPendingConfirmation();
+      const pendingPayment = callbacks.getPendingPayment();
 
       res.json({
         ...status,
+        account: id,
         activeConversations: conversations,
         pendingConfirmation: pendingConfirm.conversation,
         pendingPayment: pendingPayment.conversation,
-        messes: IITM_MESSES
+        messes: getActiveMessNames()
       });
     });
 
-    this.app.post('/api/start', (_req: Request, res: Response) => {
-      const result = this.callbacks.onStartSession();
-      this.broadcastStatus();
-      res.json(result);
+    // Any command the self-chat and terminal understand: { "command": "stop" } or { "command": "pause", "args": ["lunch"] }
+    this.app.post('/api/command', this.auth.allow('view'), async (req: Request, res: Response) => {
+      const { command, args } = req.body ?? {};
+      if (typeof command !== 'string' || !command.trim()) {
+        res.status(400).json({ error: 'command is required' });
+        return;
+      }
+      if (args !== undefined && (!Array.isArray(args) || !args.every(a => typeof a === 'string'))) {
+        res.status(400).json({ error: 'args must be a list of strings' });
+        return;
+      }
+      await this.runCommand(res, command.trim(), args ?? []);
     });
 
-    this.app.post('/api/stop', (_req: Request, res: Response) => {
-      const result = this.callbacks.onStopSession();
-      this.broadcastStatus();
-      res.json(result);
+    this.app.get('/api/commands', this.auth.allow('view'), (_req: Request, res: Response) => {
+      res.json({ commands: this.currentAccount().callbacks.listCommands((res.locals.caller as Caller).permissions) });
     });
 
-    // Pause/Resume specific session (lunch or dinner)
-    this.app.post('/api/session/:type/pause', (req: Request, res: Response) => {
+    this.app.post('/api/start', this.auth.allow('control'), (_req: Request, res: Response) => this.runCommand(res, 'start'));
+    this.app.post('/api/stop', this.auth.allow('control'), (_req: Request, res: Response) => this.runCommand(res, 'stop'));
+
+    // Pause/Resume a specific meal session
+    this.app.post('/api/session/:type/pause', this.auth.allow('control'), (req: Request, res: Response) => {
       const type = req.params.type as CouponType;
-      if (type !== 'lunch' && type !== 'dinner') {
-        res.status(400).json({ error: 'Invalid type. Must be lunch or dinner.' });
+      if (!isMealName(type)) {
+        res.status(400).json({ error: `Invalid type. Must be one of: ${getMealSessions().map(s => s.name).join(', ')}.` });
         return;
       }
-      const result = this.callbacks.onPauseSession(type);
+      const result = this.currentAccount().callbacks.onPauseSession(type);
       this.broadcastStatus();
       res.json(result);
     });
 
-    this.app.post('/api/session/:type/resume', (req: Request, res: Response) => {
+    this.app.post('/api/session/:type/resume', this.auth.allow('control'), (req: Request, res: Response) => {
       const type = req.params.type as CouponType;
-      if (type !== 'lunch' && type !== 'dinner') {
-        res.status(400).json({ error: 'Invalid type. Must be lunch or dinner.' });
+      if (!isMealName(type)) {
+        res.status(400).json({ error: `Invalid type. Must be one of: ${getMealSessions().map(s => s.name).join(', ')}.` });
         return;
       }
-      const result = this.callbacks.onResumeSession(type);
+      const result = this.currentAccount().callbacks.onResumeSession(type);
       this.broadcastStatus();
       res.json(result);
     });
 
-    this.app.post('/api/preference', (req: Request, res: Response) => {
-      const { type, messNames } = req.body;
-      if (!type || (type !== 'lunch' && type !== 'dinner')) {
+    this.app.post('/api/preference', this.auth.allow('control'), (req: Request, res: Response) => {
+      const { type, preferences, messNames } = req.body;
+      if (!isMealName(type)) {
         res.status(400).json({ error: 'Invalid type' });
         return;
       }
-      // Handle array of mess names (null or empty array means "any")
-      const preferences = messNames && messNames.length > 0 ? messNames : null;
-      this.callbacks.onSetPreference(type, preferences);
-      this.broadcastStatus();
-      res.json({ success: true });
-    });
-
-    this.app.post('/api/confirm', (_req: Request, res: Response) => {
-      this.callbacks.onConfirmPurchase();
-      this.broadcastStatus();
-      res.json({ success: true });
-    });
-
-    this.app.post('/api/decline', (_req: Request, res: Response) => {
-      this.callbacks.onDeclinePurchase();
+      // Ranked [{ mess, maxPrice? }] or a plain list of mess names (null or empty array means "any")
+      const preference = this.parseMessPreference(preferences ?? messNames);
+      if (preference === undefined) {
+        res.status(400).json({ error: 'Invalid preferences. Must be a list of known messes.' });
+        return;
+      }
+      this.currentAccount().callbacks.onSetPreference(type, preference);
       this.broadcastStatus();
       res.json({ success: true });
     });
 
-    this.app.post('/api/paid', (_req: Request, res: Response) => {
-      this.callbacks.onConfirmPayment();
-      this.broadcastStatus();
-      res.json({ success: true });
-    });
+    this.app.post('/api/confirm', this.auth.allow('payments'), (_req: Request, res: Response) => this.runCommand(res, 'ok'));
+    this.app.post('/api/decline', this.auth.allow('payments'), (_req: Request, res: Response) => this.runCommand(res, 'no'));
+    this.app.post('/api/paid', this.auth.allow('payments'), (_req: Request, res: Response) => this.runCommand(res, 'paid'));
 
-    this.app.post('/api/toggle/:type', (req: Request, res: Response) => {
+    this.app.post('/api/toggle/:type', this.auth.allow('control'), (req: Request, res: Response) => {
       const type = req.params.type as CouponType;
-      if (type !== 'lunch' && type !== 'dinner') {
-        res.status(400).json({ error: 'Invalid type. Must be lunch or dinner.' });
+      if (!isMealName(type)) {
+        res.status(400).json({ error: `Invalid type. Must be one of: ${getMealSessions().map(s => s.name).join(', ')}.` });
         return;
       }
-      const result = this.callbacks.onToggleSessionStatus(type);
+      const result = this.currentAccount().callbacks.onToggleSessionStatus(type);
       this.broadcastStatus();
       res.json({ success: true, type, newStatus: result.newStatus });
     });
 
     // Bot active ON/OFF switch
-    this.app.post('/api/bot-active', (req: Request, res: Response) => {
+    this.app.post('/api/bot-active', this.auth.allow('control'), (req: Request, res: Response) => {
       const { active } = req.body;
       if (typeof active !== 'boolean') {
         res.status(400).json({ error: 'Invalid active value. Must be boolean.' });
         return;
       }
-      const result = this.callbacks.onSetBotActive(active);
+      const result = this.currentAccount().callbacks.onSetBotActive(active);
       this.broadcastStatus();
       res.json(result);
     });
 
     // History API endpoints
-    this.app.get('/api/history', (req: Request, res: Response) => {
+    this.app.get('/api/history', this.auth.allow('view'), (req: Request, res: Response) => {
       const days = parseInt(req.query.days as string) || 30;
       const history = getHistory(days);
       res.json({ deals: history });
     });
 
-    this.app.get('/api/history/today', (_req: Request, res: Response) => {
+    this.app.get('/api/history/today', this.auth.allow('view'), (_req: Request, res: Response) => {
       const deals = getTodayDeals();
       res.json({ deals });
     });
 
-    this.app.get('/api/history/stats', (req: Request, res: Response) => {
+    this.app.get('/api/history/stats', this.auth.allow('view'), (req: Request, res: Response) => {
       const days = parseInt(req.query.days as string) || 30;
       const stats = getStats(days);
       res.json(stats);
     });
 
+    // LLM budget, queue and cache usage
+    this.app.get('/api/llm/stats', this.auth.allow('view'), (_req: Request, res: Response) => {
+      res.json(getLLMUsageStats());
+    });
+
+    // Seller blocklist / allowlist
+    this.app.get('/api/sellers', this.auth.allow('view'), (_req: Request, res: Response) => {
+      const lists = getSellerLists();
+      res.json({
+        blocklist: lists.blocklist.map(e => ({ ...e, reputation: getSellerReputation(e.sellerId) })),
+        allowlist: lists.allowlist.map(e => ({ ...e, reputation: getSellerReputation(e.sellerId) }))
+      });
+    });
+
+    this.app.post('/api/sellers', this.auth.allow('control'), (req: Request, res: Response) => {
+      const { sellerId, list, sellerName, reason } = req.body || {};
+      if (!sellerId || typeof sellerId !== 'string') {
+        res.status(400).json({ success: false, error: 'sellerId (WhatsApp ID or phone number) is required' });
+        return;
+      }
+      if (list !== 'block' && list !== 'allow') {
+        res.status(400).json({ success: false, error: 'Invalid list. Must be block or allow.' });
+        return;
+      }
+
+      const savedId = addSellerToList(sellerId, list, sellerName || undefined, reason || undefined);
+      if (!savedId) {
+        res.status(409).json({ success: false, error: 'Not logged in' });
+        return;
+      }
+
+      this.broadcastStatus();
+      res.json({ success: true, sellerId: savedId, list });
+    });
+
+    this.app.delete('/api/sellers/:sellerId', this.auth.allow('control'), (req: Request, res: Response) => {
+      const sellerId = req.params.sellerId as string;
+      const removed = removeSellerFromLists(sellerId);
+      if (!removed) {
+        res.status(404).json({ success: false, error: 'Seller is not on any list' });
+        return;
+      }
+
+      this.broadcastStatus();
+      res.json({ success: true });
+    });
+
+    // Weekly plan and skip ranges
+    this.app.get('/api/plan', this.auth.allow('view'), (_req: Request, res: Response) => {
+      const plan = getWeeklyPlan();
+      res.json({
+        sessions: getMealSessions().map(s => ({ name: s.name, label: s.label })),
+        messes: getActiveMessNames(),
+        ...plan
+      });
+    });
+
+    this.app.put('/api/plan/:weekday/:session', this.auth.allow('control'), (req: Request, res: Response) => {
+      const weekday = parseInt(req.params.weekday as string, 10);
+      const session = req.params.session as string;
+      const { mode, preferences, messNames, maxPrice } = req.body || {};
+      const preference = this.parseMessPreference(preferences ?? messNames);
+
+      if (isNaN(weekday) || weekday < 0 || weekday > 6) {
+        res.status(400).json({ success: false, error: 'Invalid weekday. Must be 0 (Sunday) to 6 (Saturday).' });
+        return;
+      }
+      if (!isMealName(session)) {
+        res.status(400).json({ success: false, error: `Invalid session. Must be one of: ${getMealSessions().map(s => s.name).join(', ')}.` });
+        return;
+      }
+      if (!PLAN_MODES.includes(mode)) {
+        res.status(400).json({ success: false, error: `Invalid mode. Must be one of: ${PLAN_MODES.join(', ')}.` });
+        return;
+      }
+      if (preference === undefined) {
+        res.status(400).json({ success: false, error: 'Invalid preferences. Must be a list of known messes.' });
+        return;
+      }
+      if (maxPrice != null && (typeof maxPrice !== 'number' || maxPrice <= 0)) {
+        res.status(400).json({ success: false, error: 'Invalid maxPrice. Must be a positive number.' });
+        return;
+      }
+
+      const saved = setWeeklyPlanEntry({
+        weekday,
+        session,
+        mode: mode as PlanMode,
+        messPreference: preference,
+        maxPrice: maxPrice ?? null
+      });
+      if (!saved) {
+        res.status(409).json({ success: false, error: 'Not logged in' });
+        return;
+      }
+
+      this.currentAccount().callbacks.onPlanChanged(weekday, session);
+      this.broadcastStatus();
+      res.json({ success: true });
+    });
+
+    this.app.post('/api/plan/skip-ranges', this.auth.allow('control'), (req: Request, res: Response) => {
+      const { startDate, endDate, label, session } = req.body || {};
+      const isDate = (value: unknown) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+      if (!isDate(startDate) || !isDate(endDate)) {
+        res.status(400).json({ success: false, error: 'startDate and endDate (YYYY-MM-DD) are required' });
+        return;
+      }
+      if (endDate < startDate) {
+        res.status(400).json({ success: false, error: 'endDate must not be before startDate' });
+        return;
+      }
+      if (session != null && !isMealName(session)) {
+        res.status(400).json({ success: false, error: `Invalid session. Must be one of: ${getMealSessions().map(s => s.name).join(', ')}` });
+        return;
+      }
+
+      const range = addSkipDates(startDate, endDate, typeof label === 'string' && label.trim() ? label.trim() : undefined, session ?? undefined);
+      if (!range) {
+        res.status(409).json({ success: false, error: 'Not logged in' });
+        return;
+      }
+
+      this.currentAccount().callbacks.onPlanChanged(null, null);
+      this.broadcastStatus();
+      res.json({ success: true, range });
+    });
+
+    this.app.delete('/api/plan/skip-ranges/:id', this.auth.allow('control'), (req: Request, res: Response) => {
+      const removed = removeSkipDates(parseInt(req.params.id as string, 10));
+      if (!removed) {
+        res.status(404).json({ success: false, error: 'Skip range not found' });
+        return;
+      }
+
+      this.currentAccount().callbacks.onPlanChanged(null, null);
+      this.broadcastStatus();
+      res.json({ success: true });
+    });
+
+    // Mess registry
+    this.app.get('/api/messes', this.auth.allow('view'), (_req: Request, res: Response) => {
+      const active = getActiveMessNames();
+      res.json({
+        messes: getMesses().map(m => ({ ...m, active: active.includes(m.name) })),
+        today: getLocalDate()
+      });
+    });
+
+    // Alias suggestions: unmatched words from sell posts and seller replies, grouped by the closest mess
+    this.app.get('/api/messes/suggestions', this.auth.allow('view'), (_req: Request, res: Response) => {
+      res.json({ groups: getAliasSuggestions() });
+    });
+
+    this.app.post('/api/messes/suggestions/:id/approve', this.auth.allow('control'), (req: Request, res: Response) => {
+      const { messId } = req.body || {};
+      if (messId != null && typeof messId !== 'number') {
+        res.status(400).json({ success: false, error: 'messId must be a number' });
+        return;
+      }
+
+      const error = approveAliasSuggestion(parseInt(req.params.id as string, 10), messId ?? undefined);
+      if (error) {
+        res.status(409).json({ success: false, error });
+        return;
+      }
+      res.json({ success: true });
+    });
+
+    this.app.post('/api/messes/suggestions/:id/dismiss', this.auth.allow('control'), (req: Request, res: Response) => {
+      const dismissed = dismissAliasSuggestion(parseInt(req.params.id as string, 10));
+      if (!dismissed) {
+        res.status(404).json({ success: false, error: 'Suggestion not found' });
+        return;
+      }
+      res.json({ success: true });
+    });
+
+    this.app.post('/api/messes', this.auth.allow('control'), (req: Request, res: Response) => {
+      const parsed = this.parseMessInput(req.body);
+      if ('error' in parsed) {
+        res.status(400).json({ success: false, error: parsed.error });
+        return;
+      }
+
+      const mess = createMess(parsed.input);
+      if (!mess) {
+        res.status(500).json({ success: false, error: 'Failed to save mess' });
+        return;
+      }
+
+      this.broadcastStatus();
+      res.json({ success: true, mess });
+    });
+
+    this.app.put('/api/messes/:id', this.auth.allow('control'), (req: Request, res: Response) => {
+      const id = parseInt(req.params.id as string, 10);
+      if (!getMessById(id)) {
+        res.status(404).json({ success: false, error: 'Mess not found' });
+        return;
+      }
+
+      const parsed = this.parseMessInput(req.body, id);
+      if ('error' in parsed) {
+        res.status(400).json({ success: false, error: parsed.error });
+        return;
+      }
+
+      if (!updateMess(id, parsed.input)) {
+        res.status(500).json({ success: false, error: 'Failed to save mess' });
+        return;
+      }
+
+      this.broadcastStatus();
+      res.json({ success: true, mess: getMessById(id) });
+    });
+
+    this.app.delete('/api/messes/:id', this.auth.allow('control'), (req: Request, res: Response) => {
+      const removed = deleteMess(parseInt(req.params.id as string, 10));
+      if (!removed) {
+        res.status(404).json({ success: false, error: 'Mess not found' });
+        return;
+      }
+
+      this.broadcastStatus();
+      res.json({ success: true });
+    });
+
+    this.app.post('/api/messes/:id/aliases', this.auth.allow('control'), (req: Request, res: Response) => {
+      const id = parseInt(req.params.id as string, 10);
+      const alias = typeof req.body?.alias === 'string' ? req.body.alias.trim().toLowerCase() : '';
+      if (!alias || !MESS_NAME_PATTERN.test(alias)) {
+        res.status(400).json({ success: false, error: 'alias is required (letters, numbers, spaces and & . ( ) -)' });
+        return;
+      }
+      if (!getMessById(id)) {
+        res.status(404).json({ success: false, error: 'Mess not found' });
+        return;
+      }
+
+      const taken = findMess(alias);
+      if (taken) {
+        res.status(409).json({ success: false, error: `"${alias}" already refers to ${taken.name}` });
+        return;
+      }
+
+      if (!addMessAlias(id, alias)) {
+        res.status(500).json({ success: false, error: 'Failed to save alias' });
+        return;
+      }
+      res.json({ success: true, mess: getMessById(id) });
+    });
+
+    this.app.delete('/api/messes/:id/aliases/:alias', this.auth.allow('control'), (req: Request, res: Response) => {
+      const id = parseInt(req.params.id as string, 10);
+      const removed = removeMessAlias(id, req.params.alias as string);
+      if (!removed) {
+        res.status(404).json({ success: false, error: 'Alias not found' });
+        return;
+      }
+      res.json({ success: true, mess: getMessById(id) });
+    });
+
     // Get conversation messages (chat history)
-    this.app.get('/api/conversation/:id/messages', (req: Request, res: Response) => {
+    this.app.get('/api/conversation/:id/messages', this.auth.allow('view'), (req: Request, res: Response) => {
       const conversationId = req.params.id as string;
-      const messages = this.callbacks.getConversationMessages(conversationId);
+      const messages = this.currentAccount().callbacks.getConversationMessages(conversationId);
       res.json({ messages });
     });
 
+    // Prompts the user answered for a conversation, with the channel each answer came from
+    this.app.get('/api/conversation/:id/confirmations', this.auth.allow('view'), (req: Request, res: Response) => {
+      const conversationId = req.params.id as string;
+      res.json({ confirmations: getConfirmationHistory(conversationId) });
+    });
+
     // Manually mark conversation as completed (successful deal)
-    this.app.post('/api/conversation/:id/complete', async (req: Request, res: Response) => {
+    this.app.post('/api/conversation/:id/complete', this.auth.allow('payments'), async (req: Request, res: Response) => {
       const conversationId = req.params.id as string;
       logger.info('Manual complete requested', { conversationId });
 
       try {
-        const result = await this.callbacks.onManualComplete(conversationId);
+        const result = await this.currentAccount().callbacks.onManualComplete(conversationId);
         this.broadcastStatus();
 
         if (result.success) {
@@ -223,13 +739,13 @@ export class WebServer {
     });
 
     // Manually mark conversation as failed
-    this.app.post('/api/conversation/:id/fail', async (req: Request, res: Response) => {
+    this.app.post('/api/conversation/:id/fail', this.auth.allow('payments'), async (req: Request, res: Response) => {
       const conversationId = req.params.id as string;
       const reason = req.body?.reason || 'Manually cancelled';
       logger.info('Manual fail requested', { conversationId, reason });
 
       try {
-        const result = await this.callbacks.onManualFail(conversationId, reason);
+        const result = await this.currentAccount().callbacks.onManualFail(conversationId, reason);
         this.broadcastStatus();
 
         if (result.success) {
@@ -244,11 +760,11 @@ export class WebServer {
     });
 
     // Serve coupon images
-    this.app.use('/coupons', express.static(COUPONS_DIRECTORY));
+    this.app.use('/coupons', this.auth.allow('view'), express.static(COUPONS_DIRECTORY));
 
     // Auth endpoints
-    this.app.get('/api/auth/status', (_req: Request, res: Response) => {
-      const authState = getAuthState();
+    this.app.get('/api/auth/status', this.auth.allow('view'), (_req: Request, res: Response) => {
+      const authState = this.currentAccount().whatsapp.getAuthState();
       res.json({
         isLoggedIn: authState.isReady,
         isAuthenticated: authState.isAuthenticated,
@@ -257,8 +773,8 @@ export class WebServer {
       });
     });
 
-    this.app.get('/api/auth/qr', (_req: Request, res: Response) => {
-      const authState = getAuthState();
+    this.app.get('/api/auth/qr', this.auth.allow('admin'), (_req: Request, res: Response) => {
+      const authState = this.currentAccount().whatsapp.getAuthState();
       if (authState.isReady) {
         res.json({ qr: null, message: 'Already logged in' });
       } else if (authState.currentQR) {
@@ -268,10 +784,10 @@ export class WebServer {
       }
     });
 
-    this.app.post('/api/auth/logout', async (_req: Request, res: Response) => {
+    this.app.post('/api/auth/logout', this.auth.allow('admin'), async (_req: Request, res: Response) => {
       try {
         logger.info('Logout requested via web dashboard');
-        await this.callbacks.onLogout();
+        await this.currentAccount().callbacks.onLogout();
         res.json({ success: true, message: 'Logged out successfully' });
       } catch (error) {
         logger.error('Logout failed', error);
@@ -280,7 +796,7 @@ export class WebServer {
     });
 
     // Request pairing code for phone number login
-    this.app.post('/api/auth/pairing-code', async (req: Request, res: Response) => {
+    this.app.post('/api/auth/pairing-code', this.auth.allow('admin'), async (req: Request, res: Response) => {
       try {
         const { phoneNumber } = req.body;
         if (!phoneNumber) {
@@ -289,14 +805,14 @@ export class WebServer {
         }
 
         // Check if already logged in
-        const authState = getAuthState();
+        const authState = this.currentAccount().whatsapp.getAuthState();
         if (authState.isReady) {
           res.status(400).json({ success: false, error: 'Already logged in. Logout first to use phone login.' });
           return;
         }
 
         logger.info('Pairing code requested', { phone: phoneNumber.substring(0, 5) + '****' });
-        const code = await requestPairingCode(phoneNumber);
+        const code = await this.currentAccount().whatsapp.requestPairingCode(phoneNumber);
 
         if (code) {
           res.json({ success: true, code });
@@ -322,27 +838,44 @@ export class WebServer {
     return '••••••' + phone.slice(-4);
   }
 
+  // Run a command on the shared bus; the dashboard buttons and /api/command both answer { success, message, ...data }
+  // A token can only run commands its permissions cover
+  private async runCommand(res: Response, command: string, args: string[] = []): Promise<void> {
+    const result = await this.currentAccount().callbacks.onCommand(command, args, (res.locals.caller as Caller).permissions);
+    this.broadcastStatus();
+    res.json({ success: result.ok, message: result.message, ...(result.data as object | undefined) });
+  }
+
   private setupSocketHandlers(): void {
+    // Same credentials as the API: the session cookie, or an API token with "view" passed as auth.token
+    this.io.use((socket, next) => {
+      const token = socket.handshake.auth?.token;
+      const caller = this.auth.authenticate(typeof token === 'string' ? `Bearer ${token}` : undefined, socket.request.headers.cookie);
+      if (!caller || !caller.permissions.includes('view') || this.accountsFor(caller).length === 0) {
+        next(new Error('unauthorized'));
+        return;
+      }
+      socket.data.caller = caller;
+      next();
+    });
+
     this.io.on('connection', (socket) => {
       logger.info('Web client connected', { socketId: socket.id });
 
-      // Send initial auth status
-      const authState = getAuthState();
-      socket.emit('auth', {
-        isLoggedIn: authState.isReady,
-        userPhone: authState.userPhone ? this.maskPhone(authState.userPhone) : null,
-        hasQR: !!authState.currentQR
-      });
-
-      // Send QR if available and not logged in
-      if (!authState.isReady && authState.currentQR) {
-        socket.emit('qr', { qr: authState.currentQR });
-      }
+      // Only accounts the caller's login or token covers
+      const allowed = this.accountsFor(socket.data.caller as Caller);
+      const account = this.findAccount(socket.handshake.auth?.account, allowed) ?? allowed[0];
+      this.watchAccount(socket, account);
 
-      // Send status only if logged in
-      if (authState.isReady) {
-        socket.emit('status', this.getFullStatus());
-      }
+      // The account switcher moves the socket to another account's room
+      socket.on('selectAccount', (accountId: unknown) => {
+        const next = this.findAccount(accountId, allowed);
+        if (next) {
+          this.watchAccount(socket, next);
+        } else {
+          logger.warn('Socket asked for an account its login can\'t use', { socketId: socket.id, accountId });
+        }
+      });
 
       socket.on('disconnect', () => {
         logger.debug('Web client disconnected', { socketId: socket.id });
@@ -350,62 +883,167 @@ export class WebServer {
     });
   }
 
-  // Setup WhatsApp event callbacks to broadcast to web clients
+  // Join this account's rooms (leaving any other account's) and send its current state
+  private watchAccount(socket: Socket, account: WebAccount): void {
+    for (const other of this.accounts) {
+      socket.leave(accountRoom(other.id));
+      socket.leave(adminRoom(other.id));
+    }
+
+    const caller = socket.data.caller as Caller;
+    socket.join(accountRoom(account.id));
+    if (caller.permissions.includes('admin')) {
+      socket.join(adminRoom(account.id));
+    }
+
+    // Send initial auth status
+    const authState = account.whatsapp.getAuthState();
+    socket.emit('auth', {
+      account: account.id,
+      isLoggedIn: authState.isReady,
+      userPhone: authState.userPhone ? this.maskPhone(authState.userPhone) : null,
+      hasQR: !!authState.currentQR
+    });
+
+    // Send QR if available and not logged in
+    if (!authState.isReady && authState.currentQR && caller.permissions.includes('admin')) {
+      socket.emit('qr', { account: account.id, qr: authState.currentQR });
+    }
+
+    // Send status only if logged in
+    if (authState.isReady) {
+      socket.emit('status', runInAccount(account.scope, () => this.getFullStatus()));
+    }
+  }
+
+  // Setup WhatsApp event callbacks to broadcast to the web clients watching each account
   setupWhatsAppCallbacks(): void {
-    setEventCallbacks({
-      onQR: (qr) => {
-        logger.info('Broadcasting QR code to web clients');
-        this.io.emit('qr', { qr });
-        this.io.emit('auth', { isLoggedIn: false, hasQR: true });
-      },
-      onAuthenticated: () => {
-        logger.info('Broadcasting authenticated status');
-        this.io.emit('auth', { isLoggedIn: false, isAuthenticated: true, message: 'Authenticated, loading...' });
-      },
-      onReady: (userPhone) => {
-        logger.info('Broadcasting ready status');
-        this.io.emit('auth', {
-          isLoggedIn: true,
-          userPhone: this.maskPhone(userPhone),
-          hasQR: false
-        });
-        this.io.emit('qr', { qr: null });
-        this.broadcastStatus();
-        this.broadcastNotification('success', 'Logged In', `Connected as ••••••${userPhone.slice(-4)}`);
-      },
-      onDisconnected: (reason) => {
-        logger.info('Broadcasting disconnected status', { reason });
-        this.io.emit('auth', { isLoggedIn: false, hasQR: false, message: 'Disconnected' });
-        this.broadcastNotification('warning', 'Disconnected', reason);
-      },
-      onAuthFailure: (msg) => {
-        logger.info('Broadcasting auth failure');
-        this.io.emit('auth', { isLoggedIn: false, hasQR: false, error: msg });
-        this.broadcastNotification('error', 'Auth Failed', msg);
-      },
-      onPairingCode: (code) => {
-        logger.info('Broadcasting pairing code to web clients');
-        this.io.emit('pairingCode', { code });
+    for (const account of this.accounts) {
+      const room = this.io.to(accountRoom(account.id));
+      const admins = this.io.to(adminRoom(account.id));
+      const inScope = <T extends unknown[]>(fn: (...args: T) => void) => (...args: T) => runInAccount(account.scope, () => fn(...args));
+
+      account.whatsapp.setEventCallbacks({
+        onQR: inScope((qr: string) => {
+          logger.info('Broadcasting QR code to web clients', { account: account.id });
+          admins.emit('qr', { account: account.id, qr });
+          room.emit('auth', { account: account.id, isLoggedIn: false, hasQR: true });
+        }),
+        onAuthenticated: inScope(() => {
+          logger.info('Broadcasting authenticated status', { account: account.id });
+          room.emit('auth', { account: account.id, isLoggedIn: false, isAuthenticated: true, message: 'Authenticated, loading...' });
+        }),
+        onReady: inScope((userPhone: string) => {
+          logger.info('Broadcasting ready status', { account: account.id });
+          room.emit('auth', {
+            account: account.id,
+            isLoggedIn: true,
+            userPhone: this.maskPhone(userPhone),
+            hasQR: false
+          });
+          room.emit('qr', { account: account.id, qr: null });
+          this.broadcastStatus();
+          this.broadcastNotification('success', 'Logged In', `Connected as ••••••${userPhone.slice(-4)}`);
+        }),
+        onDisconnected: inScope((reason: string) => {
+          logger.info('Broadcasting disconnected status', { account: account.id, reason });
+          room.emit('auth', { account: account.id, isLoggedIn: false, hasQR: false, message: 'Disconnected' });
+          this.broadcastNotification('warning', 'Disconnected', reason);
+        }),
+        onAuthFailure: inScope((msg: string) => {
+          logger.info('Broadcasting auth failure', { account: account.id });
+          room.emit('auth', { account: account.id, isLoggedIn: false, hasQR: false, error: msg });
+          this.broadcastNotification('error', 'Auth Failed', msg);
+        }),
+        onPairingCode: inScope((code: string) => {
+          logger.info('Broadcasting pairing code to web clients', { account: account.id });
+          admins.emit('pairingCode', { account: account.id, code });
+        })
+      });
+    }
+  }
+
+  // Validate a submitted preference - undefined if it's not a list or names an unknown mess
+  private parseMessPreference(value: unknown): MessPreference | undefined {
+    if (value == null) return null;
+    if (!Array.isArray(value)) return undefined;
+
+    const preference = normalizeMessPreference(value);
+    if (!preference) return null;
+
+    const choices: NonNullable<MessPreference> = [];
+    for (const choice of preference) {
+      const mess = findMess(choice.mess);
+      if (!mess) return undefined;
+      choices.push({ ...choice, mess: mess.name });
+    }
+    return choices;
+  }
+
+  // Validate a submitted mess - the name must not clash with another mess's name or alias
+  private parseMessInput(body: any, id?: number): { input: MessInput } | { error: string } {
+    const { name, fuzzyMatch, activeFrom, activeUntil, aliases } = body || {};
+    const isDate = (value: unknown) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+    if (typeof name !== 'string' || !name.trim()) {
+      return { error: 'name is required' };
+    }
+    if (!MESS_NAME_PATTERN.test(name.trim())) {
+      return { error: 'name may only contain letters, numbers, spaces and & . ( ) -' };
+    }
+    const clash = findMess(name);
+    if (clash && clash.id !== id) {
+      return { error: `"${name.trim()}" already refers to ${clash.name}` };
+    }
+    if ((activeFrom != null && !isDate(activeFrom)) || (activeUntil != null && !isDate(activeUntil))) {
+      return { error: 'activeFrom and activeUntil must be YYYY-MM-DD (or null)' };
+    }
+    if (activeFrom && activeUntil && activeUntil < activeFrom) {
+      return { error: 'activeUntil must not be before activeFrom' };
+    }
+    if (aliases != null && (!Array.isArray(aliases) || aliases.some((a: unknown) => typeof a !== 'string' || !MESS_NAME_PATTERN.test(a.trim())))) {
+      return { error: 'aliases must be a list of names (letters, numbers, spaces and & . ( ) -)' };
+    }
+
+    return {
+      input: {
+        name: name.trim(),
+        fuzzyMatch: fuzzyMatch !== false,
+        activeFrom: activeFrom || null,
+        activeUntil: activeUntil || null,
+        aliases: (aliases as string[] | undefined)?.map(a => a.trim().toLowerCase()).filter(a => a && !findMess(a))
       }
+    };
+  }
+
+  // Attach each seller's reputation score so the dashboard can show it next to their name
+  private withSellerReputation(conversations: Conversation[]) {
+    return conversations.map(c => {
+      const reputation = getSellerReputation(c.sellerId);
+      return { ...c, sellerReputation: { score: reputation.score, level: reputation.level } };
     });
   }
 
   private getFullStatus() {
-    const status = this.callbacks.getStatus();
-    const conversations = this.callbacks.getActiveConversations();
-    const pendingConfirm = this.callbacks.getPendingConfirmation();
-    const pendingPayment = this.callbacks.getPendingPayment();
+    const { id, callbacks } = this.currentAccount();
+    const status = callbacks.getStatus();
+    const conversations = this.withSellerReputation(callbacks.getActiveConversations());
+    const pendingConfirm = callbacks.getPendingConfirmation();
+    const pendingPayment = callbacks.getPendingPayment();
 
     return {
       ...status,
+      account: id,
       activeConversations: conversations,
       pendingConfirmation: pendingConfirm.conversation,
       pendingPayment: pendingPayment.conversation,
-      messes: IITM_MESSES,
+      messes: getActiveMessNames(),
       timestamp: new Date().toISOString()
     };
   }
 
+  // The broadcasts below go to the clients watching the account we're running as
+
   // Call this to broadcast status updates to all connected clients
   broadcastStatus(): void {
     const status = this.getFullStatus();
@@ -414,12 +1052,12 @@ export class WebServer {
       hasPendingPayment: !!status.pendingPayment,
       activeConversations: status.activeConversations?.length || 0
     });
-    this.io.emit('status', status);
+    this.broadcastEvent('status', status);
   }
 
   // Call this to send a log message to all clients
   broadcastLog(level: string, message: string, data?: any): void {
-    this.io.emit('log', {
+    this.broadcastEvent('log', {
       level,
       message,
       data,
@@ -429,7 +1067,11 @@ export class WebServer {
 
   // Call this when a notification should be shown
   broadcastNotification(type: 'info' | 'success' | 'warning' | 'error', title: string, message: string): void {
-    this.io.emit('notification', { type, title, message });
+    this.broadcastEvent('notification', { type, title, message });
+  }
+
+  broadcastEvent(event: string, data: unknown): void {
+    this.io.to(accountRoom(this.currentAccount().id)).emit(event, data);
   }
 
   start(): void {
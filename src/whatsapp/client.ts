@@ -2,537 +2,595 @@ import pkg from 'whatsapp-web.js';
 const { Client, LocalAuth, MessageMedia } = pkg;
 import qrcode from 'qrcode-terminal';
 import { rmSync, existsSync } from 'fs';
+import { join } from 'path';
 import { logger } from '../utils/logger.js';
 
-let whatsappClient: pkg.Client | null = null;
-let isAuthenticated = false;
-let isReady = false;
-let currentQR: string | null = null;
-let currentUserPhone: string | null = null;
-let storedMessageHandler: MessageHandler | null = null;
-let currentPairingCode: string | null = null;
-
-// Event callbacks for web integration
-let onQRCallback: ((qr: string) => void) | null = null;
-let onAuthenticatedCallback: (() => void) | null = null;
-let onReadyCallback: ((userPhone: string) => void) | null = null;
-let onDisconnectedCallback: ((reason: string) => void) | null = null;
-let onAuthFailureCallback: ((msg: string) => void) | null = null;
-let onPairingCodeCallback: ((code: string) => void) | null = null;
+// Where LocalAuth keeps every account's browser session
+const AUTH_DATA_PATH = '.wwebjs_auth';
 
 export type MessageHandler = (message: pkg.Message) => Promise<void>;
 
-// Set event callbacks
-export function setEventCallbacks(callbacks: {
+// Event callbacks for web integration
+export interface WhatsAppEventCallbacks {
   onQR?: (qr: string) => void;
   onAuthenticated?: () => void;
   onReady?: (userPhone: string) => void;
   onDisconnected?: (reason: string) => void;
   onAuthFailure?: (msg: string) => void;
   onPairingCode?: (code: string) => void;
-}): void {
-  onQRCallback = callbacks.onQR || null;
-  onAuthenticatedCallback = callbacks.onAuthenticated || null;
-  onReadyCallback = callbacks.onReady || null;
-  onDisconnectedCallback = callbacks.onDisconnected || null;
-  onAuthFailureCallback = callbacks.onAuthFailure || null;
-  onPairingCodeCallback = callbacks.onPairingCode || null;
 }
 
-// Get current auth state
-export function getAuthState(): {
-  isAuthenticated: boolean;
-  isReady: boolean;
-  currentQR: string | null;
-  userPhone: string | null;
-  pairingCode: string | null;
-} {
-  return {
-    isAuthenticated,
-    isReady,
-    currentQR: isReady ? null : currentQR,  // Don't expose QR if already logged in
-    userPhone: currentUserPhone,
-    pairingCode: isReady ? null : currentPairingCode
-  };
-}
+/**
+ * One WhatsApp Web login. Each configured account has its own, with its own LocalAuth clientId
+ * (so its own folder under .wwebjs_auth) and its own browser
+ */
+export class WhatsAppSession {
+  private client: pkg.Client | null = null;
+  private authenticated = false;
+  private ready = false;
+  private currentQR: string | null = null;
+  private currentUserPhone: string | null = null;
+  private storedMessageHandler: MessageHandler | null = null;
+  private currentPairingCode: string | null = null;
+  private callbacks: WhatsAppEventCallbacks = {};
+
+  // Listeners run on every 'ready' and whenever the connection comes back (used to backfill missed group posts)
+  // Kept outside setEventCallbacks so they survive client reinitialization
+  private connectionRestoredListeners: Array<() => void> = [];
+  private connectionLostListeners: Array<() => void> = [];
+  private lastConnectionState: string | null = null;
+
+  // clientId undefined = the single session folder used before accounts were configurable
+  constructor(private clientId: string | undefined) {}
+
+  onConnectionRestored(listener: () => void): void {
+    this.connectionRestoredListeners.push(listener);
+  }
 
-export async function initWhatsAppClient(onMessage: MessageHandler): Promise<pkg.Client> {
-  if (whatsappClient) {
-    return whatsappClient;
+  // Called when a working connection drops (state change or disconnect), before any restore
+  onConnectionLost(listener: () => void): void {
+    this.connectionLostListeners.push(listener);
   }
 
-  logger.info('Initializing WhatsApp client...');
-
-  // Store the message handler for potential reinitialization
-  storedMessageHandler = onMessage;
-
-  // Reset state
-  isAuthenticated = false;
-  isReady = false;
-  currentQR = null;
-  currentUserPhone = null;
-  currentPairingCode = null;
-
-  whatsappClient = new Client({
-    authStrategy: new LocalAuth({
-      dataPath: '.wwebjs_auth'
-    }),
-    puppeteer: {
-      headless: true,
-      args: [
-        '--no-sandbox',
-        '--disable-setuid-sandbox',
-        '--disable-dev-shm-usage',
-        '--disable-accelerated-2d-canvas',
-        '--no-first-run',
-        '--no-zygote',
-        '--disable-gpu'
-      ]
-    }
-  });
-
-  whatsappClient.on('qr', (qr) => {
-    logger.info('QR Code received - scan with WhatsApp');
-    currentQR = qr;
-    console.log('\n');
-    qrcode.generate(qr, { small: true });
-    console.log('\nScan this QR code with WhatsApp to login\n');
-
-    // Notify web frontend
-    if (onQRCallback) onQRCallback(qr);
-  });
-
-  whatsappClient.on('authenticated', () => {
-    logger.info('WhatsApp authenticated successfully');
-    isAuthenticated = true;
-    currentQR = null;
-
-    if (onAuthenticatedCallback) onAuthenticatedCallback();
-  });
-
-  whatsappClient.on('auth_failure', (msg) => {
-    logger.error('WhatsApp authentication failed', { message: msg });
-    isAuthenticated = false;
-    isReady = false;
-
-    if (onAuthFailureCallback) onAuthFailureCallback(msg);
-  });
-
-  whatsappClient.on('ready', () => {
-    logger.info('WhatsApp client is ready!');
-    isReady = true;
-    currentQR = null;
-
-    // Get the phone number
-    if (whatsappClient?.info?.wid) {
-      currentUserPhone = whatsappClient.info.wid.user;
-      logger.info('Logged in as', { phone: currentUserPhone });
+  private notifyConnectionRestored(): void {
+    for (const listener of this.connectionRestoredListeners) {
+      try {
+        listener();
+      } catch (error) {
+        logger.error('Connection restored listener failed', error);
+      }
     }
+  }
 
-    if (onReadyCallback && currentUserPhone) onReadyCallback(currentUserPhone);
-  });
+  private notifyConnectionLost(): void {
+    for (const listener of this.connectionLostListeners) {
+      try {
+        listener();
+      } catch (error) {
+        logger.error('Connection lost listener failed', error);
+      }
+    }
+  }
 
-  whatsappClient.on('disconnected', (reason) => {
-    logger.warn('WhatsApp disconnected', { reason });
-    isAuthenticated = false;
-    isReady = false;
-    currentUserPhone = null;
-    whatsappClient = null;
+  // Set event callbacks
+  setEventCallbacks(callbacks: WhatsAppEventCallbacks): void {
+    this.callbacks = { ...callbacks };
+  }
 
-    if (onDisconnectedCallback) onDisconnectedCallback(reason);
-  });
+  // Get current auth state
+  getAuthState(): {
+    isAuthenticated: boolean;
+    isReady: boolean;
+    currentQR: string | null;
+    userPhone: string | null;
+    pairingCode: string | null;
+  } {
+    return {
+      isAuthenticated: this.authenticated,
+      isReady: this.ready,
+      currentQR: this.ready ? null : this.currentQR,  // Don't expose QR if already logged in
+      userPhone: this.currentUserPhone,
+      pairingCode: this.ready ? null : this.currentPairingCode
+    };
+  }
 
-  // Handle incoming messages from others
-  whatsappClient.on('message', async (message) => {
-    try {
-      await onMessage(message);
-    } catch (error) {
-      logger.error('Error handling message', error);
+  async initialize(onMessage: MessageHandler): Promise<pkg.Client> {
+    if (this.client) {
+      return this.client;
     }
-  });
 
-  // Handle messages created by user (including self-messages for confirmations)
-  whatsappClient.on('message_create', async (message) => {
-    try {
-      // Only process messages sent by us (fromMe = true)
-      if (message.fromMe) {
-        await onMessage(message);
+    logger.info('Initializing WhatsApp client...', { session: this.clientId ?? 'default' });
+
+    // Store the message handler for potential reinitialization
+    this.storedMessageHandler = onMessage;
+
+    // Reset state
+    this.authenticated = false;
+    this.ready = false;
+    this.currentQR = null;
+    this.currentUserPhone = null;
+    this.currentPairingCode = null;
+
+    const client = new Client({
+      authStrategy: new LocalAuth({
+        clientId: this.clientId,
+        dataPath: AUTH_DATA_PATH
+      }),
+      puppeteer: {
+        headless: true,
+        args: [
+          '--no-sandbox',
+          '--disable-setuid-sandbox',
+          '--disable-dev-shm-usage',
+          '--disable-accelerated-2d-canvas',
+          '--no-first-run',
+          '--no-zygote',
+          '--disable-gpu'
+        ]
       }
-    } catch (error) {
-      logger.error('Error handling message_create', error);
-    }
-  });
+    });
+    this.client = client;
 
-  await whatsappClient.initialize();
+    client.on('qr', (qr) => {
+      logger.info('QR Code received - scan with WhatsApp', { session: this.clientId ?? 'default' });
+      this.currentQR = qr;
+      console.log('\n');
+      qrcode.generate(qr, { small: true });
+      console.log(`\nScan this QR code with WhatsApp to login${this.clientId ? ` (account "${this.clientId}")` : ''}\n`);
 
-  return whatsappClient;
-}
+      // Notify web frontend
+      this.callbacks.onQR?.(qr);
+    });
 
-// Logout and destroy session
-export async function logout(): Promise<void> {
-  logger.info('Logging out WhatsApp...');
+    client.on('authenticated', () => {
+      logger.info('WhatsApp authenticated successfully');
+      this.authenticated = true;
+      this.currentQR = null;
 
-  if (whatsappClient) {
-    try {
-      await whatsappClient.logout();
-    } catch (error) {
-      logger.warn('Error during logout, destroying client anyway', error);
-    }
+      this.callbacks.onAuthenticated?.();
+    });
 
-    try {
-      await whatsappClient.destroy();
-    } catch (error) {
-      logger.warn('Error destroying client', error);
-    }
-  }
+    client.on('auth_failure', (msg) => {
+      logger.error('WhatsApp authentication failed', { message: msg });
+      this.authenticated = false;
+      this.ready = false;
 
-  // Clear session files
-  const authPath = '.wwebjs_auth';
-  if (existsSync(authPath)) {
-    try {
-      rmSync(authPath, { recursive: true, force: true });
-      logger.info('Session files cleared');
-    } catch (error) {
-      logger.error('Failed to clear session files', error);
-    }
-  }
+      this.callbacks.onAuthFailure?.(msg);
+    });
 
-  // Reset state
-  whatsappClient = null;
-  isAuthenticated = false;
-  isReady = false;
-  currentQR = null;
-  currentUserPhone = null;
-  currentPairingCode = null;
+    client.on('ready', () => {
+      logger.info('WhatsApp client is ready!');
+      this.ready = true;
+      this.currentQR = null;
 
-  logger.info('Logout complete');
-}
+      // Get the phone number
+      if (client.info?.wid) {
+        this.currentUserPhone = client.info.wid.user;
+        logger.info('Logged in as', { phone: this.currentUserPhone });
+      }
 
-// Reinitialize the WhatsApp client (for new login after logout)
-// Returns a promise that resolves when the client is ready (after QR scan)
-export async function reinitializeClient(onReady?: () => void): Promise<pkg.Client | null> {
-  if (!storedMessageHandler) {
-    logger.error('Cannot reinitialize - no message handler stored');
-    return null;
-  }
+      if (this.currentUserPhone) this.callbacks.onReady?.(this.currentUserPhone);
 
-  logger.info('Reinitializing WhatsApp client for new session...');
+      this.lastConnectionState = 'CONNECTED';
+      this.notifyConnectionRestored();
+    });
 
-  // Make sure old client is cleaned up
-  whatsappClient = null;
+    // Connection dropped and came back without a full re-login (e.g. phone offline, network blip)
+    client.on('change_state', (state) => {
+      logger.info('WhatsApp connection state changed', { state });
+      const wasConnected = this.lastConnectionState === 'CONNECTED';
+      this.lastConnectionState = state;
+      if (state === 'CONNECTED' && !wasConnected && this.ready) {
+        this.notifyConnectionRestored();
+      } else if (state !== 'CONNECTED' && wasConnected) {
+        this.notifyConnectionLost();
+      }
+    });
 
-  // Store the onReady callback to be called when client is ready
-  if (onReady) {
-    const existingReadyCallback = onReadyCallback;
-    onReadyCallback = (userPhone: string) => {
-      // Call both the web callback and the bot callback
-      if (existingReadyCallback) existingReadyCallback(userPhone);
-      onReady();
-    };
-  }
+    client.on('disconnected', (reason) => {
+      logger.warn('WhatsApp disconnected', { reason });
+      if (this.ready) this.notifyConnectionLost();
+      this.authenticated = false;
+      this.ready = false;
+      this.currentUserPhone = null;
+      this.client = null;
+      this.lastConnectionState = null;
 
-  // Reinitialize with stored handler
-  return await initWhatsAppClient(storedMessageHandler);
-}
+      this.callbacks.onDisconnected?.(reason);
+    });
 
-// Request pairing code for phone number login
-export async function requestPairingCode(phoneNumber: string): Promise<string | null> {
-  if (!whatsappClient) {
-    logger.error('Cannot request pairing code - WhatsApp client not initialized');
-    return null;
-  }
+    // Handle incoming messages from others
+    client.on('message', async (message) => {
+      try {
+        await onMessage(message);
+      } catch (error) {
+        logger.error('Error handling message', error);
+      }
+    });
+
+    // Handle messages created by user (including self-messages for confirmations)
+    client.on('message_create', async (message) => {
+      try {
+        // Only process messages sent by us (fromMe = true)
+        if (message.fromMe) {
+          await onMessage(message);
+        }
+      } catch (error) {
+        logger.error('Error handling message_create', error);
+      }
+    });
+
+    await client.initialize();
 
-  if (isReady) {
-    logger.warn('Cannot request pairing code - already logged in');
-    return null;
+    return client;
   }
 
-  try {
-    // Clean the phone number - remove +, spaces, dashes, and ensure only digits
-    const cleanPhone = phoneNumber.replace(/[^\d]/g, '');
+  // Logout and destroy this account's session (other accounts' sessions are left alone)
+  async logout(): Promise<void> {
+    logger.info('Logging out WhatsApp...', { session: this.clientId ?? 'default' });
 
-    if (cleanPhone.length < 10) {
-      logger.error('Phone number too short', { length: cleanPhone.length });
-      return null;
+    if (this.client) {
+      try {
+        await this.client.logout();
+      } catch (error) {
+        logger.warn('Error during logout, destroying client anyway', error);
+      }
+
+      try {
+        await this.client.destroy();
+      } catch (error) {
+        logger.warn('Error destroying client', error);
+      }
+    }
+
+    // Clear session files (LocalAuth's folder for this clientId)
+    const authPath = join(AUTH_DATA_PATH, this.clientId ? `session-${this.clientId}` : 'session');
+    if (existsSync(authPath)) {
+      try {
+        rmSync(authPath, { recursive: true, force: true });
+        logger.info('Session files cleared');
+      } catch (error) {
+        logger.error('Failed to clear session files', error);
+      }
     }
 
-    logger.info('Requesting pairing code for phone number', { phone: cleanPhone.substring(0, 5) + '****' });
+    // Reset state
+    this.client = null;
+    this.authenticated = false;
+    this.ready = false;
+    this.currentQR = null;
+    this.currentUserPhone = null;
+    this.currentPairingCode = null;
+
+    logger.info('Logout complete');
+  }
 
-    // Check if requestPairingCode method exists
-    if (typeof whatsappClient.requestPairingCode !== 'function') {
-      logger.error('requestPairingCode method not available on this WhatsApp client version');
+  // Reinitialize the WhatsApp client (for new login after logout)
+  // Returns a promise that resolves when the client is ready (after QR scan)
+  async reinitialize(onReady?: () => void): Promise<pkg.Client | null> {
+    if (!this.storedMessageHandler) {
+      logger.error('Cannot reinitialize - no message handler stored');
       return null;
     }
 
-    // Get the puppeteer page to inject the missing callback
-    const page = (whatsappClient as any).pupPage;
-    if (!page) {
-      logger.error('Cannot access puppeteer page for pairing code');
-      return null;
+    logger.info('Reinitializing WhatsApp client for new session...');
+
+    // Make sure old client is cleaned up
+    this.client = null;
+
+    // Store the onReady callback to be called when client is ready
+    if (onReady) {
+      const existingReadyCallback = this.callbacks.onReady;
+      this.callbacks.onReady = (userPhone: string) => {
+        // Call both the web callback and the bot callback
+        existingReadyCallback?.(userPhone);
+        onReady();
+      };
     }
 
-    logger.info('Setting up pairing code callback...');
+    // Reinitialize with stored handler
+    return await this.initialize(this.storedMessageHandler);
+  }
 
-    // Inject the missing onCodeReceivedEvent function
-    await page.evaluate(() => {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const win = globalThis as any;
-      win.onCodeReceivedEvent = (code: string) => code;
-    });
+  // Request pairing code for phone number login
+  async requestPairingCode(phoneNumber: string): Promise<string | null> {
+    if (!this.client) {
+      logger.error('Cannot request pairing code - WhatsApp client not initialized');
+      return null;
+    }
 
-    // Request the pairing code from WhatsApp
-    logger.info('Calling requestPairingCode...');
+    if (this.ready) {
+      logger.warn('Cannot request pairing code - already logged in');
+      return null;
+    }
 
     try {
-      // Call with showNotification=true to get a notification on the phone
-      const code = await whatsappClient.requestPairingCode(cleanPhone, true);
+      // Clean the phone number - remove +, spaces, dashes, and ensure only digits
+      const cleanPhone = phoneNumber.replace(/[^\d]/g, '');
+
+      if (cleanPhone.length < 10) {
+        logger.error('Phone number too short', { length: cleanPhone.length });
+        return null;
+      }
 
-      if (code) {
-        currentPairingCode = code;
-        logger.info('Pairing code received successfully', { code });
+      logger.info('Requesting pairing code for phone number', { phone: cleanPhone.substring(0, 5) + '****' });
 
-        // Notify web frontend
-        if (onPairingCodeCallback) onPairingCodeCallback(code);
+      // Check if requestPairingCode method exists
+      if (typeof this.client.requestPairingCode !== 'function') {
+        logger.error('requestPairingCode method not available on this WhatsApp client version');
+        return null;
+      }
 
-        return code;
+      // Get the puppeteer page to inject the missing callback
+      const page = (this.client as any).pupPage;
+      if (!page) {
+        logger.error('Cannot access puppeteer page for pairing code');
+        return null;
       }
 
-      logger.warn('No pairing code returned');
-      return null;
-    } catch (innerError) {
-      logger.error('requestPairingCode threw error', { error: innerError });
-      throw innerError;
-    }
-  } catch (error) {
-    const errorMsg = error instanceof Error ? error.message : String(error);
-    logger.error('Failed to request pairing code', { error: errorMsg });
-    return null;
-  }
-}
+      logger.info('Setting up pairing code callback...');
 
-// Check if client is ready
-export function isClientReady(): boolean {
-  return isReady && whatsappClient !== null;
-}
+      // Inject the missing onCodeReceivedEvent function
+      await page.evaluate(() => {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const win = globalThis as any;
+        win.onCodeReceivedEvent = (code: string) => code;
+      });
 
-export function getClient(): pkg.Client | null {
-  return whatsappClient;
-}
+      // Request the pairing code from WhatsApp
+      logger.info('Calling requestPairingCode...');
 
-// Get the correct WhatsApp ID for sending messages to yourself
-export function getMyWhatsAppId(): string | null {
-  if (!whatsappClient || !whatsappClient.info) {
-    return null;
-  }
-  // Use the client's own wid for self-messaging
-  return whatsappClient.info.wid._serialized;
-}
+      try {
+        // Call with showNotification=true to get a notification on the phone
+        const code = await this.client.requestPairingCode(cleanPhone, true);
+
+        if (code) {
+          this.currentPairingCode = code;
+          logger.info('Pairing code received successfully', { code });
+
+          // Notify web frontend
+          this.callbacks.onPairingCode?.(code);
+
+          return code;
+        }
 
-export async function sendMessage(chatId: string, message: string): Promise<void> {
-  if (!whatsappClient) {
-    throw new Error('WhatsApp client not initialized');
+        logger.warn('No pairing code returned');
+        return null;
+      } catch (innerError) {
+        logger.error('requestPairingCode threw error', { error: innerError });
+        throw innerError;
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      logger.error('Failed to request pairing code', { error: errorMsg });
+      return null;
+    }
   }
 
-  try {
-    await whatsappClient.sendMessage(chatId, message);
-    logger.debug('Message sent', { chatId: chatId.substring(0, 15), messagePreview: message.substring(0, 30) });
-  } catch (error) {
-    logger.error('Failed to send message', { chatId, error });
-    throw error;
+  // Check if client is ready
+  isReady(): boolean {
+    return this.ready && this.client !== null;
   }
-}
 
-export async function sendMediaMessage(chatId: string, mediaBuffer: Buffer, caption: string, mimetype: string = 'image/jpeg'): Promise<void> {
-  if (!whatsappClient) {
-    throw new Error('WhatsApp client not initialized');
+  getClient(): pkg.Client | null {
+    return this.client;
   }
 
-  try {
-    const base64Data = mediaBuffer.toString('base64');
-    const media = new MessageMedia(mimetype, base64Data);
-    await whatsappClient.sendMessage(chatId, media, { caption });
-    logger.debug('Media message sent', { chatId: chatId.substring(0, 15), captionPreview: caption.substring(0, 30) });
-  } catch (error) {
-    logger.error('Failed to send media message', { chatId, error });
-    throw error;
+  // Get the correct WhatsApp ID for sending messages to yourself
+  getMyWhatsAppId(): string | null {
+    if (!this.client || !this.client.info) {
+      return null;
+    }
+    // Use the client's own wid for self-messaging
+    return this.client.info.wid._serialized;
   }
-}
 
-export async function getChats(): Promise<pkg.Chat[]> {
-  if (!whatsappClient) {
-    throw new Error('WhatsApp client not initialized');
+  async sendMessage(chatId: string, message: string): Promise<void> {
+    if (!this.client) {
+      throw new Error('WhatsApp client not initialized');
+    }
+
+    try {
+      await this.client.sendMessage(chatId, message);
+      logger.debug('Message sent', { chatId: chatId.substring(0, 15), messagePreview: message.substring(0, 30) });
+    } catch (error) {
+      logger.error('Failed to send message', { chatId, error });
+      throw error;
+    }
   }
-  return whatsappClient.getChats();
-}
 
-export async function getGroupChats(groupNames: string[]): Promise<pkg.Chat[]> {
-  const chats = await getChats();
-  const groups = chats.filter(chat =>
-    chat.isGroup && groupNames.some(name =>
-      chat.name.toLowerCase().includes(name.toLowerCase())
-    )
-  );
+  async sendMediaMessage(chatId: string, mediaBuffer: Buffer, caption: string, mimetype: string = 'image/jpeg'): Promise<void> {
+    if (!this.client) {
+      throw new Error('WhatsApp client not initialized');
+    }
 
-  logger.info('Found monitored groups', { count: groups.length, names: groups.map(g => g.name) });
-  return groups;
-}
+    try {
+      const base64Data = mediaBuffer.toString('base64');
+      const media = new MessageMedia(mimetype, base64Data);
+      await this.client.sendMessage(chatId, media, { caption });
+      logger.debug('Media message sent', { chatId: chatId.substring(0, 15), captionPreview: caption.substring(0, 30) });
+    } catch (error) {
+      logger.error('Failed to send media message', { chatId, error });
+      throw error;
+    }
+  }
 
-// Fetch recent messages from a chat and return any media buffers (images)
-// Returns images with most recent first
-// afterTimestamp: Only include messages sent after this time (for scoping to current conversation)
-export async function fetchChatMediaMessages(chatId: string, limit: number = 50, afterTimestamp?: Date): Promise<Buffer[]> {
-  if (!whatsappClient) {
-    logger.warn('WhatsApp client not initialized for chat media fetch');
-    return [];
+  async getChats(): Promise<pkg.Chat[]> {
+    if (!this.client) {
+      throw new Error('WhatsApp client not initialized');
+    }
+    return this.client.getChats();
   }
 
-  try {
-    logger.info('Fetching chat messages to scan for images', {
-      chatId: chatId.substring(0, 15),
-      limit,
-      afterTimestamp: afterTimestamp?.toISOString()
-    });
+  async getGroupChats(groupNames: string[]): Promise<pkg.Chat[]> {
+    const chats = await this.getChats();
+    const groups = chats.filter(chat =>
+      chat.isGroup && groupNames.some(name =>
+        chat.name.toLowerCase().includes(name.toLowerCase())
+      )
+    );
+
+    logger.info('Found monitored groups', { count: groups.length, names: groups.map(g => g.name) });
+    return groups;
+  }
 
-    const chat = await whatsappClient.getChatById(chatId);
-    if (!chat) {
-      logger.warn('Chat not found', { chatId: chatId.substring(0, 15) });
+  // Fetch recent messages from a chat and return any media buffers (images)
+  // Returns images with most recent first
+  // afterTimestamp: Only include messages sent after this time (for scoping to current conversation)
+  async fetchChatMediaMessages(chatId: string, limit: number = 50, afterTimestamp?: Date): Promise<Buffer[]> {
+    if (!this.client) {
+      logger.warn('WhatsApp client not initialized for chat media fetch');
       return [];
     }
 
-    const messages = await chat.fetchMessages({ limit });
-    logger.info('Fetched messages from chat', {
-      chatId: chatId.substring(0, 15),
-      totalMessages: messages.length
-    });
+    try {
+      logger.info('Fetching chat messages to scan for images', {
+        chatId: chatId.substring(0, 15),
+        limit,
+        afterTimestamp: afterTimestamp?.toISOString()
+      });
+
+      const chat = await this.client.getChatById(chatId);
+      if (!chat) {
+        logger.warn('Chat not found', { chatId: chatId.substring(0, 15) });
+        return [];
+      }
 
-    const mediaBuffers: Buffer[] = [];
-    let mediaMessagesFound = 0;
-    let skippedOldMessages = 0;
+      const messages = await chat.fetchMessages({ limit });
+      logger.info('Fetched messages from chat', {
+        chatId: chatId.substring(0, 15),
+        totalMessages: messages.length
+      });
 
-    // Process messages in reverse order (newest first)
-    const reversedMessages = [...messages].reverse();
+      const mediaBuffers: Buffer[] = [];
+      let mediaMessagesFound = 0;
+      let skippedOldMessages = 0;
 
-    // Convert afterTimestamp to Unix timestamp in seconds (WhatsApp uses seconds)
-    const afterTimestampSeconds = afterTimestamp ? Math.floor(afterTimestamp.getTime() / 1000) : 0;
+      // Process messages in reverse order (newest first)
+      const reversedMessages = [...messages].reverse();
 
-    for (const msg of reversedMessages) {
-      // Skip messages sent before the conversation started (if afterTimestamp is provided)
-      if (afterTimestamp && msg.timestamp < afterTimestampSeconds) {
-        skippedOldMessages++;
-        continue;
-      }
+      // Convert afterTimestamp to Unix timestamp in seconds (WhatsApp uses seconds)
+      const afterTimestampSeconds = afterTimestamp ? Math.floor(afterTimestamp.getTime() / 1000) : 0;
 
-      // Only check messages from the other person (not from us)
-      if (!msg.fromMe && msg.hasMedia) {
-        mediaMessagesFound++;
-        logger.debug('Found media message from seller', {
-          messageId: msg.id._serialized,
-          timestamp: msg.timestamp,
-          messageDate: new Date(msg.timestamp * 1000).toISOString()
-        });
+      for (const msg of reversedMessages) {
+        // Skip messages sent before the conversation started (if afterTimestamp is provided)
+        if (afterTimestamp && msg.timestamp < afterTimestampSeconds) {
+          skippedOldMessages++;
+          continue;
+        }
 
-        try {
-          const media = await msg.downloadMedia();
-          if (media && media.data && media.mimetype?.startsWith('image/')) {
-            const buffer = Buffer.from(media.data, 'base64');
-            mediaBuffers.push(buffer);
-            logger.info('Successfully downloaded image from chat', {
-              mimetype: media.mimetype,
-              imageIndex: mediaBuffers.length
-            });
-          }
-        } catch (mediaError) {
-          logger.warn('Failed to download media from message', {
+        // Only check messages from the other person (not from us)
+        if (!msg.fromMe && msg.hasMedia) {
+          mediaMessagesFound++;
+          logger.debug('Found media message from seller', {
             messageId: msg.id._serialized,
-            error: mediaError
+            timestamp: msg.timestamp,
+            messageDate: new Date(msg.timestamp * 1000).toISOString()
           });
+
+          try {
+            const media = await msg.downloadMedia();
+            if (media && media.data && media.mimetype?.startsWith('image/')) {
+              const buffer = Buffer.from(media.data, 'base64');
+              mediaBuffers.push(buffer);
+              logger.info('Successfully downloaded image from chat', {
+                mimetype: media.mimetype,
+                imageIndex: mediaBuffers.length
+              });
+            }
+          } catch (mediaError) {
+            logger.warn('Failed to download media from message', {
+              messageId: msg.id._serialized,
+              error: mediaError
+            });
+          }
         }
       }
-    }
 
-    logger.info('Chat scan complete', {
-      chatId: chatId.substring(0, 15),
-      mediaMessagesFound,
-      imagesDownloaded: mediaBuffers.length,
-      skippedOldMessages
-    });
+      logger.info('Chat scan complete', {
+        chatId: chatId.substring(0, 15),
+        mediaMessagesFound,
+        imagesDownloaded: mediaBuffers.length,
+        skippedOldMessages
+      });
 
-    return mediaBuffers; // Most recent images first
-  } catch (error) {
-    logger.error('Failed to fetch chat messages', { chatId: chatId.substring(0, 15), error });
-    return [];
+      return mediaBuffers; // Most recent images first
+    } catch (error) {
+      logger.error('Failed to fetch chat messages', { chatId: chatId.substring(0, 15), error });
+      return [];
+    }
   }
-}
 
-// Make a voice call to a WhatsApp number
-export async function makeCall(chatId: string): Promise<boolean> {
-  if (!whatsappClient) {
-    throw new Error('WhatsApp client not initialized');
-  }
+  // Make a voice call to a WhatsApp number
+  async makeCall(chatId: string): Promise<boolean> {
+    if (!this.client) {
+      throw new Error('WhatsApp client not initialized');
+    }
+
+    try {
+      logger.info('Attempting to make call', { chatId: chatId.substring(0, 15) });
 
-  try {
-    logger.info('Attempting to make call', { chatId: chatId.substring(0, 15) });
+      // Get the puppeteer page from the client
+      const page = (this.client as any).pupPage;
+      if (!page) {
+        logger.error('Could not access puppeteer page');
+        return false;
+      }
 
-    // Get the puppeteer page from the client
-    const page = (whatsappClient as any).pupPage;
-    if (!page) {
-      logger.error('Could not access puppeteer page');
-      return false;
-    }
+      // Use WhatsApp's internal API to make a call
+      // Note: This code runs in the browser context via puppeteer
+      const result = await page.evaluate(async (targetId: string) => {
+        try {
+          // Access WhatsApp's internal store (window.Store is injected by whatsapp-web.js)
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          const win = globalThis as any;
+          const store = win.Store;
+          if (!store) {
+            console.error('Store not available');
+            return { success: false, error: 'Store not available' };
+          }
 
-    // Use WhatsApp's internal API to make a call
-    // Note: This code runs in the browser context via puppeteer
-    const result = await page.evaluate(async (targetId: string) => {
-      try {
-        // Access WhatsApp's internal store (window.Store is injected by whatsapp-web.js)
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const win = globalThis as any;
-        const store = win.Store;
-        if (!store) {
-          console.error('Store not available');
-          return { success: false, error: 'Store not available' };
-        }
+          // Get the contact/chat
+          const wid = store.WidFactory.createWid(targetId);
+          if (!wid) {
+            return { success: false, error: 'Could not create WID' };
+          }
 
-        // Get the contact/chat
-        const wid = store.WidFactory.createWid(targetId);
-        if (!wid) {
-          return { success: false, error: 'Could not create WID' };
-        }
+          // Check if CallStore and call methods exist
+          if (store.Call && store.Call.callStart) {
+            await store.Call.callStart(wid, { isVideo: false });
+            return { success: true };
+          }
 
-        // Check if CallStore and call methods exist
-        if (store.Call && store.Call.callStart) {
-          await store.Call.callStart(wid, { isVideo: false });
-          return { success: true };
-        }
+          // Alternative method using Cmd
+          if (store.Cmd && store.Cmd.call) {
+            await store.Cmd.call(wid, false); // false = voice call
+            return { success: true };
+          }
 
-        // Alternative method using Cmd
-        if (store.Cmd && store.Cmd.call) {
-          await store.Cmd.call(wid, false); // false = voice call
-          return { success: true };
-        }
+          // Try using the modern call API
+          if (store.VoipStore && store.VoipStore.startCall) {
+            await store.VoipStore.startCall([wid], false);
+            return { success: true };
+          }
 
-        // Try using the modern call API
-        if (store.VoipStore && store.VoipStore.startCall) {
-          await store.VoipStore.startCall([wid], false);
-          return { success: true };
+          return { success: false, error: 'No call method available' };
+        } catch (err) {
+          const errorMsg = err instanceof Error ? err.message : String(err);
+          return { success: false, error: errorMsg };
         }
-
-        return { success: false, error: 'No call method available' };
-      } catch (err) {
-        const errorMsg = err instanceof Error ? err.message : String(err);
-        return { success: false, error: errorMsg };
+      }, chatId);
+
+      if (result.success) {
+        logger.info('Call initiated successfully', { chatId: chatId.substring(0, 15) });
+        return true;
+      } else {
+        logger.warn('Call failed', { error: result.error });
+        return false;
       }
-    }, chatId);
-
-    if (result.success) {
-      logger.info('Call initiated successfully', { chatId: chatId.substring(0, 15) });
-      return true;
-    } else {
-      logger.warn('Call failed', { error: result.error });
+    } catch (error) {
+      logger.error('Failed to make call', { chatId, error });
       return false;
     }
-  } catch (error) {
-    logger.error('Failed to make call', { chatId, error });
-    return false;
   }
 }
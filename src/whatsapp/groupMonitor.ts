@@ -3,11 +3,17 @@ import { detectSellMessage } from '../llm/messageParser.js';
 import { SellMessage, CouponType } from '../conversation/types.js';
 import { getConfig } from '../utils/config.js';
 import { logger } from '../utils/logger.js';
+import { getClock } from '../utils/clock.js';
+import { isSellerAllowlisted, isSellerBlocklisted } from '../state/sellerLists.js';
+import { getCurrentAccountId } from '../state/persistence.js';
+import { addProcessedMessage } from '../database/repositories/processedMessageRepository.js';
+import { getGroupCursor, advanceGroupCursor } from '../database/repositories/groupCursorRepository.js';
 
 export type SellMessageHandler = (sellMessage: SellMessage) => Promise<void>;
 
-// How many recent messages to scan per group
-const MESSAGES_TO_SCAN = 30;
+// Backfill fetches start at this many messages and double until they cover the gap
+const BACKFILL_PAGE_SIZE = 50;
+const MAX_BACKFILL_MESSAGES = 800;
 // Only consider messages from the last N minutes as "recent"
 const MAX_MESSAGE_AGE_MINUTES = 20;
 
@@ -16,12 +22,16 @@ export class GroupMonitor {
   private monitoredGroups: pkg.Chat[] = [];
   private processedMessageIds: Set<string>;
   private onSellMessage: SellMessageHandler;
-  private canProcessCoupon: (type: CouponType) => boolean;
+  private canProcessCoupon: (type: CouponType, senderId: string) => boolean;
+  private backfillInProgress: Promise<void> | null = null;
+  // Where each group's gap starts, taken when the connection dropped and not yet handed to a backfill
+  // While a gap is pending or being backfilled, live messages don't move the cursor past unread posts
+  private pendingGapStarts: Map<string, number> | null = null;
 
   constructor(
     processedMessageIds: Set<string>,
     onSellMessage: SellMessageHandler,
-    canProcessCoupon: (type: CouponType) => boolean
+    canProcessCoupon: (type: CouponType, senderId: string) => boolean
   ) {
     this.processedMessageIds = processedMessageIds;
     this.onSellMessage = onSellMessage;
@@ -34,102 +44,172 @@ export class GroupMonitor {
     logger.info('Monitoring groups', { count: groups.length, names: groups.map(g => g.name) });
   }
 
-  async scanExistingMessages(): Promise<void> {
-    logger.info(`Scanning messages from the last ${MAX_MESSAGE_AGE_MINUTES} minutes...`);
+  // Remember each group's cursor before live messages arrive again - call when the connection drops
+  markGapStart(): void {
+    if (this.pendingGapStarts) {
+      return;
+    }
+
+    this.pendingGapStarts = this.readCursors();
+    logger.debug('Group cursors saved until the next backfill', { groups: this.pendingGapStarts.size });
+  }
+
+  private readCursors(): Map<string, number> {
+    const accountId = getCurrentAccountId();
+    const cursors = new Map<string, number>();
+    for (const groupId of this.monitoredGroupIds) {
+      const cursor = accountId ? getGroupCursor(accountId, groupId) : null;
+      cursors.set(groupId, cursor?.getTime() ?? 0);
+    }
+    return cursors;
+  }
+
+  // Catch up on every monitored group - called on startup, on (re)connect and when the bot is switched on
+  // Concurrent calls share the same run; a gap that opened during the run gets another one after it
+  async backfillGaps(): Promise<void> {
+    if (this.backfillInProgress) {
+      return this.pendingGapStarts
+        ? this.backfillInProgress.then(() => this.backfillGaps())
+        : this.backfillInProgress;
+    }
 
-    const cutoffTime = Date.now() - (MAX_MESSAGE_AGE_MINUTES * 60 * 1000);
+    // Take every group's gap start now - later groups are only fetched after earlier ones finish
+    const gapStarts = this.pendingGapStarts ?? this.readCursors();
+    this.pendingGapStarts = null;
 
-    for (const group of this.monitoredGroups) {
+    this.backfillInProgress = (async () => {
       try {
-        logger.info(`Scanning group: ${group.name}`);
-        const messages = await group.fetchMessages({ limit: MESSAGES_TO_SCAN });
-
-        // Process messages from oldest to newest
-        const sortedMessages = messages.reverse();
-
-        for (const message of sortedMessages) {
-          // Skip if already processed
-          if (this.processedMessageIds.has(message.id._serialized)) {
-            continue;
-          }
-
-          // Skip old messages
-          const messageTime = message.timestamp * 1000;
-          if (messageTime < cutoffTime) {
-            continue;
-          }
-
-          // Skip our own messages
-          if (message.fromMe) {
-            continue;
-          }
-
-          // Skip media-only messages
-          if (!message.body || message.body.trim() === '') {
-            continue;
-          }
-
-          // Process the message
-          await this.processMessage(message, group);
+        for (const group of this.monitoredGroups) {
+          await this.backfillGroup(group, gapStarts.get(group.id._serialized));
         }
-      } catch (error) {
-        logger.error(`Failed to scan group: ${group.name}`, error);
+      } finally {
+        this.backfillInProgress = null;
       }
-    }
+    })();
 
-    logger.info('Finished scanning existing messages');
+    return this.backfillInProgress;
   }
 
-  async pollLatestMessages(): Promise<void> {
-    logger.info(`Polling messages from the last ${MAX_MESSAGE_AGE_MINUTES} minutes...`);
+  // Process everything posted in a group since the last message we saw there
+  // Sell posts older than MAX_MESSAGE_AGE_MINUTES are stale, so the gap never reaches further back than that
+  // gapStart is the group's cursor from before the gap (read now if the group was added since)
+  private async backfillGroup(group: pkg.Chat, gapStart: number | undefined): Promise<void> {
+    const groupId = group.id._serialized;
+    const maxAgeCutoff = getClock().now() - (MAX_MESSAGE_AGE_MINUTES * 60 * 1000);
+    if (gapStart === undefined) {
+      const accountId = getCurrentAccountId();
+      gapStart = (accountId ? getGroupCursor(accountId, groupId) : null)?.getTime() ?? 0;
+    }
+    const since = Math.max(gapStart, maxAgeCutoff);
 
-    const cutoffTime = Date.now() - (MAX_MESSAGE_AGE_MINUTES * 60 * 1000);
+    try {
+      const messages = await this.fetchMessagesSince(group, since);
 
-    for (const group of this.monitoredGroups) {
-      try {
-        // Fetch recent messages
-        const messages = await group.fetchMessages({ limit: MESSAGES_TO_SCAN });
-
-        // Process messages from oldest to newest
-        const sortedMessages = messages.reverse();
-        let processedCount = 0;
-
-        for (const message of sortedMessages) {
-          // Skip if already processed
-          if (this.processedMessageIds.has(message.id._serialized)) {
-            continue;
-          }
-
-          // Skip old messages
-          const messageTime = message.timestamp * 1000;
-          if (messageTime < cutoffTime) {
-            continue;
-          }
-
-          // Skip our own messages
-          if (message.fromMe) {
-            continue;
-          }
-
-          // Skip media-only messages
-          if (!message.body || message.body.trim() === '') {
-            continue;
-          }
-
-          // Process the message
-          await this.processMessage(message, group);
-          processedCount++;
+      let processedCount = 0;
+      for (const message of this.prioritizeAllowlisted(messages)) {
+        // Skip if already processed (live event or earlier backfill got here first)
+        if (this.processedMessageIds.has(message.id._serialized)) {
+          continue;
         }
 
-        if (processedCount > 0) {
-          logger.info(`Processed ${processedCount} new messages from ${group.name}`);
+        // Skip our own messages
+        if (message.fromMe) {
+          continue;
         }
-      } catch (error) {
-        logger.error(`Failed to poll group: ${group.name}`, error);
+
+        // Skip media-only messages
+        if (!message.body || message.body.trim() === '') {
+          continue;
+        }
+
+        await this.processMessage(message, group);
+        processedCount++;
       }
+
+      // Everything up to the newest fetched message has now been seen
+      const newest = messages[messages.length - 1];
+      if (newest) {
+        this.advanceCursor(groupId, newest);
+      }
+
+      logger.info(`Backfilled ${group.name}`, {
+        since: new Date(since).toISOString(),
+        fetched: messages.length,
+        processed: processedCount
+      });
+    } catch (error) {
+      logger.error(`Failed to backfill group: ${group.name}`, error);
     }
   }
 
+  // fetchMessages only supports "last N messages", so widen the window until it reaches back to `since`
+  // Returns messages at or after `since`, oldest first
+  private async fetchMessagesSince(group: pkg.Chat, since: number): Promise<pkg.Message[]> {
+    let limit = BACKFILL_PAGE_SIZE;
+    let messages: pkg.Message[] = [];
+
+    while (true) {
+      messages = (await group.fetchMessages({ limit })).sort((a, b) => a.timestamp - b.timestamp);
+
+      const oldest = messages[0];
+      const reachedSince = !oldest || oldest.timestamp * 1000 <= since;
+      const chatExhausted = messages.length < limit;
+      if (reachedSince || chatExhausted || limit >= MAX_BACKFILL_MESSAGES) {
+        if (!reachedSince && !chatExhausted) {
+          logger.warn('Backfill window capped, oldest part of the gap was skipped', { group: group.name, limit });
+        }
+        break;
+      }
+      limit *= 2;
+    }
+
+    // Same-second messages are kept - processed_messages de-duplicates them
+    return messages.filter(m => m.timestamp * 1000 >= since);
+  }
+
+  // Remember the newest message seen in a group so a reconnect only backfills the gap
+  private advanceCursor(groupId: string, message: pkg.Message): void {
+    const accountId = getCurrentAccountId();
+    if (!accountId) {
+      return;
+    }
+
+    try {
+      advanceGroupCursor(accountId, groupId, new Date(message.timestamp * 1000), message.id._serialized);
+    } catch (error) {
+      logger.warn('Failed to save group cursor', { groupId, error });
+    }
+  }
+
+  // Mark a message as handled - returns false if it was already handled (in memory or in processed_messages)
+  private markProcessed(messageId: string): boolean {
+    if (this.processedMessageIds.has(messageId)) {
+      return false;
+    }
+    this.processedMessageIds.add(messageId);
+
+    const accountId = getCurrentAccountId();
+    if (!accountId) {
+      return true;
+    }
+
+    try {
+      return addProcessedMessage(accountId, messageId);
+    } catch (error) {
+      logger.warn('Failed to record processed message', { messageId, error });
+      return true;
+    }
+  }
+
+  // Move posts from allowlisted sellers to the front, keeping order otherwise
+  private prioritizeAllowlisted(messages: pkg.Message[]): pkg.Message[] {
+    const allowlisted = messages.filter(m => !m.fromMe && isSellerAllowlisted(m.author || m.from));
+    if (allowlisted.length === 0) {
+      return messages;
+    }
+    return [...allowlisted, ...messages.filter(m => !allowlisted.includes(m))];
+  }
+
   private async processMessage(message: pkg.Message, chat: pkg.Chat): Promise<void> {
     // Skip our own messages
     if (message.fromMe) {
@@ -147,8 +227,17 @@ export class GroupMonitor {
       preview: message.body.substring(0, 50)
     });
 
-    // Mark as processed
-    this.processedMessageIds.add(message.id._serialized);
+    // Mark as processed (persisted right away so a restart mid-scan doesn't reply twice)
+    if (!this.markProcessed(message.id._serialized)) {
+      return;
+    }
+
+    // Never act on blocklisted sellers (skip before spending an LLM call)
+    const senderId = message.author || message.from;
+    if (isSellerBlocklisted(senderId)) {
+      logger.debug('Ignoring message from blocklisted seller', { group: chat.name, senderId });
+      return;
+    }
 
     // Detect if this is a sell message
     const detection = await detectSellMessage(message.body);
@@ -158,11 +247,13 @@ export class GroupMonitor {
         group: chat.name,
         couponType: detection.couponType,
         confidence: detection.confidence,
+        stage: detection.stage,
+        latencyMs: detection.latencyMs,
         message: message.body.substring(0, 100)
       });
 
       // Check if we need this type of coupon
-      if (!this.canProcessCoupon(detection.couponType)) {
+      if (!this.canProcessCoupon(detection.couponType, senderId)) {
         logger.info('Already have this coupon type, skipping', { couponType: detection.couponType });
         return;
       }
@@ -172,7 +263,7 @@ export class GroupMonitor {
 
       const sellMessage: SellMessage = {
         messageId: message.id._serialized,
-        senderId: message.author || message.from,
+        senderId,
         senderName: contact.pushname || contact.name || 'Unknown',
         groupId: chat.id._serialized,
         groupName: chat.name,
@@ -202,6 +293,10 @@ export class GroupMonitor {
       return;
     }
 
+    // The pending backfill moves the cursor once it has read the gap
+    if (!this.pendingGapStarts && !this.backfillInProgress) {
+      this.advanceCursor(chat.id._serialized, message);
+    }
     await this.processMessage(message, chat);
   }
 